@@ -3,7 +3,61 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { GoogleGenAI } from "@google/genai";
+import { createProvider } from './server/providers/index.js';
+import {
+  MAX_REPAIR_ATTEMPTS,
+  buildCritiqueSchema,
+  CritiqueValidationError,
+  buildRepairPrompt,
+  parsePartialJson,
+  parseStructured,
+  renderCritiqueMarkdown,
+  validateCritique,
+  validateScores,
+} from './server/critique.js';
+import {
+  VARIANT_IDS,
+  buildComparisonSchema,
+  renderComparisonMarkdown,
+  validateComparison,
+} from './server/comparison.js';
+import {
+  MAX_JOURNEY_SCREENS,
+  MIN_JOURNEY_SCREENS,
+  buildJourneySchema,
+  renderJourneyMarkdown,
+  validateJourney,
+} from './server/journey.js';
+import {
+  BUILT_IN_RUBRICS,
+  DEFAULT_RUBRIC,
+  MAX_RUBRIC_DIMENSIONS,
+  MIN_RUBRIC_DIMENSIONS,
+  RubricError,
+  applyRubricWeights,
+  describeRubric,
+  resolveRubric,
+} from './server/rubrics.js';
+import {
+  BUILT_IN_PERSONAS,
+  DEFAULT_PERSONAS,
+  MAX_PERSONAS,
+  MIN_PERSONAS,
+  PersonaError,
+  describePersonas,
+  resolvePersonas,
+} from './server/personas.js';
+import {
+  DesignSystemError,
+  describeDesignSystem,
+  describeOffPalette,
+  resolveDesignSystem,
+} from './server/designSystem.js';
+import { FigmaError, createFigmaClient, describeFigmaFrame } from './server/figma.js';
+import { CaptureError, createPageCapturer, describePageCapture } from './server/capture.js';
+import { PreviewError, compilePreviewAssets } from './server/preview.js';
+import { IngestError, MAX_OUTPUT_BYTES, MAX_UPLOAD_BYTES, designImageParts, ingestUpload, readImageDataUrl } from './server/ingest.js';
+import { createSessionStore, createSession, isValidSessionId } from './server/sessions/index.js';
 
 dotenv.config();
 
@@ -15,182 +69,840 @@ const PORT = process.env.PORT || 8080;
 
 // Middleware
 app.use(cors());
-app.use(express.json({ limit: '50mb' })); // Allow large images
+// Uploads arrive raw at /api/ingest; JSON bodies only carry the processed
+// images. The largest is a journey: every screen at the ingested size, in
+// base64, plus room for the context and critique.
+const JSON_BODY_LIMIT = Math.ceil(MAX_OUTPUT_BYTES * 4 / 3) * MAX_JOURNEY_SCREENS + 1024 * 1024;
+app.use(express.json({ limit: JSON_BODY_LIMIT }));
 
 // Serve static files from the React build
 app.use(express.static(path.join(__dirname, 'dist')));
 
-// --- GEMINI CONFIGURATION ---
-const SYSTEM_INSTRUCTION = `
+// --- MODEL INSTRUCTIONS ---
+// Built per request from the scoring rubric (see server/rubrics.js) and, for
+// single-design critiques, the reviewer personas (see server/personas.js) and
+// design system profile (see server/designSystem.js)
+const designExpertPreamble = (rubric) => `
 You are a world-class Senior Product Design Architect and UX Engineer. Your job is to critique and improve product designs based on an image and context provided.
 
-First, you must evaluate the design on 5 specific dimensions (0-10 scale) and calculate an overall score (0-100).
-The dimensions are:
-1. Information Architecture (Clarity of structure, grouping)
-2. Visual Hierarchy (Scanning path, emphasis)
-3. Layout & Spacing (Whitespace, alignment, grid)
-4. Accessibility (Contrast, touch targets, text size)
-5. Usability (Affordances, standard patterns)
+First, you must evaluate the design on ${rubric.dimensions.length} specific dimensions (0-10 scale) and calculate an overall score (0-100).
+${describeRubric(rubric)}
+`;
 
+const critiqueInstruction = (rubric, personas, designSystem) => `${designExpertPreamble(rubric)}
 **CRITICAL OUTPUT FORMAT:**
-You must start your response with a valid JSON block strictly following this format, followed by your markdown critique. Do not wrap the JSON in markdown code blocks like \`\`\`json. Just output the raw JSON string first, then a divider, then the markdown.
-
-{
-  "overallScore": 59,
-  "confidence": "High",
-  "metrics": {
-    "infoArchitecture": 6,
-    "visualHierarchy": 5,
-    "layoutSpacing": 7,
-    "accessibility": 4,
-    "usability": 6
-  }
-}
----SEPARATOR---
-# Executive Summary
-[Brief high-level summary of the design's effectiveness]
-
-# 360° Perspective Analysis
-
-## 👤 User Experience (The Human View)
-[Critique how a new or power user would experience this. Focus on cognitive load, friction points, emotional response, and "Can I figure this out in 3 seconds?"]
+Respond with a single JSON object that matches the provided response schema. Do not wrap it in markdown code blocks.
+- "scores": one 0-10 metric per dimension (keyed as listed above), the overall score (0-100) and your confidence.
+- "executiveSummary": brief high-level summary of the design's effectiveness.
+- "perspectives": the 360° Perspective Analysis, one entry per reviewer persona. Write each one in that persona's voice and stick to what they care about.
+${describePersonas(personas)}
+- "improvements": specific, high-impact changes, one per item.
+- "additionalNotes": anything else worth calling out (optional).
+- "issues": concrete problems you can point at on the screenshot, most severe first. Give each a severity, the dimension it hurts most and a bounding box as fractions (0-1) of the image size.
+- "issueProgress": only when the request lists issues flagged on the previous revision. Give one entry per issue saying whether this revision resolved it. Omit it otherwise.
+${designSystem ? `- "conformance": check the design against the design system listed in the request. Report off-palette colours (start from the measured ones when given), spacing that is off the spacing scale, font sizes outside the type scale and corner radii that aren't tokens. Name the token that should be used instead.
+` : ''}All string fields may use markdown (bold, lists, tables) but must not repeat the section headings.
+`;
 
-## 💼 Business Strategy (The ROI View)
-[Critique how this design impacts conversion, brand trust, and business goals. Are call-to-actions clear? Does it drive the intended user behavior? Identification of missed revenue opportunities.]
+const compareInstruction = (rubric) => `${designExpertPreamble(rubric)}
+You will receive two variants of the same design, labelled Variant A and Variant B, sharing one context.
+Score each variant independently on every dimension, then decide a winner per dimension ("tie" only when they are genuinely equivalent).
 
-## 🛠️ Engineering & Feasibility (The Dev View)
-[Critique implementation complexity. Are there non-standard patterns that increase technical debt? Accessibility risks (WCAG)? Performance implications of the layout?]
+**CRITICAL OUTPUT FORMAT:**
+Respond with a single JSON object that matches the provided response schema. Do not wrap it in markdown code blocks.
+- "variants": Variant A then Variant B, each with its scores and a markdown summary of strengths and weaknesses.
+- "dimensionWinners": for every dimension, the winner and a one or two sentence rationale.
+- "overallWinner" and "verdict": which variant to ship and why.
+- "recommendations": changes that would make the chosen variant even stronger, one per item.
+`;
 
-# Actionable Improvements
-[Bulleted list of specific, high-impact changes]
+const journeyInstruction = (rubric) => `${designExpertPreamble(rubric)}
+You will receive the screens of one user journey (e.g. onboarding or checkout), in order, each introduced by its step number and label.
+Score every screen on every dimension, then judge the journey as a whole: does each step lead clearly to the next, and does the flow get users to their goal?
 
-... [Rest of Markdown Critique] ...
+**CRITICAL OUTPUT FORMAT:**
+Respond with a single JSON object that matches the provided response schema. Do not wrap it in markdown code blocks.
+- "scores": one 0-10 metric per dimension, the overall score (0-100) and your confidence, for the journey as a whole.
+- "summary": how well the flow works end to end.
+- "steps": one entry per screen, in the given order, each with its scores, a summary and its own issues.
+- "flow": consistency across steps, dead ends (an empty list when there are none) and the step count you would recommend.
+- "improvements": flow-level changes, one per item, referencing steps by number.
+`;
 
----
+const chatInstruction = (rubric, designSystem) => `${designExpertPreamble(rubric)}
+You have already critiqued this design. Answer follow-up questions in markdown.
 
-**INTERACTIVE REDESIGN MODE (Context for follow-up chat):**
-If the user asks to "visualize", "show me", "code this", "apply changes", or "edit" the design in the chat follow-up:
+**INTERACTIVE REDESIGN MODE:**
+If the user asks to "visualize", "show me", "code this", "apply changes", or "edit" the design:
 1. You MUST generate a single, self-contained HTML file.
 2. Use Tailwind CSS via CDN script: <script src="https://cdn.tailwindcss.com"></script>
 3. Use Google Fonts (Inter) to make it look professional.
 4. Use Lucide Icons (via script or SVG) if icons are needed.
 5. Wrap the code specifically in a markdown code block tagged as html: \`\`\`html ... \`\`\`
 6. Do not just give snippets. Give the FULL functional component/page that represents the improved design.
-`;
+${designSystem ? `7. Use only the design system's tokens. Right after the Tailwind script, set \`tailwind.config = { theme: { ... } }\` so that colors, fontSize, spacing, borderRadius and fontFamily contain exactly these tokens (under their names, replacing the defaults rather than extending them), and use only the classes they produce. Never use arbitrary values such as \`bg-[#3b82f6]\` or \`p-[13px]\`, or inline styles for colours and sizes.
+
+${describeDesignSystem(designSystem)}` : ''}`;
+
+// Provider is chosen once from env (MODEL_PROVIDER); see server/providers/index.js
+const provider = createProvider();
+console.log(`Model provider: ${provider.name} (${provider.model})`);
+
+// Chat session persistence (SESSION_STORE); see server/sessions/index.js
+const sessionStore = createSessionStore();
+console.log(`Session store: ${sessionStore.name}`);
+
+// Figma frame import (FIGMA_TOKEN, FIGMA_API_BASE_URL); see server/figma.js
+const figma = createFigmaClient();
+console.log(`Figma import: ${figma.isConfigured ? figma.baseUrl : 'disabled (no FIGMA_TOKEN)'}`);
+
+// Live page capture with headless Chrome, started on first use; see server/capture.js
+const capturer = createPageCapturer();
+console.log(`Page capture: ${capturer.allowedHosts.length > 0 ? capturer.allowedHosts.join(', ') : 'any host'}${capturer.allowPrivate ? ', private addresses included' : ''}`);
+
+// Caps on what the client may send about the previous revision of a design
+const MAX_PREVIOUS_ISSUES = 20;
+const MAX_ISSUE_LENGTH = 500;
+
+const PREVIOUS_SEVERITIES = ['critical', 'major', 'minor'];
+const isFraction = (value) => typeof value === 'number' && value >= 0 && value <= 1;
+const percent = (value) => Math.round(Math.min(1, value) * 100);
+
+// One previous issue as a line of prompt text: a pinned issue with its
+// severity and where it was on the old image, or a plain improvement string
+// from a critique saved before issues existed
+const describePreviousIssue = (issue) => {
+  if (typeof issue === 'string') return issue.trim().slice(0, MAX_ISSUE_LENGTH);
+  if (!issue || typeof issue !== 'object' || typeof issue.title !== 'string' || !issue.title.trim()) return '';
+  const detail = typeof issue.detail === 'string' && issue.detail.trim() ? `: ${issue.detail.trim()}` : '';
+  const severity = PREVIOUS_SEVERITIES.includes(issue.severity) ? `[${issue.severity}] ` : '';
+  const { bbox } = issue;
+  const location = bbox && ['x', 'y', 'width', 'height'].every((key) => isFraction(bbox[key]))
+    ? ` (was at ${percent(bbox.x)}–${percent(bbox.x + bbox.width)}% across, ${percent(bbox.y)}–${percent(bbox.y + bbox.height)}% down)`
+    : '';
+  return `${severity}${`${issue.title.trim()}${detail}`.slice(0, MAX_ISSUE_LENGTH)}${location}`;
+};
+
+// Describes the previous revision so the model can say which issues were
+// resolved. Malformed input is ignored: it only adds context.
+const describePreviousRevision = (previous) => {
+  if (!previous || typeof previous !== 'object') return '';
+  const issues = (Array.isArray(previous.issues) ? previous.issues : [])
+    .map(describePreviousIssue)
+    .filter(Boolean)
+    .slice(0, MAX_PREVIOUS_ISSUES);
+  if (issues.length === 0) return '';
+
+  const revision = Number.isInteger(previous.revision) ? ` (revision ${previous.revision})` : '';
+  const score = typeof previous.overallScore === 'number' ? `It scored ${previous.overallScore}/100.\n` : '';
+  return `\n**This is a revision of a design you critiqued before${revision}.** ${score}` +
+    `Previously flagged issues:\n${issues.map((issue, i) => `${i + 1}. ${issue}`).join('\n')}\n` +
+    `Say in "issueProgress" whether each one is resolved in this revision.\n\n`;
+};
+
+// Contrast measured in the browser from the image pixels (see
+// src/utils/contrast.ts). Passed on as facts so the accessibility critique
+// rests on real numbers; entries that don't look right are dropped.
+const MAX_CONTRAST_PAIRS = 10;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const describeContrastReport = (report) => {
+  if (!report || typeof report !== 'object' || !Array.isArray(report.pairs)) return '';
+  const pairs = report.pairs
+    .filter((pair) => pair && HEX_COLOR.test(pair.foreground) && HEX_COLOR.test(pair.background) &&
+      typeof pair.ratio === 'number' && pair.ratio >= 1 && pair.ratio <= 21)
+    .slice(0, MAX_CONTRAST_PAIRS);
+  if (pairs.length === 0) return '';
+
+  const verdict = (ratio) => {
+    if (ratio >= 7) return 'passes AA and AAA';
+    if (ratio >= 4.5) return 'passes AA, fails AAA for normal text';
+    if (ratio >= 3) return 'fails AA for normal text, passes AA for large text only';
+    return 'fails AA even for large text';
+  };
+  const lines = pairs.map((pair) => {
+    const share = typeof pair.coverage === 'number' ? ` (${Math.round(pair.coverage * 100)}% of text regions)` : '';
+    return `- ${pair.foreground} on ${pair.background}: ${pair.ratio.toFixed(2)}:1, ${verdict(pair.ratio)}${share}`;
+  });
+
+  return `\n**Measured colour contrast** (computed from the image pixels; treat these as facts, not estimates):\n` +
+    `${lines.join('\n')}\n` +
+    `Base the accessibility score and WCAG comments on these measurements. Text over photos or gradients may not be covered.\n`;
+};
+
+// Build the message parts for a fresh critique (image + theme + user context).
+// `designSystem` is the resolved profile; `offPalette` comes from the client
+const buildAnalyzeParts = async ({ imageBase64, context, themeMode, previous, contrast, designSystem, offPalette }) => {
+  const parts = imageBase64 ? await designImageParts(imageBase64, 'The image') : [];
+
+  let promptText = `Please critique the attached design.\n\n`;
+  promptText += `**Current UI Theme:** ${themeMode}\n`;
+  promptText += `If theme is "night", assume a dark background and adjust any design feedback for dark mode.\n\n`;
+
+  if (context.figmaUrl) promptText += `**Figma URL provided:** ${context.figmaUrl}\n`;
+  promptText += describeFigmaFrame(context.figmaFrame);
+  if (context.pageUrl && !context.pageCapture) promptText += `**Page URL provided:** ${context.pageUrl}\n`;
+  promptText += describePageCapture(context.pageCapture);
+  if (context.userContext) promptText += `**Context, Goals & Constraints:**\n${context.userContext}\n`;
+  promptText += describeContrastReport(contrast);
+  if (designSystem) promptText += `\n${describeDesignSystem(designSystem)}${describeOffPalette(offPalette)}`;
+  promptText += describePreviousRevision(previous);
+
+  parts.push({ text: promptText });
+  return parts;
+};
 
-const getAIClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key is missing on server.");
+// Build the message parts for an A/B comparison: each image is introduced by
+// its variant label so the model can tell them apart. A tall variant is tiled
+// into sections like a single design.
+const buildCompareParts = async ({ variants, context, themeMode }) => {
+  const parts = [];
+  for (const [i, variant] of variants.entries()) {
+    parts.push({ text: `Variant ${VARIANT_IDS[i]} (${variant.label}):` });
+    parts.push(...await designImageParts(variant.image, `Variant ${VARIANT_IDS[i]}'s image`, `Variant ${VARIANT_IDS[i]}`));
   }
-  return new GoogleGenAI({ apiKey });
+
+  let promptText = `Please compare Variant A and Variant B head-to-head.\n\n`;
+  promptText += `**Current UI Theme:** ${themeMode}\n`;
+  promptText += `If theme is "night", assume a dark background and adjust any design feedback for dark mode.\n\n`;
+  if (context.userContext) promptText += `**Shared Context, Goals & Constraints:**\n${context.userContext}\n`;
+
+  parts.push({ text: promptText });
+  return parts;
+};
+
+// Build the message parts for a journey: each screen is introduced by its
+// step number and label so the model keeps them in order. Tall screens are
+// tiled into sections like a single design.
+const buildJourneyParts = async ({ screens, context, themeMode }) => {
+  const parts = [];
+  for (const [i, screen] of screens.entries()) {
+    parts.push({ text: `Step ${i + 1} of ${screens.length}${screen.label ? ` (${screen.label})` : ''}:` });
+    parts.push(...await designImageParts(screen.image, `Step ${i + 1}'s image`, `Step ${i + 1}`));
+  }
+
+  let promptText = `Please critique this ${screens.length}-screen user journey.\n\n`;
+  promptText += `**Current UI Theme:** ${themeMode}\n`;
+  promptText += `If theme is "night", assume a dark background and adjust any design feedback for dark mode.\n\n`;
+  if (context.figmaUrl) promptText += `**Figma URL provided:** ${context.figmaUrl}\n`;
+  if (context.userContext) promptText += `**Context, Goals & Constraints:**\n${context.userContext}\n`;
+
+  parts.push({ text: promptText });
+  return parts;
+};
+
+// Rebuild the model-side conversation from a stored session: the image and
+// context as the opening user turn, the critique as the model's answer, then
+// every follow-up turn since. Only the newest message arrives from the client.
+const buildSessionHistory = async (session) => {
+  const openingParts = session.image ? await designImageParts(session.image, 'The session image') : [];
+  openingParts.push({
+    text: `Please critique the attached design.\n\nOriginal Design Context: (Context: ${session.context.userContext || 'None'})` +
+      (session.context.figmaUrl ? `\nFigma URL: ${session.context.figmaUrl}` : '') +
+      describeFigmaFrame(session.context.figmaFrame) +
+      (session.context.pageUrl && !session.context.pageCapture ? `\nPage URL: ${session.context.pageUrl}` : '') +
+      describePageCapture(session.context.pageCapture),
+  });
+
+  return [
+    { role: 'user', parts: openingParts },
+    {
+      role: 'model',
+      parts: [{
+        text: renderCritiqueMarkdown(session.critique, {
+          includeIssues: true,
+          includePerspectives: true,
+          includeConformance: true,
+          personas: session.personas ?? DEFAULT_PERSONAS,
+        }),
+      }],
+    },
+    ...session.turns.map((turn) => ({ role: turn.role, parts: [{ text: turn.text }] })),
+  ];
+};
+
+const createAnalyzeChat = (rubric, personas, designSystem) => provider.startChat({
+  systemInstruction: critiqueInstruction(rubric, personas, designSystem),
+  thinkingBudget: 5000,
+  responseSchema: buildCritiqueSchema(rubric, personas, designSystem),
+});
+
+const createJourneyChat = (rubric) => provider.startChat({
+  systemInstruction: journeyInstruction(rubric),
+  thinkingBudget: 5000,
+  responseSchema: buildJourneySchema(rubric),
+});
+
+const createCompareChat = (rubric) => provider.startChat({
+  systemInstruction: compareInstruction(rubric),
+  thinkingBudget: 5000,
+  responseSchema: buildComparisonSchema(rubric),
+});
+
+// Sessions saved before rubrics existed were scored on the default rubric
+const createFollowUpChat = async (session) => provider.startChat({
+  systemInstruction: chatInstruction(session.rubric ?? DEFAULT_RUBRIC, session.designSystem ?? null),
+  history: await buildSessionHistory(session),
+});
+
+// Validate the model's reply; when it can't be used, tell the model what was
+// wrong and ask again (up to MAX_REPAIR_ATTEMPTS) before giving up.
+const resolveStructured = async (chat, text, validate, onRetry = () => {}) => {
+  let { value, issues } = parseStructured(text, validate);
+
+  for (let attempt = 1; !value && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    console.warn(`Structured reply failed validation (attempt ${attempt}):`, issues);
+    onRetry(issues);
+    const text = await chat.sendMessage([{ text: buildRepairPrompt(issues) }]);
+    ({ value, issues } = parseStructured(text, validate));
+  }
+
+  if (!value) throw new CritiqueValidationError(issues);
+  return value;
+};
+
+// Bad rubrics, personas, design systems and images are the client's fault; a bad reply is the model's
+const isRequestError = (error) =>
+  error instanceof RubricError || error instanceof PersonaError || error instanceof DesignSystemError || error instanceof IngestError;
+
+const critiqueErrorBody = (error, fallback) => (
+  error instanceof CritiqueValidationError || isRequestError(error)
+    ? { error: error.message, code: error.code, issues: error.issues }
+    : { error: error.message || fallback }
+);
+
+const errorStatus = (error) => {
+  if (error instanceof IngestError) return error.status;
+  if (isRequestError(error)) return 400;
+  return error instanceof CritiqueValidationError ? 422 : 500;
+};
+
+// --- SERVER-SENT EVENTS ---
+// Each event is a named frame with a JSON payload:
+//   event: delta    -> { text }              (chat: incremental chunk of model output)
+//   event: scores   -> { scores }            (analyze: validated scores, as soon as they are complete)
+//   event: markdown -> { text }              (analyze/compare: reply rendered so far)
+//   event: retry    -> { issues }            (analyze/compare: reply failed validation, re-asking)
+//   event: done     -> { text, critique? | journey? | comparison?, rubric?, personas? }   (full output)
+//   event: error    -> { error, code?, issues? }
+const openEventStream = (req, res) => {
+  res.status(200);
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx, Cloud Run)
+  });
+  res.flushHeaders();
+
+  let closed = false;
+  res.on('close', () => { closed = true; });
+
+  return {
+    isClosed: () => closed,
+    send: (event, data) => {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    end: () => {
+      if (!closed) res.end();
+    },
+  };
+};
+
+// Pipe a chat.sendMessageStream() result into an event stream as raw deltas, returning the full text
+const pipeModelStream = async (stream, events) => {
+  let fullText = "";
+  for await (const text of stream) {
+    if (events.isClosed()) break;
+    fullText += text;
+    events.send('delta', { text });
+  }
+  return fullText;
+};
+
+// Stream a schema-constrained reply, sending the partial JSON rendered as
+// markdown while it arrives. Returns the raw text, or null if the client left.
+const streamStructuredReply = async (events, chat, parts, { render, onPartial = () => {} }) => {
+  const stream = chat.sendMessageStream(parts);
+
+  let fullText = "";
+  let lastMarkdown = "";
+  for await (const text of stream) {
+    if (events.isClosed()) return null;
+    fullText += text;
+
+    const partial = parsePartialJson(fullText);
+    if (!partial) continue;
+    onPartial(partial);
+
+    const markdown = render(partial);
+    if (markdown !== lastMarkdown) {
+      lastMarkdown = markdown;
+      events.send('markdown', { text: markdown });
+    }
+  }
+  return fullText;
 };
 
 // --- API ROUTES ---
 
+// 0. Scoring rubrics the client can choose from by id. Custom rubrics are
+// sent in full as `rubric` on analyze/compare requests instead.
+app.get('/api/rubrics', (req, res) => {
+  res.json({
+    rubrics: BUILT_IN_RUBRICS,
+    defaultId: DEFAULT_RUBRIC.id,
+    limits: { minDimensions: MIN_RUBRIC_DIMENSIONS, maxDimensions: MAX_RUBRIC_DIMENSIONS },
+  });
+});
+
+// 0b. Reviewer personas the client can choose from by id. Custom personas
+// are sent in full in `personas` on analyze requests instead.
+app.get('/api/personas', (req, res) => {
+  res.json({
+    personas: BUILT_IN_PERSONAS,
+    defaultIds: DEFAULT_PERSONAS.map((persona) => persona.id),
+    limits: { minPersonas: MIN_PERSONAS, maxPersonas: MAX_PERSONAS },
+  });
+});
+
+// 0c. Figma frame import. Renders the frame a figma.com link points to (or the
+// first frame of a linked file) and returns it with its metadata:
+// Body: { url } -> { image, frame: { fileKey, nodeId, name, texts, fills, autoLayouts, ... } }
+// `image` has been through the same ingestion as an upload (see 0g), so clients
+// analyze it like one and send `frame` back as
+// `context.figmaFrame`, so the critique and chat see the real copy and spacing.
+app.post('/api/figma/import', async (req, res) => {
+  try {
+    res.json(await figma.importFrame(req.body?.url));
+  } catch (error) {
+    const known = error instanceof FigmaError || error instanceof IngestError;
+    if (!known) console.error("Figma Import Error:", error);
+    res.status(known ? error.status : 500)
+      .json({ error: error.message || "Failed to import from Figma", code: error.code });
+  }
+});
+
+// 0d. Live page capture. Screenshots an http(s) page with headless Chrome:
+// Body: { url, viewport?: 'desktop' | 'mobile', mode?: 'full' | 'fold' }
+//   -> { image, page: { url, finalUrl, viewport, mode, title, headings, links, buttons, ... } }
+// As with Figma, clients analyze `image` and send `page` back as `context.pageCapture`.
+app.post('/api/capture', async (req, res) => {
+  try {
+    res.json(await capturer.capturePage(req.body));
+  } catch (error) {
+    const known = error instanceof CaptureError || error instanceof IngestError;
+    if (!known) console.error("Page Capture Error:", error);
+    res.status(known ? error.status : 500)
+      .json({ error: error.message || "Failed to capture the page", code: error.code });
+  }
+});
+
+// 0e. Offline preview assets. Compiles the Tailwind classes a generated page
+// uses and renders the Lucide icons it names, so the preview can drop the CDNs:
+// Body: { html, config?, css?, icons?: string[] }
+//   -> { css, icons: { [name]: svg }, missingIcons, warnings }
+// `config` is the page's tailwind.config as JSON; see server/preview.js.
+app.post('/api/preview/assets', async (req, res) => {
+  try {
+    res.json(await compilePreviewAssets(req.body));
+  } catch (error) {
+    if (!(error instanceof PreviewError)) console.error("Preview Assets Error:", error);
+    res.status(error instanceof PreviewError ? error.status : 500)
+      .json({ error: error.message || "Failed to build the preview", code: error.code });
+  }
+});
+
+// 0f. Breakpoint screenshots for the preview's device lab. Renders a generated
+// page (already made offline by the client) at each size with headless Chrome:
+// Body: { html, breakpoints: [{ label, width, height }] }
+//   -> { shots: [{ label, width, height, image, imageHeight, truncated }] }
+app.post('/api/preview/screenshots', async (req, res) => {
+  try {
+    res.json(await capturer.renderBreakpoints(req.body));
+  } catch (error) {
+    if (!(error instanceof CaptureError)) console.error("Breakpoint Screenshot Error:", error);
+    res.status(error instanceof CaptureError ? error.status : 500)
+      .json({ error: error.message || "Failed to screenshot the design", code: error.code });
+  }
+});
+
+// 0g. Upload ingestion. Every uploaded file comes through here as raw bytes
+// (any Content-Type) and goes back as model-ready images; see server/ingest.js:
+//   -> { images: [{ image, width, height }], source: { type, width, height, bytes, pages? }, notes }
+// A PDF gives one image per rendered page. Clients analyze the images, never the raw file.
+const readUpload = express.raw({ type: () => true, limit: MAX_UPLOAD_BYTES });
+
+app.post('/api/ingest', (req, res, next) => readUpload(req, res, (error) => {
+  if (!error) return next();
+  const tooLarge = error.type === 'entity.too.large';
+  res.status(tooLarge ? 413 : 400).json({
+    error: tooLarge ? `Files must be under ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` : "The upload couldn't be read",
+    code: tooLarge ? 'FILE_TOO_LARGE' : 'INVALID_FILE',
+  });
+}), async (req, res) => {
+  try {
+    res.json(await ingestUpload(req.body));
+  } catch (error) {
+    if (!(error instanceof IngestError)) console.error("Ingest Error:", error);
+    res.status(error instanceof IngestError ? error.status : 500)
+      .json({ error: error.message || "Failed to process the upload", code: error.code });
+  }
+});
+
 // 1. Analyze Design Endpoint
+// Body: { imageBase64, context, themeMode, previous?: { revision, overallScore, issues: [{ title, detail, severity, bbox } | string] }, contrast?, rubric?, personas? }
+// `rubric` is a built-in rubric id or a full rubric definition (default: product-design).
+// `personas` lists built-in persona ids and/or custom { id, name, description }
+// definitions (default: user, business, engineering). Journeys ignore it.
+// `designSystem` is a token profile to check conformance against, with the
+// off-palette colours measured in the browser in `offPalette`. Also single-design only.
+// Journey mode sends `screens: [{ label, image }, ...]` in order instead of
+// `imageBase64`, and gets `journey` back instead of `critique`.
+
+// Returns undefined for single-screen requests and null once a 400 was sent
+const readScreens = (req, res) => {
+  const { screens } = req.body || {};
+  if (screens === undefined) return undefined;
+
+  const valid = Array.isArray(screens) &&
+    screens.length >= MIN_JOURNEY_SCREENS && screens.length <= MAX_JOURNEY_SCREENS &&
+    screens.every((screen) => screen && typeof screen.image === 'string' && screen.image.startsWith('data:'));
+  if (!valid) {
+    res.status(400).json({ error: `A journey needs ${MIN_JOURNEY_SCREENS} to ${MAX_JOURNEY_SCREENS} screens, each with an image` });
+    return null;
+  }
+  return screens.map((screen) => ({
+    image: screen.image,
+    label: typeof screen.label === 'string' ? screen.label.trim() : '',
+  }));
+};
+
+// Chat, prompt, validation and rendering for a single design or a journey.
+// `finalize` replaces the model's overall scores with the rubric-weighted ones.
+const createAnalysisPlan = async (body, screens) => {
+  const rubric = resolveRubric(body.rubric);
+  if (!screens) {
+    const personas = resolvePersonas(body.personas);
+    const designSystem = resolveDesignSystem(body.designSystem);
+    return {
+      rubric,
+      personas,
+      chat: createAnalyzeChat(rubric, personas, designSystem),
+      parts: await buildAnalyzeParts({ ...body, designSystem }),
+      validate: (critique) => validateCritique(critique, rubric, personas, designSystem),
+      finalize: (critique) => ({ ...critique, scores: applyRubricWeights(critique.scores, rubric) }),
+      render: renderCritiqueMarkdown,
+      resultKey: 'critique',
+    };
+  }
+  const labels = screens.map((screen) => screen.label);
+  return {
+    rubric,
+    chat: createJourneyChat(rubric),
+    parts: await buildJourneyParts({ ...body, screens }),
+    validate: (journey) => validateJourney(journey, screens.length, rubric),
+    finalize: (journey) => ({
+      ...journey,
+      scores: applyRubricWeights(journey.scores, rubric),
+      steps: journey.steps.map((step) => ({ ...step, scores: applyRubricWeights(step.scores, rubric) })),
+    }),
+    render: (journey) => renderJourneyMarkdown(journey, labels),
+    resultKey: 'journey',
+  };
+};
+
 app.post('/api/analyze', async (req, res) => {
+  const screens = readScreens(req, res);
+  if (screens === null) return;
   try {
-    const { imageBase64, context, themeMode } = req.body;
-    const ai = getAIClient();
-
-    const parts = [];
-    if (imageBase64) {
-      const base64Data = imageBase64.split(',')[1];
-      parts.push({
-        inlineData: {
-          mimeType: 'image/png',
-          data: base64Data,
-        },
-      });
-    }
+    const { rubric, personas, chat, parts, validate, finalize, render, resultKey } = await createAnalysisPlan(req.body, screens);
 
-    let promptText = `Please critique the attached design.\n\n`;
-    promptText += `**Current UI Theme:** ${themeMode}\n`;
-    promptText += `If theme is "night", assume a dark background and adjust any design feedback for dark mode.\n\n`;
+    // We use sendMessage to start the "chat" even though it's the first message
+    const text = await chat.sendMessage(parts);
+    const value = finalize(await resolveStructured(chat, text, validate));
 
-    if (context.figmaUrl) promptText += `**Figma URL provided:** ${context.figmaUrl}\n`;
-    if (context.userContext) promptText += `**Context, Goals & Constraints:**\n${context.userContext}\n`;
+    res.json({ text: render(value), [resultKey]: value, rubric, personas });
+  } catch (error) {
+    console.error("Analysis Error:", error);
+    res.status(errorStatus(error)).json(critiqueErrorBody(error, "Failed to analyze design"));
+  }
+});
 
-    parts.push({ text: promptText });
+// 1b. Streaming Analyze Endpoint (SSE)
+app.post('/api/analyze/stream', async (req, res) => {
+  const screens = readScreens(req, res);
+  if (screens === null) return;
+
+  let plan;
+  try {
+    plan = await createAnalysisPlan(req.body, screens);
+  } catch (error) {
+    // An invalid rubric, persona, design system or image is a bad request; answer before the stream opens
+    if (!isRequestError(error)) console.error("Analysis Error:", error);
+    return res.status(errorStatus(error)).json(critiqueErrorBody(error, "Failed to analyze design"));
+  }
 
-    const chat = ai.chats.create({
-      model: 'gemini-3-pro-preview',
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        thinkingConfig: { thinkingBudget: 5000 },
+  const events = openEventStream(req, res);
+  try {
+    const { rubric, personas, chat, parts, validate, finalize, render, resultKey } = plan;
+
+    let scoresSent = false;
+    const fullText = await streamStructuredReply(events, chat, parts, {
+      render,
+      onPartial: (partial) => {
+        // Scores are final once the model has moved on to a later key
+        const scoresSettled = Object.keys(partial).some((key) => key !== 'scores');
+        if (!scoresSent && scoresSettled && validateScores(partial.scores, 'scores', rubric).length === 0) {
+          scoresSent = true;
+          events.send('scores', { scores: applyRubricWeights(partial.scores, rubric) });
+        }
       },
     });
+    if (fullText === null) return;
 
-    // We use sendMessage to start the "chat" even though it's the first message
-    const response = await chat.sendMessage({ message: parts });
-    const text = response.text || "";
+    const value = finalize(await resolveStructured(chat, fullText, validate, (issues) => events.send('retry', { issues })));
+    events.send('done', { text: render(value), [resultKey]: value, rubric, personas });
+  } catch (error) {
+    console.error("Analysis Stream Error:", error);
+    events.send('error', critiqueErrorBody(error, "Failed to analyze design"));
+  } finally {
+    events.end();
+  }
+});
 
-    res.json({ text });
+// 1c. A/B Comparison Endpoints
+// Body: { variants: [{ label, image }, { label, image }], context, themeMode, rubric? }
+const readVariants = (req, res) => {
+  const { variants } = req.body || {};
+  const valid = Array.isArray(variants) && variants.length === 2 &&
+    variants.every((variant) => variant && typeof variant.image === 'string' && variant.image.startsWith('data:'));
+  if (!valid) {
+    res.status(400).json({ error: "Comparison needs exactly two variants, each with an image" });
+    return null;
+  }
+  return variants.map((variant, i) => ({
+    image: variant.image,
+    label: (typeof variant.label === 'string' && variant.label.trim()) || `Variant ${VARIANT_IDS[i]}`,
+  }));
+};
+
+const variantLabels = (variants) => ({ A: variants[0].label, B: variants[1].label });
+
+const weighComparison = (comparison, rubric) => ({
+  ...comparison,
+  variants: comparison.variants.map((variant) => ({ ...variant, scores: applyRubricWeights(variant.scores, rubric) })),
+});
+
+app.post('/api/compare', async (req, res) => {
+  const variants = readVariants(req, res);
+  if (!variants) return;
+  try {
+    const rubric = resolveRubric(req.body.rubric);
+    const chat = createCompareChat(rubric);
+    const text = await chat.sendMessage(await buildCompareParts({ ...req.body, variants }));
+    const validate = (comparison) => validateComparison(comparison, rubric);
+    const comparison = weighComparison(await resolveStructured(chat, text, validate), rubric);
+
+    res.json({ text: renderComparisonMarkdown(comparison, variantLabels(variants), rubric), comparison, rubric });
   } catch (error) {
-    console.error("Analysis Error:", error);
-    res.status(500).json({ error: error.message || "Failed to analyze design" });
+    console.error("Comparison Error:", error);
+    res.status(errorStatus(error)).json(critiqueErrorBody(error, "Failed to compare designs"));
   }
 });
 
-// 2. Chat Endpoint (Stateless for the backend, Frontend sends history)
-app.post('/api/chat', async (req, res) => {
+app.post('/api/compare/stream', async (req, res) => {
+  const variants = readVariants(req, res);
+  if (!variants) return;
+
+  let rubric;
+  let parts;
+  try {
+    rubric = resolveRubric(req.body.rubric);
+    parts = await buildCompareParts({ ...req.body, variants });
+  } catch (error) {
+    // An invalid rubric or variant image is a bad request; answer before the stream opens
+    if (!isRequestError(error)) console.error("Comparison Error:", error);
+    return res.status(errorStatus(error)).json(critiqueErrorBody(error, "Failed to compare designs"));
+  }
+
+  const events = openEventStream(req, res);
   try {
-    const { history, message, imageBase64, context } = req.body;
-    const ai = getAIClient();
+    const chat = createCompareChat(rubric);
+    const labels = variantLabels(variants);
 
-    // Reconstruct the chat session
-    const chat = ai.chats.create({
-      model: 'gemini-3-pro-preview',
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-      },
+    const fullText = await streamStructuredReply(events, chat, parts, {
+      render: (partial) => renderComparisonMarkdown(partial, labels, rubric),
     });
+    if (fullText === null) return;
+
+    const validate = (comparison) => validateComparison(comparison, rubric);
+    const comparison = weighComparison(
+      await resolveStructured(chat, fullText, validate, (issues) => events.send('retry', { issues })),
+      rubric
+    );
+    events.send('done', { text: renderComparisonMarkdown(comparison, labels, rubric), comparison, rubric });
+  } catch (error) {
+    console.error("Comparison Stream Error:", error);
+    events.send('error', critiqueErrorBody(error, "Failed to compare designs"));
+  } finally {
+    events.end();
+  }
+});
 
-    // Note: In a stateless REST API with image inputs, maintaining perfect history 
-    // with the SDK's history management is tricky because we can't serialize the 
-    // server-side Chat object to the client.
-    // 
-    // Strategy: We will send the image + system context + previous user/model turns 
-    // as a fresh request for every turn. This consumes more tokens but ensures 
-    // the model "remembers" the image without server-side database session storage.
-
-    const parts = [];
-
-    // 1. Re-attach image context (Essential for "Make the button blue" to work)
-    if (imageBase64) {
-      const base64Data = imageBase64.split(',')[1];
-      parts.push({
-        inlineData: { mimeType: 'image/png', data: base64Data },
-      });
+// 2. Chat Sessions
+// The image, critique and turns are kept server-side; clients only send the
+// new message and can resume a conversation by id (e.g. after a reload).
+
+// Client-facing view of a session
+const serializeSession = (session) => ({
+  id: session.id,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+  image: session.image,
+  context: session.context,
+  critique: session.critique,
+  rubric: session.rubric ?? DEFAULT_RUBRIC,
+  personas: session.personas ?? DEFAULT_PERSONAS,
+  designSystem: session.designSystem ?? null,
+  text: renderCritiqueMarkdown(session.critique),
+  turns: session.turns,
+});
+
+// Loads the session named in the URL, or answers 404 and returns null
+const loadSession = async (req, res) => {
+  const session = isValidSessionId(req.params.id) ? await sessionStore.get(req.params.id) : null;
+  if (!session) res.status(404).json({ error: "Chat session not found", code: 'SESSION_NOT_FOUND' });
+  return session;
+};
+
+const readMessage = (req, res) => {
+  const { message } = req.body || {};
+  if (typeof message !== 'string' || !message.trim()) {
+    res.status(400).json({ error: "A non-empty message is required" });
+    return null;
+  }
+  return message;
+};
+
+// Pending appends per session id. Two replies can finish at the same time, and
+// each request holds its own copy of the session, so every append re-reads the
+// stored session behind the previous one instead of overwriting its turns.
+const sessionWrites = new Map();
+
+const appendTurns = (session, message, reply) => {
+  const append = async () => {
+    const latest = (await sessionStore.get(session.id)) ?? session;
+    const now = new Date().toISOString();
+    latest.turns.push({ role: 'user', text: message, createdAt: now }, { role: 'model', text: reply, createdAt: now });
+    latest.updatedAt = now;
+    await sessionStore.save(latest);
+  };
+  const write = (sessionWrites.get(session.id) ?? Promise.resolve()).then(append, append);
+  sessionWrites.set(session.id, write);
+  // Drop the chain once it's idle so the map doesn't grow with every session
+  const clear = () => {
+    if (sessionWrites.get(session.id) === write) sessionWrites.delete(session.id);
+  };
+  write.then(clear, clear);
+  return write;
+};
+
+// 2a. Create a session from a completed analysis. `turns` optionally seeds
+// earlier conversation, e.g. when reopening an analysis from the history library.
+// `rubric`, `personas` and `designSystem` are the ones the critique was written
+// with; the design system also constrains HTML generated in the chat.
+app.post('/api/sessions', async (req, res) => {
+  try {
+    const { imageBase64, context, critique, turns } = req.body || {};
+    const rubric = resolveRubric(req.body?.rubric);
+    const personas = resolvePersonas(req.body?.personas);
+    const designSystem = resolveDesignSystem(req.body?.designSystem);
+    if (imageBase64) readImageDataUrl(imageBase64, 'The image');
+    const issues = validateCritique(critique, rubric, personas, designSystem);
+    if (issues.length > 0) {
+      return res.status(400).json({ error: "A valid critique is required to start a session", code: 'INVALID_CRITIQUE', issues });
     }
 
-    // 2. Add Context String
-    let contextStr = `(Context: ${context.userContext || 'None'})`;
-    parts.push({ text: `Original Design Context: ${contextStr}\n\n` });
+    const session = await sessionStore.save(createSession({ imageBase64, context, critique, rubric, personas, designSystem, turns }));
+    res.status(201).json(serializeSession(session));
+  } catch (error) {
+    if (isRequestError(error)) return res.status(errorStatus(error)).json(critiqueErrorBody(error));
+    console.error("Session Create Error:", error);
+    res.status(500).json({ error: error.message || "Failed to create session" });
+  }
+});
+
+// 2b. Resume a session
+app.get('/api/sessions/:id', async (req, res) => {
+  try {
+    const session = await loadSession(req, res);
+    if (session) res.json(serializeSession(session));
+  } catch (error) {
+    console.error("Session Load Error:", error);
+    res.status(500).json({ error: error.message || "Failed to load session" });
+  }
+});
 
-    // 3. Add History manually to the prompt to simulate memory
-    // (Gemini 1.5/2.0/3.0 has massive context window, so this is safe)
-    let historyStr = "--- PREVIOUS CONVERSATION HISTORY ---\n";
-    history.forEach(msg => {
-       historyStr += `${msg.role === 'user' ? 'User' : 'Model'}: ${msg.text}\n`;
-    });
-    historyStr += "--- END HISTORY ---\n\n";
-    historyStr += `User's New Request: ${message}`;
+// 2c. Delete a session
+app.delete('/api/sessions/:id', async (req, res) => {
+  try {
+    if (isValidSessionId(req.params.id)) await sessionStore.delete(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    console.error("Session Delete Error:", error);
+    res.status(500).json({ error: error.message || "Failed to delete session" });
+  }
+});
 
-    parts.push({ text: historyStr });
+// 2d. Send a message
+app.post('/api/sessions/:id/messages', async (req, res) => {
+  try {
+    const session = await loadSession(req, res);
+    if (!session) return;
+    const message = readMessage(req, res);
+    if (message === null) return;
 
-    const response = await chat.sendMessage({ message: parts });
-    const text = response.text || "";
+    const chat = await createFollowUpChat(session);
+    const text = await chat.sendMessage([{ text: message }]);
+    await appendTurns(session, message, text);
 
     res.json({ text });
-
   } catch (error) {
     console.error("Chat Error:", error);
     res.status(500).json({ error: error.message || "Failed to process chat" });
   }
 });
 
+// 2e. Send a message, streaming the reply (SSE)
+app.post('/api/sessions/:id/messages/stream', async (req, res) => {
+  const session = await loadSession(req, res).catch((error) => {
+    console.error("Session Load Error:", error);
+    res.status(500).json({ error: error.message || "Failed to load session" });
+    return null;
+  });
+  if (!session) return;
+  const message = readMessage(req, res);
+  if (message === null) return;
+
+  const events = openEventStream(req, res);
+  try {
+    const chat = await createFollowUpChat(session);
+    const stream = chat.sendMessageStream([{ text: message }]);
+    const text = await pipeModelStream(stream, events);
+
+    // A reply cut short by a disconnect isn't worth remembering
+    if (!events.isClosed()) await appendTurns(session, message, text);
+    events.send('done', { text });
+  } catch (error) {
+    console.error("Chat Stream Error:", error);
+    events.send('error', { error: error.message || "Failed to process chat" });
+  } finally {
+    events.end();
+  }
+});
+
 // Handle React Routing, return all requests to React app
 app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, 'dist', 'index.html'));
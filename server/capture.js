@@ -0,0 +1,398 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import puppeteer from 'puppeteer';
+import { ingestUpload } from './ingest.js';
+
+// --- LIVE PAGE CAPTURE ---
+// Screenshots a live web page (a staging site, a local dev server) with
+// headless Chrome, so it can be critiqued like an upload, and reads DOM facts
+// the pixels don't carry: title, headings and how many links, buttons and
+// form fields there are.
+//
+// Chrome starts on the first capture and is reused. PUPPETEER_EXECUTABLE_PATH
+// picks a different browser binary; CAPTURE_NO_SANDBOX=1 is needed where
+// Chrome runs as root (most containers). CAPTURE_ALLOWED_HOSTS limits which
+// hosts can be captured (comma-separated; ".example.com" matches subdomains).
+// Loopback, private and link-local addresses (localhost, 10.x, 192.168.x, the
+// cloud metadata service at 169.254.169.254) are refused unless
+// CAPTURE_ALLOW_PRIVATE=1, checked against the addresses a host resolves to.
+// The private-address check applies to every request the page makes, and
+// both checks to the page's redirects; other hosts' assets still load.
+// Chrome resolves the name again itself, so a host whose DNS answer changes
+// between the two lookups isn't caught; run capture on a network without
+// anything to protect if that matters.
+//
+// The same browser renders generated designs at several breakpoints for the
+// preview's device lab. Those pages come as HTML, never from a URL, and every
+// request they make is refused.
+
+const NAVIGATION_TIMEOUT_MS = 30_000;
+const SETTLE_MS = 500; // after network idle, for fonts and entrance animations
+const MAX_PAGE_HEIGHT = 8000; // CSS px; longer full-page captures are cut here
+const MAX_CONCURRENT_CAPTURES = 2;
+
+const MAX_HTML_LENGTH = 2_000_000;
+const MAX_BREAKPOINTS = 6;
+const MIN_BREAKPOINT_SIZE = 240;
+const MAX_BREAKPOINT_SIZE = 3840;
+const MAX_LABEL_LENGTH = 40;
+const MOBILE_BREAKPOINT = 768; // narrower breakpoints render as a touch device
+
+const MAX_HEADINGS = 30;
+const MAX_TEXT_LENGTH = 120;
+
+const MOBILE_USER_AGENT =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+export const CAPTURE_VIEWPORTS = {
+  desktop: { label: 'Desktop', width: 1440, height: 900, deviceScaleFactor: 1 },
+  mobile: { label: 'Mobile', width: 390, height: 844, deviceScaleFactor: 2, isMobile: true, hasTouch: true },
+};
+
+// full: the whole scrollable page (up to MAX_PAGE_HEIGHT); fold: the first screen
+export const CAPTURE_MODES = ['full', 'fold'];
+
+export class CaptureError extends Error {
+  constructor(message, code, status = 400) {
+    super(message);
+    this.name = 'CaptureError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export const parseCaptureUrl = (value) => {
+  let url;
+  try {
+    url = new URL(String(value ?? '').trim());
+  } catch {
+    throw new CaptureError("That doesn't look like a URL", 'INVALID_CAPTURE_URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new CaptureError('Only http and https pages can be captured', 'INVALID_CAPTURE_URL');
+  }
+  return url;
+};
+
+const isSize = (value) => Number.isInteger(value) && value >= MIN_BREAKPOINT_SIZE && value <= MAX_BREAKPOINT_SIZE;
+
+const parseBreakpoints = (value) => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_BREAKPOINTS) {
+    throw new CaptureError(`breakpoints must list 1-${MAX_BREAKPOINTS} sizes`, 'INVALID_CAPTURE_OPTIONS');
+  }
+  return value.map((breakpoint, i) => {
+    if (typeof breakpoint !== 'object' || breakpoint === null || !isSize(breakpoint.width) || !isSize(breakpoint.height)) {
+      throw new CaptureError(`breakpoints[${i}] needs a width and height of ${MIN_BREAKPOINT_SIZE}-${MAX_BREAKPOINT_SIZE}px`, 'INVALID_CAPTURE_OPTIONS');
+    }
+    const label = String(breakpoint.label ?? '').trim().slice(0, MAX_LABEL_LENGTH) || `${breakpoint.width}px`;
+    return { label, width: breakpoint.width, height: breakpoint.height };
+  });
+};
+
+const parseAllowedHosts = (value) => String(value || '')
+  .split(',')
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+
+// Addresses a public capture server must not reach on a caller's behalf
+const PRIVATE_RANGES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+].forEach(([address, prefix]) => PRIVATE_RANGES.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 127], ['::ffff:0:0', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => PRIVATE_RANGES.addSubnet(address, prefix, 'ipv6'));
+
+export const isPrivateAddress = (address) => {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address it
+  // carries; the hex form URLs normalize it to is refused outright
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return PRIVATE_RANGES.check(mapped[1], 'ipv4');
+  return PRIVATE_RANGES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+};
+
+const isHostAllowed = (hostname, allowedHosts) =>
+  allowedHosts.length === 0 || allowedHosts.some((host) => (
+    host.startsWith('.') ? hostname.endsWith(host) || hostname === host.slice(1) : hostname === host
+  ));
+
+// Runs inside the page, so it can only use what the browser has
+const readDomFacts = (maxHeadings, maxTextLength) => {
+  const text = (el) => (el.textContent || '').replace(/\s+/g, ' ').trim().slice(0, maxTextLength);
+  const isVisible = (el) => {
+    const style = getComputedStyle(el);
+    return style.display !== 'none' && style.visibility !== 'hidden' && el.getClientRects().length > 0;
+  };
+  const count = (selector) => [...document.querySelectorAll(selector)].filter(isVisible).length;
+
+  return {
+    title: document.title.trim().slice(0, maxTextLength),
+    description: (document.querySelector('meta[name="description"]')?.getAttribute('content') || '').trim().slice(0, maxTextLength * 2),
+    lang: document.documentElement.lang || '',
+    headings: [...document.querySelectorAll('h1, h2, h3')]
+      .filter((el) => isVisible(el) && text(el))
+      .slice(0, maxHeadings)
+      .map((el) => ({ level: Number(el.tagName[1]), text: text(el) })),
+    links: count('a[href]'),
+    buttons: count('button, [role="button"], input[type="submit"], input[type="button"], input[type="reset"]'),
+    formFields: count('input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]), select, textarea'),
+    images: count('img'),
+    imagesWithoutAlt: [...document.querySelectorAll('img')].filter((img) => isVisible(img) && !img.hasAttribute('alt')).length,
+    pageHeight: Math.ceil(document.documentElement.scrollHeight),
+  };
+};
+
+export const createPageCapturer = (env = process.env) => {
+  const allowedHosts = parseAllowedHosts(env.CAPTURE_ALLOWED_HOSTS);
+  const noSandbox = env.CAPTURE_NO_SANDBOX === '1' || env.CAPTURE_NO_SANDBOX === 'true';
+  const allowPrivate = env.CAPTURE_ALLOW_PRIVATE === '1' || env.CAPTURE_ALLOW_PRIVATE === 'true';
+  let browserPromise = null;
+  let active = 0;
+
+  const getBrowser = () => {
+    if (!browserPromise) {
+      browserPromise = puppeteer.launch({
+        headless: true,
+        args: noSandbox ? ['--no-sandbox', '--disable-setuid-sandbox'] : [],
+      }).then((browser) => {
+        // Start a fresh browser next time if this one crashes
+        browser.on('disconnected', () => { browserPromise = null; });
+        return browser;
+      }).catch((error) => {
+        browserPromise = null;
+        console.error("Headless Chrome failed to start:", error.message);
+        throw new CaptureError('Page capture is unavailable: headless Chrome could not start on the server', 'CAPTURE_UNAVAILABLE', 501);
+      });
+    }
+    return browserPromise;
+  };
+
+  // Throws CAPTURE_HOST_NOT_ALLOWED for a URL this server won't fetch. The
+  // allowlist is for pages, so assets skip it (`isPage` false). `resolve`
+  // looks a hostname up; one capture shares its lookups.
+  const checkUrl = async (url, resolve, isPage = true) => {
+    const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    if (isPage && !isHostAllowed(hostname, allowedHosts)) {
+      throw new CaptureError(`Capturing ${url.hostname} is not allowed on this server`, 'CAPTURE_HOST_NOT_ALLOWED', 403);
+    }
+    if (allowPrivate) return;
+    let addresses;
+    try {
+      addresses = isIP(hostname) ? [hostname] : await resolve(hostname);
+    } catch {
+      throw new CaptureError(`Could not resolve ${url.hostname}`, 'CAPTURE_FAILED', 502);
+    }
+    if (addresses.some(isPrivateAddress)) {
+      throw new CaptureError(`Capturing ${url.hostname} is not allowed on this server: it is a private or local address`, 'CAPTURE_HOST_NOT_ALLOWED', 403);
+    }
+  };
+
+  const createResolver = () => {
+    const lookups = new Map();
+    return (hostname) => {
+      if (!lookups.has(hostname)) {
+        lookups.set(hostname, lookup(hostname, { all: true, verbatim: true }).then((results) => results.map((result) => result.address)));
+      }
+      return lookups.get(hostname);
+    };
+  };
+
+  const capture = async (url, viewport, mode) => {
+    const resolve = createResolver();
+    await checkUrl(url, resolve);
+    const browser = await getBrowser();
+    const page = await browser.newPage();
+    try {
+      const { label, name, ...metrics } = viewport;
+      if (viewport.isMobile) await page.setUserAgent(MOBILE_USER_AGENT);
+      await page.setViewport(metrics);
+
+      // Redirects get the same checks as the URL, and everything else the
+      // page loads is kept off private addresses
+      let refusedNavigation = null;
+      await page.setRequestInterception(true);
+      page.on('request', async (request) => {
+        if (/^(data|blob):/.test(request.url())) return request.continue();
+        try {
+          const target = new URL(request.url());
+          if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+            throw new CaptureError(`${target.protocol} requests are not allowed`, 'CAPTURE_HOST_NOT_ALLOWED', 403);
+          }
+          const isPage = request.isNavigationRequest() && request.frame() === page.mainFrame();
+          await checkUrl(target, resolve, isPage);
+          await request.continue();
+        } catch (error) {
+          if (request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+            refusedNavigation = error instanceof CaptureError ? error : new CaptureError(error.message, 'CAPTURE_FAILED', 502);
+          }
+          await request.abort('blockedbyclient').catch(() => {});
+        }
+      });
+
+      let response;
+      try {
+        response = await page.goto(url.href, { waitUntil: 'networkidle2', timeout: NAVIGATION_TIMEOUT_MS });
+      } catch (error) {
+        if (refusedNavigation) throw refusedNavigation;
+        throw new CaptureError(`Could not load the page: ${error.message}`, 'CAPTURE_FAILED', 502);
+      }
+      const status = response?.status() ?? null;
+      if (status !== null && status >= 400) {
+        throw new CaptureError(`The page returned HTTP ${status}`, 'CAPTURE_FAILED', 502);
+      }
+      await new Promise((resolve) => setTimeout(resolve, SETTLE_MS));
+
+      const facts = await page.evaluate(readDomFacts, MAX_HEADINGS, MAX_TEXT_LENGTH);
+      const height = mode === 'full' ? Math.min(Math.max(facts.pageHeight, viewport.height), MAX_PAGE_HEIGHT) : viewport.height;
+      const png = await page.screenshot({
+        type: 'png',
+        clip: { x: 0, y: 0, width: viewport.width, height },
+        captureBeyondViewport: mode === 'full',
+      });
+
+      // Scaled and re-encoded like an upload, so a long page fits in an analysis request
+      const { images: [{ image }] } = await ingestUpload(Buffer.from(png));
+      const { pageHeight, ...dom } = facts;
+      return {
+        image,
+        page: {
+          url: url.href,
+          finalUrl: page.url(),
+          viewport: viewport.name,
+          mode,
+          width: viewport.width,
+          height,
+          truncated: mode === 'full' && pageHeight > MAX_PAGE_HEIGHT,
+          ...dom,
+        },
+      };
+    } finally {
+      await page.close().catch(() => {});
+    }
+  };
+
+  const renderBreakpoint = async (html, breakpoint) => {
+    const browser = await getBrowser();
+    const page = await browser.newPage();
+    try {
+      const isMobile = breakpoint.width < MOBILE_BREAKPOINT;
+      await page.setViewport({ width: breakpoint.width, height: breakpoint.height, deviceScaleFactor: 1, isMobile, hasTouch: isMobile });
+      // The page is rendered offline: anything it tries to fetch is refused
+      await page.setRequestInterception(true);
+      page.on('request', (request) => {
+        if (request.url().startsWith('data:')) request.continue();
+        else request.abort('blockedbyclient');
+      });
+      try {
+        await page.setContent(html, { waitUntil: 'load', timeout: NAVIGATION_TIMEOUT_MS });
+      } catch (error) {
+        throw new CaptureError(`Could not render the design: ${error.message}`, 'CAPTURE_FAILED', 502);
+      }
+      await new Promise((resolve) => setTimeout(resolve, SETTLE_MS));
+
+      const pageHeight = await page.evaluate(() => Math.ceil(document.documentElement.scrollHeight));
+      const height = Math.min(Math.max(pageHeight, breakpoint.height), MAX_PAGE_HEIGHT);
+      const png = await page.screenshot({
+        type: 'png',
+        clip: { x: 0, y: 0, width: breakpoint.width, height },
+        captureBeyondViewport: true,
+      });
+      return {
+        ...breakpoint,
+        image: `data:image/png;base64,${Buffer.from(png).toString('base64')}`,
+        imageHeight: height,
+        truncated: pageHeight > MAX_PAGE_HEIGHT,
+      };
+    } finally {
+      await page.close().catch(() => {});
+    }
+  };
+
+  return {
+    allowedHosts,
+    allowPrivate,
+
+    // { url, viewport?, mode? } -> { image, page }: the screenshot as an ingested data URL and the DOM facts
+    capturePage: async ({ url: value, viewport: viewportName = 'desktop', mode = 'full' } = {}) => {
+      const url = parseCaptureUrl(value);
+      const viewport = Object.hasOwn(CAPTURE_VIEWPORTS, viewportName) ? CAPTURE_VIEWPORTS[viewportName] : null;
+      if (!viewport) {
+        throw new CaptureError(`Unknown viewport "${viewportName}". Expected one of: ${Object.keys(CAPTURE_VIEWPORTS).join(', ')}`, 'INVALID_CAPTURE_OPTIONS');
+      }
+      if (!CAPTURE_MODES.includes(mode)) {
+        throw new CaptureError(`Unknown mode "${mode}". Expected one of: ${CAPTURE_MODES.join(', ')}`, 'INVALID_CAPTURE_OPTIONS');
+      }
+      if (active >= MAX_CONCURRENT_CAPTURES) {
+        throw new CaptureError('Too many pages are being captured; try again shortly', 'CAPTURE_BUSY', 503);
+      }
+
+      active++;
+      try {
+        return await capture(url, { ...viewport, name: viewportName }, mode);
+      } finally {
+        active--;
+      }
+    },
+
+    // { html, breakpoints: [{ label, width, height }] } -> { shots: [{ label, width, height, image, imageHeight, truncated }] }
+    // One full-page PNG per breakpoint, rendered one after another
+    renderBreakpoints: async ({ html, breakpoints: value } = {}) => {
+      if (typeof html !== 'string' || !html.trim() || html.length > MAX_HTML_LENGTH) {
+        throw new CaptureError(`html must be a non-empty string under ${MAX_HTML_LENGTH} characters`, 'INVALID_CAPTURE_OPTIONS');
+      }
+      const breakpoints = parseBreakpoints(value);
+      if (active >= MAX_CONCURRENT_CAPTURES) {
+        throw new CaptureError('Too many pages are being captured; try again shortly', 'CAPTURE_BUSY', 503);
+      }
+
+      active++;
+      try {
+        const shots = [];
+        for (const breakpoint of breakpoints) shots.push(await renderBreakpoint(html, breakpoint));
+        return { shots };
+      } finally {
+        active--;
+      }
+    },
+  };
+};
+
+// --- Prompt text ---
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const text = (value, max = MAX_TEXT_LENGTH) => String(value ?? '').replace(/\s+/g, ' ').trim().slice(0, max);
+const isCount = (value) => Number.isInteger(value) && value >= 0;
+
+// Capture facts as prompt text. They come back from the client in the design
+// context, so every field is checked and trimmed again here.
+export const describePageCapture = (page) => {
+  if (!isObject(page)) return '';
+  const viewport = Object.hasOwn(CAPTURE_VIEWPORTS, page.viewport) ? CAPTURE_VIEWPORTS[page.viewport] : null;
+  const lines = [];
+  lines.push(`**Live page:** ${text(page.finalUrl || page.url, 300)}` +
+    (viewport ? `, captured at ${viewport.label.toLowerCase()} width (${viewport.width}px)` : '') +
+    (page.mode === 'fold' ? ', first screen only.' : page.truncated ? `, full page cut off at ${MAX_PAGE_HEIGHT}px.` : ', full page.'));
+  if (page.title) lines.push(`Title: "${text(page.title)}"`);
+  if (page.description) lines.push(`Meta description: "${text(page.description, MAX_TEXT_LENGTH * 2)}"`);
+  if (page.lang) lines.push(`Language: ${text(page.lang, 20)}`);
+
+  const headings = (Array.isArray(page.headings) ? page.headings : []).filter(isObject).slice(0, MAX_HEADINGS);
+  if (headings.length > 0) {
+    lines.push('Headings, in document order:');
+    headings.forEach((heading) => lines.push(`- h${[1, 2, 3].includes(heading.level) ? heading.level : '?'}: "${text(heading.text)}"`));
+  } else {
+    lines.push('The page has no visible h1–h3 headings.');
+  }
+
+  const counts = [
+    ['links', page.links],
+    ['buttons', page.buttons],
+    ['form fields', page.formFields],
+    ['images', page.images],
+    ['images without alt text', page.imagesWithoutAlt],
+  ].filter(([, value]) => isCount(value));
+  if (counts.length > 0) lines.push(`Visible elements: ${counts.map(([label, value]) => `${value} ${label}`).join(', ')}`);
+
+  return `\n${lines.join('\n')}\nUse these DOM facts alongside the screenshot.\n`;
+};
@@ -0,0 +1,146 @@
+import {
+  buildScoresSchema,
+  isPlainObject,
+  isNonEmptyString,
+  validateScores,
+} from './critique.js';
+import { DEFAULT_RUBRIC, rubricKeys, rubricLabels } from './rubrics.js';
+
+// --- A/B COMPARISON ---
+// Head-to-head critique of two design variants: each is scored on the usual
+// rubric's dimensions, then every dimension gets a winner and the model gives a verdict.
+
+export const VARIANT_IDS = ['A', 'B'];
+const WINNERS = ['A', 'B', 'tie'];
+
+const winnerSchema = {
+  type: 'object',
+  properties: {
+    winner: { type: 'string', enum: WINNERS },
+    rationale: { type: 'string', description: 'One or two sentences explaining the call.' },
+  },
+  required: ['winner', 'rationale'],
+};
+
+export const buildComparisonSchema = (rubric) => ({
+  title: 'DesignComparison',
+  type: 'object',
+  properties: {
+    variants: {
+      type: 'array',
+      minItems: 2,
+      maxItems: 2,
+      description: 'Variant A first, then Variant B.',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', enum: VARIANT_IDS },
+          scores: buildScoresSchema(rubric),
+          summary: { type: 'string', description: "Markdown. This variant's main strengths and weaknesses." },
+        },
+        required: ['id', 'scores', 'summary'],
+      },
+    },
+    dimensionWinners: {
+      type: 'object',
+      properties: Object.fromEntries(rubricKeys(rubric).map((key) => [key, winnerSchema])),
+      required: rubricKeys(rubric),
+    },
+    overallWinner: { type: 'string', enum: WINNERS },
+    verdict: { type: 'string', description: 'Markdown. Which variant to ship and why.' },
+    recommendations: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Changes that would make the chosen variant even stronger, one per item.',
+    },
+  },
+  required: ['variants', 'dimensionWinners', 'overallWinner', 'verdict', 'recommendations'],
+});
+
+export const COMPARISON_RESPONSE_SCHEMA = buildComparisonSchema(DEFAULT_RUBRIC);
+
+export const validateComparison = (comparison, rubric = DEFAULT_RUBRIC) => {
+  if (!isPlainObject(comparison)) return ['response must be a JSON object'];
+  const issues = [];
+
+  if (!Array.isArray(comparison.variants) || comparison.variants.length !== 2) {
+    issues.push('variants must contain exactly 2 entries');
+  } else {
+    comparison.variants.forEach((variant, i) => {
+      const path = `variants[${i}]`;
+      if (!isPlainObject(variant)) {
+        issues.push(`${path} must be an object`);
+        return;
+      }
+      if (variant.id !== VARIANT_IDS[i]) issues.push(`${path}.id must be "${VARIANT_IDS[i]}"`);
+      issues.push(...validateScores(variant.scores, `${path}.scores`, rubric));
+      if (!isNonEmptyString(variant.summary)) issues.push(`${path}.summary must be a non-empty string`);
+    });
+  }
+
+  if (!isPlainObject(comparison.dimensionWinners)) {
+    issues.push('dimensionWinners must be an object');
+  } else {
+    rubricKeys(rubric).forEach((key) => {
+      const entry = comparison.dimensionWinners[key];
+      if (!isPlainObject(entry) || !WINNERS.includes(entry.winner)) {
+        issues.push(`dimensionWinners.${key}.winner must be one of ${WINNERS.join(', ')}`);
+      }
+    });
+  }
+
+  if (!WINNERS.includes(comparison.overallWinner)) issues.push(`overallWinner must be one of ${WINNERS.join(', ')}`);
+  if (!isNonEmptyString(comparison.verdict)) issues.push('verdict must be a non-empty string');
+  if (!Array.isArray(comparison.recommendations) || !comparison.recommendations.every(isNonEmptyString)) {
+    issues.push('recommendations must be an array of non-empty strings');
+  }
+  return issues;
+};
+
+// "Variant A (Current checkout)", or just "Variant A" when no label was given
+const variantTitle = (id, labels) => {
+  const label = labels[id];
+  return label && label !== `Variant ${id}` ? `Variant ${id} (${label})` : `Variant ${id}`;
+};
+
+const winnerLabel = (winner, labels) => (winner === 'tie' ? 'Tie' : variantTitle(winner, labels));
+
+// Renders the comparison as markdown. Works on partial replies too.
+export const renderComparisonMarkdown = (comparison, labels = {}, rubric = DEFAULT_RUBRIC) => {
+  if (!isPlainObject(comparison)) return '';
+  const blocks = [];
+
+  if (isNonEmptyString(comparison.verdict)) {
+    const winner = WINNERS.includes(comparison.overallWinner)
+      ? `\n\n**Overall winner:** ${winnerLabel(comparison.overallWinner, labels)}`
+      : '';
+    blocks.push(`# Verdict\n\n${comparison.verdict.trim()}${winner}`);
+  }
+
+  const winners = isPlainObject(comparison.dimensionWinners) ? comparison.dimensionWinners : {};
+  const dimensionLabels = rubricLabels(rubric);
+  const rows = rubricKeys(rubric)
+    .filter((key) => isPlainObject(winners[key]) && WINNERS.includes(winners[key].winner))
+    .map((key) => {
+      const rationale = isNonEmptyString(winners[key].rationale) ? ` — ${winners[key].rationale.trim()}` : '';
+      return `- **${dimensionLabels[key]}:** ${winnerLabel(winners[key].winner, labels)}${rationale}`;
+    });
+  if (rows.length > 0) {
+    blocks.push(`# Head-to-Head\n\n${rows.join('\n')}`);
+  }
+
+  const variants = Array.isArray(comparison.variants) ? comparison.variants : [];
+  variants.forEach((variant, i) => {
+    const id = VARIANT_IDS[i];
+    if (id && isPlainObject(variant) && isNonEmptyString(variant.summary)) {
+      blocks.push(`## ${variantTitle(id, labels)}\n\n${variant.summary.trim()}`);
+    }
+  });
+
+  const recommendations = Array.isArray(comparison.recommendations) ? comparison.recommendations.filter(isNonEmptyString) : [];
+  if (recommendations.length > 0) {
+    blocks.push(`# Recommendations\n\n${recommendations.map((item) => `- ${item.trim()}`).join('\n')}`);
+  }
+
+  return blocks.join('\n\n');
+};
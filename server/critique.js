@@ -0,0 +1,408 @@
+// --- STRUCTURED CRITIQUE ---
+// JSON schema we ask the model to answer with, plus the validation, repair and
+// markdown rendering that turns its reply into something the UI can trust.
+// Kept free of Node APIs so the legacy browser client can import it too.
+// Schemas and validators take the scoring rubric and reviewer personas;
+// without them they use the default five dimensions and three lenses. A
+// design system profile, when given, adds a conformance section.
+
+import { DEFAULT_RUBRIC, rubricKeys } from './rubrics.js';
+import { DEFAULT_PERSONAS, personaName } from './personas.js';
+import { CONFORMANCE_SCHEMA, renderConformanceMarkdown, validateConformance } from './designSystem.js';
+
+export const METRIC_KEYS = rubricKeys(DEFAULT_RUBRIC);
+
+export const CONFIDENCE_LEVELS = ['High', 'Medium', 'Low'];
+
+export const ISSUE_SEVERITIES = ['critical', 'major', 'minor'];
+
+// How far an issue flagged on the previous revision has been addressed
+export const ISSUE_STATUSES = ['resolved', 'partial', 'unresolved'];
+
+// How many times we re-ask the model after a reply fails validation
+export const MAX_REPAIR_ATTEMPTS = 1;
+
+const metricSchema = (description) => ({
+  type: 'number',
+  minimum: 0,
+  maximum: 10,
+  description,
+});
+
+// DesignScore, shared by every structured reply that scores a design
+export const buildScoresSchema = (rubric) => ({
+  type: 'object',
+  properties: {
+    overallScore: { type: 'integer', minimum: 0, maximum: 100 },
+    confidence: { type: 'string', enum: CONFIDENCE_LEVELS },
+    metrics: {
+      type: 'object',
+      properties: Object.fromEntries(
+        rubric.dimensions.map((dimension) => [dimension.key, metricSchema(`${dimension.label}, 0-10`)])
+      ),
+      required: rubricKeys(rubric),
+    },
+  },
+  required: ['overallScore', 'confidence', 'metrics'],
+});
+
+export const SCORES_SCHEMA = buildScoresSchema(DEFAULT_RUBRIC);
+
+export const buildCritiqueSchema = (rubric, personas = DEFAULT_PERSONAS, designSystem = null) => ({
+  title: 'DesignCritique',
+  type: 'object',
+  properties: {
+    scores: buildScoresSchema(rubric),
+    executiveSummary: {
+      type: 'string',
+      description: "Markdown. Brief high-level summary of the design's effectiveness.",
+    },
+    perspectives: {
+      type: 'object',
+      description: 'One critique per reviewer persona, written from that persona\'s point of view.',
+      properties: Object.fromEntries(personas.map((persona) => [
+        persona.id,
+        { type: 'string', description: `Markdown. ${persona.name}: ${persona.description}` },
+      ])),
+      required: personas.map((persona) => persona.id),
+    },
+    improvements: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Specific, high-impact changes, one per item.',
+    },
+    additionalNotes: {
+      type: 'string',
+      description: 'Markdown. Anything else worth calling out (optional).',
+    },
+    issues: {
+      type: 'array',
+      description: 'Concrete problems visible on the screenshot, most severe first.',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: 'Short name of the problem, e.g. "Primary CTA lacks contrast".' },
+          detail: { type: 'string', description: 'One or two sentences: why it matters and how to fix it.' },
+          severity: { type: 'string', enum: ISSUE_SEVERITIES },
+          dimension: { type: 'string', enum: rubricKeys(rubric), description: 'The score dimension this issue hurts most.' },
+          bbox: {
+            type: 'object',
+            description: 'Region of the screenshot the issue refers to, as fractions (0-1) of the image width and height from the top-left corner.',
+            properties: {
+              x: { type: 'number', minimum: 0, maximum: 1 },
+              y: { type: 'number', minimum: 0, maximum: 1 },
+              width: { type: 'number', minimum: 0, maximum: 1 },
+              height: { type: 'number', minimum: 0, maximum: 1 },
+            },
+            required: ['x', 'y', 'width', 'height'],
+          },
+        },
+        required: ['title', 'detail', 'severity', 'dimension', 'bbox'],
+      },
+    },
+    issueProgress: {
+      type: 'array',
+      description: 'Only when previously flagged issues are listed: one entry per issue, in the same order.',
+      items: {
+        type: 'object',
+        properties: {
+          issue: { type: 'string', description: 'The previously flagged issue, restated briefly.' },
+          status: { type: 'string', enum: ISSUE_STATUSES },
+          note: { type: 'string', description: 'What changed, or what is still missing.' },
+        },
+        required: ['issue', 'status'],
+      },
+    },
+    ...(designSystem ? { conformance: CONFORMANCE_SCHEMA } : {}),
+  },
+  required: ['scores', 'executiveSummary', 'perspectives', 'improvements', 'issues', ...(designSystem ? ['conformance'] : [])],
+});
+
+export const CRITIQUE_RESPONSE_SCHEMA = buildCritiqueSchema(DEFAULT_RUBRIC);
+
+export class CritiqueValidationError extends Error {
+  constructor(issues) {
+    super(`The model's critique could not be used: ${issues.join('; ')}`);
+    this.name = 'CritiqueValidationError';
+    this.code = 'INVALID_CRITIQUE';
+    this.issues = issues;
+  }
+}
+
+export const isPlainObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+export const isNonEmptyString = (value) => typeof value === 'string' && value.trim().length > 0;
+
+const checkRange = (issues, path, value, min, max) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push(`${path} must be a number`);
+  } else if (value < min || value > max) {
+    issues.push(`${path} must be between ${min} and ${max} (got ${value})`);
+  }
+};
+
+// Returns a list of human-readable problems; an empty list means the scores are usable
+export const validateScores = (scores, path = 'scores', rubric = DEFAULT_RUBRIC) => {
+  const issues = [];
+  if (!isPlainObject(scores)) return [`${path} must be an object`];
+
+  checkRange(issues, `${path}.overallScore`, scores.overallScore, 0, 100);
+  if (!CONFIDENCE_LEVELS.includes(scores.confidence)) {
+    issues.push(`${path}.confidence must be one of ${CONFIDENCE_LEVELS.join(', ')}`);
+  }
+  if (!isPlainObject(scores.metrics)) {
+    issues.push(`${path}.metrics must be an object`);
+  } else {
+    rubricKeys(rubric).forEach((key) => checkRange(issues, `${path}.metrics.${key}`, scores.metrics[key], 0, 10));
+  }
+  return issues;
+};
+
+const validateIssue = (issue, path, keys) => {
+  if (!isPlainObject(issue)) return [`${path} must be an object`];
+  const issues = [];
+  if (!isNonEmptyString(issue.title)) issues.push(`${path}.title must be a non-empty string`);
+  if (!isNonEmptyString(issue.detail)) issues.push(`${path}.detail must be a non-empty string`);
+  if (!ISSUE_SEVERITIES.includes(issue.severity)) issues.push(`${path}.severity must be one of ${ISSUE_SEVERITIES.join(', ')}`);
+  if (!keys.includes(issue.dimension)) issues.push(`${path}.dimension must be one of ${keys.join(', ')}`);
+
+  const bbox = issue.bbox;
+  if (!isPlainObject(bbox)) {
+    issues.push(`${path}.bbox must be an object`);
+  } else {
+    ['x', 'y', 'width', 'height'].forEach((key) => checkRange(issues, `${path}.bbox.${key}`, bbox[key], 0, 1));
+    if (bbox.width === 0 || bbox.height === 0) issues.push(`${path}.bbox must have a non-zero width and height`);
+  }
+  return issues;
+};
+
+export const validateCritique = (critique, rubric = DEFAULT_RUBRIC, personas = DEFAULT_PERSONAS, designSystem = null) => {
+  if (!isPlainObject(critique)) return ['response must be a JSON object'];
+
+  const issues = validateScores(critique.scores, 'scores', rubric);
+  if (!isNonEmptyString(critique.executiveSummary)) issues.push('executiveSummary must be a non-empty string');
+
+  if (!isPlainObject(critique.perspectives)) {
+    issues.push('perspectives must be an object');
+  } else {
+    personas.forEach(({ id }) => {
+      if (!isNonEmptyString(critique.perspectives[id])) issues.push(`perspectives.${id} must be a non-empty string`);
+    });
+  }
+
+  if (!Array.isArray(critique.improvements) || critique.improvements.length === 0) {
+    issues.push('improvements must be a non-empty array');
+  } else if (!critique.improvements.every(isNonEmptyString)) {
+    issues.push('improvements must only contain non-empty strings');
+  }
+
+  if (critique.additionalNotes !== undefined && typeof critique.additionalNotes !== 'string') {
+    issues.push('additionalNotes must be a string');
+  }
+
+  // Only required when the critique was checked against a design system
+  if (designSystem || critique.conformance !== undefined) {
+    issues.push(...validateConformance(critique.conformance));
+  }
+
+  // Critiques saved before issues existed have none; they are still valid
+  if (critique.issues !== undefined) {
+    if (!Array.isArray(critique.issues)) {
+      issues.push('issues must be an array');
+    } else {
+      const keys = rubricKeys(rubric);
+      critique.issues.forEach((issue, i) => issues.push(...validateIssue(issue, `issues[${i}]`, keys)));
+    }
+  }
+
+  if (critique.issueProgress !== undefined) {
+    if (!Array.isArray(critique.issueProgress)) {
+      issues.push('issueProgress must be an array');
+    } else {
+      critique.issueProgress.forEach((entry, i) => {
+        if (!isPlainObject(entry) || !isNonEmptyString(entry.issue)) {
+          issues.push(`issueProgress[${i}].issue must be a non-empty string`);
+        } else if (!ISSUE_STATUSES.includes(entry.status)) {
+          issues.push(`issueProgress[${i}].status must be one of ${ISSUE_STATUSES.join(', ')}`);
+        }
+      });
+    }
+  }
+  return issues;
+};
+
+// Finds the first balanced {...} block, honouring strings, so nested objects
+// like `metrics` survive (unlike a lazy /\{[\s\S]*?\}/ match).
+const extractJsonObject = (text) => {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') depth++;
+    else if (ch === '}') {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+};
+
+// Parses a complete model reply and checks it with `validate`. Replies wrapped
+// in code fences or surrounded by chatter are repaired locally before giving up.
+export const parseStructured = (text, validate) => {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    const candidate = extractJsonObject(text || '');
+    if (!candidate) return { value: null, issues: ['response did not contain a JSON object'] };
+    try {
+      data = JSON.parse(candidate);
+    } catch (e) {
+      return { value: null, issues: [`response was not valid JSON (${e.message})`] };
+    }
+  }
+
+  const issues = validate(data);
+  return { value: issues.length === 0 ? data : null, issues };
+};
+
+export const parseCritique = (text) => {
+  const { value, issues } = parseStructured(text, validateCritique);
+  return { critique: value, issues };
+};
+
+export const buildRepairPrompt = (issues) =>
+  `Your previous reply could not be used because it failed validation:\n` +
+  issues.map((issue) => `- ${issue}`).join('\n') +
+  `\n\nReply again with only the corrected JSON object matching the required schema. ` +
+  `Keep every score within its range (metrics 0-10, overallScore 0-100).`;
+
+// Best-effort parse of a JSON object that is still being streamed. Closes any
+// open strings/containers and drops a dangling key or half-written literal.
+export const parsePartialJson = (text) => {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+  const source = text.slice(start);
+
+  const closers = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') closers.push('}');
+    else if (ch === '[') closers.push(']');
+    else if (ch === '}' || ch === ']') {
+      closers.pop();
+      if (closers.length === 0) return tryParse(source.slice(0, i + 1));
+    }
+  }
+
+  let body = source;
+  if (inString) body = (escaped ? body.slice(0, -1) : body) + '"';
+  const suffix = closers.reverse().join('');
+
+  const attempts = [
+    body,
+    body.replace(/[,\s]+$/, ''),
+    body.replace(/(^|[{,])\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, '$1').replace(/,\s*$/, ''),
+    body.replace(/(^|[{,])\s*"(?:[^"\\]|\\.)*"\s*:\s*[^"\s{}[\],]*$/, '$1').replace(/,\s*$/, ''),
+  ];
+  for (const attempt of attempts) {
+    const parsed = tryParse(attempt + suffix);
+    if (parsed) return parsed;
+  }
+  return null;
+};
+
+const tryParse = (text) => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+const ISSUE_STATUS_LABELS = {
+  resolved: '✅ **Resolved**',
+  partial: '🟡 **Partially resolved**',
+  unresolved: '❌ **Not resolved**',
+};
+
+const ISSUE_SEVERITY_LABELS = { critical: 'Critical', major: 'Major', minor: 'Minor' };
+
+// Renders the critique sections as the markdown document the UI displays.
+// Works on partial critiques too: missing sections are simply skipped.
+// Issues, perspectives and design system conformance have their own views in
+// the UI, so they are only written out on request (e.g. when replaying the
+// critique to the model).
+// `personas` names the perspectives; unknown keys fall back to built-in names.
+export const renderCritiqueMarkdown = (critique, { includeIssues = false, includePerspectives = false, includeConformance = false, personas = DEFAULT_PERSONAS } = {}) => {
+  if (!isPlainObject(critique)) return '';
+  const blocks = [];
+
+  if (isNonEmptyString(critique.executiveSummary)) {
+    blocks.push(`# Executive Summary\n\n${critique.executiveSummary.trim()}`);
+  }
+
+  const progress = Array.isArray(critique.issueProgress)
+    ? critique.issueProgress.filter((entry) => isPlainObject(entry) && isNonEmptyString(entry.issue) && ISSUE_STATUS_LABELS[entry.status])
+    : [];
+  if (progress.length > 0) {
+    const items = progress.map((entry) => {
+      const note = isNonEmptyString(entry.note) ? ` — ${entry.note.trim()}` : '';
+      return `- ${ISSUE_STATUS_LABELS[entry.status]}: ${entry.issue.trim()}${note}`;
+    });
+    blocks.push(`# Progress Since Last Revision\n\n${items.join('\n')}`);
+  }
+
+  const perspectives = includePerspectives && isPlainObject(critique.perspectives) ? critique.perspectives : {};
+  const lenses = Object.keys(perspectives).filter((key) => isNonEmptyString(perspectives[key]));
+  if (lenses.length > 0) {
+    blocks.push('# 360° Perspective Analysis');
+    lenses.forEach((key) => blocks.push(`## ${personaName(personas, key)}\n\n${perspectives[key].trim()}`));
+  }
+
+  const improvements = Array.isArray(critique.improvements) ? critique.improvements.filter(isNonEmptyString) : [];
+  if (improvements.length > 0) {
+    blocks.push(`# Actionable Improvements\n\n${improvements.map((item) => `- ${item.trim()}`).join('\n')}`);
+  }
+
+  const issueList = includeIssues && Array.isArray(critique.issues)
+    ? critique.issues.filter((issue) => isPlainObject(issue) && isNonEmptyString(issue.title))
+    : [];
+  if (issueList.length > 0) {
+    const items = issueList.map((issue, i) => {
+      const severity = ISSUE_SEVERITY_LABELS[issue.severity] || 'Issue';
+      const detail = isNonEmptyString(issue.detail) ? ` — ${issue.detail.trim()}` : '';
+      return `${i + 1}. **[${severity}]** ${issue.title.trim()}${detail}`;
+    });
+    blocks.push(`# Issues Found\n\n${items.join('\n')}`);
+  }
+
+  const conformance = includeConformance ? renderConformanceMarkdown(critique.conformance) : '';
+  if (conformance) blocks.push(conformance);
+
+  if (isNonEmptyString(critique.additionalNotes)) {
+    blocks.push(critique.additionalNotes.trim());
+  }
+
+  return blocks.join('\n\n');
+};
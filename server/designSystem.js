@@ -0,0 +1,176 @@
+// --- DESIGN SYSTEM PROFILES ---
+// Tokens a team's designs are meant to use: colours, type scale, spacing,
+// radii and font families. The browser parses W3C Design Tokens or Tailwind
+// config files into this shape (see src/utils/designTokens.ts) and sends it
+// as `designSystem`. Critiques then report where the screenshot departs from
+// it, and follow-up chat keeps generated HTML to the same tokens.
+// Kept free of Node APIs like critique.js, which imports it.
+
+const MAX_TOKENS = 300; // per group
+const MAX_PROMPT_TOKENS = 80; // per group, listed in the prompt
+const MAX_NAME_LENGTH = 80;
+const MAX_FAMILY_LENGTH = 200;
+const MAX_SIZE_PX = 1000;
+const MAX_OFF_PALETTE = 12;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const CONFORMANCE_KINDS = ['color', 'spacing', 'typography', 'radius'];
+
+const SIZE_GROUPS = ['fontSizes', 'spacing', 'radii'];
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isText = (value, max) => typeof value === 'string' && value.trim().length > 0 && value.length <= max;
+const isFilled = (value) => typeof value === 'string' && value.trim().length > 0;
+
+// Returns a list of human-readable problems; an empty list means the profile is usable
+export const validateDesignSystem = (designSystem) => {
+  if (!isObject(designSystem)) return ['designSystem must be an object'];
+  const issues = [];
+  if (!isText(designSystem.name, MAX_NAME_LENGTH)) issues.push(`designSystem.name must be 1-${MAX_NAME_LENGTH} characters`);
+
+  // Missing groups count as empty
+  const checkGroup = (group, checkToken) => {
+    const tokens = designSystem[group] ?? [];
+    if (!Array.isArray(tokens) || tokens.length > MAX_TOKENS) {
+      issues.push(`designSystem.${group} must be an array of at most ${MAX_TOKENS} tokens`);
+      return;
+    }
+    const bad = tokens.findIndex((token) => !isObject(token) || !isText(token.name, MAX_NAME_LENGTH) || !checkToken(token));
+    if (bad !== -1) issues.push(`designSystem.${group}[${bad}] is not a valid token`);
+  };
+  checkGroup('colors', (token) => HEX_COLOR.test(token.hex));
+  SIZE_GROUPS.forEach((group) => checkGroup(group, (token) => typeof token.px === 'number' && token.px >= 0 && token.px <= MAX_SIZE_PX));
+  checkGroup('fontFamilies', (token) => isText(token.family, MAX_FAMILY_LENGTH));
+
+  const total = ['colors', ...SIZE_GROUPS, 'fontFamilies'].reduce((sum, group) => sum + (designSystem[group]?.length || 0), 0);
+  if (issues.length === 0 && total === 0) issues.push('designSystem has no tokens');
+  return issues;
+};
+
+export class DesignSystemError extends Error {
+  constructor(issues) {
+    super(`The design system profile is invalid: ${issues.join('; ')}`);
+    this.name = 'DesignSystemError';
+    this.code = 'INVALID_DESIGN_SYSTEM';
+    this.issues = issues;
+  }
+}
+
+// Request value -> profile, or null when none was sent. Throws DesignSystemError.
+export const resolveDesignSystem = (value) => {
+  if (value === undefined || value === null) return null;
+  const issues = validateDesignSystem(value);
+  if (issues.length > 0) throw new DesignSystemError(issues);
+  const pick = (group, fields) => (value[group] ?? []).map((token) => Object.fromEntries(fields.map((field) => [field, token[field]])));
+  return {
+    name: value.name.trim(),
+    colors: pick('colors', ['name', 'hex']).map((token) => ({ ...token, hex: token.hex.toLowerCase() })),
+    fontSizes: pick('fontSizes', ['name', 'px']),
+    spacing: pick('spacing', ['name', 'px']),
+    radii: pick('radii', ['name', 'px']),
+    fontFamilies: pick('fontFamilies', ['name', 'family']),
+  };
+};
+
+const listTokens = (tokens, format) => {
+  const shown = tokens.slice(0, MAX_PROMPT_TOKENS).map(format).join(', ');
+  return tokens.length > MAX_PROMPT_TOKENS ? `${shown}, … (${tokens.length - MAX_PROMPT_TOKENS} more)` : shown;
+};
+
+// Prompt text listing the tokens, one line per group that has any
+export const describeDesignSystem = (designSystem) => {
+  const lines = [
+    ['Colours', designSystem.colors, (token) => `${token.name} ${token.hex}`],
+    ['Type scale (px)', designSystem.fontSizes, (token) => `${token.name} ${token.px}`],
+    ['Spacing scale (px)', designSystem.spacing, (token) => `${token.name} ${token.px}`],
+    ['Corner radii (px)', designSystem.radii, (token) => `${token.name} ${token.px}`],
+    ['Font families', designSystem.fontFamilies, (token) => `${token.name}: ${token.family}`],
+  ]
+    .filter(([, tokens]) => tokens.length > 0)
+    .map(([label, tokens, format]) => `- ${label}: ${listTokens(tokens, format)}`);
+  return `**Design system "${designSystem.name}"** (the design is meant to use only these tokens; pure white and black are always allowed):\n${lines.join('\n')}\n`;
+};
+
+// Colours measured in the browser that match no palette token (see
+// src/utils/conformance.ts). Passed on as facts; malformed entries are dropped.
+export const describeOffPalette = (offPalette) => {
+  if (!Array.isArray(offPalette)) return '';
+  const colors = offPalette
+    .filter((color) => isObject(color) && HEX_COLOR.test(color.hex) && typeof color.share === 'number')
+    .slice(0, MAX_OFF_PALETTE);
+  if (colors.length === 0) return '';
+
+  const lines = colors.map((color) => {
+    const usage = color.usage === 'text' ? 'text' : 'surfaces';
+    const nearest = isObject(color.nearest) && HEX_COLOR.test(color.nearest.hex) && typeof color.nearest.name === 'string'
+      ? `, nearest token ${color.nearest.name.slice(0, MAX_NAME_LENGTH)} ${color.nearest.hex}`
+      : '';
+    return `- ${color.hex} (${usage}, ${Math.round(color.share * 100)}%${nearest})`;
+  });
+  return `\n**Measured off-palette colours** (computed from the image pixels; treat these as facts):\n${lines.join('\n')}\n`;
+};
+
+// --- CONFORMANCE SECTION OF A CRITIQUE ---
+
+export const CONFORMANCE_SCHEMA = {
+  type: 'object',
+  description: 'How closely the screenshot follows the design system.',
+  properties: {
+    summary: { type: 'string', description: 'Markdown. One or two sentences on overall conformance.' },
+    findings: {
+      type: 'array',
+      description: 'Places the design departs from the tokens, most noticeable first. Empty when it conforms.',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: CONFORMANCE_KINDS },
+          observed: { type: 'string', description: 'What the screenshot uses and where, e.g. "~13px body text in the card footer".' },
+          expected: { type: 'string', description: 'The token that should be used instead, e.g. "sm (14px)".' },
+          detail: { type: 'string', description: 'One sentence on why it matters or how to fix it.' },
+        },
+        required: ['kind', 'observed', 'expected', 'detail'],
+      },
+    },
+  },
+  required: ['summary', 'findings'],
+};
+
+export const validateConformance = (conformance, path = 'conformance') => {
+  if (!isObject(conformance)) return [`${path} must be an object`];
+  const issues = [];
+  if (!isFilled(conformance.summary)) issues.push(`${path}.summary must be a non-empty string`);
+  if (!Array.isArray(conformance.findings)) {
+    issues.push(`${path}.findings must be an array`);
+  } else {
+    conformance.findings.forEach((finding, i) => {
+      const item = `${path}.findings[${i}]`;
+      if (!isObject(finding)) {
+        issues.push(`${item} must be an object`);
+        return;
+      }
+      if (!CONFORMANCE_KINDS.includes(finding.kind)) issues.push(`${item}.kind must be one of ${CONFORMANCE_KINDS.join(', ')}`);
+      ['observed', 'expected', 'detail'].forEach((key) => {
+        if (!isFilled(finding[key])) issues.push(`${item}.${key} must be a non-empty string`);
+      });
+    });
+  }
+  return issues;
+};
+
+const KIND_LABELS = { color: 'Colour', spacing: 'Spacing', typography: 'Type', radius: 'Radius' };
+
+export const renderConformanceMarkdown = (conformance) => {
+  if (!isObject(conformance)) return '';
+  const blocks = [];
+  if (isFilled(conformance.summary)) blocks.push(conformance.summary.trim());
+  const findings = Array.isArray(conformance.findings)
+    ? conformance.findings.filter((finding) => isObject(finding) && isFilled(finding.observed))
+    : [];
+  if (findings.length > 0) {
+    blocks.push(findings.map((finding) =>
+      `- **${KIND_LABELS[finding.kind] || 'Token'}:** ${finding.observed.trim()} → ${String(finding.expected || '').trim()}. ${String(finding.detail || '').trim()}`
+    ).join('\n'));
+  }
+  return blocks.length > 0 ? `# Design System Conformance\n\n${blocks.join('\n\n')}` : '';
+};
@@ -0,0 +1,248 @@
+import { ingestUpload } from './ingest.js';
+
+// --- FIGMA IMPORT ---
+// Turns a Figma file or frame URL into something the model can critique: the
+// frame rendered to PNG through the Figma REST API, plus metadata the pixels
+// don't carry (text layers, solid fills and auto-layout spacing).
+//
+// Configured with FIGMA_TOKEN (a personal access token) and optionally
+// FIGMA_API_BASE_URL (default https://api.figma.com), so a local mock server
+// can stand in during development and tests.
+
+const DEFAULT_API_BASE_URL = 'https://api.figma.com';
+const REQUEST_TIMEOUT_MS = 30_000;
+const MAX_RENDER_SIDE = 2048; // px; larger frames are rendered at a lower scale
+const MAX_RENDER_SCALE = 2;
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+// Metadata limits, both when collecting it and when describing it to the model
+const MAX_NODES = 5000; // nodes visited per frame
+const MAX_TEXTS = 60;
+const MAX_TEXT_LENGTH = 200;
+const MAX_FILLS = 16;
+const MAX_AUTO_LAYOUTS = 30;
+const MAX_NAME_LENGTH = 80;
+
+// Top-level nodes that make sense to critique when the URL names no frame
+const FRAME_TYPES = ['FRAME', 'COMPONENT', 'COMPONENT_SET', 'SECTION'];
+
+export class FigmaError extends Error {
+  constructor(message, code, status = 400) {
+    super(message);
+    this.name = 'FigmaError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// https://www.figma.com/{file|design|proto}/KEY[/branch/BRANCH_KEY]/Name?node-id=1-2
+// -> { fileKey, nodeId } with nodeId in the API's "1:2" form, or null without one
+export const parseFigmaUrl = (value) => {
+  let url;
+  try {
+    url = new URL(String(value).trim());
+  } catch {
+    throw new FigmaError("That doesn't look like a URL", 'INVALID_FIGMA_URL');
+  }
+  if (!/(^|\.)figma\.com$/.test(url.hostname)) {
+    throw new FigmaError('Only figma.com file and frame links can be imported', 'INVALID_FIGMA_URL');
+  }
+  const match = url.pathname.match(/^\/(?:file|design|proto)\/([0-9a-zA-Z]+)(?:\/branch\/([0-9a-zA-Z]+))?/);
+  if (!match) throw new FigmaError('The link must point to a Figma design file', 'INVALID_FIGMA_URL');
+
+  const nodeParam = url.searchParams.get('node-id');
+  const nodeId = nodeParam ? nodeParam.replace('-', ':') : null;
+  if (nodeId !== null && !/^[0-9]+:[0-9]+$/.test(nodeId)) {
+    throw new FigmaError(`Unrecognised node-id "${nodeParam}"`, 'INVALID_FIGMA_URL');
+  }
+  return { fileKey: match[2] || match[1], nodeId };
+};
+
+// --- Metadata ---
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const toHex = ({ r, g, b }) =>
+  `#${[r, g, b].map((channel) => Math.round(channel * 255).toString(16).padStart(2, '0')).join('')}`;
+
+// Walks the frame's visible nodes, depth first, collecting what the model can use
+export const collectFrameMetadata = (root) => {
+  const texts = [];
+  const fills = new Map();
+  const autoLayouts = [];
+  let visited = 0;
+
+  const visit = (node) => {
+    if (!node || node.visible === false || visited >= MAX_NODES) return;
+    visited++;
+
+    if (node.type === 'TEXT' && typeof node.characters === 'string' && node.characters.trim() && texts.length < MAX_TEXTS) {
+      texts.push({
+        name: String(node.name || '').slice(0, MAX_NAME_LENGTH),
+        characters: node.characters.trim().slice(0, MAX_TEXT_LENGTH),
+        fontFamily: node.style?.fontFamily,
+        fontSize: node.style?.fontSize,
+        fontWeight: node.style?.fontWeight,
+      });
+    }
+
+    (Array.isArray(node.fills) ? node.fills : [])
+      .filter((fill) => fill.type === 'SOLID' && fill.visible !== false && fill.color && (fill.opacity ?? 1) > 0)
+      .forEach((fill) => {
+        const hex = toHex(fill.color);
+        fills.set(hex, (fills.get(hex) || 0) + 1);
+      });
+
+    if ((node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL') && autoLayouts.length < MAX_AUTO_LAYOUTS) {
+      autoLayouts.push({
+        name: String(node.name || '').slice(0, MAX_NAME_LENGTH),
+        direction: node.layoutMode === 'HORIZONTAL' ? 'horizontal' : 'vertical',
+        itemSpacing: node.itemSpacing ?? 0,
+        padding: [node.paddingTop, node.paddingRight, node.paddingBottom, node.paddingLeft].map((p) => p ?? 0),
+      });
+    }
+
+    (node.children || []).forEach(visit);
+  };
+
+  visit(root);
+  return {
+    texts,
+    fills: [...fills.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_FILLS)
+      .map(([hex, count]) => ({ hex, count })),
+    autoLayouts,
+  };
+};
+
+// --- REST client ---
+
+export const createFigmaClient = (env = process.env) => {
+  const token = env.FIGMA_TOKEN;
+  const baseUrl = (env.FIGMA_API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+
+  const request = async (url, init = {}) => {
+    let response;
+    try {
+      response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    } catch (error) {
+      throw new FigmaError(`Could not reach Figma: ${error.message}`, 'FIGMA_UNAVAILABLE', 502);
+    }
+    if (response.ok) return response;
+    if (response.status === 401 || response.status === 403) {
+      throw new FigmaError("Figma rejected the token, or it can't access this file", 'FIGMA_UNAUTHORIZED', 502);
+    }
+    if (response.status === 404) throw new FigmaError('Figma could not find that file or frame', 'FIGMA_NOT_FOUND', 404);
+    if (response.status === 429) throw new FigmaError('Figma is rate limiting requests; try again shortly', 'FIGMA_RATE_LIMITED', 503);
+    const detail = await response.text().catch(() => '');
+    throw new FigmaError(`Figma returned ${response.status}: ${detail.slice(0, 300)}`, 'FIGMA_REQUEST_FAILED', 502);
+  };
+
+  const api = async (pathname) => {
+    const response = await request(`${baseUrl}${pathname}`, { headers: { 'X-Figma-Token': token } });
+    return response.json();
+  };
+
+  // The first frame on the first page, for links to a whole file
+  const findFirstFrame = async (fileKey) => {
+    const file = await api(`/v1/files/${fileKey}?depth=2`);
+    const frame = (file.document?.children?.[0]?.children || []).find((node) => FRAME_TYPES.includes(node.type));
+    if (!frame) throw new FigmaError('The first page of that file has no frames; link to a frame instead', 'FIGMA_NOT_FOUND', 404);
+    return frame.id;
+  };
+
+  const renderPng = async (fileKey, nodeId, box) => {
+    const side = Math.max(box?.width || 0, box?.height || 0);
+    const scale = side > 0 ? Math.max(0.01, round(Math.min(MAX_RENDER_SCALE, MAX_RENDER_SIDE / side))) : 1;
+    const { images, err } = await api(`/v1/images/${fileKey}?ids=${encodeURIComponent(nodeId)}&format=png&scale=${scale}`);
+    const imageUrl = images?.[nodeId];
+    if (err || !imageUrl) throw new FigmaError(`Figma could not render the frame${err ? `: ${err}` : ''}`, 'FIGMA_RENDER_FAILED', 502);
+
+    // Render URLs are pre-signed, so they are fetched without the token
+    const response = await request(imageUrl);
+    const bytes = Buffer.from(await response.arrayBuffer());
+    if (bytes.length > MAX_IMAGE_BYTES) throw new FigmaError('The rendered frame is too large to analyze', 'FIGMA_RENDER_FAILED', 502);
+    // Scaled and re-encoded like an upload, so the image fits in an analysis request
+    const { images: [{ image }] } = await ingestUpload(bytes);
+    return image;
+  };
+
+  return {
+    isConfigured: Boolean(token),
+    baseUrl,
+
+    // URL -> { image, frame }: the rendered frame as an ingested data URL and its metadata
+    importFrame: async (figmaUrl) => {
+      if (!token) {
+        throw new FigmaError('Figma import is not configured: set FIGMA_TOKEN on the server', 'FIGMA_NOT_CONFIGURED', 501);
+      }
+      const { fileKey, nodeId: linkedNodeId } = parseFigmaUrl(figmaUrl);
+      const nodeId = linkedNodeId ?? await findFirstFrame(fileKey);
+
+      const file = await api(`/v1/files/${fileKey}/nodes?ids=${encodeURIComponent(nodeId)}`);
+      const node = file.nodes?.[nodeId]?.document;
+      if (!node) throw new FigmaError('Figma could not find that frame', 'FIGMA_NOT_FOUND', 404);
+
+      const box = node.absoluteBoundingBox;
+      const image = await renderPng(fileKey, nodeId, box);
+      return {
+        image,
+        frame: {
+          fileKey,
+          nodeId,
+          fileName: String(file.name || '').slice(0, MAX_NAME_LENGTH),
+          name: String(node.name || '').slice(0, MAX_NAME_LENGTH),
+          type: node.type,
+          width: box ? round(box.width) : null,
+          height: box ? round(box.height) : null,
+          ...collectFrameMetadata(node),
+        },
+      };
+    },
+  };
+};
+
+// --- Prompt text ---
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const text = (value, max = MAX_NAME_LENGTH) => String(value ?? '').replace(/\s+/g, ' ').trim().slice(0, max);
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+// Frame metadata as prompt text. It comes back from the client in the design
+// context, so every field is checked and trimmed again here.
+export const describeFigmaFrame = (frame) => {
+  if (!isObject(frame)) return '';
+  const lines = [];
+  const size = isNumber(frame.width) && isNumber(frame.height) ? ` (${frame.width}×${frame.height})` : '';
+  lines.push(`**Figma frame:** "${text(frame.name)}"${frame.fileName ? ` in "${text(frame.fileName)}"` : ''}${size}. The attached image is this frame, rendered by Figma.`);
+
+  const texts = (Array.isArray(frame.texts) ? frame.texts : []).filter(isObject).slice(0, MAX_TEXTS);
+  if (texts.length > 0) {
+    lines.push('Text layers (exact copy, with font where known):');
+    texts.forEach((layer) => {
+      const font = [text(layer.fontFamily), isNumber(layer.fontSize) ? `${layer.fontSize}px` : '', isNumber(layer.fontWeight) ? String(layer.fontWeight) : '']
+        .filter(Boolean)
+        .join(' ');
+      lines.push(`- "${text(layer.characters, MAX_TEXT_LENGTH)}"${font ? ` — ${font}` : ''}`);
+    });
+  }
+
+  const fills = (Array.isArray(frame.fills) ? frame.fills : [])
+    .filter((fill) => isObject(fill) && /^#[0-9a-f]{6}$/i.test(fill.hex))
+    .slice(0, MAX_FILLS);
+  if (fills.length > 0) {
+    lines.push(`Solid fills, most used first: ${fills.map((fill) => `${fill.hex}${isNumber(fill.count) ? ` ×${fill.count}` : ''}`).join(', ')}`);
+  }
+
+  const layouts = (Array.isArray(frame.autoLayouts) ? frame.autoLayouts : []).filter(isObject).slice(0, MAX_AUTO_LAYOUTS);
+  if (layouts.length > 0) {
+    lines.push('Auto-layout containers (gap; padding top right bottom left, px):');
+    layouts.forEach((layout) => {
+      const padding = Array.isArray(layout.padding) && layout.padding.every(isNumber) ? layout.padding.join(' ') : '?';
+      lines.push(`- "${text(layout.name)}" ${layout.direction === 'horizontal' ? 'horizontal' : 'vertical'}: gap ${isNumber(layout.itemSpacing) ? layout.itemSpacing : '?'}; padding ${padding}`);
+    });
+  }
+
+  return `\n${lines.join('\n')}\nUse the exact copy, fills and spacing above where the image is ambiguous.\n`;
+};
@@ -0,0 +1,251 @@
+import path from 'path';
+import { createRequire } from 'module';
+import sharp from 'sharp';
+import heicConvert from 'heic-convert';
+
+// --- IMAGE INGESTION ---
+// Uploads arrive as raw file bytes and leave as images a model reads well. The
+// type comes from the file's own bytes, never its name or the browser's label.
+// PNG, JPEG, WebP and GIF are decoded directly, HEIC (iPhone photos) is
+// converted and the first pages of a PDF are rasterized. Every image is turned
+// upright from its EXIF orientation and re-encoded without metadata, so
+// location and camera details never reach the model or the saved history.
+// Oversized images are scaled down.
+//
+// Images sent back for analysis, comparison or chat are checked the same way,
+// so they are labelled with their real type. Very tall pages (full-page
+// captures) go to the model as a run of sections rather than one sliver it
+// would have to shrink.
+
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+const MAX_WIDTH = 1600; // wider images are scaled down to this
+const MAX_HEIGHT = 12_000; // and taller ones to this
+export const MAX_OUTPUT_BYTES = 2 * 1024 * 1024; // per image, before base64; keeps analysis bodies small
+const JPEG_QUALITY = 88;
+const MAX_INPUT_PIXELS = 200_000_000; // decompression-bomb guard
+
+const MAX_PDF_PAGES = 5;
+const PDF_RENDER_WIDTH = 1440; // px, for a page's width
+const MAX_PDF_SCALE = 4;
+
+// Pages taller than this many widths are split before the model sees them
+const TALL_ASPECT = 2;
+const SECTION_ASPECT = 1.25; // height / width of each section
+const MAX_SECTIONS = 8;
+const SECTION_OVERLAP = 48; // px repeated between sections, so nothing is lost at a cut
+
+const MIME_TYPES = { png: 'image/png', jpeg: 'image/jpeg', webp: 'image/webp', gif: 'image/gif' };
+const TYPE_LABELS = { png: 'PNG', jpeg: 'JPEG', webp: 'WebP', gif: 'GIF', heic: 'HEIC', pdf: 'PDF' };
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+const UNSUPPORTED_MESSAGE = 'Upload a PNG, JPEG, WebP, GIF or HEIC image, or a PDF';
+
+export class IngestError extends Error {
+  constructor(message, code, status = 400) {
+    super(message);
+    this.name = 'IngestError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const startsWith = (buffer, bytes, offset = 0) =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+const ascii = (buffer, start, end) => buffer.subarray(start, end).toString('latin1');
+
+// Magic numbers -> 'png' | 'jpeg' | 'webp' | 'gif' | 'heic' | 'pdf' | null
+export const sniffFileType = (buffer) => {
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP') return 'webp';
+  if (/^GIF8[79]a$/.test(ascii(buffer, 0, 6))) return 'gif';
+  if (ascii(buffer, 4, 8) === 'ftyp' && HEIC_BRANDS.includes(ascii(buffer, 8, 12))) return 'heic';
+  // PDFs may have junk before the header; readers allow the first 1 KB
+  if (ascii(buffer, 0, 1024).includes('%PDF-')) return 'pdf';
+  return null;
+};
+
+// "data:<anything>;base64,<data>" -> { mimeType, data } with the type read
+// from the bytes. Only the formats ingestion produces are accepted.
+export const readImageDataUrl = (dataUrl, name = 'The image') => {
+  const match = typeof dataUrl === 'string' && /^data:[^,]*;base64,([A-Za-z0-9+/=\s]+)$/.exec(dataUrl);
+  if (!match) throw new IngestError(`${name} must be a base64 data URL`, 'INVALID_IMAGE');
+  const data = match[1].replace(/\s/g, '');
+  // The header is all sniffing needs
+  const type = sniffFileType(Buffer.from(data.slice(0, 1400), 'base64'));
+  if (!MIME_TYPES[type]) {
+    throw new IngestError(`${name} isn't a PNG, JPEG, WebP or GIF image. Upload it again to convert it.`, 'UNSUPPORTED_IMAGE', 415);
+  }
+  return { mimeType: MIME_TYPES[type], data };
+};
+
+// Model parts for one design. A tall page becomes its sections in order, each
+// introduced with where it sits, plus a note that they are one image. `label`
+// names the design in that text, e.g. "Variant A" when several are sent together.
+export const designImageParts = async (dataUrl, name, label = 'The design') => {
+  const image = readImageDataUrl(dataUrl, name);
+  const buffer = Buffer.from(image.data, 'base64');
+  const { width, height } = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  if (!width || !height || height <= width * TALL_ASPECT) return [{ inlineData: image }];
+
+  // Narrow images would otherwise get sections no taller than the overlap
+  const sectionHeight = Math.max(
+    Math.round(width * SECTION_ASPECT),
+    Math.ceil((height + SECTION_OVERLAP * (MAX_SECTIONS - 1)) / MAX_SECTIONS),
+    SECTION_OVERLAP * 2,
+  );
+  if (height <= sectionHeight) return [{ inlineData: image }];
+  const step = sectionHeight - SECTION_OVERLAP;
+  const count = Math.ceil((height - SECTION_OVERLAP) / step);
+  const parts = [{
+    text: `${label} is a tall page (${width}×${height}px), sent as ${count} sections from top to bottom. ` +
+      `Each overlaps the next by ${SECTION_OVERLAP}px. Treat them as one image: bounding boxes are fractions of the whole page.`,
+  }];
+  for (let i = 0; i < count; i++) {
+    const top = i * step;
+    const sectionBottom = Math.min(height, top + sectionHeight);
+    const section = await sharp(buffer).extract({ left: 0, top, width, height: sectionBottom - top }).png().toBuffer();
+    parts.push({ text: `${label}, section ${i + 1} of ${count} (${Math.round((top / height) * 100)}%–${Math.round((sectionBottom / height) * 100)}% down the page):` });
+    parts.push({ inlineData: { mimeType: 'image/png', data: section.toString('base64') } });
+  }
+  return parts;
+};
+
+// Encodes in the input's format where that's lossless or already lossy, and
+// as JPEG when the result is too big; scales down further if even that is
+const encode = async (pipeline, format, notes) => {
+  const attempt = (image, as) => (as === 'png'
+    ? image.clone().png({ compressionLevel: 8 })
+    : as === 'webp' ? image.clone().webp({ quality: JPEG_QUALITY }) : image.clone().flatten({ background: '#ffffff' }).jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+  ).toBuffer({ resolveWithObject: true });
+
+  let result = await attempt(pipeline, format);
+  let outputFormat = format;
+  if (result.data.length > MAX_OUTPUT_BYTES && format !== 'jpeg') {
+    result = await attempt(pipeline, 'jpeg');
+    outputFormat = 'jpeg';
+    notes.push(`Saved as JPEG to stay under ${MAX_OUTPUT_BYTES / 1024 / 1024} MB`);
+  }
+  for (let tries = 0; result.data.length > MAX_OUTPUT_BYTES && tries < 4; tries++) {
+    result = await attempt(sharp(result.data).resize({ width: Math.round(result.info.width * 0.75) }), 'jpeg');
+    outputFormat = 'jpeg';
+  }
+  const { data, info } = result;
+  return { image: `data:${MIME_TYPES[outputFormat]};base64,${data.toString('base64')}`, width: info.width, height: info.height };
+};
+
+// Upright, metadata-free and within MAX_WIDTH × MAX_HEIGHT
+const normalizeRaster = async (input, format, notes) => {
+  const image = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS, animated: false });
+  const metadata = await image.metadata();
+  const rotated = (metadata.orientation ?? 1) >= 5; // EXIF orientations 5-8 swap width and height
+  const width = rotated ? metadata.height : metadata.width;
+  const height = rotated ? metadata.width : metadata.height;
+
+  if ((metadata.orientation ?? 1) > 1) notes.push('Rotated upright from its EXIF orientation');
+  if (metadata.exif || metadata.xmp || metadata.iptc) notes.push('Removed EXIF and other metadata');
+  if ((metadata.pages ?? 1) > 1 && format === 'gif') notes.push('Animated GIF: only the first frame is used');
+
+  const pipeline = image.rotate();
+  if (width > MAX_WIDTH || height > MAX_HEIGHT) {
+    pipeline.resize({ width: MAX_WIDTH, height: MAX_HEIGHT, fit: 'inside' });
+    notes.push(`Scaled down from ${width}×${height}`);
+  }
+  // GIFs become PNGs; palettes and animation don't help a critique
+  return { ...(await encode(pipeline, format === 'gif' ? 'png' : format, notes)), source: { width, height } };
+};
+
+const decodeHeic = async (buffer) => {
+  try {
+    return Buffer.from(await heicConvert({ buffer, format: 'PNG' }));
+  } catch (error) {
+    throw new IngestError(`The HEIC image couldn't be read: ${error.message}`, 'INVALID_FILE');
+  }
+};
+
+// pdf.js is large; load it with the first PDF
+let pdfjs;
+const loadPdfjs = async () => {
+  if (!pdfjs) pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  return pdfjs;
+};
+const require = createRequire(import.meta.url);
+const pdfAssetDir = (dir) => `${path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), dir)}${path.sep}`;
+
+const rasterizePdf = async (buffer, notes) => {
+  const { getDocument, PasswordException } = await loadPdfjs();
+  let document;
+  try {
+    document = await getDocument({
+      data: new Uint8Array(buffer),
+      isEvalSupported: false,
+      standardFontDataUrl: pdfAssetDir('standard_fonts'),
+      cMapUrl: pdfAssetDir('cmaps'),
+      verbosity: 0,
+    }).promise;
+  } catch (error) {
+    if (error instanceof PasswordException) throw new IngestError('The PDF is password-protected', 'UNSUPPORTED_FILE', 415);
+    throw new IngestError(`The PDF couldn't be read: ${error.message}`, 'INVALID_FILE');
+  }
+
+  try {
+    const count = Math.min(document.numPages, MAX_PDF_PAGES);
+    if (document.numPages > count) notes.push(`Only the first ${count} of ${document.numPages} pages were rendered`);
+    const pages = [];
+    for (let number = 1; number <= count; number++) {
+      const page = await document.getPage(number);
+      const scale = Math.min(MAX_PDF_SCALE, PDF_RENDER_WIDTH / page.getViewport({ scale: 1 }).width);
+      const viewport = page.getViewport({ scale });
+      const { canvas, context } = document.canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      // PDFs assume white paper
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: context, canvas, viewport }).promise;
+      pages.push({ png: canvas.toBuffer('image/png'), width: canvas.width });
+      page.cleanup();
+    }
+    return { pages, pageCount: document.numPages };
+  } finally {
+    await document.destroy();
+  }
+};
+
+// Raw upload -> { images: [{ image, width, height }], source: { type, width, height, bytes, pages? }, notes }
+// Images are data URLs; a PDF gives one per rendered page, anything else one.
+export const ingestUpload = async (buffer) => {
+  if (!Buffer.isBuffer(buffer) || buffer.length === 0) {
+    throw new IngestError('The upload was empty', 'INVALID_FILE');
+  }
+  const type = sniffFileType(buffer);
+  if (!type) throw new IngestError(`That file type isn't supported. ${UNSUPPORTED_MESSAGE}.`, 'UNSUPPORTED_FILE', 415);
+
+  const notes = [];
+  try {
+    if (type === 'pdf') {
+      const { pages, pageCount } = await rasterizePdf(buffer, notes);
+      if (pages.length === 0) throw new IngestError('The PDF has no pages', 'INVALID_FILE');
+      // Small pages stop at MAX_PDF_SCALE, short of PDF_RENDER_WIDTH
+      const widths = pages.map((page) => page.width);
+      const [narrowest, widest] = [Math.min(...widths), Math.max(...widths)];
+      notes.push(`Rendered ${pages.length === 1 ? 'the page' : `${pages.length} pages`} at ${narrowest === widest ? narrowest : `${narrowest}–${widest}`}px wide`);
+      const images = [];
+      for (const page of pages) {
+        const { image, width, height } = await normalizeRaster(page.png, 'png', []);
+        images.push({ image, width, height });
+      }
+      return { images, source: { type, width: images[0].width, height: images[0].height, bytes: buffer.length, pages: pageCount }, notes };
+    }
+
+    const raster = type === 'heic' ? await decodeHeic(buffer) : buffer;
+    if (type === 'heic') notes.push('Converted from HEIC, without its metadata');
+    const { image, width, height, source } = await normalizeRaster(raster, type === 'heic' ? 'jpeg' : type, notes);
+    return { images: [{ image, width, height }], source: { type, ...source, bytes: buffer.length }, notes };
+  } catch (error) {
+    if (error instanceof IngestError) throw error;
+    if (/pixel limit/i.test(error.message)) {
+      throw new IngestError(`The image is larger than ${MAX_INPUT_PIXELS / 1_000_000} megapixels`, 'FILE_TOO_LARGE', 413);
+    }
+    throw new IngestError(`The ${TYPE_LABELS[type]} file couldn't be read. It may be damaged.`, 'INVALID_FILE');
+  }
+};
@@ -0,0 +1,158 @@
+import {
+  buildScoresSchema,
+  isPlainObject,
+  isNonEmptyString,
+  validateScores,
+} from './critique.js';
+import { DEFAULT_RUBRIC } from './rubrics.js';
+
+// --- USER JOURNEY ---
+// Critique of an ordered set of screens (onboarding, checkout, ...): every
+// step is scored on its own, then the flow as a whole is judged on
+// consistency across steps, dead ends and whether it has the right length.
+
+export const MIN_JOURNEY_SCREENS = 2;
+export const MAX_JOURNEY_SCREENS = 8;
+
+export const buildJourneySchema = (rubric) => ({
+  title: 'DesignJourney',
+  type: 'object',
+  properties: {
+    scores: { ...buildScoresSchema(rubric), description: 'Scores for the journey as a whole.' },
+    summary: { type: 'string', description: 'Markdown. How well the flow gets users to their goal.' },
+    steps: {
+      type: 'array',
+      description: 'One entry per screen, in the order they were given.',
+      items: {
+        type: 'object',
+        properties: {
+          step: { type: 'integer', minimum: 1, description: '1-based position of the screen in the journey.' },
+          scores: buildScoresSchema(rubric),
+          summary: { type: 'string', description: "Markdown. This screen's role in the flow and how well it plays it." },
+          issues: { type: 'array', items: { type: 'string' }, description: 'Problems specific to this screen, one per item.' },
+        },
+        required: ['step', 'scores', 'summary', 'issues'],
+      },
+    },
+    flow: {
+      type: 'object',
+      properties: {
+        consistency: { type: 'string', description: 'Markdown. Visual and interaction consistency across the steps.' },
+        deadEnds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Places where users could get stuck or have no clear way forward or back. Empty if there are none.',
+        },
+        stepCount: {
+          type: 'object',
+          properties: {
+            recommended: { type: 'integer', minimum: 1, description: 'How many steps this flow should take.' },
+            rationale: { type: 'string', description: 'Which steps could be merged, split or removed.' },
+          },
+          required: ['recommended', 'rationale'],
+        },
+      },
+      required: ['consistency', 'deadEnds', 'stepCount'],
+    },
+    improvements: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Flow-level changes, one per item. Reference steps by number.',
+    },
+  },
+  required: ['scores', 'summary', 'steps', 'flow', 'improvements'],
+});
+
+export const JOURNEY_RESPONSE_SCHEMA = buildJourneySchema(DEFAULT_RUBRIC);
+
+const isStringArray = (value) => Array.isArray(value) && value.every(isNonEmptyString);
+
+// `screenCount` is how many screens were sent; every one must get a step
+export const validateJourney = (journey, screenCount, rubric = DEFAULT_RUBRIC) => {
+  if (!isPlainObject(journey)) return ['response must be a JSON object'];
+
+  const issues = validateScores(journey.scores, 'scores', rubric);
+  if (!isNonEmptyString(journey.summary)) issues.push('summary must be a non-empty string');
+
+  if (!Array.isArray(journey.steps) || journey.steps.length !== screenCount) {
+    issues.push(`steps must contain exactly ${screenCount} entries, one per screen`);
+  } else {
+    journey.steps.forEach((step, i) => {
+      const path = `steps[${i}]`;
+      if (!isPlainObject(step)) {
+        issues.push(`${path} must be an object`);
+        return;
+      }
+      if (step.step !== i + 1) issues.push(`${path}.step must be ${i + 1}`);
+      issues.push(...validateScores(step.scores, `${path}.scores`, rubric));
+      if (!isNonEmptyString(step.summary)) issues.push(`${path}.summary must be a non-empty string`);
+      if (!isStringArray(step.issues)) issues.push(`${path}.issues must be an array of non-empty strings`);
+    });
+  }
+
+  const flow = journey.flow;
+  if (!isPlainObject(flow)) {
+    issues.push('flow must be an object');
+  } else {
+    if (!isNonEmptyString(flow.consistency)) issues.push('flow.consistency must be a non-empty string');
+    if (!isStringArray(flow.deadEnds)) issues.push('flow.deadEnds must be an array of non-empty strings');
+    if (!isPlainObject(flow.stepCount) || !Number.isInteger(flow.stepCount.recommended) || flow.stepCount.recommended < 1) {
+      issues.push('flow.stepCount.recommended must be a positive integer');
+    }
+  }
+
+  if (!isStringArray(journey.improvements) || journey.improvements.length === 0) {
+    issues.push('improvements must be a non-empty array of non-empty strings');
+  }
+  return issues;
+};
+
+const stepTitle = (index, labels) => {
+  const label = labels[index];
+  return isNonEmptyString(label) ? `Step ${index + 1}: ${label.trim()}` : `Step ${index + 1}`;
+};
+
+// Renders the journey as markdown. Works on partial replies too.
+export const renderJourneyMarkdown = (journey, labels = []) => {
+  if (!isPlainObject(journey)) return '';
+  const blocks = [];
+
+  if (isNonEmptyString(journey.summary)) {
+    blocks.push(`# Journey Summary\n\n${journey.summary.trim()}`);
+  }
+
+  const flow = isPlainObject(journey.flow) ? journey.flow : {};
+  const flowBlocks = [];
+  if (isNonEmptyString(flow.consistency)) {
+    flowBlocks.push(`## Consistency Across Steps\n\n${flow.consistency.trim()}`);
+  }
+  if (Array.isArray(flow.deadEnds)) {
+    const deadEnds = flow.deadEnds.filter(isNonEmptyString);
+    flowBlocks.push(`## Dead Ends\n\n${deadEnds.length > 0 ? deadEnds.map((item) => `- ${item.trim()}`).join('\n') : 'None found.'}`);
+  }
+  if (isPlainObject(flow.stepCount) && Number.isInteger(flow.stepCount.recommended)) {
+    const actual = Array.isArray(journey.steps) ? journey.steps.length : labels.length;
+    const rationale = isNonEmptyString(flow.stepCount.rationale) ? `\n\n${flow.stepCount.rationale.trim()}` : '';
+    flowBlocks.push(`## Step Count\n\n**${actual} steps** today, **${flow.stepCount.recommended}** recommended.${rationale}`);
+  }
+  if (flowBlocks.length > 0) blocks.push('# Flow Findings', ...flowBlocks);
+
+  const steps = Array.isArray(journey.steps) ? journey.steps : [];
+  const stepBlocks = steps
+    .map((step, i) => {
+      if (!isPlainObject(step) || !isNonEmptyString(step.summary)) return null;
+      const score = isPlainObject(step.scores) && typeof step.scores.overallScore === 'number' ? ` (${step.scores.overallScore}/100)` : '';
+      const stepIssues = Array.isArray(step.issues) ? step.issues.filter(isNonEmptyString) : [];
+      const list = stepIssues.length > 0 ? `\n\n${stepIssues.map((item) => `- ${item.trim()}`).join('\n')}` : '';
+      return `## ${stepTitle(i, labels)}${score}\n\n${step.summary.trim()}${list}`;
+    })
+    .filter(Boolean);
+  if (stepBlocks.length > 0) blocks.push('# Step by Step', ...stepBlocks);
+
+  const improvements = Array.isArray(journey.improvements) ? journey.improvements.filter(isNonEmptyString) : [];
+  if (improvements.length > 0) {
+    blocks.push(`# Actionable Improvements\n\n${improvements.map((item) => `- ${item.trim()}`).join('\n')}`);
+  }
+
+  return blocks.join('\n\n');
+};
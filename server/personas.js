@@ -0,0 +1,120 @@
+// --- REVIEWER PERSONAS ---
+// A persona is a lens the critique is written through. The model writes one
+// perspective per selected persona, keyed by its id in `critique.perspectives`.
+// Clients pick built-in personas by id or send their own definitions.
+
+export const MIN_PERSONAS = 1;
+export const MAX_PERSONAS = 5;
+const MAX_NAME_LENGTH = 40;
+const MAX_DESCRIPTION_LENGTH = 400;
+
+// Ids become JSON property names in the model's reply
+const PERSONA_ID = /^[a-z][a-zA-Z0-9]{0,39}$/;
+
+export const BUILT_IN_PERSONAS = [
+  {
+    id: 'user',
+    name: 'User Experience',
+    description: 'The Human View: how a new or power user would experience this. Cognitive load, friction points, emotional response, "Can I figure this out in 3 seconds?"',
+  },
+  {
+    id: 'business',
+    name: 'Business Strategy',
+    description: 'The ROI View: how the design impacts conversion, brand trust and business goals. Are calls-to-action clear? Does it drive the intended behaviour? Missed revenue opportunities.',
+  },
+  {
+    id: 'engineering',
+    name: 'Engineering & Feasibility',
+    description: 'The Dev View: implementation complexity, non-standard patterns that add technical debt, accessibility risks (WCAG) and performance implications of the layout.',
+  },
+  {
+    id: 'accessibility',
+    name: 'Accessibility Specialist',
+    description: 'Audits against WCAG 2.2 AA: contrast, text size, touch targets, focus order, screen-reader semantics, reliance on colour alone and motion sensitivity.',
+  },
+  {
+    id: 'conversion',
+    name: 'Conversion Optimizer',
+    description: 'Looks at the funnel: the clarity and placement of the primary call-to-action, distractions, trust signals, form friction and what to A/B test first.',
+  },
+  {
+    id: 'brand',
+    name: 'Brand Designer',
+    description: 'Judges the visual identity: typography, colour, imagery and tone of voice, whether they feel consistent and distinctive, and whether the design looks trustworthy.',
+  },
+  {
+    id: 'frontend',
+    name: 'Front-end Engineer',
+    description: 'Thinks about building it: component reuse, responsive behaviour, states that are missing from the mockup (loading, empty, error) and anything hard to implement in CSS.',
+  },
+  {
+    id: 'novice',
+    name: 'Novice User',
+    description: 'Someone using a product like this for the first time: unfamiliar jargon, unlabelled icons, hidden gestures and anything that assumes prior knowledge.',
+  },
+];
+
+// The three lenses every critique used before personas existed
+export const DEFAULT_PERSONAS = BUILT_IN_PERSONAS.slice(0, 3);
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isText = (value, max) => typeof value === 'string' && value.trim().length > 0 && value.length <= max;
+
+// Returns a list of human-readable problems; an empty list means the personas are usable
+export const validatePersonas = (personas) => {
+  if (!Array.isArray(personas) || personas.length < MIN_PERSONAS || personas.length > MAX_PERSONAS) {
+    return [`personas must have ${MIN_PERSONAS} to ${MAX_PERSONAS} entries`];
+  }
+  const issues = [];
+  const ids = new Set();
+  personas.forEach((persona, i) => {
+    const path = `personas[${i}]`;
+    if (typeof persona === 'string') {
+      if (!BUILT_IN_PERSONAS.some((builtIn) => builtIn.id === persona)) issues.push(`${path}: unknown persona "${persona}"`);
+    } else if (!isObject(persona)) {
+      issues.push(`${path} must be a built-in persona id or an object`);
+      return;
+    } else {
+      if (typeof persona.id !== 'string' || !PERSONA_ID.test(persona.id)) issues.push(`${path}.id must be camelCase letters and digits`);
+      if (!isText(persona.name, MAX_NAME_LENGTH)) issues.push(`${path}.name must be 1-${MAX_NAME_LENGTH} characters`);
+      if (!isText(persona.description, MAX_DESCRIPTION_LENGTH)) {
+        issues.push(`${path}.description must be 1-${MAX_DESCRIPTION_LENGTH} characters`);
+      }
+    }
+    const id = typeof persona === 'string' ? persona : persona.id;
+    if (ids.has(id)) issues.push(`${path}: persona "${id}" is listed twice`);
+    ids.add(id);
+  });
+  return issues;
+};
+
+export class PersonaError extends Error {
+  constructor(issues) {
+    super(`The reviewer personas are invalid: ${issues.join('; ')}`);
+    this.name = 'PersonaError';
+    this.code = 'INVALID_PERSONAS';
+    this.issues = issues;
+  }
+}
+
+// Request value -> personas. Missing means the default three; otherwise a
+// list of built-in ids and/or custom definitions. Throws PersonaError.
+export const resolvePersonas = (value) => {
+  if (value === undefined || value === null) return DEFAULT_PERSONAS;
+  const issues = validatePersonas(value);
+  if (issues.length > 0) throw new PersonaError(issues);
+  return value.map((persona) => (
+    typeof persona === 'string'
+      ? BUILT_IN_PERSONAS.find((builtIn) => builtIn.id === persona)
+      : { id: persona.id, name: persona.name.trim(), description: persona.description.trim() }
+  ));
+};
+
+// Display name of a perspective key. Saved critiques may use personas the
+// caller no longer has, so built-in names and finally the key are fallbacks.
+export const personaName = (personas, id) =>
+  (personas.find((persona) => persona.id === id) ?? BUILT_IN_PERSONAS.find((persona) => persona.id === id))?.name ?? id;
+
+// Prompt text listing the lenses the critique is written through
+export const describePersonas = (personas) =>
+  personas.map((persona) => `  - "${persona.id}" (${persona.name}): ${persona.description}`).join('\n');
@@ -0,0 +1,95 @@
+import postcss from 'postcss';
+import tailwindcss from 'tailwindcss';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { icons as lucideIcons } from 'lucide-react';
+
+// --- OFFLINE PREVIEW ASSETS ---
+// Generated pages load Tailwind, Google Fonts and Lucide from CDNs. The design
+// preview replaces them with local copies so it renders without network
+// access behind a strict Content-Security-Policy (src/utils/previewRuntime.ts
+// rewrites the page). This supplies the two assets the browser can't build
+// itself: the CSS for the Tailwind classes the page uses, compiled with the
+// installed tailwindcss, and the Lucide icons it names, rendered from
+// lucide-react.
+//
+// The page's `tailwind.config` is read by the client without running it and
+// arrives as plain JSON; only the keys that shape the generated CSS are used.
+
+const MAX_HTML_LENGTH = 2_000_000;
+const MAX_CSS_LENGTH = 200_000; // the page's own `text/tailwindcss` styles
+const MAX_CONFIG_LENGTH = 200_000; // serialized
+const MAX_ICONS = 300;
+
+const CONFIG_KEYS = ['theme', 'darkMode', 'prefix', 'important'];
+const ICON_NAME = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const TAILWIND_LAYERS = '@tailwind base;\n@tailwind components;\n@tailwind utilities;\n';
+
+export class PreviewError extends Error {
+  constructor(message, code, status = 400) {
+    super(message);
+    this.name = 'PreviewError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pickConfig = (config) => {
+  if (config === undefined || config === null) return {};
+  if (!isObject(config) || JSON.stringify(config).length > MAX_CONFIG_LENGTH) {
+    throw new PreviewError(`config must be an object under ${MAX_CONFIG_LENGTH} characters`, 'INVALID_PREVIEW');
+  }
+  return Object.fromEntries(CONFIG_KEYS.filter((key) => key in config).map((key) => [key, config[key]]));
+};
+
+// "arrow-right" -> "ArrowRight", as Lucide's own createIcons() looks them up
+const toIconKey = (name) => name.split('-').map((part) => part[0].toUpperCase() + part.slice(1)).join('');
+
+const renderIcons = (names) => {
+  const icons = {};
+  const missing = [];
+  names.forEach((name) => {
+    const Icon = lucideIcons[toIconKey(name)];
+    if (Icon) icons[name] = renderToStaticMarkup(createElement(Icon)).replace(/ class="[^"]*"/, '');
+    else missing.push(name);
+  });
+  return { icons, missing };
+};
+
+const compileCss = async (html, config, css) => {
+  const plugin = tailwindcss({ ...config, content: [{ raw: html, extension: 'html' }] });
+  const result = await postcss([plugin]).process(TAILWIND_LAYERS + css, { from: undefined });
+  return result.css;
+};
+
+// Body: { html, config?, css?, icons? } -> { css, icons: { [name]: svg }, missingIcons, warnings }
+export const compilePreviewAssets = async (body) => {
+  const { html, config, css = '', icons = [] } = body ?? {};
+  if (typeof html !== 'string' || !html.trim() || html.length > MAX_HTML_LENGTH) {
+    throw new PreviewError(`html must be a non-empty string under ${MAX_HTML_LENGTH} characters`, 'INVALID_PREVIEW');
+  }
+  if (typeof css !== 'string' || css.length > MAX_CSS_LENGTH) {
+    throw new PreviewError(`css must be a string under ${MAX_CSS_LENGTH} characters`, 'INVALID_PREVIEW');
+  }
+  if (!Array.isArray(icons) || icons.length > MAX_ICONS || !icons.every((name) => typeof name === 'string' && ICON_NAME.test(name))) {
+    throw new PreviewError(`icons must list at most ${MAX_ICONS} Lucide icon names`, 'INVALID_PREVIEW');
+  }
+
+  const tailwindConfig = pickConfig(config);
+  const warnings = [];
+  let compiled;
+  try {
+    compiled = await compileCss(html, tailwindConfig, css);
+  } catch (error) {
+    // A bad @apply in the page's own styles shouldn't cost it all its utilities
+    if (!css.trim()) throw error;
+    warnings.push(`The page's Tailwind styles were left out: ${error.reason || error.message}`);
+    compiled = await compileCss(html, tailwindConfig, '');
+  }
+
+  const { icons: rendered, missing } = renderIcons([...new Set(icons)]);
+  return { css: compiled, icons: rendered, missingIcons: missing, warnings };
+};
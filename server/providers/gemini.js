@@ -0,0 +1,46 @@
+import { GoogleGenAI } from "@google/genai";
+
+// --- GEMINI ADAPTER ---
+// Thin wrapper over the SDK's chat API so the routes only see plain text chunks.
+export const createGeminiProvider = (env) => {
+  const model = env.GEMINI_MODEL || 'gemini-3-pro-preview';
+  let client = null;
+
+  const getClient = () => {
+    if (client) return client;
+    const apiKey = env.API_KEY || env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("API Key is missing on server.");
+    }
+    client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    name: 'gemini',
+    model,
+    startChat: ({ systemInstruction, history = [], responseSchema, thinkingBudget }) => {
+      const config = { systemInstruction };
+      if (thinkingBudget) config.thinkingConfig = { thinkingBudget };
+      if (responseSchema) {
+        config.responseMimeType = 'application/json';
+        config.responseJsonSchema = responseSchema;
+      }
+
+      const chat = getClient().chats.create({ model, config, history });
+
+      return {
+        sendMessage: async (parts) => {
+          const response = await chat.sendMessage({ message: parts });
+          return response.text || "";
+        },
+        sendMessageStream: async function* (parts) {
+          const stream = await chat.sendMessageStream({ message: parts });
+          for await (const chunk of stream) {
+            if (chunk.text) yield chunk.text;
+          }
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import { createGeminiProvider } from './gemini.js';
+import { createOpenAIProvider } from './openai.js';
+import { createMockProvider } from './mock.js';
+
+// --- MODEL PROVIDERS ---
+// Every provider exposes the same shape:
+//
+//   provider.startChat({ systemInstruction, history?, responseSchema?, thinkingBudget? }) -> chat
+//   chat.sendMessage(parts)        -> Promise<string>
+//   chat.sendMessageStream(parts)  -> AsyncIterable<string>
+//
+// `parts` use the Gemini shape ({ text } or { inlineData: { mimeType, data } })
+// and adapters translate as needed. `history` seeds earlier turns as
+// [{ role: 'user' | 'model', parts }]. A chat remembers its own turns, so a
+// follow-up sendMessage (e.g. a repair prompt) sees the earlier exchange.
+
+const PROVIDERS = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  mock: createMockProvider,
+};
+
+// Selected with MODEL_PROVIDER=gemini|openai|mock (defaults to gemini)
+export const createProvider = (env = process.env) => {
+  const name = (env.MODEL_PROVIDER || 'gemini').toLowerCase();
+  const factory = PROVIDERS[name];
+  if (!factory) {
+    throw new Error(`Unknown MODEL_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`);
+  }
+  return factory(env);
+};
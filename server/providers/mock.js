@@ -0,0 +1,51 @@
+import {
+  MOCK_STRUCTURED_REPLIES,
+  MOCK_CHAT_REPLY,
+  MOCK_REDESIGN_REPLY,
+  REDESIGN_REQUEST_PATTERN,
+} from './mockFixtures.js';
+
+// --- MOCK ADAPTER ---
+// Offline provider that answers from canned fixtures and fakes streaming by
+// slicing the reply into fixed-size chunks.
+
+const CHUNK_SIZE = 48;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Only the newest request matters: chat routes put it last
+const lastText = (parts) => {
+  const texts = parts.filter((part) => typeof part.text === 'string').map((part) => part.text);
+  return texts[texts.length - 1] || '';
+};
+
+export const createMockProvider = (env) => {
+  const delayMs = Number(env.MOCK_STREAM_DELAY_MS ?? 15);
+
+  return {
+    name: 'mock',
+    model: 'mock',
+    startChat: ({ responseSchema }) => {
+      const reply = (parts) => {
+        if (responseSchema) {
+          const fixture = MOCK_STRUCTURED_REPLIES[responseSchema.title];
+          if (!fixture) throw new Error(`Mock provider has no fixture for schema "${responseSchema.title}"`);
+          const value = typeof fixture === 'function' ? fixture(lastText(parts), responseSchema) : fixture;
+          return JSON.stringify(value, null, 2);
+        }
+        return REDESIGN_REQUEST_PATTERN.test(lastText(parts)) ? MOCK_REDESIGN_REPLY : MOCK_CHAT_REPLY;
+      };
+
+      return {
+        sendMessage: async (parts) => reply(parts),
+        sendMessageStream: async function* (parts) {
+          const text = reply(parts);
+          for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+            if (delayMs > 0) await sleep(delayMs);
+            yield text.slice(i, i + CHUNK_SIZE);
+          }
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,262 @@
+// Canned replies for the mock provider. Deterministic on purpose: the same
+// request always produces the same critique, so UI flows can be demoed and
+// tested without a network connection or API key.
+
+export const MOCK_CRITIQUE = {
+  scores: {
+    overallScore: 64,
+    confidence: 'Medium',
+    metrics: {
+      infoArchitecture: 7,
+      visualHierarchy: 6,
+      layoutSpacing: 7,
+      accessibility: 5,
+      usability: 6,
+    },
+  },
+  executiveSummary:
+    'A clean, conventional layout with a clear primary task. The main weaknesses are **low-contrast secondary text** and a primary call-to-action that competes with neighbouring elements for attention.',
+  perspectives: {
+    user:
+      'A first-time visitor can identify the purpose of the screen within a few seconds. Friction appears at the decision point: two buttons share the same visual weight, so users hesitate before committing.',
+    business:
+      'The value proposition is visible above the fold, which supports trust. Conversion is likely held back by the ambiguous CTA pairing and the absence of social proof near the primary action.',
+    engineering:
+      'The layout maps cleanly onto a 12-column grid and standard components. Watch the grey-on-white helper text: it is likely to fail **WCAG AA** contrast and is cheap to fix now.',
+  },
+  improvements: [
+    'Give the primary CTA a filled, high-contrast style and demote the secondary action to a text button.',
+    'Raise helper text contrast to at least 4.5:1 against its background.',
+    'Increase touch targets in the navigation to a minimum of 44×44px.',
+    'Group related form fields and add section headings to shorten the scanning path.',
+  ],
+  issues: [
+    {
+      title: 'Primary and secondary actions look identical',
+      detail: 'Both buttons use the same filled style, so users hesitate. Fill the primary action and demote the other to a text button.',
+      severity: 'major',
+      dimension: 'visualHierarchy',
+      bbox: { x: 0.1, y: 0.72, width: 0.8, height: 0.14 },
+    },
+    {
+      title: 'Helper text fails contrast',
+      detail: 'Light grey on white is likely below 4.5:1. Darken it to at least slate-600.',
+      severity: 'critical',
+      dimension: 'accessibility',
+      bbox: { x: 0.1, y: 0.42, width: 0.6, height: 0.06 },
+    },
+    {
+      title: 'Navigation targets are too small',
+      detail: 'Icons in the top bar are under 44×44px, which makes them hard to hit on touch screens.',
+      severity: 'minor',
+      dimension: 'usability',
+      bbox: { x: 0.72, y: 0.02, width: 0.26, height: 0.08 },
+    },
+  ],
+  additionalNotes:
+    '_This critique was produced by the offline mock provider and does not reflect the uploaded design._',
+};
+
+// Schemas follow the requested scoring rubric. Canned metrics are re-keyed to
+// its dimensions: ones the default rubric knows keep their value.
+const metricKeysOf = (scoresSchema) => scoresSchema.properties.metrics.required;
+
+const withMetrics = (scores, keys) => ({
+  ...scores,
+  metrics: Object.fromEntries(keys.map((key) => [key, scores.metrics[key] ?? 6])),
+});
+
+// Perspectives follow the requested personas; ones without canned text get a placeholder
+const withPerspectives = (perspectives, perspectivesSchema) => Object.fromEntries(
+  perspectivesSchema.required.map((id) => [
+    id,
+    perspectives[id] ?? `Seen as ${perspectivesSchema.properties[id].description.replace(/^Markdown\. /, '').split(':')[0]}: the layout is familiar and the primary task is clear, but the competing calls-to-action slow decisions down.`,
+  ])
+);
+
+export const MOCK_CONFORMANCE = {
+  summary: 'Mostly on-system. A few hard-coded colours and one off-scale gap stand out.',
+  findings: [
+    {
+      kind: 'color',
+      observed: 'A mid-grey used for helper text under the form fields',
+      expected: 'The nearest neutral text token',
+      detail: 'One-off greys drift over time; using the token also keeps contrast predictable.',
+    },
+    {
+      kind: 'spacing',
+      observed: 'A ~14px gap between the form fields',
+      expected: 'The 12px or 16px spacing step',
+      detail: 'Snap to the scale so the vertical rhythm matches the rest of the page.',
+    },
+  ],
+};
+
+// Conformance is only requested when a design system was sent
+const mockCritique = (schema) => {
+  const keys = metricKeysOf(schema.properties.scores);
+  return {
+    ...MOCK_CRITIQUE,
+    ...(schema.properties.conformance ? { conformance: MOCK_CONFORMANCE } : {}),
+    scores: withMetrics(MOCK_CRITIQUE.scores, keys),
+    perspectives: withPerspectives(MOCK_CRITIQUE.perspectives, schema.properties.perspectives),
+    issues: MOCK_CRITIQUE.issues.map((issue, i) => (
+      keys.includes(issue.dimension) ? issue : { ...issue, dimension: keys[i % keys.length] }
+    )),
+  };
+};
+
+export const MOCK_COMPARISON = {
+  variants: [
+    {
+      id: 'A',
+      scores: {
+        overallScore: 61,
+        confidence: 'Medium',
+        metrics: { infoArchitecture: 7, visualHierarchy: 5, layoutSpacing: 6, accessibility: 5, usability: 6 },
+      },
+      summary: 'Dense but well organised. The primary action is easy to miss because three buttons share the same style.',
+    },
+    {
+      id: 'B',
+      scores: {
+        overallScore: 72,
+        confidence: 'Medium',
+        metrics: { infoArchitecture: 7, visualHierarchy: 8, layoutSpacing: 7, accessibility: 6, usability: 7 },
+      },
+      summary: 'A single dominant call-to-action and more generous spacing make the task obvious at a glance.',
+    },
+  ],
+  dimensionWinners: {
+    infoArchitecture: { winner: 'tie', rationale: 'Both variants group content the same way.' },
+    visualHierarchy: { winner: 'B', rationale: 'B gives the primary action clear visual priority.' },
+    layoutSpacing: { winner: 'B', rationale: 'B uses a consistent spacing scale; A crowds the form.' },
+    accessibility: { winner: 'B', rationale: 'B raises helper text contrast, though both still miss AA in places.' },
+    usability: { winner: 'B', rationale: 'Fewer competing choices in B reduce hesitation.' },
+  },
+  overallWinner: 'B',
+  verdict: 'Ship **Variant B**. It keeps the same structure as A but makes the primary task unmistakable.',
+  recommendations: [
+    'Carry over the compact summary panel from Variant A.',
+    'Lift the remaining low-contrast labels in Variant B to 4.5:1.',
+  ],
+};
+
+const mockComparison = (schema) => {
+  const keys = metricKeysOf(schema.properties.variants.items.properties.scores);
+  return {
+    ...MOCK_COMPARISON,
+    variants: MOCK_COMPARISON.variants.map((variant) => ({ ...variant, scores: withMetrics(variant.scores, keys) })),
+    dimensionWinners: Object.fromEntries(keys.map((key) => [
+      key,
+      MOCK_COMPARISON.dimensionWinners[key] ?? { winner: 'B', rationale: 'B handles this dimension more convincingly.' },
+    ])),
+  };
+};
+
+const MOCK_JOURNEY_STEP_NOTES = [
+  ['Sets expectations clearly, but the progress indicator is missing.', 'No indication of how many steps remain.'],
+  ['The form is well grouped; inline validation only fires on submit.', 'Errors appear only after pressing Continue.'],
+  ['The confirmation reads as a dead end: there is no link back to the dashboard.', 'No next action after completion.'],
+];
+
+// Journey prompts say how many screens they contain ("3-screen user
+// journey"); the mock answers with one step per screen.
+export const mockJourney = (promptText, schema) => {
+  const keys = metricKeysOf(schema.properties.scores);
+  const count = Number(promptText.match(/(\d+)-screen/)?.[1] || 2);
+  const steps = Array.from({ length: count }, (_, i) => {
+    const [summary, issue] = MOCK_JOURNEY_STEP_NOTES[i % MOCK_JOURNEY_STEP_NOTES.length];
+    const score = 70 - i * 4;
+    return {
+      step: i + 1,
+      scores: withMetrics({
+        overallScore: score,
+        confidence: 'Medium',
+        metrics: { infoArchitecture: 7, visualHierarchy: 6, layoutSpacing: 7, accessibility: 5, usability: Math.max(3, 7 - i) },
+      }, keys),
+      summary,
+      issues: [issue],
+    };
+  });
+
+  return {
+    scores: withMetrics({
+      overallScore: 63,
+      confidence: 'Medium',
+      metrics: { infoArchitecture: 7, visualHierarchy: 6, layoutSpacing: 6, accessibility: 5, usability: 6 },
+    }, keys),
+    summary: 'The flow gets users to the goal, but **feedback arrives late** and the final screen leaves them without a next step.',
+    steps,
+    flow: {
+      consistency: 'Typography and button styles are consistent; the header changes height between steps, which makes the flow feel less stable.',
+      deadEnds: [`Step ${count} has no way back to the rest of the product.`],
+      stepCount: {
+        recommended: Math.max(1, count - 1),
+        rationale: 'The first two steps ask for closely related information and could be merged.',
+      },
+    },
+    improvements: [
+      'Add a progress indicator to every step.',
+      `Give step ${count} a clear primary action that continues the user's journey.`,
+      'Validate fields inline as users type instead of on submit.',
+    ],
+  };
+};
+
+// Revision prompts list the previous issues as "1. ...". The mock marks the
+// first one resolved and the rest partially resolved.
+const withIssueProgress = (critique, promptText) => {
+  const [, listed = ''] = promptText.split('Previously flagged issues:');
+  const issues = [...listed.matchAll(/^\d+\. (.+)$/gm)].map((match) => match[1]);
+  if (issues.length === 0) return critique;
+  return {
+    ...critique,
+    issueProgress: issues.map((issue, i) => ({
+      issue,
+      status: i === 0 ? 'resolved' : 'partial',
+      note: i === 0 ? 'No longer visible in this revision.' : 'Improved, but not yet consistent across the screen.',
+    })),
+  };
+};
+
+// Structured fixtures, looked up by the `title` of the requested response
+// schema. Functions receive the prompt text of the request and the schema.
+export const MOCK_STRUCTURED_REPLIES = {
+  DesignCritique: (promptText, schema) => withIssueProgress(mockCritique(schema), promptText),
+  DesignComparison: (promptText, schema) => mockComparison(schema),
+  DesignJourney: mockJourney,
+};
+
+export const MOCK_CHAT_REPLY =
+  'Good question. Based on the critique, the highest-impact change is to strengthen the primary call-to-action and lift the contrast of secondary text. Ask me to **"visualize improvements"** to see a redesigned version.';
+
+export const MOCK_REDESIGN_REPLY = `Here is a redesigned version that applies the top improvements: a single dominant CTA, higher-contrast helper text and larger touch targets.
+
+\`\`\`html
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>Improved Design</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-slate-50 text-slate-900 font-sans">
+  <main class="max-w-md mx-auto p-8 space-y-6">
+    <h1 class="text-3xl font-bold">Get started</h1>
+    <p class="text-slate-700">Create your account in under a minute.</p>
+    <label class="block space-y-2">
+      <span class="text-sm font-medium">Email</span>
+      <input type="email" class="w-full border border-slate-300 rounded-lg px-4 py-3" />
+    </label>
+    <button class="w-full py-3 rounded-lg bg-indigo-600 text-white font-semibold">Create account</button>
+    <button class="w-full py-3 text-indigo-700 font-medium">I already have an account</button>
+  </main>
+</body>
+</html>
+\`\`\`
+`;
+
+// Chat messages that should get the redesign fixture instead of a text answer
+export const REDESIGN_REQUEST_PATTERN = /visuali[sz]e|show me|code this|apply|edit|redesign|new version/i;
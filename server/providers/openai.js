@@ -0,0 +1,102 @@
+// --- OPENAI-COMPATIBLE ADAPTER ---
+// Talks to any /chat/completions endpoint (OpenAI, Azure-style gateways,
+// vLLM, Ollama, LM Studio...). The conversation is kept in memory per chat
+// since these APIs are stateless.
+
+const toContent = (parts) => parts.map((part) => {
+  if (part.inlineData) {
+    return {
+      type: 'image_url',
+      image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` },
+    };
+  }
+  return { type: 'text', text: part.text || '' };
+});
+
+// Yields the `data:` payload of every event in a text/event-stream body
+async function* readSseData(body) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n/g, '\n');
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = frame
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (data) yield data;
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+export const createOpenAIProvider = (env) => {
+  const baseUrl = (env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  const model = env.OPENAI_MODEL || 'gpt-4o';
+  const apiKey = env.OPENAI_API_KEY;
+
+  const request = async (body) => {
+    const headers = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model, ...body }),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Model provider returned ${response.status}: ${detail.slice(0, 300)}`);
+    }
+    return response;
+  };
+
+  return {
+    name: 'openai',
+    model,
+    startChat: ({ systemInstruction, history = [], responseSchema }) => {
+      const messages = [
+        { role: 'system', content: systemInstruction },
+        ...history.map((turn) => (
+          turn.role === 'model'
+            ? { role: 'assistant', content: turn.parts.map((part) => part.text || '').join('') }
+            : { role: 'user', content: toContent(turn.parts) }
+        )),
+      ];
+      const responseFormat = responseSchema
+        ? { type: 'json_schema', json_schema: { name: responseSchema.title || 'structured_reply', schema: responseSchema } }
+        : undefined;
+
+      return {
+        // Turns join the history only once the reply is complete, so a failed
+        // request leaves no unanswered user turn behind for the next message
+        sendMessage: async (parts) => {
+          const turn = { role: 'user', content: toContent(parts) };
+          const response = await request({ messages: [...messages, turn], response_format: responseFormat });
+          const data = await response.json();
+          const text = data.choices?.[0]?.message?.content || "";
+          messages.push(turn, { role: 'assistant', content: text });
+          return text;
+        },
+        sendMessageStream: async function* (parts) {
+          const turn = { role: 'user', content: toContent(parts) };
+          const response = await request({ messages: [...messages, turn], response_format: responseFormat, stream: true });
+
+          let fullText = "";
+          for await (const data of readSseData(response.body)) {
+            if (data === '[DONE]') break;
+            const text = JSON.parse(data).choices?.[0]?.delta?.content;
+            if (!text) continue;
+            fullText += text;
+            yield text;
+          }
+          messages.push(turn, { role: 'assistant', content: fullText });
+        },
+      };
+    },
+  };
+};
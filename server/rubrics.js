@@ -0,0 +1,223 @@
+// --- SCORING RUBRICS ---
+// A rubric names the dimensions a design is scored on (0-10 each), how each
+// one is judged, and how much it counts towards the overall 0-100 score.
+// Schemas, prompts and validators are all built from the selected rubric.
+// Clients pick a built-in rubric by id or send their own definition.
+
+export const MIN_RUBRIC_DIMENSIONS = 3; // fewer can't be drawn as a radar chart
+export const MAX_RUBRIC_DIMENSIONS = 10;
+const MAX_ANCHORS = 6;
+const MAX_WEIGHT = 10;
+const MAX_NAME_LENGTH = 60;
+const MAX_LABEL_LENGTH = 40;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+// Keys become JSON property names in the model's reply
+const DIMENSION_KEY = /^[a-z][a-zA-Z0-9]{0,39}$/;
+const RUBRIC_ID = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+const anchors = (low, mid, high) => [
+  { score: 0, description: low },
+  { score: 5, description: mid },
+  { score: 10, description: high },
+];
+
+// The dimensions every critique used before rubrics existed. Keys are kept,
+// so saved critiques still line up with it.
+export const DEFAULT_RUBRIC = {
+  id: 'product-design',
+  name: 'Product Design',
+  dimensions: [
+    {
+      key: 'infoArchitecture',
+      label: 'Information Architecture',
+      description: 'Clarity of structure, grouping',
+      weight: 1,
+      anchors: anchors('No discernible structure', 'Mostly logical with some confusing groupings', 'Content is grouped and labelled exactly as users expect'),
+    },
+    {
+      key: 'visualHierarchy',
+      label: 'Visual Hierarchy',
+      description: 'Scanning path, emphasis',
+      weight: 1,
+      anchors: anchors('Everything competes for attention', 'The main action is findable but not obvious', 'The eye lands on the right things in the right order'),
+    },
+    {
+      key: 'layoutSpacing',
+      label: 'Layout & Spacing',
+      description: 'Whitespace, alignment, grid',
+      weight: 1,
+      anchors: anchors('Cramped and misaligned', 'A grid is followed with some inconsistencies', 'Consistent spacing scale and alignment throughout'),
+    },
+    {
+      key: 'accessibility',
+      label: 'Accessibility',
+      description: 'Contrast, touch targets, text size',
+      weight: 1,
+      anchors: anchors('Unusable for many people', 'Some WCAG AA failures', 'Meets WCAG AA throughout'),
+    },
+    {
+      key: 'usability',
+      label: 'Usability',
+      description: 'Affordances, standard patterns',
+      weight: 1,
+      anchors: anchors('Users cannot complete the task', 'Users succeed with some hesitation', 'The task is effortless'),
+    },
+  ],
+};
+
+const MARKETING_RUBRIC = {
+  id: 'marketing-site',
+  name: 'Marketing Site',
+  dimensions: [
+    {
+      key: 'messaging',
+      label: 'Messaging',
+      description: 'How quickly the value proposition comes across',
+      weight: 2,
+      anchors: anchors('The offer is unclear', 'The offer is clear after reading', 'The offer is clear at a glance'),
+    },
+    {
+      key: 'brandConsistency',
+      label: 'Brand Consistency',
+      description: 'Use of brand colours, type, imagery and tone of voice',
+      weight: 1,
+      anchors: anchors('Off-brand', 'Recognisably on-brand with lapses', 'Unmistakably on-brand'),
+    },
+    DEFAULT_RUBRIC.dimensions[1],
+    {
+      key: 'conversion',
+      label: 'Conversion',
+      description: 'Strength and placement of calls-to-action, trust signals',
+      weight: 2,
+      anchors: anchors('No clear next step', 'A call-to-action exists but competes with others', 'One compelling, well-placed call-to-action'),
+    },
+    DEFAULT_RUBRIC.dimensions[3],
+  ],
+};
+
+export const BUILT_IN_RUBRICS = [DEFAULT_RUBRIC, MARKETING_RUBRIC];
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isText = (value, max) => typeof value === 'string' && value.trim().length > 0 && value.length <= max;
+
+// Returns a list of human-readable problems; an empty list means the rubric is usable
+export const validateRubric = (rubric) => {
+  if (!isObject(rubric)) return ['rubric must be an object'];
+  const issues = [];
+  if (typeof rubric.id !== 'string' || !RUBRIC_ID.test(rubric.id)) {
+    issues.push('rubric.id must be lowercase letters, digits and dashes');
+  }
+  if (!isText(rubric.name, MAX_NAME_LENGTH)) issues.push(`rubric.name must be 1-${MAX_NAME_LENGTH} characters`);
+
+  const dimensions = rubric.dimensions;
+  if (!Array.isArray(dimensions) || dimensions.length < MIN_RUBRIC_DIMENSIONS || dimensions.length > MAX_RUBRIC_DIMENSIONS) {
+    issues.push(`rubric.dimensions must have ${MIN_RUBRIC_DIMENSIONS} to ${MAX_RUBRIC_DIMENSIONS} entries`);
+    return issues;
+  }
+
+  const keys = new Set();
+  dimensions.forEach((dimension, i) => {
+    const path = `rubric.dimensions[${i}]`;
+    if (!isObject(dimension)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    if (typeof dimension.key !== 'string' || !DIMENSION_KEY.test(dimension.key)) {
+      issues.push(`${path}.key must be camelCase letters and digits`);
+    } else if (keys.has(dimension.key)) {
+      issues.push(`${path}.key "${dimension.key}" is used twice`);
+    } else {
+      keys.add(dimension.key);
+    }
+    if (!isText(dimension.label, MAX_LABEL_LENGTH)) issues.push(`${path}.label must be 1-${MAX_LABEL_LENGTH} characters`);
+    if (!isText(dimension.description, MAX_DESCRIPTION_LENGTH)) {
+      issues.push(`${path}.description must be 1-${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    if (typeof dimension.weight !== 'number' || !(dimension.weight > 0) || dimension.weight > MAX_WEIGHT) {
+      issues.push(`${path}.weight must be a number above 0 and at most ${MAX_WEIGHT}`);
+    }
+    if (!Array.isArray(dimension.anchors) || dimension.anchors.length > MAX_ANCHORS) {
+      issues.push(`${path}.anchors must be an array of at most ${MAX_ANCHORS} entries`);
+    } else {
+      dimension.anchors.forEach((anchor, j) => {
+        if (!isObject(anchor) || !Number.isInteger(anchor.score) || anchor.score < 0 || anchor.score > 10) {
+          issues.push(`${path}.anchors[${j}].score must be an integer from 0 to 10`);
+        } else if (!isText(anchor.description, MAX_DESCRIPTION_LENGTH)) {
+          issues.push(`${path}.anchors[${j}].description must be 1-${MAX_DESCRIPTION_LENGTH} characters`);
+        }
+      });
+    }
+  });
+  return issues;
+};
+
+export class RubricError extends Error {
+  constructor(issues) {
+    super(`The scoring rubric is invalid: ${issues.join('; ')}`);
+    this.name = 'RubricError';
+    this.code = 'INVALID_RUBRIC';
+    this.issues = issues;
+  }
+}
+
+// Copies only the fields the server uses, with anchors in score order
+const normalizeRubric = (rubric) => ({
+  id: rubric.id,
+  name: rubric.name.trim(),
+  dimensions: rubric.dimensions.map((dimension) => ({
+    key: dimension.key,
+    label: dimension.label.trim(),
+    description: dimension.description.trim(),
+    weight: dimension.weight,
+    anchors: dimension.anchors
+      .map((anchor) => ({ score: anchor.score, description: anchor.description.trim() }))
+      .sort((a, b) => a.score - b.score),
+  })),
+});
+
+// Request value -> rubric. Missing means the default, a string names a
+// built-in rubric and an object is a custom definition. Throws RubricError.
+export const resolveRubric = (value) => {
+  if (value === undefined || value === null) return DEFAULT_RUBRIC;
+  if (typeof value === 'string') {
+    const builtIn = BUILT_IN_RUBRICS.find((rubric) => rubric.id === value);
+    if (!builtIn) throw new RubricError([`unknown rubric "${value}"`]);
+    return builtIn;
+  }
+  const issues = validateRubric(value);
+  if (issues.length > 0) throw new RubricError(issues);
+  return normalizeRubric(value);
+};
+
+export const rubricKeys = (rubric) => rubric.dimensions.map((dimension) => dimension.key);
+
+export const rubricLabels = (rubric) =>
+  Object.fromEntries(rubric.dimensions.map((dimension) => [dimension.key, dimension.label]));
+
+// Weighted mean of the 0-10 metrics, scaled to 0-100
+export const weightedOverallScore = (metrics, rubric) => {
+  const total = rubric.dimensions.reduce((sum, dimension) => sum + dimension.weight, 0);
+  const weighted = rubric.dimensions.reduce((sum, dimension) => sum + dimension.weight * metrics[dimension.key], 0);
+  return Math.round((weighted / total) * 10);
+};
+
+// The model estimates an overall score too, but the rubric's weights decide it
+export const applyRubricWeights = (scores, rubric) => ({
+  ...scores,
+  overallScore: weightedOverallScore(scores.metrics, rubric),
+});
+
+// Prompt text listing the dimensions, their anchors and weights
+export const describeRubric = (rubric) => {
+  const equalWeights = rubric.dimensions.every((dimension) => dimension.weight === rubric.dimensions[0].weight);
+  const lines = rubric.dimensions.map((dimension, i) => {
+    const weight = equalWeights ? '' : ` [weight ${dimension.weight}]`;
+    const anchorLines = dimension.anchors.map((anchor) => `   - ${anchor.score}: ${anchor.description}`);
+    return [`${i + 1}. ${dimension.label} ("${dimension.key}"): ${dimension.description}${weight}`, ...anchorLines].join('\n');
+  });
+  const overall = equalWeights
+    ? 'The overall score (0-100) is the average of the dimensions, times 10.'
+    : 'The overall score (0-100) is the weighted average of the dimensions, times 10.';
+  return `The dimensions (rubric "${rubric.name}") are:\n${lines.join('\n')}\n${overall}`;
+};
@@ -0,0 +1,45 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// --- FILE SESSION STORE ---
+// One JSON document per session under `dir`. Survives restarts and needs no
+// database; writes go through a temp file so a crash can't leave half a session.
+export const createFileStore = ({ dir }) => {
+  const fileFor = (id) => path.join(dir, `${id}.json`);
+  // Each write gets its own temp file, so concurrent saves of one session
+  // can't write into each other's; the last rename wins
+  let writes = 0;
+
+  return {
+    name: 'file',
+    get: async (id) => {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(id), 'utf8'));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    save: async (session) => {
+      await fs.mkdir(dir, { recursive: true });
+      const tmpFile = `${fileFor(session.id)}.${process.pid}.${++writes}.tmp`;
+      try {
+        await fs.writeFile(tmpFile, JSON.stringify(session));
+        await fs.rename(tmpFile, fileFor(session.id));
+      } catch (error) {
+        await fs.unlink(tmpFile).catch(() => {});
+        throw error;
+      }
+      return session;
+    },
+    delete: async (id) => {
+      try {
+        await fs.unlink(fileFor(id));
+        return true;
+      } catch (error) {
+        if (error.code === 'ENOENT') return false;
+        throw error;
+      }
+    },
+  };
+};
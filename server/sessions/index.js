@@ -0,0 +1,51 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { createMemoryStore } from './memoryStore.js';
+import { createFileStore } from './fileStore.js';
+
+// --- CHAT SESSIONS ---
+// A session holds everything a follow-up chat needs: the analysed image, the
+// design context, the validated critique, the rubric it was scored with, the
+// personas it was written for, the design system it was checked against (or
+// null) and the conversation turns. Stores
+// implement get(id) / save(session) / delete(id), all async.
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Selected with SESSION_STORE=memory|file (defaults to memory). The memory
+// store holds up to SESSION_MEMORY_MB (defaults to 256); the file store
+// writes to SESSION_DIR (defaults to ./.sessions).
+export const createSessionStore = (env = process.env) => {
+  const kind = (env.SESSION_STORE || 'memory').toLowerCase();
+  if (kind === 'memory') {
+    const megabytes = Number(env.SESSION_MEMORY_MB);
+    return createMemoryStore(megabytes > 0 ? { maxBytes: megabytes * 1024 * 1024 } : {});
+  }
+  if (kind === 'file') return createFileStore({ dir: path.resolve(env.SESSION_DIR || '.sessions') });
+  throw new Error(`Unknown SESSION_STORE "${kind}". Expected one of: memory, file`);
+};
+
+export const isValidSessionId = (id) => typeof id === 'string' && SESSION_ID_PATTERN.test(id);
+
+// Keeps only well-formed { role, text, createdAt? } turns from client-supplied history
+const sanitizeTurns = (turns) => (Array.isArray(turns) ? turns : [])
+  .filter((turn) => turn && (turn.role === 'user' || turn.role === 'model') && typeof turn.text === 'string')
+  .map(({ role, text, createdAt }) => (
+    typeof createdAt === 'string' && !Number.isNaN(Date.parse(createdAt)) ? { role, text, createdAt } : { role, text }
+  ));
+
+export const createSession = ({ imageBase64, context, critique, rubric, personas, designSystem = null, turns }) => {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    image: imageBase64 || null,
+    context: context || { userContext: '' },
+    critique,
+    rubric,
+    personas,
+    designSystem,
+    turns: sanitizeTurns(turns),
+  };
+};
@@ -0,0 +1,34 @@
+// --- IN-MEMORY SESSION STORE ---
+// Sessions live as long as the process. Each one carries its design image, so
+// the store is capped by total size as well as count: the least recently
+// saved sessions are evicted once either `maxBytes` or `maxSessions` is
+// reached, so a long-running server can't grow forever.
+export const createMemoryStore = ({ maxSessions = 500, maxBytes = 256 * 1024 * 1024 } = {}) => {
+  const sessions = new Map(); // id -> { session, bytes }
+  let totalBytes = 0;
+
+  const remove = (id) => {
+    const entry = sessions.get(id);
+    if (!entry) return false;
+    totalBytes -= entry.bytes;
+    return sessions.delete(id);
+  };
+
+  return {
+    name: 'memory',
+    get: async (id) => sessions.get(id)?.session || null,
+    save: async (session) => {
+      remove(session.id); // Re-insert so Map order tracks recency
+      // Near enough: the image dominates and is ASCII base64
+      const bytes = JSON.stringify(session).length;
+      sessions.set(session.id, { session, bytes });
+      totalBytes += bytes;
+      // The session just saved is kept even if it alone is over the limit
+      while (sessions.size > 1 && (sessions.size > maxSessions || totalBytes > maxBytes)) {
+        remove(sessions.keys().next().value);
+      }
+      return session;
+    },
+    delete: async (id) => remove(id),
+  };
+};
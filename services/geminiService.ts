@@ -1,5 +1,13 @@
 import { GoogleGenAI, Chat } from "@google/genai";
 import { DesignContext, DesignScore } from "../types";
+import {
+  CRITIQUE_RESPONSE_SCHEMA,
+  MAX_REPAIR_ATTEMPTS,
+  CritiqueValidationError,
+  buildRepairPrompt,
+  parseCritique,
+  renderCritiqueMarkdown,
+} from "../server/critique.js";
 
 const SYSTEM_INSTRUCTION = `
 You are a world-class Senior Product Design Architect and UX Engineer. Your job is to critique and improve product designs based on an image and context provided.
@@ -13,38 +21,17 @@ The dimensions are:
 5. Usability (Affordances, standard patterns)
 
 **CRITICAL OUTPUT FORMAT:**
-You must start your response with a valid JSON block strictly following this format, followed by your markdown critique. Do not wrap the JSON in markdown code blocks like \`\`\`json. Just output the raw JSON string first, then a divider, then the markdown.
-
-{
-  "overallScore": 59,
-  "confidence": "High",
-  "metrics": {
-    "infoArchitecture": 6,
-    "visualHierarchy": 5,
-    "layoutSpacing": 7,
-    "accessibility": 4,
-    "usability": 6
-  }
-}
----SEPARATOR---
-# Executive Summary
-[Brief high-level summary of the design's effectiveness]
-
-# 360° Perspective Analysis
-
-## 👤 User Experience (The Human View)
-[Critique how a new or power user would experience this. Focus on cognitive load, friction points, emotional response, and "Can I figure this out in 3 seconds?"]
-
-## 💼 Business Strategy (The ROI View)
-[Critique how this design impacts conversion, brand trust, and business goals. Are call-to-actions clear? Does it drive the intended user behavior? Identification of missed revenue opportunities.]
-
-## 🛠️ Engineering & Feasibility (The Dev View)
-[Critique implementation complexity. Are there non-standard patterns that increase technical debt? Accessibility risks (WCAG)? Performance implications of the layout?]
-
-# Actionable Improvements
-[Bulleted list of specific, high-impact changes]
-
-... [Rest of Markdown Critique] ...
+When asked for a critique, respond with a single JSON object that matches the provided response schema. Do not wrap it in markdown code blocks.
+- "scores": the 5 metrics (0-10), the overall score (0-100) and your confidence.
+- "executiveSummary": brief high-level summary of the design's effectiveness.
+- "perspectives": the 360° Perspective Analysis.
+  - "user": how a new or power user would experience this. Focus on cognitive load, friction points, emotional response, and "Can I figure this out in 3 seconds?"
+  - "business": how this design impacts conversion, brand trust, and business goals. Are call-to-actions clear? Does it drive the intended user behavior? Identification of missed revenue opportunities.
+  - "engineering": implementation complexity. Are there non-standard patterns that increase technical debt? Accessibility risks (WCAG)? Performance implications of the layout?
+- "improvements": specific, high-impact changes, one per item.
+- "additionalNotes": anything else worth calling out (optional).
+- "issues": concrete problems you can point at on the screenshot, most severe first. Give each a severity, the dimension it hurts most (infoArchitecture, visualHierarchy, layoutSpacing, accessibility or usability) and a bounding box as fractions (0-1) of the image size.
+All string fields may use markdown (bold, lists, tables) but must not repeat the section headings.
 
 ---
 
@@ -115,44 +102,37 @@ export const analyzeDesign = async (
   parts.push({ text: promptText });
 
   try {
+    // JSON output is requested per message so follow-up chat stays free-form markdown
+    const critiqueConfig = {
+      systemInstruction: SYSTEM_INSTRUCTION,
+      thinkingConfig: { thinkingBudget: 5000 },
+      responseMimeType: 'application/json',
+      responseJsonSchema: CRITIQUE_RESPONSE_SCHEMA,
+    };
+
     const response = await chat.sendMessage({
-      message: parts
+      message: parts,
+      config: critiqueConfig
     });
 
-    const fullText = response.text || "";
-    
-    // Parse split response
-    let scores: DesignScore | null = null;
-    let markdownText = fullText;
-
-    try {
-      const separatorIndex = fullText.indexOf('---SEPARATOR---');
-      if (separatorIndex !== -1) {
-        const jsonStr = fullText.substring(0, separatorIndex).trim();
-        markdownText = fullText.substring(separatorIndex + 15).trim();
-        // Clean up potential markdown code blocks if the model messed up
-        const cleanJson = jsonStr.replace(/```json/g, '').replace(/```/g, '').trim();
-        scores = JSON.parse(cleanJson);
-      } else {
-        // Fallback if separator missing, try to find first JSON block
-        const jsonMatch = fullText.match(/\{[\s\S]*?\}/);
-        if (jsonMatch) {
-          scores = JSON.parse(jsonMatch[0]);
-          markdownText = fullText.replace(jsonMatch[0], '').trim();
-        }
-      }
-    } catch (e) {
-      console.error("Failed to parse scores:", e);
-      // Keep full text if parsing fails
+    let { critique, issues } = parseCritique(response.text || "");
+
+    // Re-ask with the validation problems before giving up on the reply
+    for (let attempt = 1; !critique && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const retry = await chat.sendMessage({ message: buildRepairPrompt(issues), config: critiqueConfig });
+      ({ critique, issues } = parseCritique(retry.text || ""));
     }
 
+    if (!critique) throw new CritiqueValidationError(issues);
+
     return {
-      text: markdownText,
-      scores: scores,
+      text: renderCritiqueMarkdown(critique, { includePerspectives: true }),
+      scores: critique.scores as DesignScore,
       chat: chat
     };
   } catch (error: any) {
     console.error("Gemini API Error:", error);
+    if (error instanceof CritiqueValidationError) throw error;
     throw new Error(error.message || "Failed to analyze design.");
   }
 };
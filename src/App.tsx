@@ -1,9 +1,32 @@
 import React, { useState, useEffect } from 'react';
-import { Layers, Moon, Sun, Monitor } from 'lucide-react';
+import { Layers, Moon, Sun, Monitor, History, ListOrdered, ArrowRight } from 'lucide-react';
 import InputSection from './components/InputSection';
 import AnalysisResult from './components/AnalysisResult';
-import { analyzeDesign } from './services/geminiService';
-import { AnalysisState, DesignContext, ChatSessionData } from './types';
+import HistoryLibrary from './components/HistoryLibrary';
+import { analyzeDesign, analyzeJourney, compareDesigns, createChatSession, getChatSession, listRubrics, listPersonas, RubricCatalog, PersonaCatalog } from './services/geminiService';
+import { saveAnalysis, updateAnalysis, getAnalysis, getAnalysisImage, findAnalysisBySession, listThread } from './services/historyStore';
+import { loadCustomRubrics, saveCustomRubric, deleteCustomRubric, loadSelectedRubricId, saveSelectedRubricId } from './services/rubricStore';
+import { loadCustomPersonas, saveCustomPersona, deleteCustomPersona, loadSelectedPersonaIds, saveSelectedPersonaIds } from './services/personaStore';
+import { loadDesignSystems, saveDesignSystem, deleteDesignSystem, loadSelectedDesignSystemId, saveSelectedDesignSystemId } from './services/designSystemStore';
+import { createThumbnail } from './utils/image';
+import { analyzeContrast } from './utils/contrast';
+import { findOffPaletteColors } from './utils/conformance';
+import { previousIssues } from './utils/issues';
+import { AnalysisState, AnalysisRecord, DesignContext, DesignVariant, JourneyScreen, ChatSessionData, ChatMessage, Rubric, Persona, DesignSystemProfile, QueuedDesign } from './types';
+
+// Remembers the open chat session so a reload can resume it
+const SESSION_STORAGE_KEY = 'designcat_session_id';
+
+const CHAT_GREETING: ChatMessage = {
+  role: 'model',
+  text: 'I have analyzed your design. You can ask me to "visualize improvements" or "create a new version" to see code.',
+};
+
+// Revisions of a design up to and including `record`, oldest first
+const loadThread = (record: AnalysisRecord): Promise<AnalysisRecord[]> =>
+  listThread(record.threadId)
+    .then((records) => records.filter((r) => r.revision <= record.revision))
+    .catch(() => [record]);
 
 // Decision Engine Types
 type ThemeChoice = 'day' | 'night';
@@ -49,6 +72,123 @@ function App() {
     scores: null,
     chatData: undefined,
   });
+  const [view, setView] = useState<'analysis' | 'history'>('analysis');
+  // Saved analysis the next upload is a revision of
+  const [revisionOf, setRevisionOf] = useState<AnalysisRecord | null>(null);
+  // Designs uploaded together and not critiqued yet; each is its own analysis
+  const [queue, setQueue] = useState<{ pending: QueuedDesign[]; context: DesignContext; total: number } | null>(null);
+
+  // --- Scoring rubrics ---
+  const [rubricCatalog, setRubricCatalog] = useState<RubricCatalog | null>(null);
+  const [customRubrics, setCustomRubrics] = useState<Rubric[]>(loadCustomRubrics);
+  const [rubricId, setRubricId] = useState<string | null>(loadSelectedRubricId);
+
+  useEffect(() => {
+    listRubrics()
+      .then(setRubricCatalog)
+      .catch((error) => console.warn("Could not load scoring rubrics:", error));
+  }, []);
+
+  // Falls back to the server's default if the saved choice was deleted
+  const selectedRubric = [...customRubrics, ...(rubricCatalog?.rubrics ?? [])].find((r) => r.id === rubricId)
+    ?? rubricCatalog?.rubrics.find((r) => r.id === rubricCatalog.defaultId);
+
+  const handleSelectRubric = (id: string) => {
+    setRubricId(id);
+    saveSelectedRubricId(id);
+  };
+
+  const handleSaveRubric = (rubric: Rubric) => {
+    setCustomRubrics(saveCustomRubric(rubric));
+    handleSelectRubric(rubric.id);
+  };
+
+  const handleDeleteRubric = (id: string) => {
+    setCustomRubrics(deleteCustomRubric(id));
+    if (rubricId === id && rubricCatalog) handleSelectRubric(rubricCatalog.defaultId);
+  };
+
+  // --- Reviewer personas ---
+  const [personaCatalog, setPersonaCatalog] = useState<PersonaCatalog | null>(null);
+  const [customPersonas, setCustomPersonas] = useState<Persona[]>(loadCustomPersonas);
+  const [personaIds, setPersonaIds] = useState<string[] | null>(loadSelectedPersonaIds);
+
+  useEffect(() => {
+    listPersonas()
+      .then(setPersonaCatalog)
+      .catch((error) => console.warn("Could not load reviewer personas:", error));
+  }, []);
+
+  const allPersonas = [...(personaCatalog?.personas ?? []), ...customPersonas];
+  const selectedPersonaIds = (personaIds ?? personaCatalog?.defaultIds ?? []).filter((id) => allPersonas.some((p) => p.id === id));
+  // Undefined lets the server pick its default lenses
+  const selectedPersonas = selectedPersonaIds.length > 0
+    ? selectedPersonaIds.map((id) => allPersonas.find((p) => p.id === id)!)
+    : undefined;
+
+  const handleSelectPersonas = (ids: string[]) => {
+    setPersonaIds(ids);
+    saveSelectedPersonaIds(ids);
+  };
+
+  const handleSavePersona = (persona: Persona) => setCustomPersonas(saveCustomPersona(persona));
+
+  const handleDeletePersona = (id: string) => {
+    setCustomPersonas(deleteCustomPersona(id));
+    const remaining = selectedPersonaIds.filter((selected) => selected !== id);
+    handleSelectPersonas(remaining.length > 0 ? remaining : personaCatalog?.defaultIds ?? []);
+  };
+
+  // --- Design system profiles ---
+  const [designSystems, setDesignSystems] = useState<DesignSystemProfile[]>(loadDesignSystems);
+  const [designSystemId, setDesignSystemId] = useState<string | null>(loadSelectedDesignSystemId);
+  const selectedDesignSystem = designSystems.find((profile) => profile.id === designSystemId);
+
+  const handleSelectDesignSystem = (id: string | null) => {
+    setDesignSystemId(id);
+    saveSelectedDesignSystemId(id);
+  };
+
+  const handleImportDesignSystem = (profile: DesignSystemProfile) => {
+    setDesignSystems(saveDesignSystem(profile));
+    handleSelectDesignSystem(profile.id);
+  };
+
+  const handleDeleteDesignSystem = (id: string) => {
+    setDesignSystems(deleteDesignSystem(id));
+    if (designSystemId === id) handleSelectDesignSystem(null);
+  };
+
+  // --- Resume the last chat session after a reload ---
+  useEffect(() => {
+    const savedSessionId = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!savedSessionId) return;
+
+    getChatSession(savedSessionId)
+      .then(async (session) => {
+        const record = await findAnalysisBySession(session.id).catch(() => null);
+        const thread = record ? await loadThread(record) : undefined;
+        setState((prev) => prev.status !== 'idle' ? prev : {
+          status: 'complete',
+          image: session.image,
+          context: session.context,
+          result: session.text,
+          scores: session.critique.scores,
+          critique: session.critique,
+          chatData: { sessionId: session.id, history: [CHAT_GREETING, ...session.turns] },
+          historyId: record?.id,
+          contrast: record?.contrast,
+          rubric: session.rubric,
+          personas: session.personas,
+          designSystem: session.designSystem ?? undefined,
+          thread,
+        });
+      })
+      .catch((error) => {
+        console.warn("Could not resume chat session:", error);
+        localStorage.removeItem(SESSION_STORAGE_KEY);
+      });
+  }, []);
 
   // --- Theme State & Engine ---
   const [userPreference, setUserPreference] = useState<UserPreference>(() => {
@@ -108,24 +248,115 @@ function App() {
   };
 
   const handleAnalyze = async (image: string | null, context: DesignContext) => {
-    setState((prev) => ({ ...prev, status: 'analyzing', image, context, error: undefined }));
+    // Revisions keep their thread's rubric; analyses saved before rubrics
+    // existed were scored with the server's default
+    const rubric = revisionOf ? revisionOf.rubric : selectedRubric;
+    const personas = selectedPersonas;
+    const designSystem = selectedDesignSystem;
+    // A queued design starts from the previous one's result; none of it carries over
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    setRevisionOf(null);
+    setState((prev) => ({
+      ...prev,
+      status: 'analyzing',
+      image,
+      result: null,
+      scores: null,
+      critique: undefined,
+      contrast: undefined,
+      chatData: undefined,
+      historyId: undefined,
+      variants: undefined,
+      comparison: undefined,
+      screens: undefined,
+      journey: undefined,
+      thread: undefined,
+      context,
+      rubric,
+      personas,
+      designSystem,
+      error: undefined,
+    }));
+
+    // Measure contrast from the pixels so the accessibility critique has real
+    // numbers to work from. It only adds context, so failures are ignored.
+    const contrast = image ? await analyzeContrast(image).catch((error) => {
+      console.warn("Contrast analysis failed:", error);
+      return undefined;
+    }) : undefined;
+    setState((prev) => ({ ...prev, contrast }));
+    const offPalette = designSystem && contrast ? findOffPaletteColors(contrast, designSystem) : undefined;
+
+    // Tell the model what was flagged last time so it can report progress
+    const previous = revisionOf ? {
+      revision: revisionOf.revision,
+      overallScore: revisionOf.scores.overallScore,
+      issues: previousIssues(revisionOf.critique),
+    } : undefined;
     
     try {
-      const { text, scores } = await analyzeDesign(image, context, decision.theme);
+      const { text, scores, critique } = await analyzeDesign(image, context, decision.theme, (partial) => {
+        // Swap the spinner for the result view once there is something to show
+        if (!partial.text && !partial.scores) return;
+        setState((prev) => ({
+          ...prev,
+          status: 'streaming',
+          result: partial.text,
+          scores: partial.scores,
+        }));
+      }, { previous, contrast, rubric, personas, designSystem, offPalette });
       
-      // Initialize chat data
-      const initialChatData: ChatSessionData = {
-        history: [{ role: 'model', text: 'I have analyzed your design. You can ask me to "visualize improvements" or "create a new version" to see code.' }],
-        lastContext: context,
-        lastImage: image
-      };
+      // Start a server-side chat session; the critique is still useful without one
+      let initialChatData: ChatSessionData | undefined;
+      if (critique) {
+        try {
+          const session = await createChatSession(image, context, critique, [], rubric, personas, designSystem);
+          initialChatData = { sessionId: session.id, history: [CHAT_GREETING] };
+          localStorage.setItem(SESSION_STORAGE_KEY, session.id);
+        } catch (error) {
+          console.error("Failed to start chat session:", error);
+        }
+      }
+
+      // Keep a copy in the local history library. A revision joins the thread
+      // of the analysis it revises, after its newest revision.
+      let historyId: string | undefined;
+      let thread: AnalysisRecord[] | undefined;
+      if (critique) {
+        try {
+          const threadId = revisionOf?.threadId ?? crypto.randomUUID();
+          const siblings = revisionOf ? await listThread(threadId) : [];
+          const record = await saveAnalysis({
+            thumbnail: image ? await createThumbnail(image) : null,
+            context,
+            scores: critique.scores,
+            critique,
+            markdown: text,
+            chatHistory: [],
+            contrast,
+            rubric,
+            personas,
+            designSystem,
+            sessionId: initialChatData?.sessionId,
+            threadId,
+            revision: Math.max(0, ...siblings.map((r) => r.revision)) + 1,
+          }, image);
+          historyId = record.id;
+          thread = [...siblings, record];
+        } catch (error) {
+          console.error("Failed to save analysis to history:", error);
+        }
+      }
 
       setState((prev) => ({ 
         ...prev, 
         status: 'complete', 
         result: text,
         scores: scores,
-        chatData: initialChatData
+        critique: critique ?? undefined,
+        chatData: initialChatData,
+        historyId,
+        thread
       }));
     } catch (error: any) {
       setState((prev) => ({ 
@@ -136,7 +367,135 @@ function App() {
     }
   };
 
+  // The first design is critiqued straight away, the rest when asked for
+  const handleAnalyzeQueue = (designs: QueuedDesign[], context: DesignContext) => {
+    const [first, ...rest] = designs;
+    setQueue(rest.length > 0 ? { pending: rest, context, total: designs.length } : null);
+    handleAnalyze(first.image, context);
+  };
+
+  const handleAnalyzeNext = () => {
+    if (!queue) return;
+    const [next, ...rest] = queue.pending;
+    setQueue(rest.length > 0 ? { ...queue, pending: rest } : null);
+    handleAnalyze(next.image, queue.context);
+  };
+
+  // Head-to-head critique of two variants. Comparisons have no chat session and
+  // aren't saved to history: both are built around a single critiqued design.
+  const handleCompare = async (variants: DesignVariant[], context: DesignContext) => {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    setRevisionOf(null);
+    setState({
+      status: 'analyzing',
+      image: null,
+      variants,
+      context,
+      rubric: selectedRubric,
+      result: null,
+      scores: null,
+    });
+
+    try {
+      const { text, comparison } = await compareDesigns(variants, context, decision.theme, (partialText) => {
+        if (!partialText) return;
+        setState((prev) => ({ ...prev, status: 'streaming', result: partialText }));
+      }, selectedRubric);
+      setState((prev) => ({ ...prev, status: 'complete', result: text, comparison }));
+    } catch (error: any) {
+      setState((prev) => ({
+        ...prev,
+        status: 'error',
+        error: error.message || "Something went wrong. Please check your API key and try again."
+      }));
+    }
+  };
+
+  // "Critique Again" on a saved analysis: the next upload becomes its revision
+  const handleRevise = async () => {
+    const record = state.historyId ? await getAnalysis(state.historyId).catch(() => null) : null;
+    handleReset();
+    setRevisionOf(record);
+  };
+
+  // Critique of an ordered set of screens. Like comparisons, journeys have no
+  // chat session and aren't saved to history.
+  const handleAnalyzeJourney = async (screens: JourneyScreen[], context: DesignContext) => {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    setRevisionOf(null);
+    setState({
+      status: 'analyzing',
+      image: null,
+      screens,
+      context,
+      rubric: selectedRubric,
+      result: null,
+      scores: null,
+    });
+
+    try {
+      const { text, scores, journey } = await analyzeJourney(screens, context, decision.theme, (partial) => {
+        if (!partial.text && !partial.scores) return;
+        setState((prev) => ({ ...prev, status: 'streaming', result: partial.text, scores: partial.scores }));
+      }, selectedRubric);
+      setState((prev) => ({ ...prev, status: 'complete', result: text, scores, journey }));
+    } catch (error: any) {
+      setState((prev) => ({
+        ...prev,
+        status: 'error',
+        error: error.message || "Something went wrong. Please check your API key and try again."
+      }));
+    }
+  };
+
+  const handleChatHistoryChange = (history: ChatMessage[]) => {
+    setState((prev) => prev.chatData ? { ...prev, chatData: { ...prev.chatData, history } } : prev);
+    if (state.historyId) {
+      // history[0] is always the greeting, which isn't worth storing
+      updateAnalysis(state.historyId, { chatHistory: history.slice(1) })
+        .catch((error) => console.error("Failed to update history:", error));
+    }
+  };
+
+  // Reopen a saved analysis. Its server-side chat session may have expired, in
+  // which case a new one is seeded with the saved turns so the chat carries on.
+  const handleOpenHistory = async (record: AnalysisRecord) => {
+    // Analyses saved before full images were kept only have their thumbnail
+    const image = await getAnalysisImage(record.id).catch(() => null) ?? record.thumbnail;
+    let chatData: ChatSessionData | undefined;
+    try {
+      const existing = record.sessionId ? await getChatSession(record.sessionId).catch(() => null) : null;
+      const session = existing ?? await createChatSession(image, record.context, record.critique, record.chatHistory, record.rubric, record.personas, record.designSystem);
+      if (session.id !== record.sessionId) await updateAnalysis(record.id, { sessionId: session.id });
+      localStorage.setItem(SESSION_STORAGE_KEY, session.id);
+      chatData = { sessionId: session.id, history: [CHAT_GREETING, ...record.chatHistory] };
+    } catch (error) {
+      console.error("Failed to restore chat session:", error);
+    }
+
+    setState({
+      status: 'complete',
+      image,
+      context: record.context,
+      result: record.markdown,
+      scores: record.scores,
+      critique: record.critique,
+      contrast: record.contrast,
+      rubric: record.rubric,
+      personas: record.personas,
+      designSystem: record.designSystem,
+      chatData,
+      historyId: record.id,
+      thread: await loadThread(record),
+    });
+    setView('analysis');
+  };
+
   const handleReset = () => {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    setRevisionOf(null);
+    setQueue(null);
+    setView('analysis');
     setState({
       status: 'idle',
       image: null,
@@ -163,6 +522,18 @@ function App() {
           </div>
           <div className="flex items-center gap-4 text-sm text-slate-500 dark:text-slate-400">
              <span className="hidden sm:inline font-medium">Powered by Gemini 3</span>
+             <button
+               onClick={() => setView('history')}
+               className={`flex items-center gap-2 px-3 py-2 rounded-full transition-colors border ${
+                 view === 'history'
+                   ? 'bg-indigo-50 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-300 border-indigo-100 dark:border-indigo-800'
+                   : 'hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-400 border-transparent hover:border-slate-200 dark:hover:border-slate-700'
+               }`}
+               title="History"
+             >
+               <History size={20} />
+               <span className="hidden sm:inline font-medium">History</span>
+             </button>
              <button 
                onClick={toggleTheme}
                className="flex items-center gap-2 px-3 py-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-400 transition-colors border border-transparent hover:border-slate-200 dark:hover:border-slate-700"
@@ -176,7 +547,11 @@ function App() {
 
       {/* Main Content */}
       <main className="flex-1 w-full px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
-        {state.status === 'idle' && (
+        {view === 'history' && (
+          <HistoryLibrary onOpen={handleOpenHistory} onClose={() => setView('analysis')} />
+        )}
+
+        {view === 'analysis' && state.status === 'idle' && (
            <div className="animate-fade-in-up">
               <div className="text-center max-w-2xl mx-auto mb-12">
                 <h2 className="text-4xl sm:text-5xl font-extrabold text-slate-900 dark:text-white tracking-tight mb-4 transition-colors duration-300">
@@ -184,35 +559,106 @@ function App() {
                   <span className="text-indigo-600 dark:text-indigo-400">in seconds.</span>
                 </h2>
                 <p className="text-lg text-slate-600 dark:text-slate-400">
-                  Upload a screenshot or Figma URL to get actionable, professional critique on visual design, UX, accessibility, and business strategy alignment.
+                  Upload a screenshot, or give a page or Figma URL, to get actionable, professional critique on visual design, UX, accessibility, and business strategy alignment.
                 </p>
               </div>
-              <InputSection onAnalyze={handleAnalyze} isAnalyzing={false} />
+              <InputSection
+                onAnalyze={handleAnalyze}
+                onCompare={handleCompare}
+                onAnalyzeJourney={handleAnalyzeJourney}
+                onAnalyzeQueue={handleAnalyzeQueue}
+                isAnalyzing={false}
+                revisionOf={revisionOf ?? undefined}
+                onCancelRevision={() => setRevisionOf(null)}
+                rubricPicker={rubricCatalog ? {
+                  builtIn: rubricCatalog.rubrics,
+                  custom: customRubrics,
+                  selected: selectedRubric,
+                  limits: rubricCatalog.limits,
+                  onSelect: handleSelectRubric,
+                  onSave: handleSaveRubric,
+                  onDelete: handleDeleteRubric,
+                } : undefined}
+                personaPicker={personaCatalog ? {
+                  builtIn: personaCatalog.personas,
+                  custom: customPersonas,
+                  selectedIds: selectedPersonaIds,
+                  limits: personaCatalog.limits,
+                  onChange: handleSelectPersonas,
+                  onSave: handleSavePersona,
+                  onDelete: handleDeletePersona,
+                } : undefined}
+                designSystemPicker={{
+                  profiles: designSystems,
+                  selected: selectedDesignSystem,
+                  onSelect: handleSelectDesignSystem,
+                  onImport: handleImportDesignSystem,
+                  onDelete: handleDeleteDesignSystem,
+                }}
+              />
            </div>
         )}
 
-        {state.status === 'analyzing' && (
+        {view === 'analysis' && queue && (state.status === 'complete' || state.status === 'error') && (
+          <div className="max-w-7xl mx-auto mb-6 flex flex-wrap items-center justify-between gap-3 px-4 py-3 rounded-xl bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-100 dark:border-indigo-800 text-sm">
+            <p className="flex items-center gap-2 text-slate-700 dark:text-slate-200">
+              <ListOrdered size={18} className="text-indigo-600 dark:text-indigo-400" />
+              Design {queue.total - queue.pending.length} of {queue.total} done. Next: <span className="font-medium">{queue.pending[0].name}</span>
+            </p>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setQueue(null)}
+                className="px-3 py-1.5 rounded-lg text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-white transition-colors"
+              >
+                Skip the rest
+              </button>
+              <button
+                onClick={handleAnalyzeNext}
+                className="px-4 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white font-medium flex items-center gap-2 transition-colors"
+              >
+                Critique next <ArrowRight size={16} />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {view === 'analysis' && state.status === 'analyzing' && (
           <div className="flex flex-col items-center justify-center min-h-[50vh] animate-fade-in">
              <div className="relative w-24 h-24 mb-8">
                <div className="absolute inset-0 border-t-4 border-indigo-500 border-solid rounded-full animate-spin"></div>
                <div className="absolute inset-3 border-t-4 border-violet-500 border-solid rounded-full animate-spin-slow"></div>
              </div>
              <h3 className="text-2xl font-bold text-slate-900 dark:text-white mb-2 transition-colors duration-300">Analyzing Design</h3>
-             <p className="text-slate-500 dark:text-slate-400">Thinking deeply about UX, Business, and Engineering perspectives...</p>
+             <p className="text-slate-500 dark:text-slate-400">Thinking deeply about {state.personas ? state.personas.map((p) => p.name).join(', ') : 'UX, Business, and Engineering'} perspectives...</p>
           </div>
         )}
 
-        {state.status === 'complete' && state.result && (
+        {view === 'analysis' && (state.status === 'complete' || state.status === 'streaming') && state.result !== null && (
           <AnalysisResult 
             result={state.result} 
             scores={state.scores}
             image={state.image} 
+            context={state.context}
+            critique={state.critique}
+            contrast={state.contrast}
+            rubric={state.rubric}
+            personas={state.personas ?? personaCatalog?.personas}
+            designSystem={state.designSystem}
+            variants={state.variants}
+            comparison={state.comparison}
+            screens={state.screens}
+            journey={state.journey}
+            themeMode={decision.theme}
             chatData={state.chatData}
+            revisions={state.thread}
+            isStreaming={state.status === 'streaming'}
+            onChatHistoryChange={handleChatHistoryChange}
+            onRevise={state.historyId ? handleRevise : undefined}
             onReset={handleReset} 
           />
         )}
 
-        {state.status === 'error' && (
+        {view === 'analysis' && state.status === 'error' && (
            <div className="max-w-md mx-auto text-center p-8 bg-white dark:bg-slate-800 rounded-xl border border-red-100 dark:border-red-900/50 shadow-lg animate-fade-in transition-colors duration-300">
               <div className="text-red-500 mb-4 text-5xl">⚠️</div>
               <h3 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Analysis Failed</h3>
@@ -1,21 +1,128 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { RefreshCw, ArrowLeft, Sparkles, Download } from 'lucide-react';
+import { RefreshCw, ArrowLeft, Sparkles, Loader2, Download, FileText, FileCode, FileJson, Printer } from 'lucide-react';
 import ChatInterface from './ChatInterface';
 import RadarChart from './RadarChart';
-import { DesignScore, ChatSessionData } from '../types';
+import ComparisonSummary from './ComparisonSummary';
+import ScoreTrends from './ScoreTrends';
+import JourneyTimeline from './JourneyTimeline';
+import AnnotatedImage from './AnnotatedImage';
+import IssueList, { issueElementId } from './IssueList';
+import ContrastPanel from './ContrastPanel';
+import PerspectiveTabs from './PerspectiveTabs';
+import ConformancePanel from './ConformancePanel';
+import { downloadFile } from '../utils/download';
+import { axesOf } from '../utils/metrics';
+import { findOffPaletteColors } from '../utils/conformance';
+import { ReportFormat, ReportInput, buildReportHtml, buildReportJson, buildReportMarkdown, reportFileName } from '../utils/report';
+import { DesignContext, DesignScore, DesignCritique, DesignSystem, Rubric, Persona, ContrastReport, DesignComparison, DesignVariant, DesignJourney, JourneyScreen, AnalysisRecord, ChatSessionData, ChatMessage, BreakpointShot, DesignEvaluation } from '../types';
+import { EvaluationSetup } from '../utils/designEvaluation';
 
 interface AnalysisResultProps {
   result: string;
   scores: DesignScore | null;
   image: string | null;
+  context: DesignContext;
+  critique?: DesignCritique;
+  rubric?: Rubric;
+  personas?: Persona[];
+  designSystem?: DesignSystem;
+  contrast?: ContrastReport;
+  variants?: DesignVariant[];
+  comparison?: DesignComparison;
+  screens?: JourneyScreen[];
+  journey?: DesignJourney;
+  themeMode?: 'day' | 'night'; // what generated versions are critiqued in
   chatData?: ChatSessionData;
+  revisions?: AnalysisRecord[]; // design thread up to this result, oldest first
+  isStreaming?: boolean;
+  onChatHistoryChange?: (history: ChatMessage[]) => void;
+  onRevise?: () => void;
   onReset: () => void;
 }
 
-const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, scores, image, chatData, onReset }) => {
+const PERSPECTIVES_HEADING = '# 360° Perspective Analysis';
+
+const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, scores, image, context, critique, rubric, personas, designSystem, contrast, variants, comparison, screens, journey, themeMode = 'day', chatData, revisions = [], isStreaming = false, onChatHistoryChange, onRevise, onReset }) => {
   const [isChatOpen, setIsChatOpen] = useState(false);
 
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [activeIssue, setActiveIssue] = useState<number | null>(null);
+  // Device lab screenshots of generated designs, for the HTML/PDF report; kept for this visit only
+  const [breakpointShots, setBreakpointShots] = useState<BreakpointShot[]>([]);
+  // Scores of generated versions, latest per version; also kept for this visit only
+  const [evaluations, setEvaluations] = useState<DesignEvaluation[]>([]);
+  const imageRef = useRef<HTMLDivElement>(null);
+
+  const current = revisions[revisions.length - 1];
+  const prior = revisions[revisions.length - 2];
+  const issues = critique?.issues ?? [];
+  const axes = axesOf(rubric);
+  // Analyses saved before personas existed have their perspectives in the markdown
+  const showPerspectives = !!critique?.perspectives && !result.includes(PERSPECTIVES_HEADING);
+  const offPalette = useMemo(
+    () => (designSystem && contrast ? findOffPaletteColors(contrast, designSystem) : []),
+    [designSystem, contrast]
+  );
+
+  const handleExport = async (format: ReportFormat) => {
+    setIsExportOpen(false);
+    setExportError(null);
+    const input: ReportInput = {
+      context, scores, rubric, personas, designSystem, offPalette, markdown: result, image, critique, contrast, variants, comparison, screens, journey,
+      revision: current?.revision,
+      breakpointShots,
+      // history[0] is the greeting
+      transcript: chatData?.history.slice(1) ?? [],
+    };
+    try {
+      if (format === 'json') {
+        downloadFile(reportFileName(input, 'json'), JSON.stringify(buildReportJson(input), null, 2), 'application/json');
+      } else if (format === 'markdown') {
+        downloadFile(reportFileName(input, 'md'), buildReportMarkdown(input), 'text/markdown');
+      } else if (format === 'html') {
+        downloadFile(reportFileName(input, 'html'), await buildReportHtml(input), 'text/html');
+      } else {
+        // Printed from a new tab, where the browser offers "Save as PDF"
+        const url = URL.createObjectURL(new Blob([await buildReportHtml(input, { print: true })], { type: 'text/html' }));
+        const opened = window.open(url, '_blank');
+        setTimeout(() => URL.revokeObjectURL(url), 60_000);
+        if (!opened) throw new Error("The report tab was blocked. Allow pop-ups for this site, or export as HTML.");
+      }
+    } catch (error) {
+      console.error("Report export failed:", error);
+      setExportError(error instanceof Error ? error.message : "Could not export the report.");
+    }
+  };
+
+  // A new capture of a version replaces the earlier one
+  const handleCaptureBreakpoints = (shots: BreakpointShot[]) => {
+    const captured = new Set(shots.map((shot) => shot.version));
+    setBreakpointShots((prev) => [...prev.filter((shot) => !captured.has(shot.version)), ...shots].sort((a, b) => a.version - b.version));
+  };
+
+  const handleEvaluated = (evaluation: DesignEvaluation) => {
+    setEvaluations((prev) => [...prev.filter((e) => e.version !== evaluation.version), evaluation]);
+  };
+
+  // Generated versions are scored against a single design; comparisons and journeys have no one baseline
+  const evaluationSetup: EvaluationSetup | undefined = !variants && !screens
+    ? { context, themeMode, rubric, personas, designSystem, baseline: scores }
+    : undefined;
+
+  // Hotspot click: bring the matching issue into view
+  const handleHotspotSelect = (index: number) => {
+    setActiveIssue(index);
+    document.getElementById(issueElementId(index))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  // Issue click: outline its region, scrolling back up to the image if needed
+  const handleIssueSelect = (index: number) => {
+    setActiveIssue((prev) => (prev === index ? null : index));
+    imageRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
   return (
     <div className="w-full max-w-6xl mx-auto animate-fade-in relative">
       
@@ -30,8 +137,43 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, scores, image,
         </button>
         
         <div className="flex gap-3">
+          <div className="relative">
+            <button
+              onClick={() => setIsExportOpen((open) => !open)}
+              disabled={isStreaming}
+              aria-haspopup="menu"
+              aria-expanded={isExportOpen}
+              className="px-4 py-2 bg-white hover:bg-slate-50 dark:bg-slate-800 dark:hover:bg-slate-700 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 text-sm font-medium rounded-lg transition-colors flex items-center gap-2 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download size={16} /> Export
+            </button>
+            {isExportOpen && (
+              <div role="menu" className="absolute right-0 mt-2 w-56 z-20 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl shadow-xl py-1">
+                {([
+                  { format: 'pdf', icon: Printer, label: 'PDF report', hint: 'Print or save as PDF' },
+                  { format: 'html', icon: FileCode, label: 'HTML report', hint: 'Self-contained page' },
+                  { format: 'markdown', icon: FileText, label: 'Markdown', hint: 'Critique text' },
+                  { format: 'json', icon: FileJson, label: 'JSON', hint: 'Context, scores, issues, chat' },
+                ] as const).map(({ format, icon: Icon, label, hint }) => (
+                  <button
+                    key={format}
+                    role="menuitem"
+                    onClick={() => handleExport(format)}
+                    className="w-full px-4 py-2 flex items-center gap-3 text-left hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                  >
+                    <Icon size={16} className="text-indigo-600 dark:text-indigo-400" />
+                    <span>
+                      <span className="block text-sm font-medium text-slate-800 dark:text-slate-100">{label}</span>
+                      <span className="block text-xs text-slate-500 dark:text-slate-400">{hint}</span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
           <button 
-             onClick={onReset}
+             onClick={onRevise ?? onReset}
+             title={onRevise ? "Upload a revised version and track its progress" : undefined}
              className="px-4 py-2 bg-white hover:bg-slate-50 dark:bg-slate-800 dark:hover:bg-slate-700 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 text-sm font-medium rounded-lg transition-colors flex items-center gap-2 shadow-sm"
            >
              <RefreshCw size={16} /> Critique Again
@@ -47,18 +189,29 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, scores, image,
         </div>
       </div>
 
-      {/* Score & Image Section */}
+      {exportError && (
+        <p className="mb-6 text-sm text-rose-600 dark:text-rose-400">{exportError}</p>
+      )}
+
+      {variants ? (
+        <ComparisonSummary variants={variants} comparison={comparison} axes={axes} />
+      ) : screens ? (
+        <JourneyTimeline screens={screens} scores={scores} journey={journey} axes={axes} />
+      ) : (
+      /* Score & Image Section */
       <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-xl overflow-hidden mb-8 transition-colors duration-300">
         <div className="p-6 md:p-8 grid grid-cols-1 md:grid-cols-12 gap-8 items-center">
           
           {/* Left: Image Preview */}
           <div className="md:col-span-4 flex flex-col items-center">
             {image ? (
-              <div className="relative rounded-xl overflow-hidden border border-slate-200 dark:border-slate-600 shadow-lg bg-slate-100 dark:bg-slate-900">
-                <img 
-                  src={image} 
-                  alt="Analyzed Design" 
-                  className="max-h-[300px] w-auto object-contain" 
+              <div ref={imageRef} className="relative rounded-xl border border-slate-200 dark:border-slate-600 shadow-lg bg-slate-100 dark:bg-slate-900 scroll-mt-24">
+                <AnnotatedImage
+                  image={image}
+                  issues={issues}
+                  activeIndex={activeIssue}
+                  onSelect={handleHotspotSelect}
+                  className="max-h-[300px] w-auto object-contain rounded-xl"
                 />
               </div>
             ) : (
@@ -88,7 +241,12 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, scores, image,
              <div className="mt-4 w-full flex justify-center md:justify-start relative">
                 {scores ? (
                   <div className="w-full max-w-md">
-                    <RadarChart metrics={scores.metrics} />
+                    <RadarChart
+                      metrics={scores.metrics}
+                      axes={axes}
+                      label={current ? `Revision ${current.revision}` : undefined}
+                      ghost={prior ? { metrics: prior.scores.metrics, label: `Revision ${prior.revision}` } : undefined}
+                    />
                   </div>
                 ) : (
                   <div className="h-48 w-full flex items-center justify-center text-slate-400 dark:text-slate-500">
@@ -100,11 +258,24 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, scores, image,
 
         </div>
       </div>
+      )}
+
+      {!variants && !screens && <ScoreTrends revisions={revisions} axes={axes} />}
+
+      {issues.length > 0 && (
+        <IssueList issues={issues} activeIndex={activeIssue} onSelect={handleIssueSelect} axes={axes} />
+      )}
+
+      {contrast && !variants && !screens && <ContrastPanel report={contrast} />}
+
+      {designSystem && !variants && !screens && (
+        <ConformancePanel designSystem={designSystem} conformance={critique?.conformance} offPalette={offPalette} isStreaming={isStreaming} />
+      )}
 
       {/* Main Markdown Content */}
       <div className="grid grid-cols-1 gap-8">
         <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-lg p-8 md:p-10 transition-colors duration-300">
-            <h3 className="text-xs font-bold text-slate-400 dark:text-slate-400 uppercase tracking-wider mb-6">Executive Summary & Detail</h3>
+            <h3 className="text-xs font-bold text-slate-400 dark:text-slate-400 uppercase tracking-wider mb-6">{variants ? 'Verdict & Detail' : screens ? 'Journey Findings & Detail' : 'Executive Summary & Detail'}</h3>
             <article className="prose prose-slate dark:prose-invert max-w-none 
               prose-headings:font-bold 
               prose-h1:text-indigo-600 dark:prose-h1:text-indigo-400
@@ -116,13 +287,28 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ result, scores, image,
               ">
               <ReactMarkdown>{result}</ReactMarkdown>
             </article>
+            {isStreaming && (
+              <div className="mt-6 flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+                <Loader2 size={16} className="animate-spin text-indigo-500 dark:text-indigo-400" />
+                {variants ? 'Comparing designs...' : screens ? 'Critiquing the journey...' : 'Writing critique...'}
+              </div>
+            )}
         </div>
+
+        {showPerspectives && critique && <PerspectiveTabs perspectives={critique.perspectives} personas={personas} />}
       </div>
 
       {/* Chat Overlay */}
       {isChatOpen && chatData && (
         <ChatInterface 
           chatData={chatData} 
+          originalImage={image ?? undefined}
+          designSystem={designSystem}
+          onHistoryChange={onChatHistoryChange}
+          onCaptureBreakpoints={handleCaptureBreakpoints}
+          evaluation={evaluationSetup}
+          evaluations={evaluations}
+          onEvaluated={handleEvaluated}
           onClose={() => setIsChatOpen(false)} 
         />
       )}
@@ -0,0 +1,44 @@
+import React from 'react';
+import { CritiqueIssue } from '../types';
+import { SEVERITY_STYLES, clampBox } from '../utils/issues';
+
+interface AnnotatedImageProps {
+  image: string;
+  issues: CritiqueIssue[];
+  activeIndex: number | null;
+  onSelect: (index: number) => void;
+  className?: string;
+}
+
+// Screenshot with a numbered hotspot per issue; the active issue's region is outlined
+const AnnotatedImage: React.FC<AnnotatedImageProps> = ({ image, issues, activeIndex, onSelect, className = '' }) => (
+  <div className="relative inline-block">
+    <img src={image} alt="Analyzed Design" className={`block ${className}`} />
+
+    {activeIndex !== null && issues[activeIndex] && (
+      <div
+        className={`absolute border-2 rounded pointer-events-none transition-all ${SEVERITY_STYLES[issues[activeIndex].severity].region}`}
+        style={clampBox(issues[activeIndex].bbox)}
+      />
+    )}
+
+    {issues.map((issue, i) => {
+      const { left, top } = clampBox(issue.bbox);
+      return (
+        <button
+          key={i}
+          onClick={() => onSelect(i)}
+          title={issue.title}
+          style={{ left, top }}
+          className={`absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full text-xs font-bold flex items-center justify-center shadow-md ring-2 ring-white dark:ring-slate-900 transition-transform hover:scale-110 ${SEVERITY_STYLES[issue.severity].marker} ${
+            activeIndex === i ? 'scale-125 z-10' : ''
+          }`}
+        >
+          {i + 1}
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default AnnotatedImage;
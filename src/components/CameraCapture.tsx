@@ -0,0 +1,296 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { X, RotateCcw, Check, Loader2, ScanLine, Maximize } from 'lucide-react';
+import { FULL_FRAME, Quad, detectDocument, isConvex, scanDocument } from '../utils/documentScan';
+
+interface CameraCaptureProps {
+  onCapture: (base64: string) => void;
+  onClose: () => void;
+}
+
+const CAMERA_KEY = 'designcat_camera_id';
+
+// The photo being reviewed, with the outline it will be straightened from
+interface Review {
+  photo: string;
+  quad: Quad;
+  detected: boolean; // false when the outline is the whole frame because nothing was found
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Takes a photo, finds the screen or page in it and straightens it before it
+// reaches InputSection. The outline can be adjusted by dragging its corners;
+// retaking goes back to the live camera.
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<number | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [cameraId, setCameraId] = useState<string | null>(() => localStorage.getItem(CAMERA_KEY));
+  const [isReady, setIsReady] = useState(false);
+  const [review, setReview] = useState<Review | null>(null);
+  const [straighten, setStraighten] = useState(true);
+  const [enhance, setEnhance] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setIsReady(false);
+  };
+
+  // Restarted when another camera is picked, and after a retake
+  const isReviewing = review !== null;
+  useEffect(() => {
+    if (isReviewing) return;
+    let cancelled = false;
+    const startCamera = async () => {
+      try {
+        const mediaStream = await navigator.mediaDevices.getUserMedia({
+          video: {
+            // A saved camera may have been unplugged, so it's a preference rather than a requirement
+            ...(cameraId ? { deviceId: cameraId } : { facingMode: 'environment' }), // Prefer back camera on mobile
+            width: { ideal: 1920 },
+            height: { ideal: 1080 },
+          },
+          audio: false,
+        });
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+        }
+        setError('');
+        // Camera names are only listed once permission has been given
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) setCameras(devices.filter((device) => device.kind === 'videoinput'));
+      } catch (err) {
+        if (!cancelled) setError('Unable to access camera. Please check permissions.');
+      }
+    };
+    startCamera();
+    return () => {
+      cancelled = true;
+      stopCamera();
+    };
+  }, [cameraId, isReviewing]);
+
+  const selectCamera = (id: string) => {
+    localStorage.setItem(CAMERA_KEY, id);
+    setCameraId(id);
+  };
+
+  const handleCapture = async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0);
+    const photo = canvas.toDataURL('image/jpeg', 0.92);
+    stopCamera();
+    setIsProcessing(true);
+    setReview({ photo, quad: FULL_FRAME, detected: false });
+    try {
+      const quad = await detectDocument(photo);
+      setReview({ photo, quad: quad ?? FULL_FRAME, detected: !!quad });
+    } catch {
+      // Falls back to the whole frame, which can still be adjusted by hand
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRetake = () => {
+    setReview(null);
+    setError('');
+  };
+
+  const handleUse = async () => {
+    if (!review) return;
+    setIsProcessing(true);
+    try {
+      const { image } = await scanDocument(review.photo, { quad: straighten ? review.quad : null, enhance });
+      onCapture(image);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "The photo couldn't be processed.");
+      setIsProcessing(false);
+    }
+  };
+
+  const startDrag = (corner: number) => (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    frameRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = corner;
+  };
+
+  // A corner can't be dragged past its neighbours, so the outline never folds over
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const corner = dragRef.current;
+    if (corner === null || !review || !frameRef.current) return;
+    const bounds = frameRef.current.getBoundingClientRect();
+    const quad = review.quad.map((point, i) => (i === corner
+      ? { x: clamp((e.clientX - bounds.left) / bounds.width), y: clamp((e.clientY - bounds.top) / bounds.height) }
+      : point)) as Quad;
+    if (isConvex(quad)) setReview({ ...review, quad });
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const points = review?.quad.map((point) => `${point.x},${point.y}`).join(' ');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col items-center justify-center">
+      <div className="absolute top-4 right-4 z-10 flex items-center gap-2">
+        {!review && cameras.length > 1 && (
+          <select
+            value={cameraId ?? ''}
+            onChange={(e) => selectCamera(e.target.value)}
+            className="max-w-[14rem] px-3 py-2 rounded-full bg-gray-800 text-white text-sm border-none outline-none"
+            title="Camera"
+          >
+            {!cameraId && <option value="">Default camera</option>}
+            {cameras.map((camera, i) => (
+              <option key={camera.deviceId} value={camera.deviceId}>
+                {camera.label || `Camera ${i + 1}`}
+              </option>
+            ))}
+          </select>
+        )}
+        <button onClick={onClose} className="p-2 bg-gray-800 rounded-full text-white">
+          <X size={24} />
+        </button>
+      </div>
+
+      {error && !review ? (
+        <div className="text-red-500 p-4 text-center">{error}</div>
+      ) : review ? (
+        <div className="relative w-full h-full flex flex-col">
+          {/* Review: the outline the photo will be straightened from */}
+          <div className="flex-1 overflow-hidden flex items-center justify-center bg-black p-6">
+            <div
+              ref={frameRef}
+              onPointerMove={handlePointerMove}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+              className="relative select-none touch-none"
+            >
+              <img src={review.photo} alt="Captured" draggable={false} className="block max-h-[calc(100vh-12rem)] max-w-full" />
+              {/* The outline appears once detection has placed it, so no drag gets overwritten */}
+              {straighten && !isProcessing && (
+                <>
+                  <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+                    <path
+                      d={`M0,0H1V1H0Z M${points!.replace(/ /g, ' L')}Z`}
+                      fillRule="evenodd"
+                      fill="rgba(0,0,0,0.5)"
+                    />
+                    <polygon points={points} fill="none" stroke="#818cf8" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                  </svg>
+                  {review.quad.map((point, i) => (
+                    <span
+                      key={i}
+                      onPointerDown={startDrag(i)}
+                      className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full bg-white/90 border-2 border-indigo-500 cursor-move shadow"
+                      style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+                    />
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Review controls */}
+          <div className="bg-black/80 flex flex-col items-center gap-3 pb-6 pt-3 text-sm text-white">
+            <p className="text-gray-300 text-center px-4">
+              {isProcessing
+                ? 'Looking for the screen or page…'
+                : error
+                  ? <span className="text-red-400">{error}</span>
+                  : !straighten
+                    ? 'The whole photo will be used.'
+                    : review.detected
+                      ? 'Drag the corners if the outline is off.'
+                      : 'No edges found. Drag the corners to the corners of the screen or page.'}
+            </p>
+            <div className="flex flex-wrap items-center justify-center gap-3">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={straighten} onChange={(e) => setStraighten(e.target.checked)} className="accent-indigo-500" />
+                Straighten
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={enhance} onChange={(e) => setEnhance(e.target.checked)} className="accent-indigo-500" />
+                Enhance contrast
+              </label>
+              {straighten && (
+                <button
+                  onClick={() => setReview({ ...review, quad: FULL_FRAME })}
+                  disabled={isProcessing}
+                  className="px-3 py-2 rounded-lg flex items-center gap-1.5 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                >
+                  <Maximize size={16} /> Whole frame
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleRetake}
+                disabled={isProcessing}
+                className="px-4 py-2 rounded-lg flex items-center gap-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+              >
+                <RotateCcw size={16} /> Retake
+              </button>
+              <button
+                onClick={handleUse}
+                disabled={isProcessing}
+                className="px-4 py-2 rounded-lg flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 font-medium disabled:opacity-50 transition-colors"
+              >
+                {isProcessing ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />} Use photo
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="relative w-full h-full flex flex-col">
+           {/* Video Container */}
+          <div className="flex-1 overflow-hidden flex items-center justify-center bg-black">
+             <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              onLoadedData={() => setIsReady(true)}
+              className="max-h-full max-w-full object-contain"
+            />
+          </div>
+
+          {/* Controls */}
+          <div className="bg-black/80 flex flex-col items-center justify-center gap-2 pb-6 pt-3">
+            <button
+              onClick={handleCapture}
+              disabled={!isReady}
+              className="w-16 h-16 rounded-full bg-white border-4 border-gray-300 flex items-center justify-center active:scale-95 transition-transform disabled:opacity-50"
+            >
+              <div className="w-14 h-14 rounded-full bg-white border-2 border-black"></div>
+            </button>
+            <p className="flex items-center gap-1.5 text-xs text-gray-400">
+              <ScanLine size={14} /> Fill the frame with the screen or page, avoiding reflections
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraCapture;
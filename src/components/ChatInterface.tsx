@@ -1,22 +1,63 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, X, Bot, User, Loader2, Sparkles, Eye, FileCode } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, X, Bot, User, Loader2, Sparkles, Eye, FileCode, Gauge, Square } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import { ChatMessage, ChatSessionData } from '../types';
+import { BreakpointShot, ChatMessage, ChatSessionData, DesignEvaluation, DesignSystem } from '../types';
 import { sendChatMessage } from '../services/geminiService';
+import { DesignVersion, collectDesignVersions, extractHtml, removeHtml } from '../utils/designVersions';
+import { EvaluationSetup, buildImprovementPrompt, evaluateDesign, weakestDimension } from '../utils/designEvaluation';
+import { axesOf, formatDelta } from '../utils/metrics';
 import DesignPreviewModal from './DesignPreviewModal';
 
 interface ChatInterfaceProps {
   chatData: ChatSessionData;
+  originalImage?: string; // generated designs can be compared with it
+  designSystem?: DesignSystem; // generated HTML is previewed with its tokens
+  onHistoryChange?: (history: ChatMessage[]) => void;
+  onCaptureBreakpoints?: (shots: BreakpointShot[]) => void; // from the preview's device lab, for the report
+  evaluation?: EvaluationSetup; // scoring generated versions; unset for comparisons and journeys
+  evaluations?: DesignEvaluation[];
+  onEvaluated?: (evaluation: DesignEvaluation) => void;
   onClose: () => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ chatData, onClose }) => {
+const DEFAULT_TARGET_SCORE = 85;
+const DEFAULT_MAX_ROUNDS = 3;
+const MAX_ROUNDS = 10;
+
+// Auto-improve: after scoring a version, ask for fixes to its weakest
+// dimension and score the result, until the target or the round cap
+interface AutoImprove {
+  enabled: boolean;
+  targetScore: number;
+  maxRounds: number;
+}
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ chatData, originalImage, designSystem, onHistoryChange, onCaptureBreakpoints, evaluation, evaluations = [], onEvaluated, onClose }) => {
   // Initialize with history from props
   const [messages, setMessages] = useState<ChatMessage[]>(chatData.history);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [previewCode, setPreviewCode] = useState<string | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  // The DesignVersion.number shown in the preview, or null when it's closed
+  const [previewVersion, setPreviewVersion] = useState<number | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // The latest history, for sends that follow one another without a render in between
+  const messagesRef = useRef<ChatMessage[]>(chatData.history);
+  const versions = useMemo(() => collectDesignVersions(messages), [messages]);
+  const [evaluatingVersion, setEvaluatingVersion] = useState<number | null>(null);
+  const [evaluationErrors, setEvaluationErrors] = useState<Record<number, string>>({});
+  const [autoImprove, setAutoImprove] = useState<AutoImprove>({ enabled: false, targetScore: DEFAULT_TARGET_SCORE, maxRounds: DEFAULT_MAX_ROUNDS });
+  const [autoRun, setAutoRun] = useState<{ running: boolean; status: string } | null>(null);
+  const stopRef = useRef(false);
+  const axes = axesOf(evaluation?.rubric);
+
+  // Closing the chat ends an auto-improve run after its current step
+  useEffect(() => () => { stopRef.current = true; }, []);
+
+  const updateMessages = (history: ChatMessage[]) => {
+    messagesRef.current = history;
+    setMessages(history);
+  };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -26,44 +67,131 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chatData, onClose }) => {
     scrollToBottom();
   }, [messages]);
 
-  const extractHtml = (text: string): string | null => {
-    const match = text.match(/```html\n([\s\S]*?)\n```/);
-    return match ? match[1] : null;
+  // While a reply is streaming, an html block may be open but not yet closed.
+  // Hide the half-written code instead of dumping it into the bubble.
+  const stripUnterminatedHtml = (text: string): string => {
+    const start = text.lastIndexOf('```html');
+    if (start === -1) return text;
+    const closed = text.indexOf('\n```', start + 7) !== -1;
+    return closed ? text : text.slice(0, start);
   };
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
-
-    const userMessage = input;
-    setInput('');
+  // Resolves to the history with the reply, or null if there was none
+  const sendMessage = async (userMessage: string, { openPreview = true } = {}): Promise<ChatMessage[] | null> => {
+    if (!userMessage.trim() || isLoading) return null;
     
     // Optimistically update UI
-    const newHistory: ChatMessage[] = [...messages, { role: 'user', text: userMessage }];
-    setMessages(newHistory);
+    const newHistory: ChatMessage[] = [...messagesRef.current, { role: 'user', text: userMessage, createdAt: new Date().toISOString() }];
+    updateMessages(newHistory);
     setIsLoading(true);
 
     try {
-      // Send the entire history + context + image to the backend
+      // The server keeps the image, critique and earlier turns; only the new message goes up
       const responseText = await sendChatMessage(
-        messages, // Send previous history (backend will add the new user message)
-        userMessage, // Current message
-        chatData.lastImage, 
-        chatData.lastContext
+        chatData.sessionId,
+        userMessage,
+        (partialText) => {
+          // Render the reply progressively in a single model bubble
+          setIsStreaming(true);
+          setMessages([...newHistory, { role: 'model', text: partialText }]);
+        }
       );
       
-      setMessages(prev => [...prev, { role: 'model', text: responseText }]);
+      const finalHistory: ChatMessage[] = [...newHistory, { role: 'model', text: responseText, createdAt: new Date().toISOString() }];
+      updateMessages(finalHistory);
+      onHistoryChange?.(finalHistory);
       
-      const code = extractHtml(responseText);
-      if (code) {
-        setPreviewCode(code);
+      // Open the new design as the latest version
+      if (openPreview && extractHtml(responseText)) {
+        setPreviewVersion(collectDesignVersions(finalHistory).length);
       }
+      return finalHistory;
     } catch (error) {
-      setMessages(prev => [...prev, { role: 'model', text: 'Sorry, I encountered an error communicating with the server.' }]);
+      updateMessages([...newHistory, { role: 'model', text: 'Sorry, I encountered an error communicating with the server.' }]);
+      return null;
     } finally {
       setIsLoading(false);
+      setIsStreaming(false);
+    }
+  };
+
+  const handleSend = () => {
+    if (!input.trim() || isLoading || autoRun?.running) return;
+    const userMessage = input;
+    setInput('');
+    sendMessage(userMessage);
+  };
+
+  // "Fix these" from the preview's accessibility audit
+  const handleRequestFixes = (prompt: string) => {
+    setPreviewVersion(null);
+    sendMessage(prompt);
+  };
+
+  const scoreVersion = async (version: DesignVersion) => {
+    if (!evaluation) return null;
+    setEvaluatingVersion(version.number);
+    setEvaluationErrors(({ [version.number]: _, ...rest }) => rest);
+    try {
+      const result = await evaluateDesign(version, evaluation);
+      onEvaluated?.(result);
+      return result;
+    } catch (error: any) {
+      setEvaluationErrors((prev) => ({ ...prev, [version.number]: error.message || 'The evaluation failed.' }));
+      return null;
+    } finally {
+      setEvaluatingVersion(null);
     }
   };
 
+  const handleEvaluate = async (start: DesignVersion) => {
+    if (!autoImprove.enabled) {
+      await scoreVersion(start);
+      return;
+    }
+
+    const { targetScore, maxRounds } = autoImprove;
+    stopRef.current = false;
+    let current = start;
+    let status = '';
+    for (let round = 0; ; round++) {
+      setAutoRun({ running: true, status: `Scoring v${current.number}...` });
+      const result = await scoreVersion(current);
+      if (!result) {
+        status = `Stopped: v${current.number} couldn't be scored.`;
+        break;
+      }
+      const score = result.scores.overallScore;
+      if (score >= targetScore) {
+        status = `v${current.number} reached ${score}, meeting the target of ${targetScore}.`;
+        break;
+      }
+      if (round >= maxRounds) {
+        status = `Stopped after ${maxRounds} round${maxRounds === 1 ? '' : 's'}: v${current.number} scored ${score}, short of ${targetScore}.`;
+        break;
+      }
+      if (stopRef.current) {
+        status = `Stopped at v${current.number} (${score}).`;
+        break;
+      }
+
+      const weakest = weakestDimension(result.scores, evaluation?.rubric);
+      setAutoRun({ running: true, status: `Round ${round + 1} of ${maxRounds}: improving ${weakest.label} (${weakest.score}/10)...` });
+      const history = await sendMessage(buildImprovementPrompt(result, evaluation?.rubric), { openPreview: false });
+      const latest = history ? collectDesignVersions(history).pop() : undefined;
+      if (!latest || latest.number === current.number) {
+        status = `Stopped: the reply to round ${round + 1} had no new design.`;
+        break;
+      }
+      current = latest;
+      if (stopRef.current) {
+        status = `Stopped at v${current.number} before scoring it.`;
+        break;
+      }
+    }
+    setAutoRun({ running: false, status });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -96,11 +224,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chatData, onClose }) => {
         {/* Messages Area */}
         <div className="flex-1 overflow-y-auto p-4 space-y-6 bg-slate-50 dark:bg-slate-900/50 transition-colors">
           {messages.map((msg, idx) => {
-            const htmlCode = msg.role === 'model' ? extractHtml(msg.text) : null;
+            const version = versions.find((v) => v.messageIndex === idx);
+            const htmlCode = version?.html ?? null;
+            const isLiveReply = isStreaming && idx === messages.length - 1;
             
             const displayText = htmlCode 
-              ? msg.text.replace(/```html\n([\s\S]*?)\n```/, '') 
-              : msg.text;
+              ? removeHtml(msg.text)
+              : isLiveReply ? stripUnterminatedHtml(msg.text) : msg.text;
 
             return (
               <div key={idx} className={`flex gap-3 ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
@@ -119,33 +249,96 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chatData, onClose }) => {
                     <div className="prose prose-sm max-w-none prose-p:leading-normal prose-pre:bg-slate-100 dark:prose-pre:bg-slate-900 prose-pre:border prose-pre:border-slate-200 dark:prose-pre:border-slate-700 dark:prose-invert">
                        <ReactMarkdown>{displayText}</ReactMarkdown>
                     </div>
+                    {isLiveReply && !htmlCode && displayText !== msg.text && (
+                      <div className="flex items-center gap-2 mt-2 text-xs text-slate-500 dark:text-slate-400">
+                        <Loader2 size={14} className="animate-spin text-indigo-500 dark:text-indigo-400" />
+                        Writing design code...
+                      </div>
+                    )}
                   </div>
 
                   {/* Generated Design Card */}
-                  {htmlCode && (
-                    <div className="w-full bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-200 dark:border-indigo-500/30 rounded-xl p-4 flex items-center justify-between group hover:border-indigo-300 dark:hover:border-indigo-500/50 transition-all mt-1">
-                      <div className="flex items-center gap-3">
-                        <div className="bg-indigo-600 p-2 rounded-lg">
-                          <FileCode size={20} className="text-white" />
+                  {version && (
+                    <div className="w-full bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-200 dark:border-indigo-500/30 rounded-xl p-4 group hover:border-indigo-300 dark:hover:border-indigo-500/50 transition-all mt-1">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="flex items-center gap-3">
+                          <div className="bg-indigo-600 p-2 rounded-lg">
+                            <FileCode size={20} className="text-white" />
+                          </div>
+                          <div>
+                            <h4 className="font-bold text-slate-900 dark:text-white text-sm">Design Concept Generated</h4>
+                            <p className="text-xs text-indigo-600 dark:text-indigo-200">Version {version.number} · Ready for preview</p>
+                          </div>
                         </div>
-                        <div>
-                          <h4 className="font-bold text-slate-900 dark:text-white text-sm">Design Concept Generated</h4>
-                          <p className="text-xs text-indigo-600 dark:text-indigo-200">Ready for preview</p>
+                        <div className="flex items-center gap-2">
+                          {evaluation && (
+                            <button
+                              onClick={() => handleEvaluate(version)}
+                              disabled={evaluatingVersion !== null || isLoading || !!autoRun?.running}
+                              title={autoImprove.enabled ? `Score this version, then improve it until it reaches ${autoImprove.targetScore}` : 'Render this version and score it with the same critique as the original'}
+                              className="px-3 py-2 bg-white/60 dark:bg-slate-800 text-indigo-700 dark:text-indigo-200 border border-indigo-100 dark:border-slate-700 text-xs font-bold rounded-lg hover:bg-white dark:hover:bg-slate-700 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {evaluatingVersion === version.number ? <Loader2 size={14} className="animate-spin" /> : <Gauge size={14} />}
+                              {evaluatingVersion === version.number ? 'Scoring...' : evaluations.some((e) => e.version === version.number) ? 'Re-evaluate' : 'Evaluate'}
+                            </button>
+                          )}
+                          <button 
+                            onClick={() => setPreviewVersion(version.number)}
+                            className="px-4 py-2 bg-white text-indigo-700 border border-indigo-100 dark:border-transparent text-xs font-bold rounded-lg hover:bg-indigo-50 transition-colors flex items-center gap-2 shadow-sm"
+                          >
+                            <Eye size={14} /> View
+                          </button>
                         </div>
                       </div>
-                      <button 
-                        onClick={() => setPreviewCode(htmlCode)}
-                        className="px-4 py-2 bg-white text-indigo-700 border border-indigo-100 dark:border-transparent text-xs font-bold rounded-lg hover:bg-indigo-50 transition-colors flex items-center gap-2 shadow-sm"
-                      >
-                        <Eye size={14} /> View
-                      </button>
+
+                      {evaluationErrors[version.number] && (
+                        <p className="mt-3 text-xs text-rose-600 dark:text-rose-300">{evaluationErrors[version.number]}</p>
+                      )}
+                      {(() => {
+                        const result = evaluations.find((e) => e.version === version.number);
+                        if (!result) return null;
+                        const baseline = evaluation?.baseline;
+                        const delta = baseline ? result.scores.overallScore - baseline.overallScore : null;
+                        return (
+                          <div className="mt-3 pt-3 border-t border-indigo-200/70 dark:border-indigo-500/20">
+                            <div className="flex items-baseline justify-between text-xs">
+                              <span className="text-slate-600 dark:text-slate-300">
+                                Score <span className="text-base font-bold text-slate-900 dark:text-white">{result.scores.overallScore}</span>
+                                {baseline && <span className="text-slate-500 dark:text-slate-400"> vs {baseline.overallScore} original</span>}
+                              </span>
+                              {delta !== null && (
+                                <span className={`font-bold ${delta > 0 ? 'text-emerald-600 dark:text-emerald-400' : delta < 0 ? 'text-rose-600 dark:text-rose-400' : 'text-slate-500'}`}>
+                                  {formatDelta(delta)}
+                                </span>
+                              )}
+                            </div>
+                            <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2">
+                              {axes.map((axis) => {
+                                const value = result.scores.metrics[axis.key];
+                                const before = baseline?.metrics[axis.key];
+                                return (
+                                  <div key={axis.key} className="flex items-center justify-between text-[11px]">
+                                    <span className="text-slate-500 dark:text-slate-400 truncate">{axis.label}</span>
+                                    <span className="font-medium text-slate-800 dark:text-slate-200">
+                                      {value ?? '–'}
+                                      {before !== undefined && value !== undefined && value !== before && (
+                                        <span className={value > before ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'}> ({formatDelta(value - before)})</span>
+                                      )}
+                                    </span>
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          </div>
+                        );
+                      })()}
                     </div>
                   )}
                 </div>
               </div>
             );
           })}
-          {isLoading && (
+          {isLoading && !isStreaming && (
             <div className="flex gap-3">
               <div className="w-8 h-8 rounded-full bg-indigo-600 flex items-center justify-center flex-shrink-0">
                 <Bot size={14} className="text-white"/>
@@ -161,6 +354,71 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chatData, onClose }) => {
 
         {/* Input Area */}
         <div className="p-4 border-t border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 transition-colors">
+          {evaluation && (
+            <div className="mb-3 text-xs text-slate-600 dark:text-slate-300">
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-2">
+                <label className="flex items-center gap-2 font-medium">
+                  <input
+                    type="checkbox"
+                    checked={autoImprove.enabled}
+                    disabled={!!autoRun?.running}
+                    onChange={(e) => setAutoImprove((prev) => ({ ...prev, enabled: e.target.checked }))}
+                    className="rounded border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Auto-improve when evaluating
+                </label>
+                {autoImprove.enabled && (
+                  <>
+                    <label className="flex items-center gap-1">
+                      Target
+                      <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={autoImprove.targetScore}
+                        disabled={!!autoRun?.running}
+                        onChange={(e) => setAutoImprove((prev) => ({ ...prev, targetScore: Math.min(100, Math.max(1, Number(e.target.value) || 1)) }))}
+                        className="w-14 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded px-1.5 py-0.5"
+                      />
+                    </label>
+                    <label className="flex items-center gap-1">
+                      Max rounds
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_ROUNDS}
+                        value={autoImprove.maxRounds}
+                        disabled={!!autoRun?.running}
+                        onChange={(e) => setAutoImprove((prev) => ({ ...prev, maxRounds: Math.min(MAX_ROUNDS, Math.max(1, Number(e.target.value) || 1)) }))}
+                        className="w-12 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded px-1.5 py-0.5"
+                      />
+                    </label>
+                  </>
+                )}
+              </div>
+              {autoRun && (
+                <div className="mt-2 flex items-center justify-between gap-2 bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-100 dark:border-indigo-500/30 rounded-lg px-3 py-2">
+                  <span className="flex items-center gap-2">
+                    {autoRun.running && <Loader2 size={12} className="animate-spin text-indigo-500" />}
+                    {autoRun.status}
+                  </span>
+                  {autoRun.running ? (
+                    <button
+                      onClick={() => { stopRef.current = true; }}
+                      className="flex items-center gap-1 font-bold text-rose-600 dark:text-rose-300 hover:underline"
+                      title="Stop after the current step"
+                    >
+                      <Square size={10} /> Stop
+                    </button>
+                  ) : (
+                    <button onClick={() => setAutoRun(null)} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">
+                      <X size={12} />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
           <div className="relative">
             <textarea
               value={input}
@@ -172,9 +430,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chatData, onClose }) => {
             />
             <button
               onClick={handleSend}
-              disabled={!input.trim() || isLoading}
+              disabled={!input.trim() || isLoading || !!autoRun?.running}
               className={`absolute right-2 bottom-2 p-2 rounded-lg transition-colors ${
-                input.trim() && !isLoading 
+                input.trim() && !isLoading && !autoRun?.running
                   ? 'bg-indigo-600 text-white hover:bg-indigo-500' 
                   : 'bg-slate-200 dark:bg-slate-700 text-slate-400 dark:text-slate-500 cursor-not-allowed'
               }`}
@@ -186,10 +444,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chatData, onClose }) => {
       </div>
 
       {/* Full Screen Preview Modal */}
-      {previewCode && (
+      {previewVersion !== null && versions.length > 0 && (
         <DesignPreviewModal 
-          htmlCode={previewCode} 
-          onClose={() => setPreviewCode(null)} 
+          versions={versions}
+          initialVersion={previewVersion}
+          originalImage={originalImage}
+          designSystem={designSystem}
+          onClose={() => setPreviewVersion(null)} 
+          onRequestFixes={isLoading || autoRun?.running ? undefined : handleRequestFixes}
+          onCaptureBreakpoints={onCaptureBreakpoints}
         />
       )}
     </>
@@ -0,0 +1,124 @@
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import RadarChart from './RadarChart';
+import { DesignComparison, DesignVariant, VariantId } from '../types';
+import { DEFAULT_AXES, MetricAxis, formatDelta, deltaClass } from '../utils/metrics';
+
+interface ComparisonSummaryProps {
+  variants: DesignVariant[];
+  comparison?: DesignComparison;
+  axes?: MetricAxis[];
+}
+
+const VARIANT_IDS: VariantId[] = ['A', 'B'];
+
+// Variant A uses the chart's primary indigo, Variant B the amber overlay
+const VARIANT_ACCENT: Record<VariantId, string> = {
+  A: 'text-indigo-600 dark:text-indigo-400',
+  B: 'text-amber-600 dark:text-amber-400',
+};
+
+const ComparisonSummary: React.FC<ComparisonSummaryProps> = ({ variants, comparison, axes = DEFAULT_AXES }) => {
+  const scoreOf = (i: number) => comparison?.variants[i]?.scores;
+  const [scoresA, scoresB] = [scoreOf(0), scoreOf(1)];
+
+  const winnerName = (winner: VariantId | 'tie') =>
+    winner === 'tie' ? 'Tie' : variants[VARIANT_IDS.indexOf(winner)]?.label || `Variant ${winner}`;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-xl overflow-hidden mb-8 transition-colors duration-300">
+      <div className="p-6 md:p-8 space-y-8">
+
+        {/* Side-by-side variants */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {variants.map((variant, i) => {
+            const id = VARIANT_IDS[i];
+            const scores = scoreOf(i);
+            const isWinner = comparison?.overallWinner === id;
+            return (
+              <div key={id} className="flex flex-col gap-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className={`text-xs font-bold uppercase tracking-wider ${VARIANT_ACCENT[id]}`}>Variant {id}</p>
+                    <h3 className="text-lg font-bold text-slate-900 dark:text-white">{variant.label}</h3>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {isWinner && (
+                      <span className="px-2 py-1 rounded-full bg-emerald-50 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 text-xs font-bold flex items-center gap-1">
+                        <Trophy size={12} /> Winner
+                      </span>
+                    )}
+                    {scores && (
+                      <span className="text-3xl font-bold text-slate-900 dark:text-white">{scores.overallScore}</span>
+                    )}
+                  </div>
+                </div>
+                <div className="rounded-xl overflow-hidden border border-slate-200 dark:border-slate-600 shadow-lg bg-slate-100 dark:bg-slate-900 flex items-center justify-center">
+                  <img src={variant.image} alt={variant.label} className="max-h-[300px] w-auto object-contain" />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {scoresA && scoresB && comparison ? (
+          <div className="grid grid-cols-1 md:grid-cols-12 gap-8 items-center">
+            <div className="md:col-span-5 w-full max-w-md mx-auto">
+              <RadarChart
+                metrics={scoresA.metrics}
+                axes={axes}
+                label={variants[0].label}
+                overlay={{ metrics: scoresB.metrics, label: variants[1].label }}
+              />
+            </div>
+
+            {/* Per-dimension deltas (B relative to A) */}
+            <div className="md:col-span-7 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-wider text-slate-400">
+                    <th className="py-2 pr-4 font-bold">Dimension</th>
+                    <th className={`py-2 px-2 font-bold text-right ${VARIANT_ACCENT.A}`}>A</th>
+                    <th className={`py-2 px-2 font-bold text-right ${VARIANT_ACCENT.B}`}>B</th>
+                    <th className="py-2 px-2 font-bold text-right">Δ</th>
+                    <th className="py-2 pl-4 font-bold">Winner</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {axes.map(({ key, label }) => {
+                    const delta = scoresB.metrics[key] - scoresA.metrics[key];
+                    const entry = comparison.dimensionWinners[key];
+                    return (
+                      <tr key={key} className="border-t border-slate-100 dark:border-slate-700" title={entry?.rationale}>
+                        <td className="py-2 pr-4 text-slate-700 dark:text-slate-300">{label}</td>
+                        <td className="py-2 px-2 text-right font-medium text-slate-900 dark:text-white">{scoresA.metrics[key]}</td>
+                        <td className="py-2 px-2 text-right font-medium text-slate-900 dark:text-white">{scoresB.metrics[key]}</td>
+                        <td className={`py-2 px-2 text-right font-bold ${deltaClass(delta)}`}>{formatDelta(delta)}</td>
+                        <td className="py-2 pl-4 text-slate-700 dark:text-slate-300">{entry ? winnerName(entry.winner) : '—'}</td>
+                      </tr>
+                    );
+                  })}
+                  <tr className="border-t-2 border-slate-200 dark:border-slate-600 font-bold">
+                    <td className="py-2 pr-4 text-slate-900 dark:text-white">Overall</td>
+                    <td className="py-2 px-2 text-right text-slate-900 dark:text-white">{scoresA.overallScore}</td>
+                    <td className="py-2 px-2 text-right text-slate-900 dark:text-white">{scoresB.overallScore}</td>
+                    <td className={`py-2 px-2 text-right ${deltaClass(scoresB.overallScore - scoresA.overallScore)}`}>
+                      {formatDelta(scoresB.overallScore - scoresA.overallScore)}
+                    </td>
+                    <td className="py-2 pl-4 text-slate-900 dark:text-white">{winnerName(comparison.overallWinner)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : (
+          <div className="h-48 w-full flex items-center justify-center text-slate-400 dark:text-slate-500">
+            Comparing Variants...
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonSummary;
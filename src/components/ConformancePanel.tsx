@@ -0,0 +1,84 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Palette } from 'lucide-react';
+import { ConformanceKind, DesignSystem, DesignSystemConformance, OffPaletteColor } from '../types';
+
+interface ConformancePanelProps {
+  designSystem: DesignSystem;
+  conformance?: DesignSystemConformance; // missing while the critique streams
+  offPalette: OffPaletteColor[]; // measured from the image pixels
+  isStreaming?: boolean;
+}
+
+const KIND_LABELS: Record<ConformanceKind, string> = {
+  color: 'Colour',
+  spacing: 'Spacing',
+  typography: 'Type',
+  radius: 'Radius',
+};
+
+// Where the screenshot departs from the design system: colours measured
+// locally, plus the model's findings on colour, spacing, type and radii
+const ConformancePanel: React.FC<ConformancePanelProps> = ({ designSystem, conformance, offPalette, isStreaming = false }) => (
+  <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-lg p-6 md:p-8 mb-8 transition-colors duration-300">
+    <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-6">
+      <h3 className="text-xs font-bold text-slate-400 dark:text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <Palette size={14} /> Design System Conformance
+      </h3>
+      <p className="text-xs text-slate-500 dark:text-slate-400">Checked against {designSystem.name}</p>
+    </div>
+
+    {offPalette.length > 0 && (
+      <div className="mb-6">
+        <p className="text-sm font-medium text-slate-700 dark:text-slate-200 mb-3">
+          {offPalette.length} measured {offPalette.length === 1 ? 'colour is' : 'colours are'} not in the palette
+        </p>
+        <ul className="flex flex-wrap gap-x-6 gap-y-3">
+          {offPalette.map((color) => (
+            <li key={color.hex} className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+              <span className="w-6 h-6 rounded-md border border-slate-200 dark:border-slate-600" style={{ backgroundColor: color.hex }} />
+              <span className="font-mono">{color.hex}</span>
+              <span className="text-slate-400">{color.usage} · {Math.round(color.share * 100)}%</span>
+              {color.nearest && (
+                <>
+                  <span className="text-slate-400">→</span>
+                  <span className="w-4 h-4 rounded border border-slate-200 dark:border-slate-600" style={{ backgroundColor: color.nearest.hex }} />
+                  <span>{color.nearest.name}</span>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+
+    {conformance ? (
+      <>
+        <div className="prose prose-slate dark:prose-invert prose-sm max-w-none mb-4">
+          <ReactMarkdown>{conformance.summary}</ReactMarkdown>
+        </div>
+        {conformance.findings.length > 0 && (
+          <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+            {conformance.findings.map((finding, i) => (
+              <li key={i} className="py-3 flex gap-3">
+                <span className="shrink-0 h-fit px-1.5 py-0.5 rounded text-xs font-bold bg-amber-50 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">
+                  {KIND_LABELS[finding.kind]}
+                </span>
+                <div className="text-sm">
+                  <p className="text-slate-800 dark:text-slate-100">
+                    {finding.observed} <span className="text-slate-400">→</span> <span className="font-medium">{finding.expected}</span>
+                  </p>
+                  <p className="text-slate-500 dark:text-slate-400">{finding.detail}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </>
+    ) : isStreaming && (
+      <p className="text-sm text-slate-500 dark:text-slate-400">The conformance review arrives with the finished critique.</p>
+    )}
+  </div>
+);
+
+export default ConformancePanel;
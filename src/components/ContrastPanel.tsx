@@ -0,0 +1,86 @@
+import React from 'react';
+import { Contrast } from 'lucide-react';
+import { ContrastReport } from '../types';
+
+interface ContrastPanelProps {
+  report: ContrastReport;
+}
+
+const Verdict: React.FC<{ label: string; pass: boolean }> = ({ label, pass }) => (
+  <span
+    className={`px-1.5 py-0.5 rounded text-xs font-bold ${
+      pass
+        ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300'
+        : 'bg-rose-50 text-rose-600 dark:bg-rose-900/40 dark:text-rose-300'
+    }`}
+  >
+    {label}
+  </span>
+);
+
+// Palette and WCAG contrast of text-like regions, measured from the image pixels
+const ContrastPanel: React.FC<ContrastPanelProps> = ({ report }) => {
+  const failing = report.pairs.filter((pair) => !pair.aa).length;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-lg p-6 md:p-8 mb-8 transition-colors duration-300">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-6">
+        <h3 className="text-xs font-bold text-slate-400 dark:text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Contrast size={14} /> Measured Contrast
+        </h3>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Computed in your browser from the image pixels · {report.textRegions} text-like regions sampled
+        </p>
+      </div>
+
+      {/* Palette */}
+      <div className="flex flex-wrap gap-3 mb-6">
+        {report.palette.map((color) => (
+          <div key={color.hex} className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+            <span className="w-6 h-6 rounded-md border border-slate-200 dark:border-slate-600" style={{ backgroundColor: color.hex }} />
+            <span className="font-mono">{color.hex}</span>
+            <span className="text-slate-400">{Math.round(color.share * 100)}%</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Foreground / background pairs */}
+      {report.pairs.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No text-like regions were found. Text over photos or gradients can't be measured this way.</p>
+      ) : (
+        <>
+          <p className={`text-sm font-medium mb-3 ${failing > 0 ? 'text-rose-600 dark:text-rose-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+            {failing > 0
+              ? `${failing} of ${report.pairs.length} colour pairs fail WCAG AA for normal text (4.5:1).`
+              : `All ${report.pairs.length} colour pairs pass WCAG AA for normal text.`}
+          </p>
+          <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+            {report.pairs.map((pair) => (
+              <li key={`${pair.foreground}/${pair.background}`} className="py-2 flex flex-wrap items-center gap-3">
+                <span
+                  className="w-12 h-8 rounded-md border border-slate-200 dark:border-slate-600 flex items-center justify-center font-bold"
+                  style={{ color: pair.foreground, backgroundColor: pair.background }}
+                >
+                  Aa
+                </span>
+                <span className="font-mono text-xs text-slate-600 dark:text-slate-300 w-36">
+                  {pair.foreground} / {pair.background}
+                </span>
+                <span className="font-bold text-slate-900 dark:text-white w-16">{pair.ratio.toFixed(2)}:1</span>
+                <span className="flex flex-wrap gap-1">
+                  <Verdict label="AA" pass={pair.aa} />
+                  <Verdict label="AA Large" pass={pair.aaLarge} />
+                  <Verdict label="AAA" pass={pair.aaa} />
+                  <Verdict label="AAA Large" pass={pair.aaaLarge} />
+                </span>
+                <span className="ml-auto text-xs text-slate-400">{Math.round(pair.coverage * 100)}% of text</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ContrastPanel;
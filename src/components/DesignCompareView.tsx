@@ -0,0 +1,172 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { DiffLine, diffLines } from '../utils/designVersions';
+import { useOfflinePreview } from '../utils/previewRuntime';
+
+export type CompareMode = 'side' | 'slider' | 'diff';
+
+// One side of a comparison: a generated version, or the original screenshot
+export interface ComparePane {
+  label: string;
+  html?: string; // already themed; rendered through the self-contained preview
+  source?: string; // the HTML as generated, for the source diff
+  image?: string;
+}
+
+interface DesignCompareViewProps {
+  before: ComparePane;
+  after: ComparePane;
+  mode: CompareMode;
+  width?: number; // the device lab's viewport width; fills the space when unset
+}
+
+const CONTEXT_LINES = 3; // unchanged lines kept around each change
+
+type DiffRow = DiffLine | { type: 'skip'; count: number };
+
+// Long unchanged stretches are folded, leaving a few lines of context
+const foldUnchanged = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type !== 'same') {
+      rows.push(lines[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].type === 'same') end++;
+    const keepStart = i === 0 ? 0 : CONTEXT_LINES;
+    const keepEnd = end === lines.length ? 0 : CONTEXT_LINES;
+    if (end - i > keepStart + keepEnd + 1) {
+      rows.push(...lines.slice(i, i + keepStart));
+      rows.push({ type: 'skip', count: end - i - keepStart - keepEnd });
+      rows.push(...lines.slice(end - keepEnd, end));
+    } else {
+      rows.push(...lines.slice(i, end));
+    }
+    i = end;
+  }
+  return rows;
+};
+
+const Pane: React.FC<{ pane: ComparePane }> = ({ pane }) => {
+  const { preview, error } = useOfflinePreview(pane.image ? undefined : pane.html);
+  if (pane.image) return <img src={pane.image} alt={pane.label} className="w-full h-full object-contain object-top bg-white" />;
+  if (preview) return <iframe title={pane.label} srcDoc={preview.html} className="w-full h-full border-0 bg-white" sandbox="allow-scripts" />;
+  return (
+    <div className="w-full h-full flex items-center justify-center gap-2 p-4 bg-white text-center text-sm text-slate-500">
+      {error ?? <><Loader2 size={16} className="animate-spin text-indigo-500" /> Preparing the preview...</>}
+    </div>
+  );
+};
+
+const PaneLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <span className="px-2 py-1 rounded bg-slate-900/70 text-white text-xs font-medium truncate max-w-full">{children}</span>
+);
+
+// Compares two designs visually, side by side or under a slider, or as a
+// line diff of their HTML
+const DesignCompareView: React.FC<DesignCompareViewProps> = ({ before, after, mode, width }) => {
+  const [position, setPosition] = React.useState(50);
+  const diff = React.useMemo(
+    () => (mode === 'diff' && before.source !== undefined && after.source !== undefined ? diffLines(before.source, after.source) : null),
+    [mode, before.source, after.source]
+  );
+  const rows = React.useMemo(() => (diff ? foldUnchanged(diff) : []), [diff]);
+  const frameClass = 'w-full max-w-full flex-1 min-h-0 shadow-xl overflow-hidden';
+  const frameStyle = width ? { width } : undefined;
+
+  if (mode === 'diff') {
+    if (!diff) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-sm text-slate-500 dark:text-slate-400">
+          The original screenshot has no source to diff. Pick a generated version to compare against.
+        </div>
+      );
+    }
+    const added = diff.filter((line) => line.type === 'added').length;
+    const removed = diff.filter((line) => line.type === 'removed').length;
+    return (
+      <div className="flex-1 overflow-auto bg-white dark:bg-slate-900">
+        <p className="sticky top-0 px-4 py-2 text-xs border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300">
+          {before.label} → {after.label}:{' '}
+          <span className="text-emerald-600 dark:text-emerald-400">+{added}</span>{' '}
+          <span className="text-rose-600 dark:text-rose-400">−{removed}</span>
+        </p>
+        {added + removed === 0 ? (
+          <p className="p-4 text-sm text-slate-500 dark:text-slate-400">The two versions have identical HTML.</p>
+        ) : (
+          <table className="w-full font-mono text-xs">
+            <tbody>
+              {rows.map((row, i) => row.type === 'skip' ? (
+                <tr key={i} className="bg-slate-50 dark:bg-slate-800/60 text-slate-400">
+                  <td colSpan={3} className="px-4 py-1">⋯ {row.count} unchanged lines</td>
+                </tr>
+              ) : (
+                <tr
+                  key={i}
+                  className={
+                    row.type === 'added' ? 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-900 dark:text-emerald-200'
+                      : row.type === 'removed' ? 'bg-rose-50 dark:bg-rose-900/20 text-rose-900 dark:text-rose-200'
+                      : 'text-slate-600 dark:text-slate-300'
+                  }
+                >
+                  <td className="w-12 px-2 text-right text-slate-400 select-none align-top">{row.type !== 'added' ? row.oldLine : ''}</td>
+                  <td className="w-12 px-2 text-right text-slate-400 select-none align-top">{row.type !== 'removed' ? row.newLine : ''}</td>
+                  <td className="px-2 whitespace-pre-wrap break-all">
+                    <span className="select-none">{row.type === 'added' ? '+ ' : row.type === 'removed' ? '- ' : '  '}</span>{row.text}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    );
+  }
+
+  if (mode === 'side') {
+    return (
+      <div className="flex-1 grid grid-cols-2 gap-4 p-4 overflow-hidden bg-slate-200 dark:bg-slate-950">
+        {[before, after].map((pane, i) => (
+          <div key={i} className="flex flex-col items-center gap-2 min-w-0 min-h-0">
+            <PaneLabel>{pane.label}</PaneLabel>
+            <div className={frameClass} style={frameStyle}>
+              <Pane pane={pane} />
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  // Slider: `after` is drawn over `before` and revealed from the handle rightwards
+  return (
+    <div className="flex-1 flex flex-col items-center gap-3 p-4 overflow-hidden bg-slate-200 dark:bg-slate-950">
+      <div className={`relative ${frameClass}`} style={frameStyle}>
+        <div className="absolute inset-0">
+          <Pane pane={before} />
+        </div>
+        <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${position}%)` }}>
+          <Pane pane={after} />
+        </div>
+        <div className="absolute inset-y-0 w-0.5 bg-indigo-500 pointer-events-none" style={{ left: `${position}%` }} />
+        <div className="absolute top-2 left-2 right-2 flex justify-between gap-2 pointer-events-none">
+          <PaneLabel>{before.label}</PaneLabel>
+          <PaneLabel>{after.label}</PaneLabel>
+        </div>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        className="w-full max-w-md accent-indigo-600"
+        aria-label="Comparison slider"
+      />
+    </div>
+  );
+};
+
+export default DesignCompareView;
@@ -0,0 +1,526 @@
+import React from 'react';
+import { X, Download, Code, Accessibility, RefreshCw, Wand2, Loader2, CheckCircle2, Palette, ChevronLeft, ChevronRight, ChevronDown, GitCompare, Package } from 'lucide-react';
+import { AuditRule, AuditViolation, BreakpointShot, DesignSystem } from '../types';
+import { captureBreakpoints } from '../services/geminiService';
+import { downloadFile } from '../utils/download';
+import { AUDIT_MESSAGE_SOURCE, AUDIT_RULE_LABELS, buildFixPrompt, withAuditScript } from '../utils/a11yAudit';
+import { OffTokenValue, findOffTokenValues, withDesignSystemTheme } from '../utils/designTokens';
+import { DesignVersion } from '../utils/designVersions';
+import { EXPORT_FORMATS, ExportFormat, buildComponentExport, buildStaticExport } from '../utils/componentExport';
+import { getOfflinePreview, useOfflinePreview } from '../utils/previewRuntime';
+import { createZip } from '../utils/zip';
+import DesignCompareView, { CompareMode, ComparePane } from './DesignCompareView';
+import { BreakpointGrid, DEFAULT_DEVICE_SETTINGS, DeviceFrame, DeviceSettings, DeviceToolbar, GRID_BREAKPOINTS, viewportOf } from './DeviceLab';
+
+interface DesignPreviewModalProps {
+  versions: DesignVersion[]; // every design generated in the chat, oldest first
+  initialVersion: number; // DesignVersion.number to open
+  originalImage?: string; // the critiqued screenshot, to compare against
+  designSystem?: DesignSystem; // the page is rendered with only its tokens
+  onClose: () => void;
+  onRequestFixes?: (prompt: string) => void; // sends the audit or token violations back to the chat
+  onCaptureBreakpoints?: (shots: BreakpointShot[]) => void; // adds the device lab's screenshots to the report
+}
+
+const MAX_LISTED_CLASSES = 6;
+
+const COMPARE_MODES: { id: CompareMode; label: string }[] = [
+  { id: 'side', label: 'Side by side' },
+  { id: 'slider', label: 'Slider' },
+  { id: 'diff', label: 'Source diff' },
+];
+
+// What the comparison's "before" side shows: another version or the screenshot
+type CompareBase = number | 'original';
+
+const formatTime = (iso?: string) => (iso ? new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '');
+
+// Follow-up message asking the chat to replace off-system values
+const buildTokenFixPrompt = (values: OffTokenValue[], designSystem: DesignSystem) =>
+  `These classes use values outside the ${designSystem.name} design system: ${values.map((v) => `\`${v.className}\``).join(', ')}. Please replace them with the nearest tokens and show me the updated version.`;
+
+const DesignPreviewModal: React.FC<DesignPreviewModalProps> = ({ versions, initialVersion, originalImage, designSystem, onClose, onRequestFixes, onCaptureBreakpoints }) => {
+  const [versionNumber, setVersionNumber] = React.useState(initialVersion);
+  const version = versions.find((v) => v.number === versionNumber) ?? versions[versions.length - 1];
+  const htmlCode = version.html;
+  // Null while previewing a single version
+  const [compareBase, setCompareBase] = React.useState<CompareBase | null>(null);
+  const [compareMode, setCompareMode] = React.useState<CompareMode>('side');
+  const [device, setDevice] = React.useState<DeviceSettings>(DEFAULT_DEVICE_SETTINGS);
+  const [isCapturing, setIsCapturing] = React.useState(false);
+  const [captureNote, setCaptureNote] = React.useState<{ text: string; failed: boolean } | null>(null);
+  const [isExportMenuOpen, setIsExportMenuOpen] = React.useState(false);
+  const [exporting, setExporting] = React.useState<ExportFormat | null>(null);
+  const [exportError, setExportError] = React.useState<string | null>(null);
+  const [showAudit, setShowAudit] = React.useState(false);
+  const [violations, setViolations] = React.useState<AuditViolation[] | null>(null);
+  const [activeIndex, setActiveIndex] = React.useState<number | null>(null);
+  const iframeRef = React.useRef<HTMLIFrameElement>(null);
+  // The model is asked to configure the theme itself; this enforces it
+  const themedHtml = React.useMemo(
+    () => (designSystem ? withDesignSystemTheme(htmlCode, designSystem) : htmlCode),
+    [htmlCode, designSystem]
+  );
+  // Rendered from inlined assets with the page's scripts removed; see utils/previewRuntime.ts
+  const offline = useOfflinePreview(themedHtml);
+  const previewHtml = React.useMemo(() => (offline.preview ? withAuditScript(offline.preview.html, offline.preview.nonce) : null), [offline.preview]);
+  const blockedUrls = offline.preview?.blocked ?? [];
+  const previewNotes = offline.preview ? [
+    ...(blockedUrls.length > 0 ? [`Not loaded:\n${blockedUrls.join('\n')}`] : []),
+    ...(offline.preview.missingIcons.length > 0 ? [`Icons not in the bundled set: ${offline.preview.missingIcons.join(', ')}`] : []),
+    ...offline.preview.warnings,
+  ] : [];
+  const offTokenValues = React.useMemo(
+    () => (designSystem ? findOffTokenValues(htmlCode, designSystem) : []),
+    [htmlCode, designSystem]
+  );
+
+  const viewport = viewportOf(device);
+  const showGrid = device.grid && compareBase === null;
+  // The grid and comparison views don't mount the audited iframe
+  const canAudit = compareBase === null && !showGrid;
+
+  // The audit runs inside the sandboxed iframe and reports back via postMessage.
+  // The iframe is mounted afresh when returning to the single view, and audits again.
+  React.useEffect(() => {
+    setViolations(null);
+    setActiveIndex(null);
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      const data = event.data;
+      if (data?.source !== AUDIT_MESSAGE_SOURCE || data.type !== 'results' || !Array.isArray(data.violations)) return;
+      setViolations(data.violations);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [previewHtml, canAudit]);
+
+  const postToPreview = React.useCallback((message: Record<string, unknown>) => {
+    iframeRef.current?.contentWindow?.postMessage({ source: AUDIT_MESSAGE_SOURCE, ...message }, '*');
+  }, []);
+
+  // Layout changes with the viewport, so re-run the audit when switching device.
+  // A request that reaches the page before it has loaded is ignored; the audit
+  // runs on load anyway.
+  const viewportWidth = viewport?.width;
+  const viewportHeight = viewport?.height;
+  React.useEffect(() => {
+    const timer = setTimeout(() => postToPreview({ type: 'run' }), 600);
+    return () => clearTimeout(timer);
+  }, [viewportWidth, viewportHeight, postToPreview]);
+
+  const handleRerun = () => {
+    setViolations(null);
+    setActiveIndex(null);
+    postToPreview({ type: 'run' });
+  };
+
+  const handleHighlight = (index: number) => {
+    setActiveIndex(index);
+    postToPreview({ type: 'highlight', selector: violations?.[index].selector });
+  };
+
+  const groups = React.useMemo(() => {
+    const byRule = new Map<AuditRule, { violation: AuditViolation; index: number }[]>();
+    violations?.forEach((violation, index) => {
+      byRule.set(violation.rule, [...(byRule.get(violation.rule) ?? []), { violation, index }]);
+    });
+    return [...byRule.entries()];
+  }, [violations]);
+
+  const handleDownload = () => {
+    downloadFile(versions.length > 1 ? `improved-design-v${version.number}.html` : 'improved-design.html', themedHtml, 'text/html');
+  };
+
+  // Exports start from the themed page, so a design system's tokens carry over
+  const handleExport = async (format: ExportFormat) => {
+    setIsExportMenuOpen(false);
+    setExportError(null);
+    setExporting(format);
+    try {
+      const bundle = format === 'static'
+        ? buildStaticExport(themedHtml, (await getOfflinePreview(themedHtml)).css)
+        : buildComponentExport(themedHtml, format);
+      downloadFile(bundle.zipName, createZip(bundle.files), 'application/zip');
+    } catch (error: any) {
+      setExportError(error.message || 'The export failed.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  // Rendered by the server's headless browser from the same preview page
+  const handleCaptureBreakpoints = async () => {
+    if (!offline.preview || !onCaptureBreakpoints) return;
+    setIsCapturing(true);
+    setCaptureNote(null);
+    try {
+      const shots = await captureBreakpoints(offline.preview.html, GRID_BREAKPOINTS);
+      onCaptureBreakpoints(shots.map((shot) => ({ ...shot, version: version.number })));
+      setCaptureNote({ text: `Added ${shots.length} screenshots of v${version.number} to the report.`, failed: false });
+    } catch (error: any) {
+      setCaptureNote({ text: error.message || 'The screenshots failed.', failed: true });
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const themed = React.useCallback(
+    (html: string) => (designSystem ? withDesignSystemTheme(html, designSystem) : html),
+    [designSystem]
+  );
+  const canCompare = versions.length > 1 || !!originalImage;
+
+  // By default a version is compared with the one before it, or the screenshot
+  const defaultBase = React.useCallback((): CompareBase => {
+    const previous = versions.filter((v) => v.number < version.number).pop();
+    if (previous) return previous.number;
+    return originalImage ? 'original' : versions.find((v) => v.number !== version.number)!.number;
+  }, [versions, version.number, originalImage]);
+
+  const comparePanes = React.useMemo((): [ComparePane, ComparePane] | null => {
+    if (compareBase === null) return null;
+    const after: ComparePane = { label: `v${version.number}`, html: themed(version.html), source: version.html };
+    if (compareBase === 'original') return [{ label: 'Original screenshot', image: originalImage }, after];
+    const base = versions.find((v) => v.number === compareBase);
+    if (!base) return null;
+    return [{ label: `v${base.number}`, html: themed(base.html), source: base.html }, after];
+  }, [compareBase, version, versions, originalImage, themed]);
+
+  // A version isn't compared with itself
+  React.useEffect(() => {
+    if (compareBase === version.number) setCompareBase(defaultBase());
+  }, [compareBase, version.number, defaultBase]);
+
+  const stepVersion = (offset: number) => {
+    const index = versions.indexOf(version) + offset;
+    if (index >= 0 && index < versions.length) setVersionNumber(versions[index].number);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-100 dark:bg-slate-900 flex flex-col animate-fade-in transition-colors">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 shrink-0 transition-colors">
+          <div className="flex items-center gap-4">
+            <div className="bg-indigo-600 p-2 rounded-lg">
+              <Code className="text-white" size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-900 dark:text-white text-lg">Iterated Design Concept</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Generated by AI • Tailwind CSS{designSystem ? ` • ${designSystem.name} tokens` : ''} •{' '}
+                <span title={previewNotes.length > 0 ? previewNotes.join('\n\n') : "Rendered from inlined assets, without the page's own scripts"}>
+                  Self-contained preview{blockedUrls.length > 0 ? ` (${blockedUrls.length} external resource${blockedUrls.length === 1 ? '' : 's'} blocked)` : ''}
+                </span>
+              </p>
+            </div>
+
+            {/* Version switcher */}
+            {versions.length > 1 && (
+              <div className="hidden lg:flex items-center gap-1 ml-4">
+                <button
+                  onClick={() => stepVersion(-1)}
+                  disabled={version === versions[0]}
+                  className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 transition-colors"
+                  title="Previous version"
+                >
+                  <ChevronLeft size={18} />
+                </button>
+                <select
+                  value={version.number}
+                  onChange={(e) => setVersionNumber(Number(e.target.value))}
+                  className="max-w-[18rem] bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-colors"
+                  title="Version"
+                >
+                  {versions.map((v) => (
+                    <option key={v.number} value={v.number}>
+                      v{v.number} · {v.label}{v.createdAt ? ` · ${formatTime(v.createdAt)}` : ''}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => stepVersion(1)}
+                  disabled={version === versions[versions.length - 1]}
+                  className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 transition-colors"
+                  title="Next version"
+                >
+                  <ChevronRight size={18} />
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            {canCompare && (
+              <button
+                onClick={() => setCompareBase((base) => (base === null ? defaultBase() : null))}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors text-sm border ${
+                  compareBase !== null
+                    ? 'bg-indigo-50 dark:bg-indigo-900/40 border-indigo-200 dark:border-indigo-500/40 text-indigo-700 dark:text-indigo-200'
+                    : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
+                }`}
+                title="Compare with another version or the original"
+              >
+                <GitCompare size={16} />
+                <span className="hidden md:inline">Compare</span>
+              </button>
+            )}
+            <button
+              onClick={() => setShowAudit((open) => !open)}
+              disabled={!canAudit}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors text-sm border disabled:opacity-60 ${
+                showAudit && canAudit
+                  ? 'bg-indigo-50 dark:bg-indigo-900/40 border-indigo-200 dark:border-indigo-500/40 text-indigo-700 dark:text-indigo-200'
+                  : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'
+              }`}
+              title={canAudit ? 'Accessibility audit' : 'The audit is unavailable in this view. Preview a single device to run it.'}
+            >
+              <Accessibility size={16} />
+              <span className="hidden md:inline">Accessibility</span>
+              {!canAudit ? null : violations === null ? (
+                <Loader2 size={14} className="animate-spin" />
+              ) : (
+                <span
+                  className={`px-1.5 rounded-full text-xs font-bold ${
+                    violations.length > 0 ? 'bg-rose-100 text-rose-700 dark:bg-rose-900/50 dark:text-rose-300' : 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300'
+                  }`}
+                >
+                  {violations.length}
+                </span>
+              )}
+            </button>
+            <div className="relative">
+              <button
+                onClick={() => setIsExportMenuOpen((open) => !open)}
+                disabled={exporting !== null}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors text-sm border bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-60"
+              >
+                {exporting ? <Loader2 size={16} className="animate-spin" /> : <Package size={16} />}
+                <span className="hidden md:inline">Export as…</span>
+                <ChevronDown size={14} />
+              </button>
+              {isExportMenuOpen && (
+                <div className="absolute right-0 top-full mt-2 w-72 z-10 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-xl overflow-hidden">
+                  {EXPORT_FORMATS.map((format) => (
+                    <button
+                      key={format.id}
+                      onClick={() => handleExport(format.id)}
+                      className="w-full text-left px-4 py-3 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                    >
+                      <span className="block text-sm font-medium text-slate-900 dark:text-white">{format.label}</span>
+                      <span className="block text-xs text-slate-500 dark:text-slate-400">{format.description}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <button
+              onClick={handleDownload}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg font-medium transition-colors text-sm shadow-md"
+            >
+              <Download size={16} /> Download HTML
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white transition-colors"
+            >
+              <X size={24} />
+            </button>
+          </div>
+        </div>
+
+        <DeviceToolbar
+          settings={device}
+          onChange={setDevice}
+          allowGrid={compareBase === null}
+          onCapture={onCaptureBreakpoints && offline.preview ? handleCaptureBreakpoints : undefined}
+          isCapturing={isCapturing}
+        />
+
+        {captureNote && (
+          <div
+            className={`flex items-center gap-3 px-6 py-2 border-b text-sm shrink-0 ${
+              captureNote.failed
+                ? 'border-rose-200 dark:border-rose-500/30 bg-rose-50 dark:bg-rose-900/20 text-rose-700 dark:text-rose-200'
+                : 'border-emerald-200 dark:border-emerald-500/30 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-200'
+            }`}
+          >
+            <span className="flex-1">{captureNote.failed ? `Screenshots failed: ${captureNote.text}` : captureNote.text}</span>
+            <button onClick={() => setCaptureNote(null)} className="p-1 opacity-70 hover:opacity-100 transition-opacity" title="Dismiss">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        {exportError && (
+          <div className="flex items-center gap-3 px-6 py-2 border-b border-rose-200 dark:border-rose-500/30 bg-rose-50 dark:bg-rose-900/20 text-sm text-rose-700 dark:text-rose-200 shrink-0">
+            <span className="flex-1">Export failed: {exportError}</span>
+            <button onClick={() => setExportError(null)} className="p-1 hover:text-rose-900 dark:hover:text-white transition-colors" title="Dismiss">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        {designSystem && offTokenValues.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3 px-6 py-2 border-b border-amber-200 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-200 shrink-0">
+            <Palette size={16} className="shrink-0" />
+            <span className="flex-1 min-w-0 truncate">
+              {offTokenValues.length} {offTokenValues.length === 1 ? 'class bypasses' : 'classes bypass'} the design system:{' '}
+              <code className="text-xs">{offTokenValues.slice(0, MAX_LISTED_CLASSES).map((v) => v.className).join(' ')}</code>
+              {offTokenValues.length > MAX_LISTED_CLASSES && ' …'}
+            </span>
+            {onRequestFixes && (
+              <button
+                onClick={() => onRequestFixes(buildTokenFixPrompt(offTokenValues, designSystem))}
+                className="flex items-center gap-1 px-3 py-1 rounded-lg text-xs font-medium bg-amber-100 hover:bg-amber-200 dark:bg-amber-800/40 dark:hover:bg-amber-800/60 transition-colors"
+              >
+                <Wand2 size={14} /> Fix in chat
+              </button>
+            )}
+          </div>
+        )}
+
+        {compareBase !== null && (
+          <div className="flex flex-wrap items-center gap-3 px-6 py-2 border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-600 dark:text-slate-300 shrink-0 transition-colors">
+            <span>Compare</span>
+            <select
+              value={String(compareBase)}
+              onChange={(e) => setCompareBase(e.target.value === 'original' ? 'original' : Number(e.target.value))}
+              className="bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-colors"
+            >
+              {originalImage && <option value="original">Original screenshot</option>}
+              {versions.filter((v) => v.number !== version.number).map((v) => (
+                <option key={v.number} value={v.number}>v{v.number} · {v.label}</option>
+              ))}
+            </select>
+            <span>with v{version.number}</span>
+            <div className="flex bg-slate-100 dark:bg-slate-900 p-1 rounded-lg border border-slate-200 dark:border-slate-700 ml-auto">
+              {COMPARE_MODES.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setCompareMode(id)}
+                  className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                    compareMode === id ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-white shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 flex overflow-hidden">
+        {comparePanes ? (
+          <DesignCompareView before={comparePanes[0]} after={comparePanes[1]} mode={compareMode} width={viewport?.width} />
+        ) : (
+        /* Preview Area */
+        <div className="flex-1 bg-slate-200 dark:bg-slate-950 relative flex flex-col items-center justify-center overflow-hidden transition-colors">
+           {previewHtml && offline.preview ? (
+             showGrid ? (
+               <BreakpointGrid html={offline.preview.html} breakpoints={GRID_BREAKPOINTS} />
+             ) : (
+               <DeviceFrame html={previewHtml} title="Design Preview" viewport={viewport} zoom={device.zoom} iframeRef={iframeRef} />
+             )
+           ) : (
+             <div className="flex flex-col items-center justify-center gap-3 p-6 text-center text-sm text-slate-500 dark:text-slate-400">
+               {offline.error ? (
+                 <>
+                   <p>The preview couldn't be built: {offline.error}</p>
+                   <button
+                     onClick={offline.retry}
+                     className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium bg-indigo-600 hover:bg-indigo-500 text-white transition-colors"
+                   >
+                     <RefreshCw size={14} /> Try again
+                   </button>
+                 </>
+               ) : (
+                 <p className="flex items-center gap-2"><Loader2 size={16} className="animate-spin text-indigo-500" /> Preparing the preview...</p>
+               )}
+             </div>
+           )}
+        </div>
+        )}
+
+        {/* Accessibility Audit Panel */}
+        {showAudit && canAudit && (
+          <aside className="w-full sm:w-96 shrink-0 border-l border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 flex flex-col transition-colors">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+              <div>
+                <h4 className="font-bold text-slate-900 dark:text-white text-sm">Accessibility Audit</h4>
+                <p className="text-xs text-slate-500 dark:text-slate-400">Checked against the rendered page</p>
+              </div>
+              <button
+                onClick={handleRerun}
+                disabled={violations === null}
+                className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white transition-colors disabled:opacity-50"
+                title="Run the audit again"
+              >
+                <RefreshCw size={16} className={violations === null ? 'animate-spin' : ''} />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-5">
+              {violations === null ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400 flex items-center gap-2">
+                  <Loader2 size={16} className="animate-spin text-indigo-500" /> Auditing the preview...
+                </p>
+              ) : violations.length === 0 ? (
+                <p className="text-sm text-emerald-600 dark:text-emerald-400 flex items-center gap-2">
+                  <CheckCircle2 size={16} /> No issues found by the automated checks.
+                </p>
+              ) : (
+                groups.map(([rule, items]) => (
+                  <div key={rule}>
+                    <h5 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">
+                      {AUDIT_RULE_LABELS[rule]} ({items.length})
+                    </h5>
+                    <ul className="space-y-2">
+                      {items.map(({ violation, index }) => (
+                        <li key={index}>
+                          <button
+                            onClick={() => handleHighlight(index)}
+                            className={`w-full text-left rounded-lg border p-3 transition-colors ${
+                              activeIndex === index
+                                ? 'border-rose-300 dark:border-rose-500/60 bg-rose-50 dark:bg-rose-900/20'
+                                : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50'
+                            }`}
+                          >
+                            <span
+                              className={`inline-block mb-1 px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${
+                                violation.impact === 'serious'
+                                  ? 'bg-rose-100 text-rose-700 dark:bg-rose-900/50 dark:text-rose-300'
+                                  : 'bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300'
+                              }`}
+                            >
+                              {violation.impact}
+                            </span>
+                            <p className="text-sm text-slate-700 dark:text-slate-200">{violation.message}</p>
+                            <code className="block mt-1 text-xs text-slate-500 dark:text-slate-400 truncate">{violation.snippet}</code>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {onRequestFixes && violations && violations.length > 0 && (
+              <div className="p-4 border-t border-slate-200 dark:border-slate-700">
+                <button
+                  onClick={() => onRequestFixes(buildFixPrompt(violations))}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg font-medium transition-colors text-sm shadow-md"
+                >
+                  <Wand2 size={16} /> Fix these in chat
+                </button>
+              </div>
+            )}
+          </aside>
+        )}
+        </div>
+    </div>
+  );
+};
+
+export default DesignPreviewModal;
\ No newline at end of file
@@ -0,0 +1,121 @@
+import React, { useRef, useState } from 'react';
+import { Trash2, Upload } from 'lucide-react';
+import { DesignSystemProfile } from '../types';
+import { parseDesignTokens } from '../utils/designTokens';
+
+export interface DesignSystemPickerProps {
+  profiles: DesignSystemProfile[];
+  selected?: DesignSystemProfile;
+  onSelect: (id: string | null) => void;
+  onImport: (profile: DesignSystemProfile) => void;
+  onDelete: (id: string) => void;
+}
+
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+const MAX_SWATCHES = 24;
+
+const plural = (count: number, one: string, many: string) => `${count} ${count === 1 ? one : many}`;
+
+// Chooses the design system the next critique is checked against. Profiles
+// are imported from W3C Design Tokens JSON or a Tailwind config file.
+const DesignSystemPicker: React.FC<DesignSystemPickerProps> = ({ profiles, selected, onSelect, onImport, onDelete }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_FILE_BYTES) {
+      setNotice({ text: "That file is too large for a token file (max 2 MB).", isError: true });
+      return;
+    }
+    try {
+      const { profile, skipped } = parseDesignTokens(await file.text(), file.name);
+      onImport(profile);
+      setNotice(skipped > 0
+        ? { text: `Imported "${profile.name}". ${plural(skipped, 'value', 'values')} could not be read (e.g. CSS variables) and were skipped.`, isError: false }
+        : null);
+    } catch (error: any) {
+      setNotice({ text: error.message || "Could not read that file.", isError: true });
+    }
+  };
+
+  const counts = selected ? [
+    plural(selected.colors.length, 'colour', 'colours'),
+    plural(selected.fontSizes.length, 'type size', 'type sizes'),
+    plural(selected.spacing.length, 'spacing step', 'spacing steps'),
+    plural(selected.radii.length, 'radius', 'radii'),
+    plural(selected.fontFamilies.length, 'font', 'fonts'),
+  ].filter((label) => !label.startsWith('0 ')) : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="flex-1 min-w-[12rem] bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-colors"
+          value={selected?.id ?? ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+        >
+          <option value="">None (generic critique)</option>
+          {profiles.map((profile) => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+        </select>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-900 dark:text-white transition-colors"
+        >
+          <Upload size={14} /> Import Tokens
+        </button>
+        {selected && (
+          <button
+            onClick={() => onDelete(selected.id)}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20 transition-colors"
+            title="Delete this profile"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.js,.cjs,.mjs,.ts"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+
+      {notice && (
+        <p className={`text-xs ${notice.isError ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}>{notice.text}</p>
+      )}
+
+      {selected ? (
+        <div className="space-y-2">
+          {selected.colors.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {selected.colors.slice(0, MAX_SWATCHES).map((token) => (
+                <span
+                  key={token.name}
+                  title={`${token.name} ${token.hex}`}
+                  className="w-5 h-5 rounded border border-slate-300 dark:border-slate-600"
+                  style={{ backgroundColor: token.hex }}
+                />
+              ))}
+              {selected.colors.length > MAX_SWATCHES && (
+                <span className="text-xs text-slate-500 dark:text-slate-400 self-center ml-1">+{selected.colors.length - MAX_SWATCHES}</span>
+              )}
+            </div>
+          )}
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {counts.join(' · ')}. The critique reports where the design departs from these tokens, and generated redesigns only use them.
+          </p>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Import W3C Design Tokens JSON or a <code>tailwind.config.js</code> to check conformance to your design system.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DesignSystemPicker;
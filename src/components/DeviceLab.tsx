@@ -0,0 +1,292 @@
+import React from 'react';
+import { Camera, LayoutGrid, Loader2, RotateCw } from 'lucide-react';
+import { Breakpoint } from '../types';
+
+// Device lab for the design preview: pick a device or a custom size, rotate
+// it and zoom to fit, or see the page at several breakpoints side by side.
+
+export type DeviceKind = 'phone' | 'tablet' | 'desktop';
+
+export interface DevicePreset {
+  id: string;
+  label: string;
+  kind: DeviceKind;
+  width: number; // CSS px, portrait for phones and tablets
+  height: number;
+}
+
+export const DEVICE_PRESETS: DevicePreset[] = [
+  { id: 'iphone-se', label: 'iPhone SE', kind: 'phone', width: 375, height: 667 },
+  { id: 'iphone-15', label: 'iPhone 15', kind: 'phone', width: 393, height: 852 },
+  { id: 'pixel-8', label: 'Pixel 8', kind: 'phone', width: 412, height: 915 },
+  { id: 'ipad-mini', label: 'iPad mini', kind: 'tablet', width: 744, height: 1133 },
+  { id: 'ipad-air', label: 'iPad Air', kind: 'tablet', width: 820, height: 1180 },
+  { id: 'ipad-pro', label: 'iPad Pro 12.9"', kind: 'tablet', width: 1024, height: 1366 },
+  { id: 'laptop', label: 'Laptop', kind: 'desktop', width: 1280, height: 800 },
+  { id: 'desktop', label: 'Desktop', kind: 'desktop', width: 1440, height: 900 },
+  { id: 'full-hd', label: 'Full HD', kind: 'desktop', width: 1920, height: 1080 },
+];
+
+const PRESET_GROUPS: { kind: DeviceKind; label: string }[] = [
+  { kind: 'phone', label: 'Phones' },
+  { kind: 'tablet', label: 'Tablets' },
+  { kind: 'desktop', label: 'Desktops' },
+];
+
+// One per Tailwind screen the generated pages usually target: base, md, lg, xl
+export const GRID_BREAKPOINTS: Breakpoint[] = [
+  { label: 'Mobile', width: 375, height: 812 },
+  { label: 'Tablet', width: 768, height: 1024 },
+  { label: 'Laptop', width: 1024, height: 768 },
+  { label: 'Desktop', width: 1440, height: 900 },
+];
+
+const ZOOM_LEVELS = [0.25, 0.5, 0.75, 1];
+// Limits mirror server/capture.js
+const MIN_SIZE = 240;
+const MAX_SIZE = 3840;
+
+export interface DeviceSettings {
+  deviceId: string; // a DEVICE_PRESETS id, 'responsive' (fill the space) or 'custom'
+  custom: { width: number; height: number };
+  rotated: boolean;
+  zoom: 'fit' | number;
+  grid: boolean; // every GRID_BREAKPOINTS size at once
+}
+
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
+  deviceId: 'responsive',
+  custom: { width: 1024, height: 768 },
+  rotated: false,
+  zoom: 'fit',
+  grid: false,
+};
+
+export interface Viewport {
+  width: number;
+  height: number;
+  kind: DeviceKind;
+}
+
+const clampSize = (value: number) => Math.min(MAX_SIZE, Math.max(MIN_SIZE, Math.round(value) || MIN_SIZE));
+const kindOf = (width: number): DeviceKind => (width < 768 ? 'phone' : width < 1024 ? 'tablet' : 'desktop');
+
+// The size the page is rendered at, or null when it fills the available space
+export const viewportOf = (settings: DeviceSettings): Viewport | null => {
+  const preset = DEVICE_PRESETS.find((device) => device.id === settings.deviceId);
+  const size = preset
+    ?? (settings.deviceId === 'custom'
+      ? { width: clampSize(settings.custom.width), height: clampSize(settings.custom.height), kind: 'desktop' as DeviceKind }
+      : null);
+  if (!size) return null;
+  return settings.rotated
+    ? { width: size.height, height: size.width, kind: size.kind }
+    : { width: size.width, height: size.height, kind: size.kind };
+};
+
+// Bezels are drawn around the scaled page, so they stay the same on screen
+const BEZELS: Record<DeviceKind, { className: string; px: number }> = {
+  phone: { className: 'rounded-[2.5rem] border-[10px] border-slate-800', px: 20 },
+  tablet: { className: 'rounded-[1.75rem] border-[12px] border-slate-800', px: 24 },
+  desktop: { className: 'rounded-md border border-slate-300 dark:border-slate-700', px: 2 },
+};
+const FIT_MARGIN = 32;
+
+interface DeviceFrameProps {
+  html: string;
+  title: string;
+  viewport: Viewport | null;
+  zoom: 'fit' | number;
+  iframeRef?: React.Ref<HTMLIFrameElement>;
+}
+
+// Renders the page at the viewport's real size, scaled down to fit or to the zoom level
+export const DeviceFrame: React.FC<DeviceFrameProps> = ({ html, title, viewport, zoom, iframeRef }) => {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const [available, setAvailable] = React.useState({ width: 0, height: 0 });
+
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setAvailable({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const bezel = viewport ? BEZELS[viewport.kind] : null;
+  const fit = viewport && bezel ? Math.min(
+    1,
+    (available.width - bezel.px - FIT_MARGIN) / viewport.width,
+    (available.height - bezel.px - FIT_MARGIN) / viewport.height
+  ) : 1;
+  const scale = Math.max(0.1, zoom === 'fit' ? fit : zoom);
+
+  return (
+    <div ref={containerRef} className="flex-1 min-h-0 w-full overflow-auto flex">
+      {viewport && bezel ? (
+        <div
+          className={`m-auto shrink-0 bg-white shadow-2xl overflow-hidden transition-[width,height] duration-300 ${bezel.className}`}
+          style={{ width: viewport.width * scale + bezel.px, height: viewport.height * scale + bezel.px }}
+        >
+          <iframe
+            ref={iframeRef}
+            title={title}
+            srcDoc={html}
+            className="border-0 origin-top-left"
+            style={{ width: viewport.width, height: viewport.height, transform: `scale(${scale})` }}
+            sandbox="allow-scripts"
+          />
+        </div>
+      ) : (
+        <div className="w-full h-full bg-white shadow-2xl overflow-hidden">
+          <iframe ref={iframeRef} title={title} srcDoc={html} className="w-full h-full border-0" sandbox="allow-scripts" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// The page at every breakpoint at once, each scaled to its cell
+export const BreakpointGrid: React.FC<{ html: string; breakpoints: Breakpoint[] }> = ({ html, breakpoints }) => (
+  <div className="flex-1 grid grid-cols-1 md:grid-cols-2 2xl:grid-cols-4 auto-rows-[minmax(24rem,1fr)] gap-4 p-4 overflow-auto bg-slate-200 dark:bg-slate-950">
+    {breakpoints.map((breakpoint) => (
+      <div key={`${breakpoint.label}-${breakpoint.width}`} className="flex flex-col items-center gap-2 min-w-0 min-h-0">
+        <span className="text-xs font-medium text-slate-600 dark:text-slate-300">
+          {breakpoint.label} · {breakpoint.width}×{breakpoint.height}
+        </span>
+        <DeviceFrame
+          html={html}
+          title={`${breakpoint.label} preview`}
+          viewport={{ width: breakpoint.width, height: breakpoint.height, kind: kindOf(breakpoint.width) }}
+          zoom="fit"
+        />
+      </div>
+    ))}
+  </div>
+);
+
+interface DeviceToolbarProps {
+  settings: DeviceSettings;
+  onChange: (settings: DeviceSettings) => void;
+  allowGrid: boolean; // off while comparing versions
+  onCapture?: () => void; // screenshots every grid breakpoint
+  isCapturing?: boolean;
+}
+
+const toggleClass = (active: boolean) =>
+  `flex items-center gap-1.5 px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+    active ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-white shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
+  }`;
+
+const inputClass = 'bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-colors disabled:opacity-50';
+
+export const DeviceToolbar: React.FC<DeviceToolbarProps> = ({ settings, onChange, allowGrid, onCapture, isCapturing = false }) => {
+  const grid = settings.grid && allowGrid;
+  const viewport = viewportOf(settings);
+  // A custom size is shown as typed; it's only clamped when rendered
+  const size = settings.deviceId === 'custom' && !settings.rotated ? settings.custom : viewport;
+  const update = (changes: Partial<DeviceSettings>) => onChange({ ...settings, ...changes });
+
+  // Typing a size switches to a custom device, starting from the current one
+  const setSize = (dimension: 'width' | 'height', value: number) => {
+    const current = size ?? settings.custom;
+    update({ deviceId: 'custom', rotated: false, custom: { width: current.width, height: current.height, [dimension]: value } });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-6 py-2 border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-600 dark:text-slate-300 shrink-0 transition-colors">
+      {allowGrid && (
+        <div className="flex bg-slate-100 dark:bg-slate-900 p-1 rounded-lg border border-slate-200 dark:border-slate-700">
+          <button onClick={() => update({ grid: false })} className={toggleClass(!grid)}>Device</button>
+          <button onClick={() => update({ grid: true })} className={toggleClass(grid)}>
+            <LayoutGrid size={14} /> Breakpoints
+          </button>
+        </div>
+      )}
+
+      {grid ? (
+        <>
+          <span className="text-xs text-slate-500 dark:text-slate-400">
+            {GRID_BREAKPOINTS.map((breakpoint) => `${breakpoint.width}px`).join(' · ')}
+          </span>
+          {onCapture && (
+            <button
+              onClick={onCapture}
+              disabled={isCapturing}
+              className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium bg-indigo-600 hover:bg-indigo-500 text-white transition-colors disabled:opacity-60"
+              title="Screenshot every breakpoint for the exported report"
+            >
+              {isCapturing ? <Loader2 size={14} className="animate-spin" /> : <Camera size={14} />}
+              {isCapturing ? 'Capturing...' : 'Screenshot for report'}
+            </button>
+          )}
+        </>
+      ) : (
+        <>
+          <select
+            value={settings.deviceId}
+            onChange={(e) => update({ deviceId: e.target.value, rotated: false })}
+            className={inputClass}
+            title="Device"
+          >
+            <option value="responsive">Responsive (fill)</option>
+            {PRESET_GROUPS.map(({ kind, label }) => (
+              <optgroup key={kind} label={label}>
+                {DEVICE_PRESETS.filter((device) => device.kind === kind).map((device) => (
+                  <option key={device.id} value={device.id}>{device.label}</option>
+                ))}
+              </optgroup>
+            ))}
+            <option value="custom">Custom size</option>
+          </select>
+
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min={MIN_SIZE}
+              max={MAX_SIZE}
+              value={size?.width ?? ''}
+              placeholder="Auto"
+              onChange={(e) => setSize('width', Number(e.target.value))}
+              className={`${inputClass} w-20`}
+              aria-label="Width"
+            />
+            <span>×</span>
+            <input
+              type="number"
+              min={MIN_SIZE}
+              max={MAX_SIZE}
+              value={size?.height ?? ''}
+              placeholder="Auto"
+              onChange={(e) => setSize('height', Number(e.target.value))}
+              className={`${inputClass} w-20`}
+              aria-label="Height"
+            />
+          </div>
+
+          <button
+            onClick={() => update({ rotated: !settings.rotated })}
+            disabled={!viewport}
+            className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 transition-colors"
+            title="Rotate"
+          >
+            <RotateCw size={16} />
+          </button>
+
+          <select
+            value={String(settings.zoom)}
+            onChange={(e) => update({ zoom: e.target.value === 'fit' ? 'fit' : Number(e.target.value) })}
+            disabled={!viewport}
+            className={inputClass}
+            title="Zoom"
+          >
+            <option value="fit">Zoom to fit</option>
+            {ZOOM_LEVELS.map((level) => (
+              <option key={level} value={level}>{Math.round(level * 100)}%</option>
+            ))}
+          </select>
+        </>
+      )}
+    </div>
+  );
+};
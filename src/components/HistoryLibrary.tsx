@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, Search, Trash2, Download, FolderOpen, Image as ImageIcon, MessageSquare, Loader2 } from 'lucide-react';
+import { AnalysisRecord } from '../types';
+import { listAnalyses, deleteAnalysis } from '../services/historyStore';
+import { downloadFile } from '../utils/download';
+import { scoreBadgeClass } from '../utils/metrics';
+
+interface HistoryLibraryProps {
+  onOpen: (record: AnalysisRecord) => void;
+  onClose: () => void;
+}
+
+type ScoreFilter = 'all' | 'low' | 'mid' | 'high';
+
+const SCORE_RANGES: Record<ScoreFilter, { label: string; min: number; max: number }> = {
+  all: { label: 'All scores', min: 0, max: 100 },
+  low: { label: 'Below 50', min: 0, max: 49 },
+  mid: { label: '50 – 74', min: 50, max: 74 },
+  high: { label: '75 and up', min: 75, max: 100 },
+};
+
+const exportFileName = (suffix: string) => `designcat-${suffix}-${new Date().toISOString().slice(0, 10)}.json`;
+
+const HistoryLibrary: React.FC<HistoryLibraryProps> = ({ onOpen, onClose }) => {
+  const [records, setRecords] = useState<AnalysisRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [scoreFilter, setScoreFilter] = useState<ScoreFilter>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useEffect(() => {
+    listAnalyses()
+      .then(setRecords)
+      .catch((err) => setError(err.message || "Could not open the history library."))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const range = SCORE_RANGES[scoreFilter];
+    // Date inputs are local calendar days; compare on the same basis
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : -Infinity;
+    const to = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : Infinity;
+
+    return records.filter((record) => {
+      const score = record.scores.overallScore;
+      if (score < range.min || score > range.max) return false;
+
+      const created = new Date(record.createdAt).getTime();
+      if (created < from || created > to) return false;
+
+      if (!needle) return true;
+      const haystack = [
+        record.context.userContext,
+        record.context.figmaUrl || '',
+        record.context.pageUrl || '',
+        record.markdown,
+        ...record.chatHistory.map((msg) => msg.text),
+      ].join('\n').toLowerCase();
+      return haystack.includes(needle);
+    });
+  }, [records, query, scoreFilter, fromDate, toDate]);
+
+  const handleDelete = async (record: AnalysisRecord) => {
+    if (!window.confirm("Delete this analysis from your history? This can't be undone.")) return;
+    try {
+      await deleteAnalysis(record.id);
+      setRecords((prev) => prev.filter((r) => r.id !== record.id));
+    } catch (err: any) {
+      setError(err.message || "Could not delete the analysis.");
+    }
+  };
+
+  const handleExport = (record: AnalysisRecord) => {
+    downloadFile(exportFileName('analysis'), JSON.stringify(record, null, 2), 'application/json');
+  };
+
+  const handleExportAll = () => {
+    const payload = { exportedAt: new Date().toISOString(), analyses: filtered };
+    downloadFile(exportFileName('history'), JSON.stringify(payload, null, 2), 'application/json');
+  };
+
+  const inputClass = "bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-colors";
+
+  return (
+    <div className="w-full max-w-6xl mx-auto animate-fade-in">
+
+      {/* Navigation */}
+      <div className="flex items-center justify-between mb-8">
+        <button
+          onClick={onClose}
+          className="flex items-center gap-2 text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-white transition-colors group"
+        >
+          <ArrowLeft size={18} className="group-hover:-translate-x-1 transition-transform" />
+          Back
+        </button>
+        <button
+          onClick={handleExportAll}
+          disabled={filtered.length === 0}
+          className="px-4 py-2 bg-white hover:bg-slate-50 dark:bg-slate-800 dark:hover:bg-slate-700 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 text-sm font-medium rounded-lg transition-colors flex items-center gap-2 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download size={16} /> Export {filtered.length === records.length ? 'All' : 'Filtered'}
+        </button>
+      </div>
+
+      <h2 className="text-3xl font-bold text-slate-900 dark:text-white mb-1 transition-colors">History</h2>
+      <p className="text-slate-500 dark:text-slate-400 text-sm mb-6">Past critiques are stored in this browser only.</p>
+
+      {/* Filters */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm p-4 mb-8 flex flex-col md:flex-row gap-3 transition-colors">
+        <div className="relative flex-1">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="search"
+            placeholder="Search context, critique and chat..."
+            className={`${inputClass} w-full pl-9`}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        <select
+          className={inputClass}
+          value={scoreFilter}
+          onChange={(e) => setScoreFilter(e.target.value as ScoreFilter)}
+        >
+          {(Object.keys(SCORE_RANGES) as ScoreFilter[]).map((key) => (
+            <option key={key} value={key}>{SCORE_RANGES[key].label}</option>
+          ))}
+        </select>
+        <input type="date" className={inputClass} value={fromDate} onChange={(e) => setFromDate(e.target.value)} title="From" />
+        <input type="date" className={inputClass} value={toDate} onChange={(e) => setToDate(e.target.value)} title="To" />
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-300 text-sm">{error}</div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-24 text-slate-500 dark:text-slate-400">
+          <Loader2 size={18} className="animate-spin" /> Loading history...
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="py-24 text-center text-slate-500 dark:text-slate-400">
+          {records.length === 0 ? 'No saved analyses yet. Run a critique and it will show up here.' : 'No analyses match these filters.'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {filtered.map((record) => (
+            <div
+              key={record.id}
+              className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden flex flex-col transition-colors"
+            >
+              <button
+                onClick={() => onOpen(record)}
+                className="h-40 bg-slate-100 dark:bg-slate-900 flex items-center justify-center overflow-hidden"
+                title="Open analysis"
+              >
+                {record.thumbnail ? (
+                  <img src={record.thumbnail} alt="Analyzed design" className="w-full h-full object-cover object-top" />
+                ) : (
+                  <ImageIcon size={32} className="text-slate-300 dark:text-slate-600" />
+                )}
+              </button>
+
+              <div className="p-4 flex-1 flex flex-col gap-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-slate-500 dark:text-slate-400">
+                    {new Date(record.createdAt).toLocaleString()}
+                    {record.revision > 1 && (
+                      <span className="ml-2 px-1.5 py-0.5 rounded bg-indigo-50 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-300 font-medium">
+                        Rev {record.revision}
+                      </span>
+                    )}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded-full text-sm font-bold ${scoreBadgeClass(record.scores.overallScore)}`}>
+                    {record.scores.overallScore}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-700 dark:text-slate-300 line-clamp-3 flex-1">
+                  {record.context.userContext || record.critique.executiveSummary}
+                </p>
+                {record.chatHistory.length > 0 && (
+                  <span className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+                    <MessageSquare size={12} /> {record.chatHistory.length} chat messages
+                  </span>
+                )}
+                <div className="flex items-center gap-2 pt-2 border-t border-slate-100 dark:border-slate-700">
+                  <button
+                    onClick={() => onOpen(record)}
+                    className="flex-1 px-3 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded-lg transition-colors flex items-center justify-center gap-2"
+                  >
+                    <FolderOpen size={14} /> Open
+                  </button>
+                  <button
+                    onClick={() => handleExport(record)}
+                    className="p-2 rounded-lg text-slate-500 hover:text-slate-900 hover:bg-slate-100 dark:text-slate-400 dark:hover:text-white dark:hover:bg-slate-700 transition-colors"
+                    title="Export as JSON"
+                  >
+                    <Download size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(record)}
+                    className="p-2 rounded-lg text-slate-500 hover:text-red-600 hover:bg-red-50 dark:text-slate-400 dark:hover:text-red-400 dark:hover:bg-red-900/30 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryLibrary;
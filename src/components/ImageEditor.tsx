@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCcw, RotateCw, Check, X, Loader2 } from 'lucide-react';
+import { CropRect, cropImage, loadImage, rotateImage } from '../utils/image';
+
+export interface EditedImage {
+  image: string;
+  width: number;
+  height: number;
+}
+
+interface ImageEditorProps {
+  image: string; // data URL
+  onApply: (edited: EditedImage) => void;
+  onCancel: () => void;
+}
+
+// Drag on the image to draw a new crop, inside it to move it, or on a handle to resize
+type DragMode = 'new' | 'move' | 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+const FULL: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+const MIN_SIZE = 0.02; // of the image, each way
+
+const HANDLES: { mode: DragMode; className: string }[] = [
+  { mode: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { mode: 'n', className: 'left-1/2 -translate-x-1/2 -top-1.5 cursor-ns-resize' },
+  { mode: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { mode: 'e', className: '-right-1.5 top-1/2 -translate-y-1/2 cursor-ew-resize' },
+  { mode: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+  { mode: 's', className: 'left-1/2 -translate-x-1/2 -bottom-1.5 cursor-ns-resize' },
+  { mode: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { mode: 'w', className: '-left-1.5 top-1/2 -translate-y-1/2 cursor-ew-resize' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isFull = (rect: CropRect) => rect.x <= 0 && rect.y <= 0 && rect.width >= 1 && rect.height >= 1;
+
+// The crop a drag leads to, from where it started to point (x, y)
+const dragCrop = (mode: DragMode, start: CropRect, from: { x: number; y: number }, x: number, y: number): CropRect => {
+  if (mode === 'new') {
+    return { x: Math.min(from.x, x), y: Math.min(from.y, y), width: Math.abs(x - from.x), height: Math.abs(y - from.y) };
+  }
+  if (mode === 'move') {
+    return {
+      ...start,
+      x: clamp(start.x + x - from.x, 0, 1 - start.width),
+      y: clamp(start.y + y - from.y, 0, 1 - start.height),
+    };
+  }
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+  if (mode.includes('w')) left = Math.min(x, right - MIN_SIZE);
+  if (mode.includes('e')) right = Math.max(x, left + MIN_SIZE);
+  if (mode.includes('n')) top = Math.min(y, bottom - MIN_SIZE);
+  if (mode.includes('s')) bottom = Math.max(y, top + MIN_SIZE);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Crop and quarter-turn rotation, shown in place of the image it edits.
+// Rotating starts the crop over, since the old one no longer lines up.
+const ImageEditor: React.FC<ImageEditorProps> = ({ image, onApply, onCancel }) => {
+  const [turns, setTurns] = useState(0);
+  const [rotated, setRotated] = useState<EditedImage | null>(null);
+  const [crop, setCrop] = useState<CropRect>(FULL);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: DragMode; from: { x: number; y: number }; start: CropRect } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRotated(null);
+    rotateImage(image, turns)
+      .then(async (src) => {
+        const img = await loadImage(src);
+        if (!cancelled) setRotated({ image: src, width: img.naturalWidth, height: img.naturalHeight });
+      })
+      .catch((err: Error) => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [image, turns]);
+
+  const rotate = (by: number) => {
+    setTurns((prev) => (prev + by + 4) % 4);
+    setCrop(FULL);
+  };
+
+  const pointAt = (e: React.PointerEvent) => {
+    const bounds = frameRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - bounds.left) / bounds.width, 0, 1),
+      y: clamp((e.clientY - bounds.top) / bounds.height, 0, 1),
+    };
+  };
+
+  const startDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    frameRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, from: pointAt(e), start: crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = pointAt(e);
+    setCrop(dragCrop(drag.mode, drag.start, drag.from, x, y));
+  };
+
+  // A click without a drag leaves the crop as it was
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.mode === 'new') setCrop((prev) => (prev.width < MIN_SIZE || prev.height < MIN_SIZE ? drag.start : prev));
+  };
+
+  const handleApply = async () => {
+    if (!rotated) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      onApply(isFull(crop) ? rotated : await cropImage(rotated.image, crop));
+    } catch (err: any) {
+      setError(err.message || "The image couldn't be edited.");
+      setIsApplying(false);
+    }
+  };
+
+  const cropWidth = rotated ? Math.round(crop.width * rotated.width) : 0;
+  const cropHeight = rotated ? Math.round(crop.height * rotated.height) : 0;
+
+  return (
+    <div className="w-full flex flex-col items-center gap-3">
+      <div className="min-h-[12rem] flex items-center justify-center">
+        {rotated ? (
+          <div
+            ref={frameRef}
+            onPointerDown={startDrag('new')}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="relative overflow-hidden select-none touch-none cursor-crosshair rounded shadow-lg"
+          >
+            <img src={rotated.image} alt="Editing" draggable={false} className="block max-h-96 max-w-full" />
+            <div
+              onPointerDown={startDrag('move')}
+              className="absolute border-2 border-white cursor-move shadow-[0_0_0_9999px_rgba(15,23,42,0.55)]"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.width * 100}%`,
+                height: `${crop.height * 100}%`,
+              }}
+            >
+              {HANDLES.map(({ mode, className }) => (
+                <span
+                  key={mode}
+                  onPointerDown={startDrag(mode)}
+                  className={`absolute w-3 h-3 bg-white border border-indigo-600 rounded-sm ${className}`}
+                />
+              ))}
+            </div>
+          </div>
+        ) : (
+          <Loader2 size={28} className="animate-spin text-indigo-500" />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+        <button
+          onClick={() => rotate(-1)}
+          className="p-2 rounded-lg bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 transition-colors"
+          title="Rotate left"
+        >
+          <RotateCcw size={16} />
+        </button>
+        <button
+          onClick={() => rotate(1)}
+          className="p-2 rounded-lg bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 transition-colors"
+          title="Rotate right"
+        >
+          <RotateCw size={16} />
+        </button>
+        <button
+          onClick={() => setCrop(FULL)}
+          disabled={isFull(crop)}
+          className="px-3 py-2 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 transition-colors"
+        >
+          Reset crop
+        </button>
+        <span className="px-2 text-xs text-slate-500 dark:text-slate-400 tabular-nums">{cropWidth} × {cropHeight}px</span>
+        <button
+          onClick={onCancel}
+          className="px-3 py-2 rounded-lg flex items-center gap-1 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+        >
+          <X size={16} /> Cancel
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={!rotated || isApplying}
+          className="px-3 py-2 rounded-lg flex items-center gap-1 bg-indigo-600 hover:bg-indigo-500 text-white font-medium disabled:opacity-50 transition-colors"
+        >
+          {isApplying ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />} Apply
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400">Drag on the image to choose the area to critique.</p>
+      {error && <p className="text-xs text-rose-600 dark:text-rose-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ImageEditor;
@@ -0,0 +1,984 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Upload, Camera, Link, Info, X, Columns, GitCommit, Route, ArrowUp, ArrowDown, Plus, Loader2, Figma, Globe, Monitor, Smartphone, Crop, ListOrdered } from 'lucide-react';
+import { AnalysisRecord, CaptureMode, CaptureViewport, DesignContext, DesignVariant, IngestResult, JourneyScreen, QueuedDesign, TabOption, UploadType } from '../types';
+import { AnalysisError, capturePage, importFigmaFrame, ingestFile } from '../services/geminiService';
+import CameraCapture from './CameraCapture';
+import ImageEditor, { EditedImage } from './ImageEditor';
+import RubricPicker, { RubricPickerProps } from './RubricPicker';
+import PersonaPicker, { PersonaPickerProps } from './PersonaPicker';
+import DesignSystemPicker, { DesignSystemPickerProps } from './DesignSystemPicker';
+import { previousIssues } from '../utils/issues';
+
+interface InputSectionProps {
+  onAnalyze: (image: string | null, context: DesignContext) => void;
+  onCompare: (variants: DesignVariant[], context: DesignContext) => void;
+  onAnalyzeJourney: (screens: JourneyScreen[], context: DesignContext) => void;
+  onAnalyzeQueue: (designs: QueuedDesign[], context: DesignContext) => void; // separate analyses, one after another
+  isAnalyzing: boolean;
+  // Set when the upload is a new revision of a saved analysis
+  revisionOf?: AnalysisRecord;
+  onCancelRevision?: () => void;
+  // Missing until the built-in rubrics and personas have loaded
+  rubricPicker?: RubricPickerProps;
+  personaPicker?: PersonaPickerProps;
+  designSystemPicker?: DesignSystemPickerProps;
+}
+
+// Matches the server's limits in server/journey.js
+const MIN_JOURNEY_SCREENS = 2;
+const MAX_JOURNEY_SCREENS = 8;
+const MAX_QUEUED_DESIGNS = 10;
+
+const isFigmaLink = (url: string) => /^https?:\/\/([\w-]+\.)*figma\.com\//i.test(url.trim());
+
+// Servers without a Figma token or a working headless browser get the link as text
+const LINK_FALLBACK_CODES = ['FIGMA_NOT_CONFIGURED', 'CAPTURE_UNAVAILABLE'];
+
+const CAPTURE_VIEWPORTS: { id: CaptureViewport; label: string; icon: React.ElementType }[] = [
+  { id: 'desktop', label: 'Desktop', icon: Monitor },
+  { id: 'mobile', label: 'Mobile', icon: Smartphone },
+];
+
+const CAPTURE_MODES: { id: CaptureMode; label: string }[] = [
+  { id: 'full', label: 'Full page' },
+  { id: 'fold', label: 'Above the fold' },
+];
+
+// What the server's ingestion accepts (server/ingest.js); it checks the bytes either way
+const UPLOAD_ACCEPT = 'image/*,.heic,.heif,application/pdf';
+
+const UPLOAD_TYPE_LABELS: Record<UploadType, string> = { png: 'PNG', jpeg: 'JPEG', webp: 'WebP', gif: 'GIF', heic: 'HEIC', pdf: 'PDF' };
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Browsers name every pasted image "image.png"
+const namePasted = (file: File, index: number, count: number) => {
+  const extension = file.name.match(/\.[^.]+$/)?.[0] ?? '';
+  return new File([file], `Pasted image${count > 1 ? ` ${index + 1}` : ''}${extension}`, { type: file.type });
+};
+
+// Several designs on the Upload tab, before they're queued or made a journey
+interface BatchItem extends QueuedDesign {
+  result?: IngestResult;
+}
+
+// What the crop/rotate editor is open on
+type EditTarget = 'design' | `variant-${number}` | `screen-${number}`;
+
+const InputSection: React.FC<InputSectionProps> = ({ onAnalyze, onCompare, onAnalyzeJourney, onAnalyzeQueue, isAnalyzing, revisionOf, onCancelRevision, rubricPicker, personaPicker, designSystemPicker }) => {
+  const [activeTab, setActiveTab] = useState<TabOption>(TabOption.UPLOAD);
+  const [image, setImage] = useState<string | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+  const [variants, setVariants] = useState<DesignVariant[]>([
+    { label: '', image: '' },
+    { label: '', image: '' },
+  ]);
+  const [screens, setScreens] = useState<JourneyScreen[]>([]);
+  // A revision re-imports its Figma frame or page rather than reusing the old metadata
+  const [context, setContext] = useState<DesignContext>(revisionOf ? { ...revisionOf.context, figmaFrame: undefined, pageCapture: undefined } : {
+    userContext: '',
+    figmaUrl: '',
+  });
+  const [isImportingLink, setIsImportingLink] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [captureViewport, setCaptureViewport] = useState<CaptureViewport>(revisionOf?.context.pageCapture?.viewport ?? 'desktop');
+  const [captureMode, setCaptureMode] = useState<CaptureMode>(revisionOf?.context.pageCapture?.mode ?? 'full');
+  // Files being processed by the server, and how the uploaded design was
+  const [ingestingCount, setIngestingCount] = useState(0);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [upload, setUpload] = useState<{ name: string; result: IngestResult; edited?: { width: number; height: number } } | null>(null);
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  const [editing, setEditing] = useState<EditTarget | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const variantInputRefs = [useRef<HTMLInputElement>(null), useRef<HTMLInputElement>(null)];
+  const journeyInputRef = useRef<HTMLInputElement>(null);
+
+  // Any image not imported from the link drops the frame's or page's metadata
+  const selectImage = (dataUrl: string | null) => {
+    setImage(dataUrl);
+    setUpload(null);
+    setEditing((prev) => (prev === 'design' ? null : prev));
+    setContext((prev) => (prev.figmaFrame || prev.pageCapture ? { ...prev, figmaFrame: undefined, pageCapture: undefined } : prev));
+  };
+
+  // Every uploaded file goes through the server's ingestion; failures are shown and give null
+  const ingest = async (file: File): Promise<IngestResult | null> => {
+    setUploadError(null);
+    setIngestingCount((n) => n + 1);
+    try {
+      return await ingestFile(file);
+    } catch (error: any) {
+      setUploadError(`${file.name}: ${error.message || 'The file could not be processed.'}`);
+      return null;
+    } finally {
+      setIngestingCount((n) => n - 1);
+    }
+  };
+
+  // A PDF is critiqued from its first page
+  const uploadDesign = async (file?: File) => {
+    if (!file) return;
+    const result = await ingest(file);
+    if (!result) return;
+    selectImage(result.images[0].image);
+    setUpload({ name: file.name, result });
+  };
+
+  // One file is the design. More make a batch, which the design so far joins;
+  // a revision only takes one.
+  const addDesignFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    if (revisionOf && files.length > 1) {
+      await uploadDesign(files[0]);
+      setUploadError(`A revision is a single design, so only ${files[0].name} was used.`);
+      return;
+    }
+    if (files.length === 1 && batch.length === 0) return uploadDesign(files[0]);
+
+    const current: BatchItem | null = batch.length === 0 && image ? { name: upload?.name ?? 'Current design', image, result: upload?.result } : null;
+    if (current) {
+      setBatch([current]);
+      selectImage(null);
+    }
+    setActiveTab(TabOption.UPLOAD);
+    const existing = current ? 1 : batch.length;
+    const added: BatchItem[] = [];
+    for (const file of files) {
+      if (existing + added.length >= MAX_QUEUED_DESIGNS) {
+        setUploadError(`Up to ${MAX_QUEUED_DESIGNS} designs can be queued at once.`);
+        break;
+      }
+      const result = await ingest(file);
+      if (!result) continue;
+      const item = { name: file.name, image: result.images[0].image, result };
+      added.push(item);
+      setBatch((prev) => [...prev, item].slice(0, MAX_QUEUED_DESIGNS));
+    }
+    // If all but one design failed, that one is the design rather than a batch
+    if (existing + added.length === 1) {
+      const only = current ?? added[0];
+      setBatch([]);
+      selectImage(only.image);
+      if (only.result) setUpload({ name: only.name, result: only.result });
+    }
+  };
+
+  // Camera photos are ingested like uploads, for the same type and size handling
+  const uploadCapture = async (dataUrl: string) => {
+    const blob = await (await fetch(dataUrl)).blob();
+    await uploadDesign(new File([blob], 'Camera photo.jpg', { type: blob.type }));
+  };
+
+  // Back to a single design once only one is left
+  const removeFromBatch = (index: number) => {
+    const remaining = batch.filter((_, i) => i !== index);
+    if (remaining.length === 1) {
+      const [last] = remaining;
+      setBatch([]);
+      selectImage(last.image);
+      if (last.result) setUpload({ name: last.name, result: last.result });
+    } else {
+      setBatch(remaining);
+    }
+  };
+
+  const batchToJourney = () => {
+    setScreens((prev) => [...prev, ...batch.map(({ name, image: screen }) => ({ label: name.replace(/\.[^.]+$/, ''), image: screen }))].slice(0, MAX_JOURNEY_SCREENS));
+    setBatch([]);
+    setActiveTab(TabOption.JOURNEY);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addDesignFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    addDesignFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const linkUrl = context.figmaUrl || context.pageUrl || '';
+
+  // figma.com links are imported through the Figma API; anything else is captured
+  const handleLinkChange = (url: string) => {
+    setLinkError(null);
+    if (context.figmaFrame || context.pageCapture) setImage(null);
+    const isFigma = isFigmaLink(url);
+    setContext({
+      ...context,
+      figmaUrl: isFigma ? url : '',
+      pageUrl: isFigma || !url ? undefined : url,
+      figmaFrame: undefined,
+      pageCapture: undefined,
+    });
+  };
+
+  // A capture taken at other settings is dropped so the next one uses them
+  const changeCaptureOptions = (viewport: CaptureViewport, mode: CaptureMode) => {
+    setCaptureViewport(viewport);
+    setCaptureMode(mode);
+    if (context.pageCapture) selectImage(null);
+  };
+
+  // Renders the linked frame or captures the page. Returns the image and
+  // context to analyze; on failure the error is shown and rethrown.
+  const importLink = async (): Promise<{ image: string; context: DesignContext }> => {
+    setIsImportingLink(true);
+    setLinkError(null);
+    try {
+      let imported: { image: string; context: DesignContext };
+      if (context.figmaUrl) {
+        const { image: rendered, frame } = await importFigmaFrame(context.figmaUrl.trim());
+        imported = { image: rendered, context: { ...context, figmaFrame: frame } };
+      } else {
+        const { image: captured, page } = await capturePage(linkUrl.trim(), captureViewport, captureMode);
+        imported = { image: captured, context: { ...context, pageCapture: page } };
+      }
+      setImage(imported.image);
+      setContext(imported.context);
+      return imported;
+    } catch (error: any) {
+      setLinkError(error.message || (context.figmaUrl ? "Could not import the frame from Figma." : "Could not capture the page."));
+      throw error;
+    } finally {
+      setIsImportingLink(false);
+    }
+  };
+
+  const updateVariant = (index: number, patch: Partial<DesignVariant>) => {
+    setVariants((prev) => prev.map((variant, i) => (i === index ? { ...variant, ...patch } : variant)));
+  };
+
+  // Two files dropped on Variant A fill both slots
+  const handleVariantFiles = async (index: number, files: File[]) => {
+    for (const [offset, file] of files.slice(0, variants.length - index).entries()) {
+      const result = await ingest(file);
+      if (result) updateVariant(index + offset, { image: result.images[0].image });
+    }
+  };
+
+  // Files are appended in the order they were picked or dropped; each page of a PDF is a screen
+  const addScreens = async (files: File[]) => {
+    let room = MAX_JOURNEY_SCREENS - screens.length;
+    for (const file of files) {
+      if (room <= 0) break;
+      const result = await ingest(file);
+      if (!result) continue;
+      const name = file.name.replace(/\.[^.]+$/, '');
+      const added = result.images.slice(0, room).map((page, i) => ({
+        label: result.images.length > 1 ? `${name} p${i + 1}` : name,
+        image: page.image,
+      }));
+      room -= added.length;
+      setScreens((prev) => [...prev, ...added].slice(0, MAX_JOURNEY_SCREENS));
+    }
+  };
+
+  const updateScreen = (index: number, patch: Partial<JourneyScreen>) => {
+    setScreens((prev) => prev.map((screen, i) => (i === index ? { ...screen, ...patch } : screen)));
+  };
+
+  const moveScreen = (index: number, offset: number) => {
+    setEditing(null);
+    setScreens((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  // Ctrl/Cmd+V anywhere on the page goes to the open tab: the design (or a
+  // batch) on the single-design tabs, the next empty variant, or new screens
+  const handlePaste = (files: File[]) => {
+    if (showCamera || editing || isAnalyzing) return;
+    if (activeTab === TabOption.JOURNEY) {
+      addScreens(files);
+    } else if (activeTab === TabOption.COMPARE) {
+      const empty = variants.findIndex((variant) => !variant.image);
+      if (empty === -1) setUploadError('Both variants already have an image. Remove one to paste another.');
+      else handleVariantFiles(empty, files);
+    } else {
+      addDesignFiles(files);
+    }
+  };
+
+  // Registered once; always calls the latest handler
+  const pasteRef = useRef(handlePaste);
+  pasteRef.current = handlePaste;
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files ?? []);
+      if (files.length === 0) return;
+      // Copying from documents or spreadsheets puts text on the clipboard too; a text field gets that
+      const field = (e.target as HTMLElement | null)?.closest?.('input, textarea, [contenteditable="true"]');
+      if (field && e.clipboardData?.types.includes('text/plain')) return;
+      e.preventDefault();
+      pasteRef.current(files.map((file, i) => namePasted(file, i, files.length)));
+    };
+    document.addEventListener('paste', onPaste);
+    return () => document.removeEventListener('paste', onPaste);
+  }, []);
+
+  const editingImage = editing === 'design' ? image
+    : editing?.startsWith('variant-') ? variants[Number(editing.slice(8))]?.image
+    : editing?.startsWith('screen-') ? screens[Number(editing.slice(7))]?.image
+    : null;
+
+  const applyEdit = (edited: EditedImage) => {
+    if (editing === 'design') {
+      setImage(edited.image);
+      setUpload((prev) => prev && { ...prev, edited: { width: edited.width, height: edited.height } });
+    } else if (editing?.startsWith('variant-')) {
+      updateVariant(Number(editing.slice(8)), { image: edited.image });
+    } else if (editing?.startsWith('screen-')) {
+      updateScreen(Number(editing.slice(7)), { image: edited.image });
+    }
+    setEditing(null);
+  };
+
+  const renderEditor = () => editingImage && (
+    <ImageEditor key={editing} image={editingImage} onApply={applyEdit} onCancel={() => setEditing(null)} />
+  );
+
+  const handleSubmit = async () => {
+    if (editing) {
+      alert("Apply or cancel the crop first.");
+      return;
+    }
+    if (activeTab === TabOption.JOURNEY) {
+      if (screens.length < MIN_JOURNEY_SCREENS) {
+        alert(`Please add at least ${MIN_JOURNEY_SCREENS} screens to critique a journey.`);
+        return;
+      }
+      onAnalyzeJourney(screens.map((screen) => ({ ...screen, label: screen.label.trim() })), context);
+      return;
+    }
+    if (activeTab === TabOption.COMPARE) {
+      if (variants.some((variant) => !variant.image)) {
+        alert("Please upload both variants to compare.");
+        return;
+      }
+      onCompare(
+        variants.map((variant, i) => ({ ...variant, label: variant.label.trim() || `Variant ${'AB'[i]}` })),
+        context
+      );
+      return;
+    }
+    if (activeTab === TabOption.UPLOAD && batch.length > 1) {
+      onAnalyzeQueue(batch.map(({ name, image: design }) => ({ name, image: design })), context);
+      return;
+    }
+    if (!image && !linkUrl) {
+      alert("Please upload an image or provide a URL.");
+      return;
+    }
+    // Import the link first so the model sees the design. If the server can't,
+    // the link is passed on as text as before.
+    if (!image && linkUrl) {
+      try {
+        const imported = await importLink();
+        onAnalyze(imported.image, imported.context);
+      } catch (error) {
+        if (error instanceof AnalysisError && LINK_FALLBACK_CODES.includes(error.code ?? '')) {
+          setLinkError(null);
+          onAnalyze(null, context);
+        }
+      }
+      return;
+    }
+    onAnalyze(image, context);
+  };
+
+  const clearImage = () => selectImage(null);
+
+  // A revision is scored with its thread's rubric so the scores stay comparable
+  const isSingleDesign = activeTab !== TabOption.COMPARE && activeTab !== TabOption.JOURNEY;
+  const isRevision = !!revisionOf && isSingleDesign;
+  const showRubric = !!rubricPicker && !isRevision;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-300">
+      {/* Tabs */}
+      <div className="flex border-b border-slate-200 dark:border-slate-700 overflow-x-auto">
+        <button
+          onClick={() => setActiveTab(TabOption.UPLOAD)}
+          className={`flex-1 py-4 flex items-center justify-center gap-2 font-medium transition-colors whitespace-nowrap ${
+            activeTab === TabOption.UPLOAD
+              ? 'bg-indigo-600 text-white'
+              : 'bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 hover:text-slate-900 dark:hover:text-white'
+          }`}
+        >
+          <Upload size={18} /> Upload
+        </button>
+        <button
+          onClick={() => setActiveTab(TabOption.CAMERA)}
+          className={`flex-1 py-4 flex items-center justify-center gap-2 font-medium transition-colors whitespace-nowrap ${
+            activeTab === TabOption.CAMERA
+              ? 'bg-indigo-600 text-white'
+              : 'bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 hover:text-slate-900 dark:hover:text-white'
+          }`}
+        >
+          <Camera size={18} /> Camera
+        </button>
+        <button
+          onClick={() => setActiveTab(TabOption.URL)}
+          className={`flex-1 py-4 flex items-center justify-center gap-2 font-medium transition-colors whitespace-nowrap ${
+            activeTab === TabOption.URL
+              ? 'bg-indigo-600 text-white'
+              : 'bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 hover:text-slate-900 dark:hover:text-white'
+          }`}
+        >
+          <Link size={18} /> URL
+        </button>
+        <button
+          onClick={() => setActiveTab(TabOption.COMPARE)}
+          className={`flex-1 py-4 flex items-center justify-center gap-2 font-medium transition-colors whitespace-nowrap ${
+            activeTab === TabOption.COMPARE
+              ? 'bg-indigo-600 text-white'
+              : 'bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 hover:text-slate-900 dark:hover:text-white'
+          }`}
+        >
+          <Columns size={18} /> Compare
+        </button>
+        <button
+          onClick={() => setActiveTab(TabOption.JOURNEY)}
+          className={`flex-1 py-4 flex items-center justify-center gap-2 font-medium transition-colors whitespace-nowrap ${
+            activeTab === TabOption.JOURNEY
+              ? 'bg-indigo-600 text-white'
+              : 'bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 hover:text-slate-900 dark:hover:text-white'
+          }`}
+        >
+          <Route size={18} /> Journey
+        </button>
+      </div>
+
+      <div className="p-6 md:p-8 space-y-8">
+        
+        {isRevision && revisionOf && (
+          <div className="flex items-center gap-4 p-4 rounded-xl bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-100 dark:border-indigo-800">
+            {revisionOf.thumbnail && (
+              <img src={revisionOf.thumbnail} alt="Previous revision" className="w-16 h-16 rounded-lg object-cover object-top border border-indigo-100 dark:border-indigo-800" />
+            )}
+            <div className="flex-1 text-sm">
+              <p className="font-semibold text-indigo-700 dark:text-indigo-300 flex items-center gap-2">
+                <GitCommit size={16} /> Revision {revisionOf.revision + 1}
+              </p>
+              <p className="text-slate-600 dark:text-slate-400">
+                Upload the updated design. The critique will check the {previousIssues(revisionOf.critique).length} issues flagged last time
+                (scored {revisionOf.scores.overallScore}{revisionOf.rubric ? ` on the ${revisionOf.rubric.name} rubric` : ''}).
+              </p>
+            </div>
+            {onCancelRevision && (
+              <button
+                onClick={onCancelRevision}
+                className="text-sm font-medium text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-white transition-colors"
+              >
+                Start a new design
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Media Input Area */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white flex items-center gap-2 transition-colors">
+            1. Design Input <span className="text-xs font-normal text-slate-500 dark:text-slate-400">(Required)</span>
+          </h3>
+          
+          {activeTab === TabOption.UPLOAD && (
+            <div 
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={handleDrop}
+              className="border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-xl p-8 flex flex-col items-center justify-center text-center bg-slate-50 dark:bg-slate-800/50 hover:bg-slate-100 dark:hover:bg-slate-700/50 transition-colors"
+            >
+              {editing === 'design' ? renderEditor() : batch.length > 0 ? (
+                <div className="w-full space-y-4">
+                  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                    {batch.map((item, i) => (
+                      <div key={i} className="relative group p-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900">
+                        <img src={item.image} alt={item.name} className="w-full h-28 rounded object-cover object-top" />
+                        <p className="mt-1 text-xs text-left text-slate-600 dark:text-slate-300 truncate" title={item.name}>{i + 1}. {item.name}</p>
+                        <button
+                          onClick={() => removeFromBatch(i)}
+                          className="absolute -top-2 -right-2 bg-red-500 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-sm"
+                          title="Remove"
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    ))}
+                    {ingestingCount > 0 && (
+                      <div className="h-full min-h-[8rem] rounded-lg border border-dashed border-slate-300 dark:border-slate-600 flex items-center justify-center">
+                        <Loader2 size={24} className="animate-spin text-indigo-500" />
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-sm text-slate-600 dark:text-slate-300 flex items-center justify-center gap-2">
+                    <ListOrdered size={16} className="text-indigo-500" />
+                    {batch.length} designs will be critiqued one after another, each as its own analysis.
+                  </p>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    <button
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={batch.length >= MAX_QUEUED_DESIGNS}
+                      className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-900 dark:text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+                    >
+                      <Plus size={16} /> Add more
+                    </button>
+                    <button
+                      onClick={batchToJourney}
+                      disabled={screens.length + batch.length > MAX_JOURNEY_SCREENS}
+                      title={`A journey has up to ${MAX_JOURNEY_SCREENS} screens`}
+                      className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-900 dark:text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+                    >
+                      <Route size={16} /> Critique as a journey instead
+                    </button>
+                    <button
+                      onClick={() => setBatch([])}
+                      className="px-4 py-2 text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-white rounded-lg text-sm font-medium transition-colors"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                </div>
+              ) : image ? (
+                <div className="flex flex-col items-center gap-3">
+                  <div className="relative group">
+                    <img src={image} alt="Preview" className="max-h-64 rounded shadow-lg object-contain" />
+                    <button 
+                      onClick={clearImage}
+                      className="absolute -top-2 -right-2 bg-red-500 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-sm"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => setEditing('design')}
+                    className="px-3 py-1.5 text-xs font-medium rounded-lg flex items-center gap-1.5 bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 transition-colors"
+                  >
+                    <Crop size={14} /> Crop & rotate
+                  </button>
+                  {upload && (
+                    <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1 max-w-md">
+                      <p>
+                        <span className="font-medium text-slate-700 dark:text-slate-200">{upload.name}</span>
+                        {' · '}{UPLOAD_TYPE_LABELS[upload.result.source.type]}, {formatBytes(upload.result.source.bytes)}
+                        {' · '}{upload.result.source.width}×{upload.result.source.height}
+                        {(upload.result.images[0].width !== upload.result.source.width || upload.result.images[0].height !== upload.result.source.height) &&
+                          ` → ${upload.result.images[0].width}×${upload.result.images[0].height}`}
+                      </p>
+                      {upload.result.notes.map((note) => <p key={note}>{note}</p>)}
+                      {upload.edited && <p>Edited to {upload.edited.width}×{upload.edited.height}</p>}
+                      {(upload.result.source.pages ?? 1) > 1 && (
+                        <p>Page 1 of {upload.result.source.pages} will be critiqued. Add the PDF on the Journey tab to critique its pages in order.</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ) : ingestingCount > 0 ? (
+                <div className="flex flex-col items-center gap-3 text-slate-600 dark:text-slate-300">
+                  <Loader2 size={32} className="animate-spin text-indigo-500" />
+                  <p className="text-sm font-medium">Processing file...</p>
+                </div>
+              ) : (
+                <>
+                  <Upload size={48} className="text-slate-400 dark:text-slate-500 mb-4" />
+                  <p className="text-slate-600 dark:text-slate-300 mb-2 font-medium">Drag & drop images or a PDF here, or paste with Ctrl/⌘+V</p>
+                  <p className="text-slate-500 text-sm mb-4">PNG, JPEG, WebP, GIF, HEIC or PDF, up to 25 MB. Several at once are queued.</p>
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-900 dark:text-white rounded-lg text-sm font-medium transition-colors"
+                  >
+                    Select Files
+                  </button>
+                </>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={UPLOAD_ACCEPT}
+                multiple={!revisionOf}
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </div>
+          )}
+
+          {activeTab === TabOption.CAMERA && (
+            <div className="border-2 border-slate-300 dark:border-slate-600 rounded-xl p-8 flex flex-col items-center justify-center bg-slate-50 dark:bg-slate-800/50 min-h-[200px] transition-colors">
+              {editing === 'design' ? renderEditor() : image ? (
+                <div className="flex flex-col items-center gap-3">
+                  <div className="relative group">
+                    <img src={image} alt="Capture" className="max-h-64 rounded shadow-lg object-contain" />
+                    <button 
+                      onClick={clearImage}
+                      className="absolute -top-2 -right-2 bg-red-500 text-white p-1 rounded-full shadow-sm"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => setEditing('design')}
+                    className="px-3 py-1.5 text-xs font-medium rounded-lg flex items-center gap-1.5 bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 transition-colors"
+                  >
+                    <Crop size={14} /> Crop & rotate
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setShowCamera(true)}
+                  className="flex flex-col items-center gap-3 px-6 py-8 bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 rounded-xl transition-all w-full max-w-xs text-slate-900 dark:text-white"
+                >
+                  <Camera size={48} className="text-indigo-600 dark:text-indigo-400" />
+                  <span className="font-semibold text-lg">Open Camera</span>
+                </button>
+              )}
+            </div>
+          )}
+
+          {activeTab === TabOption.URL && (
+            <div className="space-y-3">
+               <label className="block text-sm text-slate-600 dark:text-slate-400">Web page or Figma URL</label>
+               <div className="flex gap-2">
+                 <input
+                  type="url"
+                  placeholder="https://staging.example.com or https://www.figma.com/design/..."
+                  className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-4 py-3 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-colors"
+                  value={linkUrl}
+                  onChange={(e) => handleLinkChange(e.target.value)}
+                />
+                <button
+                  onClick={() => importLink().catch(() => null)}
+                  disabled={!linkUrl.trim() || isImportingLink}
+                  className="flex items-center gap-2 px-4 py-3 rounded-lg text-sm font-medium bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-900 dark:text-white transition-colors disabled:opacity-50 whitespace-nowrap"
+                >
+                  {isImportingLink
+                    ? <Loader2 size={16} className="animate-spin" />
+                    : context.figmaUrl ? <Figma size={16} /> : <Globe size={16} />}
+                  {context.figmaUrl ? 'Import Frame' : 'Capture Page'}
+                </button>
+              </div>
+
+              {!context.figmaUrl && (
+                <div className="flex flex-wrap gap-2">
+                  <div className="flex rounded-lg border border-slate-300 dark:border-slate-700 overflow-hidden">
+                    {CAPTURE_VIEWPORTS.map(({ id, label, icon: Icon }) => (
+                      <button
+                        key={id}
+                        onClick={() => changeCaptureOptions(id, captureMode)}
+                        className={`flex items-center gap-1 px-3 py-1.5 text-sm transition-colors ${
+                          captureViewport === id
+                            ? 'bg-indigo-600 text-white'
+                            : 'bg-slate-50 dark:bg-slate-900 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'
+                        }`}
+                      >
+                        <Icon size={14} /> {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex rounded-lg border border-slate-300 dark:border-slate-700 overflow-hidden">
+                    {CAPTURE_MODES.map(({ id, label }) => (
+                      <button
+                        key={id}
+                        onClick={() => changeCaptureOptions(captureViewport, id)}
+                        className={`px-3 py-1.5 text-sm transition-colors ${
+                          captureMode === id
+                            ? 'bg-indigo-600 text-white'
+                            : 'bg-slate-50 dark:bg-slate-900 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {linkError && <p className="text-sm text-red-600 dark:text-red-400">{linkError}</p>}
+              {image && (context.figmaFrame || context.pageCapture) ? (
+                <div className="flex items-start gap-4 p-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50">
+                  <img src={image} alt="Imported design" className="max-h-48 max-w-[50%] rounded shadow object-contain object-top" />
+                  {context.figmaFrame ? (
+                    <div className="flex-1 min-w-0 text-sm">
+                      <p className="font-medium text-slate-900 dark:text-white truncate">{context.figmaFrame.name}</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{context.figmaFrame.fileName}</p>
+                      <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                        {context.figmaFrame.texts.length} text layers · {context.figmaFrame.fills.length} fills · {context.figmaFrame.autoLayouts.length} auto-layout containers
+                      </p>
+                    </div>
+                  ) : context.pageCapture && (
+                    <div className="flex-1 min-w-0 text-sm">
+                      <p className="font-medium text-slate-900 dark:text-white truncate">{context.pageCapture.title || 'Untitled page'}</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{context.pageCapture.finalUrl}</p>
+                      <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                        {context.pageCapture.width}px · {context.pageCapture.mode === 'full' ? 'full page' : 'above the fold'}
+                        {context.pageCapture.truncated && ' (cut off)'} · {context.pageCapture.headings.length} headings · {context.pageCapture.links} links · {context.pageCapture.buttons} buttons
+                      </p>
+                    </div>
+                  )}
+                  <button onClick={clearImage} className="p-1 text-slate-400 hover:text-red-500 transition-colors" title="Remove">
+                    <X size={16} />
+                  </button>
+                </div>
+              ) : (
+                <p className="text-xs text-slate-500 flex items-center gap-1">
+                  <Info size={12} />
+                  {context.figmaUrl
+                    ? "Link to a frame to pick it, otherwise the file's first frame is used. Private files work if the server's Figma token can open them."
+                    : 'The server opens the page in a headless browser, so staging and localhost sites it can reach work too.'}
+                </p>
+              )}
+            </div>
+          )}
+
+          {activeTab === TabOption.COMPARE && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {variants.map((variant, i) => (
+                <div key={i} className="space-y-2">
+                  <input
+                    type="text"
+                    placeholder={`Variant ${'AB'[i]} label (optional)`}
+                    className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-4 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-colors"
+                    value={variant.label}
+                    onChange={(e) => updateVariant(i, { label: e.target.value })}
+                  />
+                  <div
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleVariantFiles(i, Array.from(e.dataTransfer.files));
+                    }}
+                    className="border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-xl p-6 min-h-[200px] flex flex-col items-center justify-center text-center bg-slate-50 dark:bg-slate-800/50 hover:bg-slate-100 dark:hover:bg-slate-700/50 transition-colors"
+                  >
+                    {editing === `variant-${i}` ? renderEditor() : variant.image ? (
+                      <div className="relative group">
+                        <img src={variant.image} alt={`Variant ${'AB'[i]}`} className="max-h-48 rounded shadow-lg object-contain" />
+                        <button
+                          onClick={() => setEditing(`variant-${i}`)}
+                          className="absolute -top-2 right-6 bg-slate-700 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-sm"
+                          title="Crop & rotate"
+                        >
+                          <Crop size={16} />
+                        </button>
+                        <button
+                          onClick={() => updateVariant(i, { image: '' })}
+                          className="absolute -top-2 -right-2 bg-red-500 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-sm"
+                        >
+                          <X size={16} />
+                        </button>
+                      </div>
+                    ) : (
+                      <>
+                        <Upload size={32} className="text-slate-400 dark:text-slate-500 mb-3" />
+                        <p className="text-slate-600 dark:text-slate-300 mb-3 text-sm font-medium">Drop Variant {'AB'[i]} here</p>
+                        <button
+                          onClick={() => variantInputRefs[i].current?.click()}
+                          className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-900 dark:text-white rounded-lg text-sm font-medium transition-colors"
+                        >
+                          Select File
+                        </button>
+                        <input
+                          ref={variantInputRefs[i]}
+                          type="file"
+                          accept={UPLOAD_ACCEPT}
+                          multiple={i === 0}
+                          className="hidden"
+                          onChange={(e) => {
+                            handleVariantFiles(i, Array.from(e.target.files || []));
+                            e.target.value = '';
+                          }}
+                        />
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {activeTab === TabOption.JOURNEY && (
+            <div
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                addScreens(Array.from(e.dataTransfer.files));
+              }}
+              className="space-y-3"
+            >
+              {screens.map((screen, i) => (
+                <React.Fragment key={i}>
+                  <div className="flex items-center gap-3 p-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50">
+                    <span className="w-8 h-8 flex-shrink-0 rounded-full bg-indigo-600 text-white text-sm font-bold flex items-center justify-center">{i + 1}</span>
+                    <img src={screen.image} alt={`Step ${i + 1}`} className="w-16 h-16 rounded-lg object-cover object-top border border-slate-200 dark:border-slate-600" />
+                    <input
+                      type="text"
+                      placeholder={`Step ${i + 1} label, e.g. "Payment"`}
+                      className="flex-1 min-w-0 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-colors"
+                      value={screen.label}
+                      onChange={(e) => updateScreen(i, { label: e.target.value })}
+                    />
+                    <div className="flex items-center gap-1 text-slate-500 dark:text-slate-400">
+                      <button onClick={() => moveScreen(i, -1)} disabled={i === 0} className="p-1.5 rounded hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-30" title="Move up">
+                        <ArrowUp size={16} />
+                      </button>
+                      <button onClick={() => moveScreen(i, 1)} disabled={i === screens.length - 1} className="p-1.5 rounded hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-30" title="Move down">
+                        <ArrowDown size={16} />
+                      </button>
+                      <button onClick={() => setEditing(editing === `screen-${i}` ? null : `screen-${i}`)} className="p-1.5 rounded hover:bg-slate-200 dark:hover:bg-slate-700" title="Crop & rotate">
+                        <Crop size={16} />
+                      </button>
+                      <button
+                        onClick={() => {
+                          setEditing(null);
+                          setScreens((prev) => prev.filter((_, j) => j !== i));
+                        }}
+                        className="p-1.5 rounded hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-900/30 dark:hover:text-red-400"
+                        title="Remove"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  </div>
+                  {editing === `screen-${i}` && (
+                    <div className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50">
+                      {renderEditor()}
+                    </div>
+                  )}
+                </React.Fragment>
+              ))}
+
+              {screens.length < MAX_JOURNEY_SCREENS && (
+                <button
+                  onClick={() => journeyInputRef.current?.click()}
+                  className="w-full border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-xl p-6 flex flex-col items-center justify-center text-center bg-slate-50 dark:bg-slate-800/50 hover:bg-slate-100 dark:hover:bg-slate-700/50 transition-colors text-slate-600 dark:text-slate-300"
+                >
+                  <Plus size={28} className="text-slate-400 dark:text-slate-500 mb-2" />
+                  <span className="font-medium">{screens.length === 0 ? 'Add the screens of the flow' : 'Add more screens'}</span>
+                  <span className="text-slate-500 text-sm">
+                    Drop, paste or select {MIN_JOURNEY_SCREENS}–{MAX_JOURNEY_SCREENS} images or a PDF, then put them in order
+                  </span>
+                </button>
+              )}
+              <input
+                ref={journeyInputRef}
+                type="file"
+                accept={UPLOAD_ACCEPT}
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  addScreens(Array.from(e.target.files || []));
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          )}
+
+          {activeTab !== TabOption.URL && (
+            <>
+              {ingestingCount > 0 && activeTab !== TabOption.UPLOAD && (
+                <p className="text-sm text-slate-500 dark:text-slate-400 flex items-center gap-2">
+                  <Loader2 size={14} className="animate-spin text-indigo-500" /> Processing {ingestingCount === 1 ? 'file' : `${ingestingCount} files`}...
+                </p>
+              )}
+              {uploadError && (
+                <p className="text-sm text-rose-600 dark:text-rose-400 flex items-start gap-2">
+                  <Info size={14} className="mt-0.5 flex-shrink-0" /> {uploadError}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Context Form */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white flex items-center gap-2 transition-colors">
+            2. Context & Goals <span className="text-xs font-normal text-slate-500 dark:text-slate-400">(Recommended)</span>
+          </h3>
+          
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-600 dark:text-slate-400">
+              Describe the product, target audience, business goals, or specific constraints...
+            </label>
+            <textarea
+              rows={4}
+              placeholder="e.g. This is a checkout flow for a mobile-first fashion retailer. Our goal is to reduce cart abandonment. The design must adhere to WCAG AA standards."
+              className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-4 py-3 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none placeholder-slate-400 dark:placeholder-slate-600 resize-none transition-all focus:border-indigo-500"
+              value={context.userContext}
+              onChange={(e) => setContext({ ...context, userContext: e.target.value })}
+            />
+          </div>
+        </div>
+
+        {showRubric && rubricPicker && (
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-white flex items-center gap-2 transition-colors">
+              3. Scoring Rubric <span className="text-xs font-normal text-slate-500 dark:text-slate-400">(Optional)</span>
+            </h3>
+            <RubricPicker {...rubricPicker} />
+          </div>
+        )}
+
+        {/* Comparisons and journeys have no perspectives */}
+        {personaPicker && isSingleDesign && (
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-white flex items-center gap-2 transition-colors">
+              {showRubric ? 4 : 3}. Reviewer Personas <span className="text-xs font-normal text-slate-500 dark:text-slate-400">(Optional)</span>
+            </h3>
+            <PersonaPicker {...personaPicker} />
+          </div>
+        )}
+
+        {/* Conformance is checked on single designs, revisions included */}
+        {designSystemPicker && isSingleDesign && (
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-white flex items-center gap-2 transition-colors">
+              {3 + (showRubric ? 1 : 0) + (personaPicker ? 1 : 0)}. Design System <span className="text-xs font-normal text-slate-500 dark:text-slate-400">(Optional)</span>
+            </h3>
+            <DesignSystemPicker {...designSystemPicker} />
+          </div>
+        )}
+
+        {/* Action */}
+        <button
+          onClick={handleSubmit}
+          disabled={isAnalyzing || ingestingCount > 0}
+          className={`w-full py-4 rounded-xl font-bold text-lg shadow-lg transition-all transform active:scale-[0.99] flex items-center justify-center gap-3 ${
+            isAnalyzing
+              ? 'bg-indigo-100 dark:bg-indigo-900 text-indigo-400 dark:text-indigo-300 cursor-not-allowed'
+              : ingestingCount > 0
+              ? 'bg-gradient-to-r from-indigo-600 to-violet-600 text-white opacity-60 cursor-wait'
+              : 'bg-gradient-to-r from-indigo-600 to-violet-600 hover:from-indigo-500 hover:to-violet-500 text-white shadow-indigo-500/20'
+          }`}
+        >
+          {isAnalyzing ? (
+            <>
+              <div className="w-5 h-5 border-2 border-current border-t-transparent rounded-full animate-spin" />
+              Critiquing Design...
+            </>
+          ) : (
+            <>
+              {activeTab === TabOption.COMPARE ? 'Compare Variants'
+                : activeTab === TabOption.JOURNEY ? 'Critique Journey'
+                : activeTab === TabOption.UPLOAD && batch.length > 1 ? `Critique ${batch.length} Designs`
+                : 'Generate Critique'}
+            </>
+          )}
+        </button>
+
+      </div>
+
+      {showCamera && (
+        <CameraCapture
+          onCapture={(data) => uploadCapture(data)}
+          onClose={() => setShowCamera(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default InputSection;
\ No newline at end of file
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Crosshair } from 'lucide-react';
+import { CritiqueIssue } from '../types';
+import { DEFAULT_AXES, MetricAxis, axisLabel } from '../utils/metrics';
+import { SEVERITY_LABELS, SEVERITY_STYLES } from '../utils/issues';
+
+interface IssueListProps {
+  issues: CritiqueIssue[];
+  activeIndex: number | null;
+  onSelect: (index: number) => void;
+  axes?: MetricAxis[]; // rubric dimensions, to name the one each issue hurts
+}
+
+// DOM id of an issue, so a hotspot click can scroll to it
+export const issueElementId = (index: number) => `critique-issue-${index + 1}`;
+
+const IssueList: React.FC<IssueListProps> = ({ issues, activeIndex, onSelect, axes = DEFAULT_AXES }) => (
+  <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-lg p-6 md:p-8 mb-8 transition-colors duration-300">
+    <h3 className="text-xs font-bold text-slate-400 dark:text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+      <Crosshair size={14} /> Issues on the Screen
+    </h3>
+    <ol className="space-y-2">
+      {issues.map((issue, i) => (
+        <li key={i} id={issueElementId(i)} className="scroll-mt-24">
+          <button
+            onClick={() => onSelect(i)}
+            className={`w-full text-left flex gap-3 p-3 rounded-lg border transition-colors ${
+              activeIndex === i
+                ? 'border-indigo-300 bg-indigo-50 dark:border-indigo-700 dark:bg-indigo-900/30'
+                : 'border-transparent hover:bg-slate-50 dark:hover:bg-slate-700/50'
+            }`}
+          >
+            <span className={`w-6 h-6 flex-shrink-0 rounded-full text-xs font-bold flex items-center justify-center ${SEVERITY_STYLES[issue.severity].marker}`}>
+              {i + 1}
+            </span>
+            <span className="flex-1 min-w-0">
+              <span className="flex flex-wrap items-center gap-2 mb-1">
+                <span className="font-semibold text-slate-900 dark:text-white">{issue.title}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[issue.severity].chip}`}>
+                  {SEVERITY_LABELS[issue.severity]}
+                </span>
+                <span className="text-xs text-slate-500 dark:text-slate-400">{axisLabel(axes, issue.dimension)}</span>
+              </span>
+              <span className="block text-sm text-slate-600 dark:text-slate-300">{issue.detail}</span>
+            </span>
+          </button>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+export default IssueList;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { AlertTriangle, ListOrdered, DoorClosed } from 'lucide-react';
+import RadarChart from './RadarChart';
+import { DesignJourney, DesignScore, JourneyScreen } from '../types';
+import { DEFAULT_AXES, MetricAxis, scoreBadgeClass } from '../utils/metrics';
+
+interface JourneyTimelineProps {
+  screens: JourneyScreen[];
+  scores: DesignScore | null; // flow-level scores, available before the steps while streaming
+  journey?: DesignJourney;
+  axes?: MetricAxis[];
+}
+
+const JourneyTimeline: React.FC<JourneyTimelineProps> = ({ screens, scores, journey, axes = DEFAULT_AXES }) => {
+  const stepCount = journey?.flow.stepCount;
+  const deadEnds = journey?.flow.deadEnds ?? [];
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-xl overflow-hidden mb-8 transition-colors duration-300">
+      <div className="p-6 md:p-8 space-y-8">
+
+        {/* Flow-level scores and findings */}
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-8 items-center">
+          <div className="md:col-span-5 w-full max-w-md mx-auto">
+            {scores ? (
+              <RadarChart metrics={scores.metrics} axes={axes} label="Journey" />
+            ) : (
+              <div className="h-48 w-full flex items-center justify-center text-slate-400 dark:text-slate-500">
+                Generating Metrics...
+              </div>
+            )}
+          </div>
+          <div className="md:col-span-7 space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-3xl font-bold text-slate-900 dark:text-white mb-1 transition-colors">Journey Score</h2>
+                <p className="text-slate-500 dark:text-slate-400 text-sm">{screens.length} screens, scored as one flow</p>
+              </div>
+              {scores && (
+                <div className="flex-shrink-0 w-24 h-24 rounded-full bg-rose-50 dark:bg-rose-100 flex items-center justify-center shadow-inner border border-rose-100 dark:border-transparent">
+                  <span className="text-4xl font-bold text-rose-600">{scores.overallScore}</span>
+                </div>
+              )}
+            </div>
+            {journey && (
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div className="rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-700 p-3">
+                  <p className="text-xs font-medium text-slate-500 dark:text-slate-400 flex items-center gap-1.5 mb-1">
+                    <ListOrdered size={14} /> Step count
+                  </p>
+                  <p className="font-bold text-slate-900 dark:text-white">
+                    {screens.length} today · {stepCount?.recommended} recommended
+                  </p>
+                </div>
+                <div className="rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-700 p-3">
+                  <p className="text-xs font-medium text-slate-500 dark:text-slate-400 flex items-center gap-1.5 mb-1">
+                    <DoorClosed size={14} /> Dead ends
+                  </p>
+                  <p className={`font-bold ${deadEnds.length > 0 ? 'text-rose-600 dark:text-rose-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+                    {deadEnds.length > 0 ? `${deadEnds.length} found` : 'None found'}
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Step timeline */}
+        <ol className="relative border-l-2 border-slate-200 dark:border-slate-700 ml-4 space-y-8">
+          {screens.map((screen, i) => {
+            const step = journey?.steps[i];
+            return (
+              <li key={i} className="pl-8 relative">
+                <span className="absolute -left-[17px] top-0 w-8 h-8 rounded-full bg-indigo-600 text-white text-sm font-bold flex items-center justify-center ring-4 ring-white dark:ring-slate-800">
+                  {i + 1}
+                </span>
+                <div className="flex flex-col sm:flex-row gap-4">
+                  <img
+                    src={screen.image}
+                    alt={screen.label || `Step ${i + 1}`}
+                    className="w-full sm:w-40 max-h-56 sm:max-h-40 rounded-lg object-contain bg-slate-100 dark:bg-slate-900 border border-slate-200 dark:border-slate-600"
+                  />
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <h4 className="font-bold text-slate-900 dark:text-white">{screen.label || `Step ${i + 1}`}</h4>
+                      {step && (
+                        <span className={`px-2 py-0.5 rounded-full text-sm font-bold ${scoreBadgeClass(step.scores.overallScore)}`}>
+                          {step.scores.overallScore}
+                        </span>
+                      )}
+                    </div>
+                    {step ? (
+                      step.issues.length > 0 && (
+                        <ul className="space-y-1">
+                          {step.issues.map((issue, j) => (
+                            <li key={j} className="text-sm text-slate-600 dark:text-slate-300 flex gap-2">
+                              <AlertTriangle size={14} className="flex-shrink-0 mt-0.5 text-amber-500" /> {issue}
+                            </li>
+                          ))}
+                        </ul>
+                      )
+                    ) : (
+                      <p className="text-sm text-slate-400 dark:text-slate-500">Waiting for the critique...</p>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+export default JourneyTimeline;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Check, Pencil, Plus, X } from 'lucide-react';
+import { Persona } from '../types';
+import { newPersonaId } from '../services/personaStore';
+
+export interface PersonaPickerProps {
+  builtIn: Persona[];
+  custom: Persona[];
+  selectedIds: string[];
+  limits: { minPersonas: number; maxPersonas: number };
+  onChange: (ids: string[]) => void;
+  onSave: (persona: Persona) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-colors";
+
+// Chooses whose perspectives the critique is written from. Each selected
+// persona gets its own tab on the result page.
+const PersonaPicker: React.FC<PersonaPickerProps> = ({ builtIn, custom, selectedIds, limits, onChange, onSave, onDelete }) => {
+  // The persona being created or edited; an empty id means a new one
+  const [draft, setDraft] = useState<Persona | null>(null);
+  const isFull = selectedIds.length >= limits.maxPersonas;
+
+  const toggle = (id: string) => {
+    if (selectedIds.includes(id)) {
+      if (selectedIds.length > limits.minPersonas) onChange(selectedIds.filter((selected) => selected !== id));
+    } else if (!isFull) {
+      onChange([...selectedIds, id]);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim() || !draft.description.trim()) return;
+    const persona = { id: draft.id || newPersonaId(), name: draft.name.trim(), description: draft.description.trim() };
+    onSave(persona);
+    if (!draft.id && !isFull) onChange([...selectedIds, persona.id]);
+    setDraft(null);
+  };
+
+  const chip = (persona: Persona, isCustom: boolean) => {
+    const selected = selectedIds.includes(persona.id);
+    return (
+      <span
+        key={persona.id}
+        className={`inline-flex items-center rounded-full border text-sm transition-colors ${
+          selected
+            ? 'bg-indigo-600 border-indigo-600 text-white'
+            : 'bg-slate-50 dark:bg-slate-900 border-slate-300 dark:border-slate-700 text-slate-700 dark:text-slate-300'
+        }`}
+      >
+        <button
+          onClick={() => toggle(persona.id)}
+          disabled={!selected && isFull}
+          title={persona.description}
+          aria-pressed={selected}
+          className="flex items-center gap-1 pl-3 pr-2 py-1.5 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {selected && <Check size={14} />} {persona.name}
+        </button>
+        {isCustom && (
+          <button onClick={() => setDraft(persona)} className="pr-2 py-1.5 opacity-70 hover:opacity-100" title="Edit persona">
+            <Pencil size={12} />
+          </button>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {builtIn.map((persona) => chip(persona, false))}
+        {custom.map((persona) => chip(persona, true))}
+        {!draft && (
+          <button
+            onClick={() => setDraft({ id: '', name: '', description: '' })}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-full border border-dashed border-slate-300 dark:border-slate-600 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700/50 transition-colors"
+          >
+            <Plus size={14} /> Your own
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Pick {limits.minPersonas}–{limits.maxPersonas} reviewers. Hover a reviewer to see what they look at.
+      </p>
+
+      {draft && (
+        <div className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50 space-y-2">
+          <input
+            type="text"
+            placeholder="Name, e.g. Compliance Officer"
+            maxLength={40}
+            className={inputClass}
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+          <textarea
+            rows={2}
+            placeholder="What do they look at? e.g. Consent wording, data collection, legal disclosures"
+            maxLength={400}
+            className={`${inputClass} resize-none`}
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          />
+          <div className="flex items-center gap-2">
+            {draft.id && (
+              <button
+                onClick={() => {
+                  onDelete(draft.id);
+                  setDraft(null);
+                }}
+                className="flex items-center gap-1 text-sm font-medium text-red-600 hover:text-red-700 dark:text-red-400"
+              >
+                <X size={14} /> Delete
+              </button>
+            )}
+            <div className="ml-auto flex gap-2">
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!draft.name.trim() || !draft.description.trim()}
+                className="px-3 py-1.5 rounded-lg text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50"
+              >
+                Save Persona
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PersonaPicker;
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Users } from 'lucide-react';
+import { Persona } from '../types';
+
+interface PerspectiveTabsProps {
+  perspectives: Record<string, string>; // markdown per persona id
+  personas?: Persona[]; // names the tabs; unknown ids are shown as-is
+}
+
+// The 360° Perspective Analysis, one tab per reviewer persona
+const PerspectiveTabs: React.FC<PerspectiveTabsProps> = ({ perspectives, personas = [] }) => {
+  // Selected personas first, in the order they were picked
+  const ids = [
+    ...personas.map((persona) => persona.id).filter((id) => perspectives[id]),
+    ...Object.keys(perspectives).filter((id) => perspectives[id] && !personas.some((persona) => persona.id === id)),
+  ];
+  const [activeId, setActiveId] = useState(ids[0]);
+  const active = ids.includes(activeId) ? activeId : ids[0];
+
+  if (ids.length === 0) return null;
+
+  const nameOf = (id: string) => personas.find((persona) => persona.id === id)?.name ?? id;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-lg overflow-hidden transition-colors duration-300">
+      <div className="px-8 pt-6 md:px-10">
+        <h3 className="text-xs font-bold text-slate-400 dark:text-slate-400 uppercase tracking-wider flex items-center gap-2 mb-4">
+          <Users size={14} /> 360° Perspective Analysis
+        </h3>
+      </div>
+      <div role="tablist" className="flex border-b border-slate-200 dark:border-slate-700 overflow-x-auto px-6 md:px-8">
+        {ids.map((id) => (
+          <button
+            key={id}
+            role="tab"
+            aria-selected={id === active}
+            onClick={() => setActiveId(id)}
+            title={personas.find((persona) => persona.id === id)?.description}
+            className={`px-4 py-3 text-sm font-medium whitespace-nowrap border-b-2 -mb-px transition-colors ${
+              id === active
+                ? 'border-indigo-600 text-indigo-600 dark:border-indigo-400 dark:text-indigo-400'
+                : 'border-transparent text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-white'
+            }`}
+          >
+            {nameOf(id)}
+          </button>
+        ))}
+      </div>
+      <article role="tabpanel" className="prose prose-slate dark:prose-invert max-w-none p-8 md:p-10 prose-strong:text-slate-900 dark:prose-strong:text-white">
+        <ReactMarkdown>{perspectives[active]}</ReactMarkdown>
+      </article>
+    </div>
+  );
+};
+
+export default PerspectiveTabs;
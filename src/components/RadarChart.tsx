@@ -0,0 +1,163 @@
+import React from 'react';
+import { DesignScore } from '../types';
+import { DEFAULT_AXES, MetricAxis } from '../utils/metrics';
+
+type Metrics = DesignScore['metrics'];
+
+interface RadarChartProps {
+  metrics: Metrics;
+  axes?: MetricAxis[]; // one per rubric dimension, clockwise from the top
+  label?: string;
+  // Second shape drawn over the first, e.g. Variant B in compare mode
+  overlay?: { metrics: Metrics; label: string };
+  // Dashed shape drawn behind the first, e.g. the previous revision
+  ghost?: { metrics: Metrics; label: string };
+}
+
+const RadarChart: React.FC<RadarChartProps> = ({ metrics, axes = DEFAULT_AXES, label = 'Design', overlay, ghost }) => {
+  const width = 300;
+  const height = 260; 
+  const centerX = width / 2;
+  const centerY = height / 2 + 10;
+  const radius = 80;
+  const levels = 4;
+
+  const totalPoints = axes.length;
+  const angleSlice = (Math.PI * 2) / totalPoints;
+  const angleOf = (i: number) => i * angleSlice - Math.PI / 2;
+
+  const getCoordinates = (factor: number, i: number) => {
+    const angle = angleOf(i);
+    return {
+      x: centerX + radius * factor * Math.cos(angle),
+      y: centerY + radius * factor * Math.sin(angle),
+    };
+  };
+
+  const levelPaths = Array.from({ length: levels }).map((_, levelIndex) => {
+    const factor = (levelIndex + 1) / levels;
+    const points = axes.map((_, i) => {
+      const { x, y } = getCoordinates(factor, i);
+      return `${x},${y}`;
+    });
+    return points.join(' ');
+  });
+
+  // A dimension missing from the scores (e.g. added to the rubric later) sits at 0
+  const toPolygon = (values: Metrics) => axes.map(({ key }, i) => {
+    const { x, y } = getCoordinates((values[key] ?? 0) / 10, i);
+    return `${x},${y}`;
+  }).join(' ');
+
+  const dataPathString = toPolygon(metrics);
+
+  return (
+    <div className="flex flex-col items-center">
+      <svg width="100%" viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+        {/* Background Web */}
+        {levelPaths.map((path, i) => (
+          <polygon
+            key={i}
+            points={path}
+            fill="none"
+            className="stroke-slate-300 dark:stroke-slate-700 transition-colors"
+            strokeWidth="1"
+          />
+        ))}
+
+        {/* Axes Lines */}
+        {axes.map((_, i) => {
+          const { x, y } = getCoordinates(1, i);
+          return (
+            <line
+              key={i}
+              x1={centerX}
+              y1={centerY}
+              x2={x}
+              y2={y}
+              className="stroke-slate-300 dark:stroke-slate-700 transition-colors"
+              strokeWidth="1"
+            />
+          );
+        })}
+
+        {ghost && (
+          <polygon
+            points={toPolygon(ghost.metrics)}
+            fill="none"
+            className="stroke-slate-400 dark:stroke-slate-500 transition-colors"
+            strokeWidth="1.5"
+            strokeDasharray="4 3"
+            strokeLinejoin="round"
+          />
+        )}
+
+        {/* Data Shape */}
+        <polygon
+          points={dataPathString}
+          className="fill-indigo-500/20 stroke-indigo-500 dark:fill-indigo-500/30 dark:stroke-indigo-400 transition-colors"
+          strokeWidth="2"
+          strokeLinejoin="round"
+        />
+
+        {overlay && (
+          <polygon
+            points={toPolygon(overlay.metrics)}
+            className="fill-amber-500/20 stroke-amber-500 dark:fill-amber-400/20 dark:stroke-amber-400 transition-colors"
+            strokeWidth="2"
+            strokeLinejoin="round"
+          />
+        )}
+
+        {/* Labels */}
+        {axes.map((axis, i) => {
+          const { x, y } = getCoordinates(1.25, i);
+          // Anchor labels away from the chart: left of the axes on the right side, and so on
+          const cos = Math.cos(angleOf(i));
+          const sin = Math.sin(angleOf(i));
+          let textAnchor: 'start' | 'middle' | 'end' = 'middle';
+          if (cos > 0.2) textAnchor = 'start';
+          if (cos < -0.2) textAnchor = 'end';
+
+          let yOffset = 0;
+          if (sin < -0.9) yOffset = -5;
+          if (sin > 0.5) yOffset = 5;
+
+          return (
+            <text
+              key={axis.key}
+              x={x}
+              y={y + yOffset}
+              textAnchor={textAnchor}
+              fontSize="11"
+              className="font-medium fill-slate-500 dark:fill-slate-400 transition-colors"
+              style={{ textShadow: '0px 1px 2px rgba(0,0,0,0.05)' }}
+            >
+              {axis.label}
+            </text>
+          );
+        })}
+      </svg>
+
+      {(overlay || ghost) && (
+        <div className="mt-2 flex items-center gap-4 text-xs font-medium text-slate-500 dark:text-slate-400">
+          {ghost && (
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded-sm border-2 border-dashed border-slate-400 dark:border-slate-500" /> {ghost.label}
+            </span>
+          )}
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-sm bg-indigo-500/30 border-2 border-indigo-500 dark:border-indigo-400" /> {label}
+          </span>
+          {overlay && (
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded-sm bg-amber-500/30 border-2 border-amber-500 dark:border-amber-400" /> {overlay.label}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RadarChart;
\ No newline at end of file
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { Rubric, RubricDimension } from '../types';
+
+interface RubricEditorProps {
+  rubric: Rubric;
+  limits: { minDimensions: number; maxDimensions: number };
+  onSave: (rubric: Rubric) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+// The editor offers the usual three anchors; the server accepts any 0-10 scores
+const ANCHOR_SCORES = [0, 5, 10];
+const MAX_WEIGHT = 10;
+
+interface DimensionDraft {
+  key?: string; // kept for existing dimensions so saved scores still line up
+  label: string;
+  description: string;
+  weight: number;
+  anchors: string[]; // one per ANCHOR_SCORES entry, blank to leave out
+}
+
+const toDraft = (dimension: RubricDimension): DimensionDraft => ({
+  key: dimension.key,
+  label: dimension.label,
+  description: dimension.description,
+  weight: dimension.weight,
+  anchors: ANCHOR_SCORES.map((score) => dimension.anchors.find((anchor) => anchor.score === score)?.description ?? ''),
+});
+
+// "Brand Consistency" -> "brandConsistency"
+const toKey = (label: string) => {
+  const words = label.replace(/[^A-Za-z0-9 ]+/g, ' ').trim().split(/\s+/).filter(Boolean);
+  const key = words
+    .map((word, i) => (i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()))
+    .join('')
+    .replace(/^[0-9]+/, '')
+    .slice(0, 36);
+  return key ? key[0].toLowerCase() + key.slice(1) : 'dimension';
+};
+
+const fromDrafts = (drafts: DimensionDraft[]): RubricDimension[] => {
+  const used = new Set(drafts.map((draft) => draft.key).filter(Boolean));
+  return drafts.map((draft) => {
+    let key = draft.key;
+    if (!key) {
+      const base = toKey(draft.label);
+      key = base;
+      for (let n = 2; used.has(key); n++) key = `${base}${n}`;
+      used.add(key);
+    }
+    return {
+      key,
+      label: draft.label.trim(),
+      description: draft.description.trim(),
+      weight: draft.weight,
+      anchors: ANCHOR_SCORES
+        .map((score, i) => ({ score, description: draft.anchors[i].trim() }))
+        .filter((anchor) => anchor.description),
+    };
+  });
+};
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-colors";
+
+// Modal for building a custom rubric: its dimensions, how each is judged and
+// how much each counts towards the overall score
+const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, limits, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState(rubric.name);
+  const [drafts, setDrafts] = useState<DimensionDraft[]>(rubric.dimensions.map(toDraft));
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDraft = (index: number, patch: Partial<DimensionDraft>) => {
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+  };
+
+  const moveDraft = (index: number, offset: number) => {
+    setDrafts((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addDraft = () => {
+    setDrafts((prev) => [...prev, { label: '', description: '', weight: 1, anchors: ANCHOR_SCORES.map(() => '') }]);
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return setError("Give the rubric a name.");
+    if (drafts.length < limits.minDimensions || drafts.length > limits.maxDimensions) {
+      return setError(`A rubric needs ${limits.minDimensions} to ${limits.maxDimensions} dimensions.`);
+    }
+    if (drafts.some((draft) => !draft.label.trim() || !draft.description.trim())) {
+      return setError("Every dimension needs a label and a description.");
+    }
+    if (drafts.some((draft) => !(draft.weight > 0) || draft.weight > MAX_WEIGHT)) {
+      return setError(`Weights must be above 0 and at most ${MAX_WEIGHT}.`);
+    }
+    onSave({ id: rubric.id, name: name.trim(), dimensions: fromDrafts(drafts) });
+  };
+
+  const totalWeight = drafts.reduce((sum, draft) => sum + (draft.weight > 0 ? draft.weight : 0), 0);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Scoring Rubric</h3>
+          <button onClick={onClose} className="p-1.5 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <input
+            type="text"
+            placeholder="Rubric name, e.g. Brand Review"
+            maxLength={60}
+            className={inputClass}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+
+          {drafts.map((draft, i) => (
+            <div key={i} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  placeholder="Label, e.g. Motion"
+                  maxLength={40}
+                  className={inputClass}
+                  value={draft.label}
+                  onChange={(e) => updateDraft(i, { label: e.target.value })}
+                />
+                <label className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                  Weight
+                  <input
+                    type="number"
+                    min={0.5}
+                    max={MAX_WEIGHT}
+                    step={0.5}
+                    className={`${inputClass} w-20`}
+                    value={draft.weight}
+                    onChange={(e) => updateDraft(i, { weight: Number(e.target.value) })}
+                  />
+                </label>
+                <span className="text-xs text-slate-400 w-10 text-right">
+                  {totalWeight > 0 && draft.weight > 0 ? `${Math.round((draft.weight / totalWeight) * 100)}%` : ''}
+                </span>
+                <div className="flex items-center gap-1 text-slate-500 dark:text-slate-400">
+                  <button onClick={() => moveDraft(i, -1)} disabled={i === 0} className="p-1.5 rounded hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-30" title="Move up">
+                    <ArrowUp size={16} />
+                  </button>
+                  <button onClick={() => moveDraft(i, 1)} disabled={i === drafts.length - 1} className="p-1.5 rounded hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-30" title="Move down">
+                    <ArrowDown size={16} />
+                  </button>
+                  <button
+                    onClick={() => setDrafts((prev) => prev.filter((_, j) => j !== i))}
+                    disabled={drafts.length <= limits.minDimensions}
+                    className="p-1.5 rounded hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-900/30 dark:hover:text-red-400 disabled:opacity-30"
+                    title="Remove"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              </div>
+              <input
+                type="text"
+                placeholder="What is judged, e.g. Purposeful transitions, no gratuitous animation"
+                maxLength={300}
+                className={inputClass}
+                value={draft.description}
+                onChange={(e) => updateDraft(i, { description: e.target.value })}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                {ANCHOR_SCORES.map((score, j) => (
+                  <input
+                    key={score}
+                    type="text"
+                    placeholder={`What a ${score} looks like (optional)`}
+                    maxLength={300}
+                    className={inputClass}
+                    value={draft.anchors[j]}
+                    onChange={(e) => updateDraft(i, { anchors: draft.anchors.map((text, k) => (k === j ? e.target.value : text)) })}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {drafts.length < limits.maxDimensions && (
+            <button
+              onClick={addDraft}
+              className="w-full border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-xl p-4 flex items-center justify-center gap-2 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700/50 transition-colors"
+            >
+              <Plus size={16} /> Add a dimension
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-4 border-t border-slate-200 dark:border-slate-700">
+          {onDelete && (
+            <button onClick={onDelete} className="flex items-center gap-1 text-sm font-medium text-red-600 hover:text-red-700 dark:text-red-400">
+              <Trash2 size={16} /> Delete
+            </button>
+          )}
+          {error && <p className="flex-1 text-sm text-rose-600 dark:text-rose-400 text-right">{error}</p>}
+          <div className="ml-auto flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">
+              Cancel
+            </button>
+            <button onClick={handleSave} className="px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white transition-colors">
+              Save Rubric
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RubricEditor;
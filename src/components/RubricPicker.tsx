@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Copy, Pencil } from 'lucide-react';
+import { Rubric } from '../types';
+import { newRubricId } from '../services/rubricStore';
+import RubricEditor from './RubricEditor';
+
+export interface RubricPickerProps {
+  builtIn: Rubric[];
+  custom: Rubric[];
+  selected?: Rubric;
+  limits: { minDimensions: number; maxDimensions: number };
+  onSelect: (id: string) => void;
+  onSave: (rubric: Rubric) => void;
+  onDelete: (id: string) => void;
+}
+
+// Chooses the rubric the next critique is scored with. Built-in rubrics can't
+// be edited, only copied into a custom one.
+const RubricPicker: React.FC<RubricPickerProps> = ({ builtIn, custom, selected, limits, onSelect, onSave, onDelete }) => {
+  const [editing, setEditing] = useState<Rubric | null>(null);
+  const isCustom = !!selected && custom.some((rubric) => rubric.id === selected.id);
+  const totalWeight = selected?.dimensions.reduce((sum, dimension) => sum + dimension.weight, 0) ?? 0;
+
+  if (!selected) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="flex-1 min-w-[12rem] bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-colors"
+          value={selected.id}
+          onChange={(e) => onSelect(e.target.value)}
+        >
+          <optgroup label="Built-in">
+            {builtIn.map((rubric) => <option key={rubric.id} value={rubric.id}>{rubric.name}</option>)}
+          </optgroup>
+          {custom.length > 0 && (
+            <optgroup label="Custom">
+              {custom.map((rubric) => <option key={rubric.id} value={rubric.id}>{rubric.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        {isCustom && (
+          <button
+            onClick={() => setEditing(selected)}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-900 dark:text-white transition-colors"
+          >
+            <Pencil size={14} /> Edit
+          </button>
+        )}
+        <button
+          onClick={() => setEditing({ ...selected, id: newRubricId(), name: `${selected.name} (copy)` })}
+          className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-900 dark:text-white transition-colors"
+        >
+          <Copy size={14} /> Customize
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {selected.dimensions.map((dimension) => (
+          <span
+            key={dimension.key}
+            title={dimension.description}
+            className="px-2 py-1 rounded-md text-xs bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300"
+          >
+            {dimension.label} · {Math.round((dimension.weight / totalWeight) * 100)}%
+          </span>
+        ))}
+      </div>
+
+      {editing && (
+        <RubricEditor
+          rubric={editing}
+          limits={limits}
+          onSave={(rubric) => {
+            onSave(rubric);
+            setEditing(null);
+          }}
+          onDelete={custom.some((rubric) => rubric.id === editing.id) ? () => {
+            onDelete(editing.id);
+            setEditing(null);
+          } : undefined}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default RubricPicker;
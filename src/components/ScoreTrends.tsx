@@ -0,0 +1,98 @@
+import React from 'react';
+import { TrendingUp } from 'lucide-react';
+import { AnalysisRecord } from '../types';
+import { DEFAULT_AXES, MetricAxis, formatDelta, deltaClass } from '../utils/metrics';
+
+interface ScoreTrendsProps {
+  revisions: AnalysisRecord[]; // oldest first, the current revision last
+  axes?: MetricAxis[]; // the current revision's rubric
+}
+
+interface SparklineProps {
+  values: number[];
+  max: number;
+  width?: number;
+  height?: number;
+}
+
+const Sparkline: React.FC<SparklineProps> = ({ values, max, width = 120, height = 32 }) => {
+  const pad = 3;
+  const step = values.length > 1 ? (width - pad * 2) / (values.length - 1) : 0;
+  const points = values.map((value, i) => ({
+    x: pad + i * step,
+    y: height - pad - (Math.min(Math.max(value, 0), max) / max) * (height - pad * 2),
+  }));
+  const last = points[points.length - 1];
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+      <polyline
+        points={points.map(({ x, y }) => `${x},${y}`).join(' ')}
+        fill="none"
+        className="stroke-indigo-500 dark:stroke-indigo-400"
+        strokeWidth="2"
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+      {points.slice(0, -1).map(({ x, y }, i) => (
+        <circle key={i} cx={x} cy={y} r="2" className="fill-slate-300 dark:fill-slate-600" />
+      ))}
+      <circle cx={last.x} cy={last.y} r="3" className="fill-indigo-500 dark:fill-indigo-400" />
+    </svg>
+  );
+};
+
+// Overall and per-metric scores across the revisions of a design thread
+const ScoreTrends: React.FC<ScoreTrendsProps> = ({ revisions, axes = DEFAULT_AXES }) => {
+  if (revisions.length < 2) return null;
+
+  const current = revisions[revisions.length - 1].scores;
+  const previous = revisions[revisions.length - 2].scores;
+  const overallDelta = current.overallScore - previous.overallScore;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-lg p-6 md:p-8 mb-8 transition-colors duration-300">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <TrendingUp size={18} className="text-indigo-600 dark:text-indigo-400" /> Score Trend
+          </h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Revision {revisions[revisions.length - 1].revision} · {revisions.length} revisions of this design
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <Sparkline values={revisions.map((r) => r.scores.overallScore)} max={100} width={160} height={40} />
+          <div className="text-right">
+            <span className="text-3xl font-bold text-slate-900 dark:text-white">{current.overallScore}</span>
+            <span className={`block text-sm font-bold ${deltaClass(overallDelta)}`}>{formatDelta(overallDelta)}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+        {axes.map(({ key, label }) => {
+          // Revisions scored on another rubric may lack this dimension
+          const history = revisions.map((r) => r.scores.metrics[key]).filter((value) => typeof value === 'number');
+          const delta = typeof previous.metrics[key] === 'number' ? current.metrics[key] - previous.metrics[key] : 0;
+          return (
+            <div key={key} className="rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-700 p-3">
+              <p className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-2 truncate" title={label}>
+                {label}
+              </p>
+              <div className="flex items-end justify-between gap-2">
+                <Sparkline values={history} max={10} width={90} />
+                <div className="text-right leading-tight">
+                  <span className="block font-bold text-slate-900 dark:text-white">{current.metrics[key]}</span>
+                  <span className={`block text-xs font-bold ${deltaClass(delta)}`}>{formatDelta(delta)}</span>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ScoreTrends;
@@ -0,0 +1,39 @@
+import { DesignSystemProfile } from "../types";
+
+// Imported design system profiles and the active one, kept in localStorage.
+// The active profile is sent in full with each single-design analysis.
+
+const PROFILES_KEY = 'designcat_design_systems';
+const SELECTED_KEY = 'designcat_design_system_id';
+
+export const loadDesignSystems = (): DesignSystemProfile[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+// Adds the profile, or replaces the one with the same id
+export const saveDesignSystem = (profile: DesignSystemProfile): DesignSystemProfile[] => {
+  const profiles = loadDesignSystems();
+  const index = profiles.findIndex((p) => p.id === profile.id);
+  const next = index === -1 ? [...profiles, profile] : profiles.map((p, i) => (i === index ? profile : p));
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(next));
+  return next;
+};
+
+export const deleteDesignSystem = (id: string): DesignSystemProfile[] => {
+  const next = loadDesignSystems().filter((p) => p.id !== id);
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(next));
+  return next;
+};
+
+// Null means critiques aren't checked against a design system
+export const loadSelectedDesignSystemId = (): string | null => localStorage.getItem(SELECTED_KEY);
+
+export const saveSelectedDesignSystemId = (id: string | null) => {
+  if (id) localStorage.setItem(SELECTED_KEY, id);
+  else localStorage.removeItem(SELECTED_KEY);
+};
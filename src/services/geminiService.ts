@@ -1,86 +1,356 @@
-import { DesignContext, DesignScore, ChatMessage } from "../types";
+import { Breakpoint, BreakpointShot, DesignContext, DesignScore, DesignCritique, DesignComparison, DesignVariant, DesignJourney, JourneyScreen, ChatMessage, ContrastReport, CaptureMode, CaptureViewport, DesignSystem, FigmaFrame, IngestResult, OffPaletteColor, PageCapture, Persona, PreviousRevision, Rubric, StoredSession } from "../types";
 
 export interface AnalysisResponse {
   text: string;
   scores: DesignScore | null;
+  critique: DesignCritique | null;
 }
 
-// Helper to parse the specific JSON format we requested from the model
-const parseResponse = (fullText: string) => {
-  let scores: DesignScore | null = null;
-  let markdownText = fullText;
-
-  try {
-    const separatorIndex = fullText.indexOf('---SEPARATOR---');
-    if (separatorIndex !== -1) {
-      const jsonStr = fullText.substring(0, separatorIndex).trim();
-      markdownText = fullText.substring(separatorIndex + 15).trim();
-      const cleanJson = jsonStr.replace(/```json/g, '').replace(/```/g, '').trim();
-      scores = JSON.parse(cleanJson);
-    } else {
-      const jsonMatch = fullText.match(/\{[\s\S]*?\}/);
-      if (jsonMatch) {
-        scores = JSON.parse(jsonMatch[0]);
-        markdownText = fullText.replace(jsonMatch[0], '').trim();
-      }
+// Thrown when the server gives up on a request. `code` is set for failures the
+// UI can explain, e.g. INVALID_CRITIQUE when the model's reply never validated.
+export class AnalysisError extends Error {
+  code?: string;
+  issues: string[];
+
+  constructor(message: string, code?: string, issues: string[] = []) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+const toAnalysisError = (body: any, fallback: string) =>
+  new AnalysisError(body?.error || fallback, body?.code, body?.issues);
+
+// Reads a text/event-stream body, invoking onEvent for every complete frame
+const readEventStream = async (
+  response: Response,
+  onEvent: (event: string, data: any) => void
+) => {
+  if (!response.body) throw new Error("Streaming is not supported by this browser");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (frame: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    frame.split('\n').forEach((line) => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+    });
+    if (dataLines.length === 0) return;
+    onEvent(event, JSON.parse(dataLines.join('\n')));
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
     }
-  } catch (e) {
-    console.error("Failed to parse scores locally:", e);
   }
-  return { text: markdownText, scores };
+  if (buffer.trim()) dispatch(buffer);
+};
+
+// POSTs to an SSE endpoint and dispatches every event to onEvent
+const postEventStream = async (
+  url: string,
+  payload: unknown,
+  onEvent: (event: string, data: any) => void,
+  fallbackError: string
+) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+    body: JSON.stringify(payload)
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw toAnalysisError(err, fallbackError);
+  }
+
+  await readEventStream(response, onEvent);
 };
 
+// Extra facts sent along with the image
+export interface AnalyzeOptions {
+  previous?: PreviousRevision; // the revision this upload replaces
+  contrast?: ContrastReport; // measured locally from the image pixels
+  rubric?: Rubric; // dimensions and weights to score on (server default when missing)
+  personas?: Persona[]; // lenses to write the critique through (server default when missing)
+  designSystem?: DesignSystem; // tokens to check conformance against
+  offPalette?: OffPaletteColor[]; // measured colours outside designSystem's palette
+}
+
 export const analyzeDesign = async (
   imageBase64: string | null,
   context: DesignContext,
-  themeMode: 'day' | 'night' = 'day'
+  themeMode: 'day' | 'night' = 'day',
+  onProgress?: (partial: AnalysisResponse) => void,
+  { previous, contrast, rubric, personas, designSystem, offPalette }: AnalyzeOptions = {}
 ): Promise<AnalysisResponse> => {
-  
+  const fallbackError = "Server failed to analyze design";
+  let partial: AnalysisResponse = { text: '', scores: null, critique: null };
+  let result: AnalysisResponse | null = null;
+  let failure: AnalysisError | null = null;
+
   // Call our own backend
-  const response = await fetch('/api/analyze', {
+  await postEventStream('/api/analyze/stream', { imageBase64, context, themeMode, previous, contrast, rubric, personas, designSystem, offPalette }, (event, data) => {
+    if (event === 'scores') {
+      partial = { ...partial, scores: data.scores };
+      onProgress?.(partial);
+    } else if (event === 'markdown') {
+      partial = { ...partial, text: data.text };
+      onProgress?.(partial);
+    } else if (event === 'done') {
+      result = { text: data.text, scores: data.critique.scores, critique: data.critique };
+    } else if (event === 'error') {
+      failure = toAnalysisError(data, fallbackError);
+    }
+  }, fallbackError);
+
+  if (failure) throw failure;
+  if (!result) throw new AnalysisError(fallbackError);
+  return result;
+};
+
+export interface JourneyResponse {
+  text: string;
+  scores: DesignScore;
+  journey: DesignJourney;
+}
+
+// Journeys go through the analyze endpoint with `screens` instead of one image
+export const analyzeJourney = async (
+  screens: JourneyScreen[],
+  context: DesignContext,
+  themeMode: 'day' | 'night' = 'day',
+  onProgress?: (partial: { text: string; scores: DesignScore | null }) => void,
+  rubric?: Rubric
+): Promise<JourneyResponse> => {
+  const fallbackError = "Server failed to analyze the journey";
+  let partial: { text: string; scores: DesignScore | null } = { text: '', scores: null };
+  let result: JourneyResponse | null = null;
+  let failure: AnalysisError | null = null;
+
+  await postEventStream('/api/analyze/stream', { screens, context, themeMode, rubric }, (event, data) => {
+    if (event === 'scores') {
+      partial = { ...partial, scores: data.scores };
+      onProgress?.(partial);
+    } else if (event === 'markdown') {
+      partial = { ...partial, text: data.text };
+      onProgress?.(partial);
+    } else if (event === 'done') {
+      result = { text: data.text, scores: data.journey.scores, journey: data.journey };
+    } else if (event === 'error') {
+      failure = toAnalysisError(data, fallbackError);
+    }
+  }, fallbackError);
+
+  if (failure) throw failure;
+  if (!result) throw new AnalysisError(fallbackError);
+  return result;
+};
+
+export interface ComparisonResponse {
+  text: string;
+  comparison: DesignComparison;
+}
+
+export const compareDesigns = async (
+  variants: DesignVariant[],
+  context: DesignContext,
+  themeMode: 'day' | 'night' = 'day',
+  onProgress?: (partialText: string) => void,
+  rubric?: Rubric
+): Promise<ComparisonResponse> => {
+  const fallbackError = "Server failed to compare designs";
+  let result: ComparisonResponse | null = null;
+  let failure: AnalysisError | null = null;
+
+  await postEventStream('/api/compare/stream', { variants, context, themeMode, rubric }, (event, data) => {
+    if (event === 'markdown') {
+      onProgress?.(data.text);
+    } else if (event === 'done') {
+      result = { text: data.text, comparison: data.comparison };
+    } else if (event === 'error') {
+      failure = toAnalysisError(data, fallbackError);
+    }
+  }, fallbackError);
+
+  if (failure) throw failure;
+  if (!result) throw new AnalysisError(fallbackError);
+  return result;
+};
+
+// Parses a JSON response, turning non-2xx replies into AnalysisError
+const readJson = async (response: Response, fallbackError: string) => {
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw toAnalysisError(err, fallbackError);
+  }
+  return response.json();
+};
+
+export interface RubricCatalog {
+  rubrics: Rubric[];
+  defaultId: string;
+  limits: { minDimensions: number; maxDimensions: number };
+}
+
+// Built-in scoring rubrics; custom ones live in the browser (see rubricStore)
+export const listRubrics = async (): Promise<RubricCatalog> => {
+  const response = await fetch('/api/rubrics');
+  return readJson(response, "Failed to load scoring rubrics");
+};
+
+export interface PersonaCatalog {
+  personas: Persona[];
+  defaultIds: string[];
+  limits: { minPersonas: number; maxPersonas: number };
+}
+
+// Built-in reviewer personas; custom ones live in the browser (see personaStore)
+export const listPersonas = async (): Promise<PersonaCatalog> => {
+  const response = await fetch('/api/personas');
+  return readJson(response, "Failed to load reviewer personas");
+};
+
+// Sends an uploaded file to the server as is. It comes back as images ready to
+// analyze: the real type detected, HEIC converted, PDF pages rendered, EXIF
+// removed and oversized images scaled down. Unsupported files fail with code
+// UNSUPPORTED_FILE.
+export const ingestFile = async (file: Blob): Promise<IngestResult> => {
+  const response = await fetch('/api/ingest', {
+    method: 'POST',
+    // The server reads the type from the bytes, not this label
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: file
+  });
+  return readJson(response, "Failed to process the file");
+};
+
+export interface FigmaImport {
+  image: string; // PNG data URL
+  frame: FigmaFrame;
+}
+
+// Renders the frame a figma.com link points to, server-side with its Figma
+// token. Fails with code FIGMA_NOT_CONFIGURED when the server has no token.
+export const importFigmaFrame = async (url: string): Promise<FigmaImport> => {
+  const response = await fetch('/api/figma/import', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      imageBase64,
-      context,
-      themeMode
-    })
+    body: JSON.stringify({ url })
   });
+  return readJson(response, "Failed to import from Figma");
+};
 
-  if (!response.ok) {
-    const err = await response.json();
-    throw new Error(err.error || "Server failed to analyze design");
-  }
+export interface PageCaptureResult {
+  image: string; // PNG data URL
+  page: PageCapture;
+}
+
+// Screenshots a live page with the server's headless browser. Fails with code
+// CAPTURE_UNAVAILABLE when the browser can't run there.
+export const capturePage = async (url: string, viewport: CaptureViewport, mode: CaptureMode): Promise<PageCaptureResult> => {
+  const response = await fetch('/api/capture', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url, viewport, mode })
+  });
+  return readJson(response, "Failed to capture the page");
+};
+
+export interface PreviewAssets {
+  css: string; // compiled Tailwind CSS for the page's classes
+  icons: Record<string, string>; // Lucide icon name -> SVG markup
+  missingIcons: string[]; // names lucide-react doesn't have
+  warnings: string[];
+}
 
-  const data = await response.json();
-  const { text, scores } = parseResponse(data.text);
+// Compiles what a generated page would otherwise fetch from CDNs; the page's
+// Tailwind config is sent as already-parsed JSON (see utils/previewRuntime.ts)
+export const fetchPreviewAssets = async (request: {
+  html: string;
+  config?: Record<string, unknown> | null;
+  css?: string;
+  icons?: string[];
+}): Promise<PreviewAssets> => {
+  const response = await fetch('/api/preview/assets', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+  return readJson(response, "Failed to build the preview");
+};
 
-  return { text, scores };
+// Renders a self-contained preview page at each breakpoint with the server's
+// headless browser. Fails with code CAPTURE_UNAVAILABLE when it can't run there.
+export const captureBreakpoints = async (html: string, breakpoints: Breakpoint[]): Promise<Omit<BreakpointShot, 'version'>[]> => {
+  const response = await fetch('/api/preview/screenshots', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ html, breakpoints })
+  });
+  const { shots } = await readJson(response, "Failed to screenshot the design");
+  return shots;
 };
 
-export const sendChatMessage = async (
-  history: ChatMessage[],
-  message: string,
+export const createChatSession = async (
   imageBase64: string | null,
-  context: DesignContext
-): Promise<string> => {
-  
-  const response = await fetch('/api/chat', {
+  context: DesignContext,
+  critique: DesignCritique,
+  turns: ChatMessage[] = [],
+  rubric?: Rubric, // the rubric the critique was scored with
+  personas?: Persona[], // the personas its perspectives were written for
+  designSystem?: DesignSystem // constrains generated HTML to its tokens
+): Promise<StoredSession> => {
+  const response = await fetch('/api/sessions', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      history,
-      message,
-      imageBase64,
-      context
-    })
+    body: JSON.stringify({ imageBase64, context, critique, turns, rubric, personas, designSystem })
   });
+  return readJson(response, "Failed to start chat session");
+};
 
-  if (!response.ok) {
-    const err = await response.json();
-    throw new Error(err.error || "Failed to send message");
-  }
+export const getChatSession = async (sessionId: string): Promise<StoredSession> => {
+  const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}`);
+  return readJson(response, "Failed to load chat session");
+};
 
-  const data = await response.json();
-  return data.text;
-};
\ No newline at end of file
+export const sendChatMessage = async (
+  sessionId: string,
+  message: string,
+  onDelta?: (partialText: string) => void
+): Promise<string> => {
+  const fallbackError = "Failed to send message";
+  let accumulated = '';
+  let finalText: string | null = null;
+  let failure: AnalysisError | null = null;
+
+  const url = `/api/sessions/${encodeURIComponent(sessionId)}/messages/stream`;
+  await postEventStream(url, { message }, (event, data) => {
+    if (event === 'delta') {
+      accumulated += data.text;
+      onDelta?.(accumulated);
+    } else if (event === 'done') {
+      finalText = data.text;
+    } else if (event === 'error') {
+      failure = toAnalysisError(data, fallbackError);
+    }
+  }, fallbackError);
+
+  if (failure) throw failure;
+  if (finalText === null) throw new AnalysisError(fallbackError);
+  return finalText;
+};
@@ -0,0 +1,134 @@
+import { AnalysisRecord } from "../types";
+
+// Local analysis library backed by IndexedDB. Everything stays in the browser;
+// nothing here talks to the server. Records carry a thumbnail for the library;
+// the full image, which reopened chats and revisions need, is kept in its own
+// store so listing the library doesn't load every upload.
+
+const DB_NAME = 'designcat';
+const DB_VERSION = 3;
+const STORE = 'analyses';
+const IMAGE_STORE = 'images'; // full-size data URLs, keyed by analysis id
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const store = db.objectStoreNames.contains(STORE)
+        ? request.transaction!.objectStore(STORE)
+        : db.createObjectStore(STORE, { keyPath: 'id' });
+
+      if (event.oldVersion < 1) {
+        store.createIndex('createdAt', 'createdAt');
+        store.createIndex('sessionId', 'sessionId');
+      }
+      if (event.oldVersion < 2) {
+        // v2: design threads. Older analyses each become a one-revision thread.
+        store.createIndex('threadId', 'threadId');
+        store.openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          if (!cursor.value.threadId) cursor.update({ ...cursor.value, threadId: cursor.value.id, revision: 1 });
+          cursor.continue();
+        };
+      }
+      if (event.oldVersion < 3) {
+        // v3: full images. Older analyses only have their thumbnail.
+        db.createObjectStore(IMAGE_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Let a later call retry if opening failed (e.g. private browsing quirks)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Runs requests in one transaction and resolves with the result of the request
+// `run` returns once the transaction has committed, so a write that fails while
+// committing (e.g. the storage quota is exceeded) rejects instead of resolving
+const withTransaction = async <T>(
+  mode: IDBTransactionMode,
+  storeNames: string[],
+  run: (transaction: IDBTransaction) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const request = run(transaction);
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("The transaction was aborted"));
+  });
+};
+
+// Runs a single request against the store and resolves with its result
+const withStore = <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = STORE
+): Promise<T> => withTransaction(mode, [storeName], (transaction) => run(transaction.objectStore(storeName)));
+
+// The record and its image are written together, so a record is never saved without its image
+export const saveAnalysis = async (
+  record: Omit<AnalysisRecord, 'id' | 'createdAt' | 'updatedAt'>,
+  image: string | null = null
+): Promise<AnalysisRecord> => {
+  const now = new Date().toISOString();
+  const saved: AnalysisRecord = { ...record, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+  await withTransaction('readwrite', [STORE, IMAGE_STORE], (transaction) => {
+    if (image) transaction.objectStore(IMAGE_STORE).put(image, saved.id);
+    return transaction.objectStore(STORE).put(saved);
+  });
+  return saved;
+};
+
+export const updateAnalysis = async (
+  id: string,
+  changes: Partial<Omit<AnalysisRecord, 'id' | 'createdAt'>>
+): Promise<AnalysisRecord | null> => {
+  const existing = await getAnalysis(id);
+  if (!existing) return null;
+  const updated: AnalysisRecord = { ...existing, ...changes, updatedAt: new Date().toISOString() };
+  await withStore('readwrite', (store) => store.put(updated));
+  return updated;
+};
+
+export const getAnalysis = async (id: string): Promise<AnalysisRecord | null> =>
+  (await withStore<AnalysisRecord | undefined>('readonly', (store) => store.get(id))) ?? null;
+
+// The image as it was analyzed, or null for analyses saved before full images were kept
+export const getAnalysisImage = async (id: string): Promise<string | null> =>
+  (await withStore<string | undefined>('readonly', (store) => store.get(id), IMAGE_STORE)) ?? null;
+
+export const findAnalysisBySession = async (sessionId: string): Promise<AnalysisRecord | null> =>
+  (await withStore<AnalysisRecord | undefined>('readonly', (store) => store.index('sessionId').get(sessionId))) ?? null;
+
+// All revisions of a design, oldest first
+export const listThread = async (threadId: string): Promise<AnalysisRecord[]> => {
+  const records = await withStore<AnalysisRecord[]>('readonly', (store) => store.index('threadId').getAll(threadId));
+  return records.sort((a, b) => a.revision - b.revision);
+};
+
+// Newest first
+export const listAnalyses = async (): Promise<AnalysisRecord[]> => {
+  const records = await withStore<AnalysisRecord[]>('readonly', (store) => store.getAll());
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  await withTransaction('readwrite', [STORE, IMAGE_STORE], (transaction) => {
+    transaction.objectStore(IMAGE_STORE).delete(id);
+    return transaction.objectStore(STORE).delete(id);
+  });
+};
@@ -0,0 +1,43 @@
+import { Persona } from "../types";
+
+// Custom reviewer personas and the selected persona ids, kept in
+// localStorage. Like custom rubrics, custom personas are sent in full with
+// each request.
+
+const PERSONAS_KEY = 'designcat_personas';
+const SELECTED_KEY = 'designcat_persona_ids';
+
+const readList = <T>(key: string): T[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const loadCustomPersonas = (): Persona[] => readList<Persona>(PERSONAS_KEY);
+
+// Adds the persona, or replaces the one with the same id
+export const saveCustomPersona = (persona: Persona): Persona[] => {
+  const personas = loadCustomPersonas();
+  const index = personas.findIndex((p) => p.id === persona.id);
+  const next = index === -1 ? [...personas, persona] : personas.map((p, i) => (i === index ? persona : p));
+  localStorage.setItem(PERSONAS_KEY, JSON.stringify(next));
+  return next;
+};
+
+export const deleteCustomPersona = (id: string): Persona[] => {
+  const next = loadCustomPersonas().filter((p) => p.id !== id);
+  localStorage.setItem(PERSONAS_KEY, JSON.stringify(next));
+  return next;
+};
+
+// Null until the user first changes the selection: the server default applies
+export const loadSelectedPersonaIds = (): string[] | null =>
+  localStorage.getItem(SELECTED_KEY) === null ? null : readList<string>(SELECTED_KEY);
+
+export const saveSelectedPersonaIds = (ids: string[]) => localStorage.setItem(SELECTED_KEY, JSON.stringify(ids));
+
+// Persona ids are JSON keys in the critique, so they must be camelCase
+export const newPersonaId = () => `custom${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`;
@@ -0,0 +1,42 @@
+import { Rubric } from "../types";
+
+// Custom scoring rubrics and the selected rubric, kept in localStorage. The
+// server only knows its built-in rubrics; custom ones are sent in full with
+// each request.
+
+const RUBRICS_KEY = 'designcat_rubrics';
+const SELECTED_KEY = 'designcat_rubric_id';
+
+export const loadCustomRubrics = (): Rubric[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RUBRICS_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeCustomRubrics = (rubrics: Rubric[]) => {
+  localStorage.setItem(RUBRICS_KEY, JSON.stringify(rubrics));
+};
+
+// Adds the rubric, or replaces the one with the same id
+export const saveCustomRubric = (rubric: Rubric): Rubric[] => {
+  const rubrics = loadCustomRubrics();
+  const index = rubrics.findIndex((r) => r.id === rubric.id);
+  const next = index === -1 ? [...rubrics, rubric] : rubrics.map((r, i) => (i === index ? rubric : r));
+  storeCustomRubrics(next);
+  return next;
+};
+
+export const deleteCustomRubric = (id: string): Rubric[] => {
+  const next = loadCustomRubrics().filter((r) => r.id !== id);
+  storeCustomRubrics(next);
+  return next;
+};
+
+export const loadSelectedRubricId = (): string | null => localStorage.getItem(SELECTED_KEY);
+
+export const saveSelectedRubricId = (id: string) => localStorage.setItem(SELECTED_KEY, id);
+
+export const newRubricId = () => `custom-${crypto.randomUUID()}`;
@@ -1,39 +1,403 @@
 export interface DesignContext {
   userContext: string;
   figmaUrl?: string;
+  figmaFrame?: FigmaFrame; // set when the image was rendered from figmaUrl
+  pageUrl?: string; // a live page, as opposed to a Figma link
+  pageCapture?: PageCapture; // set when the image was captured from pageUrl
+}
+
+// --- Upload ingestion (see server/ingest.js) ---
+export type UploadType = 'png' | 'jpeg' | 'webp' | 'gif' | 'heic' | 'pdf'; // read from the file's bytes
+
+export interface IngestedImage {
+  image: string; // PNG, JPEG or WebP data URL, upright and without metadata
+  width: number;
+  height: number;
+}
+
+export interface IngestResult {
+  images: IngestedImage[]; // one per rendered PDF page, otherwise one
+  source: { type: UploadType; width: number; height: number; bytes: number; pages?: number };
+  notes: string[]; // what was changed, e.g. "Converted from HEIC"
+}
+
+// One of several designs uploaded together and critiqued one after another
+export interface QueuedDesign {
+  name: string; // the file's
+  image: string;
+}
+
+// --- Live page capture (see server/capture.js) ---
+export type CaptureViewport = 'desktop' | 'mobile';
+export type CaptureMode = 'full' | 'fold'; // whole page or first screen
+
+// DOM facts read while capturing, sent back with the analysis
+export interface PageCapture {
+  url: string;
+  finalUrl: string; // after redirects
+  viewport: CaptureViewport;
+  mode: CaptureMode;
+  width: number;
+  height: number;
+  truncated: boolean; // a full page longer than the server's limit
+  title: string;
+  description: string;
+  lang: string;
+  headings: { level: number; text: string }[];
+  links: number;
+  buttons: number;
+  formFields: number;
+  images: number;
+  imagesWithoutAlt: number;
+}
+
+// A generated design rendered at one breakpoint by the server's headless
+// browser, from the preview's device lab; included in the HTML/PDF report
+export interface Breakpoint {
+  label: string;
+  width: number;
+  height: number; // the viewport; the screenshot covers the whole page
+}
+
+export interface BreakpointShot extends Breakpoint {
+  version: number; // DesignVersion.number of the design shown
+  image: string; // PNG data URL
+  imageHeight: number;
+  truncated: boolean; // a page longer than the server's limit
+}
+
+// --- Figma import (see server/figma.js) ---
+export interface FigmaTextLayer {
+  name: string;
+  characters: string;
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: number;
+}
+
+export interface FigmaAutoLayout {
+  name: string;
+  direction: 'horizontal' | 'vertical';
+  itemSpacing: number;
+  padding: [number, number, number, number]; // top, right, bottom, left
+}
+
+// A rendered frame's metadata, sent back with the analysis so the model sees
+// the exact copy, fills and spacing
+export interface FigmaFrame {
+  fileKey: string;
+  nodeId: string;
+  fileName: string;
+  name: string;
+  type: string;
+  width: number | null;
+  height: number | null;
+  texts: FigmaTextLayer[];
+  fills: { hex: string; count: number }[];
+  autoLayouts: FigmaAutoLayout[];
 }
 
 export interface DesignScore {
-  overallScore: number;
+  overallScore: number; // 0-100, weighted by the rubric
   confidence: 'High' | 'Medium' | 'Low';
-  metrics: {
-    infoArchitecture: number; // 0-10
-    visualHierarchy: number;
-    layoutSpacing: number;
-    accessibility: number;
-    usability: number;
+  metrics: Record<MetricKey, number>; // 0-10, one per rubric dimension
+}
+
+// --- Scoring rubrics (see server/rubrics.js) ---
+export interface RubricAnchor {
+  score: number; // 0-10
+  description: string;
+}
+
+export interface RubricDimension {
+  key: MetricKey; // camelCase, used as the key in DesignScore.metrics
+  label: string;
+  description: string;
+  weight: number; // share of the overall score, relative to the other dimensions
+  anchors: RubricAnchor[];
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  dimensions: RubricDimension[];
+}
+
+// --- Reviewer personas (see server/personas.js) ---
+export interface Persona {
+  id: string; // camelCase, used as the key in DesignCritique.perspectives
+  name: string;
+  description: string; // what this reviewer looks at
+}
+
+// --- Design system profiles (see server/designSystem.js) ---
+export interface ColorToken {
+  name: string;
+  hex: string; // #rrggbb
+}
+
+export interface SizeToken {
+  name: string;
+  px: number;
+}
+
+export interface FontToken {
+  name: string;
+  family: string; // CSS font-family list
+}
+
+// The tokens a critique is checked against, as the server keeps them
+export interface DesignSystem {
+  name: string;
+  colors: ColorToken[];
+  fontSizes: SizeToken[];
+  spacing: SizeToken[];
+  radii: SizeToken[];
+  fontFamilies: FontToken[];
+}
+
+// A profile imported in the browser (see src/utils/designTokens.ts)
+export interface DesignSystemProfile extends DesignSystem {
+  id: string;
+  source: 'w3c' | 'tailwind';
+  createdAt: string;
+}
+
+// A measured colour that matches no palette token (see src/utils/conformance.ts)
+export interface OffPaletteColor {
+  hex: string;
+  usage: 'text' | 'surface';
+  share: number; // 0-1 of all pixels, or of text regions for text colours
+  nearest?: ColorToken;
+}
+
+export type ConformanceKind = 'color' | 'spacing' | 'typography' | 'radius';
+
+export interface ConformanceFinding {
+  kind: ConformanceKind;
+  observed: string;
+  expected: string; // the token to use instead
+  detail: string;
+}
+
+export interface DesignSystemConformance {
+  summary: string;
+  findings: ConformanceFinding[];
+}
+
+// Structured reply the server validates before handing it to the UI
+export interface DesignCritique {
+  scores: DesignScore;
+  executiveSummary: string;
+  perspectives: Record<string, string>; // markdown, one per persona id
+
+  improvements: string[];
+  additionalNotes?: string;
+  issues?: CritiqueIssue[]; // missing on critiques saved before hotspots existed
+  issueProgress?: IssueProgress[]; // only on revisions of an earlier design
+  conformance?: DesignSystemConformance; // only when checked against a design system
+}
+
+export type IssueSeverity = 'critical' | 'major' | 'minor';
+
+// A problem pinned to a region of the screenshot
+export interface CritiqueIssue {
+  title: string;
+  detail: string;
+  severity: IssueSeverity;
+  dimension: MetricKey;
+  bbox: { x: number; y: number; width: number; height: number }; // fractions of the image size
+}
+
+// What became of an issue flagged on the previous revision
+export interface IssueProgress {
+  issue: string;
+  status: 'resolved' | 'partial' | 'unresolved';
+  note?: string;
+}
+
+// Sent with a new upload so the critique can check the earlier issues
+export interface PreviousRevision {
+  revision: number;
+  overallScore: number;
+  issues: (CritiqueIssue | string)[]; // improvement strings for critiques saved before issues existed
+}
+
+export type MetricKey = string;
+
+// --- Colour contrast, measured in the browser from the image pixels ---
+export interface PaletteColor {
+  hex: string; // #rrggbb
+  share: number; // 0-1 of all pixels
+}
+
+export interface ContrastPair {
+  foreground: string; // #rrggbb
+  background: string;
+  ratio: number; // WCAG 2.x contrast ratio, 1-21
+  aa: boolean; // 4.5:1, normal text
+  aaLarge: boolean; // 3:1, large text
+  aaa: boolean; // 7:1
+  aaaLarge: boolean; // 4.5:1
+  coverage: number; // 0-1 of the text-like regions using this pair
+}
+
+export interface ContrastReport {
+  palette: PaletteColor[];
+  pairs: ContrastPair[]; // most common first
+  textRegions: number; // text-like tiles found
+}
+
+// --- Accessibility audit of generated HTML, run inside the preview iframe ---
+export type AuditRule = 'image-alt' | 'control-label' | 'heading-order' | 'color-contrast' | 'target-size' | 'focus-order';
+
+export interface AuditViolation {
+  rule: AuditRule;
+  impact: 'serious' | 'moderate';
+  message: string;
+  selector: string; // CSS path, used to highlight the element in the preview
+  snippet: string; // truncated outerHTML
+}
+
+// --- A/B comparison mode ---
+export type VariantId = 'A' | 'B';
+
+export interface DesignVariant {
+  label: string;
+  image: string; // base64 data URL
+}
+
+export interface DesignComparison {
+  variants: { id: VariantId; scores: DesignScore; summary: string }[];
+  dimensionWinners: Record<MetricKey, { winner: VariantId | 'tie'; rationale: string }>;
+  overallWinner: VariantId | 'tie';
+  verdict: string;
+  recommendations: string[];
+}
+
+// --- Journey mode ---
+export interface JourneyScreen {
+  label: string;
+  image: string; // base64 data URL
+}
+
+export interface JourneyStep {
+  step: number; // 1-based
+  scores: DesignScore;
+  summary: string;
+  issues: string[];
+}
+
+export interface DesignJourney {
+  scores: DesignScore; // the flow as a whole
+  summary: string;
+  steps: JourneyStep[];
+  flow: {
+    consistency: string;
+    deadEnds: string[];
+    stepCount: { recommended: number; rationale: string };
   };
+  improvements: string[];
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  createdAt?: string; // ISO time; missing on turns saved before it was recorded
+}
+
+// A generated design version scored by the same analyze pipeline as an
+// upload, from a headless render of its preview (see utils/designEvaluation.ts)
+export interface DesignEvaluation {
+  version: number; // DesignVersion.number
+  scores: DesignScore;
+  critique: DesignCritique | null;
+  image: string; // the rendered page that was critiqued, PNG data URL
+  evaluatedAt: string;
 }
 
-// Serializable session data we keep in React state
+// The image, context and turns live server-side; React only keeps the id
+// (to send new messages and resume after a reload) and the visible history
 export interface ChatSessionData {
+  sessionId: string;
   history: ChatMessage[];
-  lastContext: DesignContext;
-  lastImage: string | null;
+}
+
+// Server-side chat session as returned by /api/sessions
+export interface StoredSession {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  image: string | null;
+  context: DesignContext;
+  critique: DesignCritique;
+  rubric: Rubric;
+  personas: Persona[];
+  designSystem: DesignSystem | null;
+  text: string; // critique rendered as markdown, without perspectives
+  turns: ChatMessage[];
+}
+
+// Machine-readable report exported from the result page. Images are left
+// out; the PDF/HTML report carries them.
+export interface ReportExport {
+  format: 'designcat-report';
+  version: 1;
+  exportedAt: string;
+  mode: 'critique' | 'comparison' | 'journey';
+  context: DesignContext;
+  scores: DesignScore | null;
+  rubric?: Rubric;
+  personas?: Persona[];
+  designSystem?: DesignSystem;
+  offPalette?: OffPaletteColor[];
+  revision?: number;
+  critique?: DesignCritique;
+  issues: CritiqueIssue[];
+  contrast?: ContrastReport;
+  comparison?: DesignComparison;
+  journey?: DesignJourney;
+  transcript: ChatMessage[]; // follow-up chat, without the greeting
+}
+
+// A completed analysis saved to the local history library (IndexedDB)
+export interface AnalysisRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  thumbnail: string | null; // downscaled JPEG data URL
+  context: DesignContext;
+  scores: DesignScore;
+  critique: DesignCritique;
+  markdown: string;
+  chatHistory: ChatMessage[]; // follow-up turns, without the greeting
+  sessionId?: string; // server-side chat session, if still alive
+  contrast?: ContrastReport;
+  rubric?: Rubric; // missing on analyses saved before rubrics existed
+  personas?: Persona[]; // missing on analyses saved before personas existed
+  designSystem?: DesignSystem; // the profile conformance was checked against
+  threadId: string; // revisions of the same design share a thread
+  revision: number; // 1-based position in the thread
 }
 
 export interface AnalysisState {
-  status: 'idle' | 'analyzing' | 'complete' | 'error';
+  status: 'idle' | 'analyzing' | 'streaming' | 'complete' | 'error';
   image: string | null; // base64
   context: DesignContext;
   result: string | null;
   scores: DesignScore | null;
+  critique?: DesignCritique;
+  rubric?: Rubric; // what the scores were measured against
+  personas?: Persona[]; // whose perspectives the critique is written from
+  designSystem?: DesignSystem; // conformance is checked and generated HTML constrained to it
+  contrast?: ContrastReport; // measured locally before the critique
+  variants?: DesignVariant[]; // set in compare mode instead of `image`
+  comparison?: DesignComparison;
+  screens?: JourneyScreen[]; // set in journey mode instead of `image`
+  journey?: DesignJourney;
   chatData?: ChatSessionData;
+  historyId?: string; // AnalysisRecord this result is saved as
+  thread?: AnalysisRecord[]; // revisions up to and including this one, oldest first
   error?: string;
 }
 
@@ -41,4 +405,6 @@ export enum TabOption {
   UPLOAD = 'upload',
   CAMERA = 'camera',
   URL = 'url',
+  COMPARE = 'compare',
+  JOURNEY = 'journey',
 }
\ No newline at end of file
@@ -0,0 +1,302 @@
+import { AuditRule, AuditViolation } from '../types';
+
+// Accessibility audit of the generated HTML, run inside the preview iframe
+// against the rendered DOM. The iframe is sandboxed without same-origin
+// access, so the audit is injected as a script and reports back through
+// postMessage. `runAccessibilityAudit` and `auditAgent` are serialised with
+// toString(): they must not reference anything outside their own bodies.
+
+export const AUDIT_MESSAGE_SOURCE = 'designcat-a11y-audit';
+
+// Wait after `load` so the page's own scripts and fonts have settled
+const AUDIT_DELAY_MS = 600;
+
+export const AUDIT_RULE_LABELS: Record<AuditRule, string> = {
+  'image-alt': 'Images without alt text',
+  'control-label': 'Controls without a label',
+  'heading-order': 'Heading order',
+  'color-contrast': 'Text contrast',
+  'target-size': 'Touch target size',
+  'focus-order': 'Focus order',
+};
+
+export function runAccessibilityAudit(doc: Document): AuditViolation[] {
+  const win = doc.defaultView as Window;
+  const violations: AuditViolation[] = [];
+  const MAX_PER_RULE = 25;
+  const counts: Record<string, number> = {};
+
+  const selectorOf = (el: Element): string => {
+    if (el.id) return `#${CSS.escape(el.id)}`;
+    const parts: string[] = [];
+    let node: Element | null = el;
+    while (node && node !== doc.documentElement) {
+      const parent: Element | null = node.parentElement;
+      let part = node.tagName.toLowerCase();
+      if (parent) {
+        const same = Array.from(parent.children).filter((child) => child.tagName === node!.tagName);
+        if (same.length > 1) part += `:nth-of-type(${same.indexOf(node) + 1})`;
+      }
+      parts.unshift(part);
+      if (parent && parent.id) {
+        parts.unshift(`#${CSS.escape(parent.id)}`);
+        break;
+      }
+      node = parent;
+    }
+    return parts.join(' > ');
+  };
+
+  const snippetOf = (el: Element) => {
+    const html = el.outerHTML.replace(/\s+/g, ' ');
+    const open = html.slice(0, html.indexOf('>') + 1) || html;
+    return open.length > 160 ? `${open.slice(0, 157)}...` : open;
+  };
+
+  const report = (rule: AuditRule, impact: AuditViolation['impact'], el: Element, message: string) => {
+    counts[rule] = (counts[rule] || 0) + 1;
+    if (counts[rule] > MAX_PER_RULE) return;
+    violations.push({ rule, impact, message, selector: selectorOf(el), snippet: snippetOf(el) });
+  };
+
+  const isHidden = (el: Element) => {
+    if (el.closest('[hidden], [aria-hidden="true"]')) return true;
+    const style = win.getComputedStyle(el);
+    if (style.display === 'none' || style.visibility === 'hidden') return true;
+    const rect = el.getBoundingClientRect();
+    return rect.width === 0 && rect.height === 0;
+  };
+
+  const textOf = (el: Element | null) => (el?.textContent || '').replace(/\s+/g, ' ').trim();
+
+  const accessibleName = (el: Element) => {
+    const label = el.getAttribute('aria-label');
+    if (label && label.trim()) return label.trim();
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\s+/).map((id) => textOf(doc.getElementById(id))).join(' ').trim();
+      if (text) return text;
+    }
+    if ('labels' in el) {
+      const labels = (el as HTMLInputElement).labels;
+      if (labels && labels.length > 0) {
+        const text = Array.from(labels).map(textOf).join(' ').trim();
+        if (text) return text;
+      }
+    }
+    const title = el.getAttribute('title');
+    return title && title.trim() ? title.trim() : '';
+  };
+
+  // --- Alt text ---
+  doc.querySelectorAll('img').forEach((img) => {
+    if (isHidden(img) || img.getAttribute('role') === 'presentation') return;
+    if (!img.hasAttribute('alt')) {
+      report('image-alt', 'serious', img, 'Image has no alt attribute. Describe it, or use alt="" if it is decorative.');
+    }
+  });
+  doc.querySelectorAll('svg[role="img"], [role="img"]:not(img):not(svg)').forEach((el) => {
+    if (!isHidden(el) && !accessibleName(el) && !textOf(el.querySelector('title'))) {
+      report('image-alt', 'serious', el, 'Element with role="img" has no accessible name.');
+    }
+  });
+
+  // --- Labels ---
+  doc.querySelectorAll('input, select, textarea').forEach((el) => {
+    const type = (el.getAttribute('type') || '').toLowerCase();
+    if (['hidden', 'submit', 'reset', 'button', 'image'].includes(type) || isHidden(el)) return;
+    if (!accessibleName(el)) {
+      const hint = el.getAttribute('placeholder') ? ' A placeholder is not a label.' : '';
+      report('control-label', 'serious', el, `Form control has no label.${hint}`);
+    }
+  });
+  doc.querySelectorAll('button, a[href], input[type="submit"], input[type="button"], input[type="reset"], [role="button"]').forEach((el) => {
+    if (isHidden(el)) return;
+    const value = el instanceof HTMLInputElement ? el.value : '';
+    const imageAlt = Array.from(el.querySelectorAll('img[alt]')).map((img) => img.getAttribute('alt')).join(' ').trim();
+    if (!textOf(el) && !value.trim() && !imageAlt && !accessibleName(el)) {
+      const kind = el.tagName === 'A' ? 'Link' : 'Button';
+      report('control-label', 'serious', el, `${kind} has no accessible name. Icon-only controls need aria-label.`);
+    }
+  });
+
+  // --- Heading order ---
+  const headings = Array.from(doc.querySelectorAll('h1, h2, h3, h4, h5, h6')).filter((el) => !isHidden(el));
+  if (headings.length > 0 && !headings.some((el) => el.tagName === 'H1')) {
+    report('heading-order', 'moderate', headings[0], 'Page has no <h1>.');
+  }
+  headings.forEach((el, i) => {
+    if (i === 0) return;
+    const level = Number(el.tagName[1]);
+    const previous = Number(headings[i - 1].tagName[1]);
+    if (level > previous + 1) {
+      report('heading-order', 'moderate', el, `Heading level skips from h${previous} to h${level}.`);
+    }
+  });
+
+  // --- Contrast of computed styles ---
+  type RGBA = [number, number, number, number];
+  const parseColor = (value: string): RGBA | null => {
+    const match = value.match(/rgba?\(([^)]+)\)/);
+    if (!match) return null;
+    const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(parseFloat);
+    return [parts[0], parts[1], parts[2], parts.length > 3 ? parts[3] : 1];
+  };
+  const blend = (top: RGBA, bottom: RGBA): RGBA => {
+    const a = top[3];
+    return [top[0] * a + bottom[0] * (1 - a), top[1] * a + bottom[1] * (1 - a), top[2] * a + bottom[2] * (1 - a), 1];
+  };
+  // Composites the background colours of the element and its ancestors.
+  // Returns null when a background image is involved and the colour can't be known.
+  const backgroundOf = (el: Element): RGBA | null => {
+    const layers: RGBA[] = [];
+    for (let node: Element | null = el; node; node = node.parentElement) {
+      const style = win.getComputedStyle(node);
+      if (style.backgroundImage && style.backgroundImage !== 'none') return null;
+      const color = parseColor(style.backgroundColor);
+      if (color && color[3] > 0) {
+        layers.push(color);
+        if (color[3] >= 1) break;
+      }
+    }
+    return layers.reduceRight<RGBA>((under, layer) => blend(layer, under), [255, 255, 255, 1]);
+  };
+  const luminance = ([r, g, b]: RGBA) => {
+    const channel = (v: number) => {
+      const c = v / 255;
+      return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    };
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+  };
+  const hex = (color: RGBA) => `#${color.slice(0, 3).map((v) => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+  const textElements = new Set<Element>();
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.textContent && node.textContent.trim() && node.parentElement) textElements.add(node.parentElement);
+  }
+  textElements.forEach((el) => {
+    if (isHidden(el) || ['SCRIPT', 'STYLE', 'NOSCRIPT'].includes(el.tagName)) return;
+    const style = win.getComputedStyle(el);
+    const background = backgroundOf(el);
+    const color = parseColor(style.color);
+    if (!background || !color) return;
+    const foreground = blend([color[0], color[1], color[2], color[3] * parseFloat(style.opacity || '1')], background);
+    const [light, dark] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+    const ratio = (light + 0.05) / (dark + 0.05);
+    const size = parseFloat(style.fontSize);
+    const large = size >= 24 || (size >= 18.66 && parseInt(style.fontWeight, 10) >= 700);
+    const required = large ? 3 : 4.5;
+    if (ratio < required) {
+      report(
+        'color-contrast',
+        'serious',
+        el,
+        `Text contrast is ${ratio.toFixed(2)}:1 (${hex(foreground)} on ${hex(background)}); ${required}:1 is needed for ${large ? 'large' : 'normal'} text.`
+      );
+    }
+  });
+
+  // --- Touch targets ---
+  const focusableSelector = 'a[href], button, input:not([type="hidden"]), select, textarea, [tabindex], [role="button"], [contenteditable="true"]';
+  const focusables = Array.from(doc.querySelectorAll(focusableSelector)).filter(
+    (el) => !isHidden(el) && el.getAttribute('tabindex') !== '-1' && !(el as HTMLButtonElement).disabled
+  );
+  focusables.forEach((el) => {
+    // Links inside a sentence are exempt from target size
+    if (el.tagName === 'A' && win.getComputedStyle(el).display === 'inline' && textOf(el.parentElement).length > textOf(el).length + 20) return;
+    const rect = el.getBoundingClientRect();
+    const smallest = Math.min(rect.width, rect.height);
+    if (smallest < 24) {
+      report('target-size', 'serious', el, `Touch target is ${Math.round(rect.width)}×${Math.round(rect.height)}px; at least 24×24px is required.`);
+    } else if (smallest < 44) {
+      report('target-size', 'moderate', el, `Touch target is ${Math.round(rect.width)}×${Math.round(rect.height)}px; 44×44px is recommended.`);
+    }
+  });
+
+  // --- Focus order ---
+  doc.querySelectorAll('[tabindex]').forEach((el) => {
+    if (parseInt(el.getAttribute('tabindex') || '0', 10) > 0) {
+      report('focus-order', 'serious', el, 'Positive tabindex overrides the natural focus order.');
+    }
+  });
+  doc.querySelectorAll('[aria-hidden="true"]').forEach((container) => {
+    container.querySelectorAll(focusableSelector).forEach((el) => {
+      if (el.getAttribute('tabindex') !== '-1') {
+        report('focus-order', 'serious', el, 'Focusable element is inside aria-hidden content.');
+      }
+    });
+  });
+  // Tab order follows the DOM; flag jumps back up the page by more than a screen-row
+  const visible = focusables.filter((el) => parseInt(el.getAttribute('tabindex') || '0', 10) <= 0);
+  visible.forEach((el, i) => {
+    if (i === 0) return;
+    const previous = visible[i - 1].getBoundingClientRect();
+    const rect = el.getBoundingClientRect();
+    if (rect.bottom < previous.top - 80) {
+      report('focus-order', 'moderate', el, 'Focus jumps back up the page; the DOM order does not match the visual order.');
+    }
+  });
+
+  return violations;
+}
+
+// Runs inside the iframe: audits once the page settles, on request, and
+// outlines elements the parent asks to highlight
+function auditAgent(source: string, delay: number, audit: (doc: Document) => AuditViolation[]) {
+  let highlighted: HTMLElement | null = null;
+  let previousOutline = '';
+
+  const run = () => {
+    let violations: AuditViolation[] = [];
+    try {
+      violations = audit(document);
+    } catch (error) {
+      console.error('Accessibility audit failed', error);
+    }
+    window.parent.postMessage({ source, type: 'results', violations }, '*');
+  };
+
+  const highlight = (selector: string) => {
+    if (highlighted) highlighted.style.outline = previousOutline;
+    highlighted = null;
+    let el: HTMLElement | null = null;
+    try {
+      el = document.querySelector<HTMLElement>(selector);
+    } catch {
+      return;
+    }
+    if (!el) return;
+    highlighted = el;
+    previousOutline = el.style.outline;
+    el.style.outline = '3px solid #f43f5e';
+    el.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  };
+
+  window.addEventListener('message', (event) => {
+    const data = event.data;
+    if (!data || data.source !== source) return;
+    if (data.type === 'run') run();
+    if (data.type === 'highlight') highlight(data.selector);
+  });
+  window.addEventListener('load', () => setTimeout(run, delay));
+}
+
+const auditScript = (nonce: string) =>
+  `<script nonce="${nonce}">(${auditAgent.toString()})(${JSON.stringify(AUDIT_MESSAGE_SOURCE)}, ${AUDIT_DELAY_MS}, ${runAccessibilityAudit.toString()});</script>`;
+
+// Adds the audit to a generated page. Only used for the preview; downloads keep the original HTML.
+// `nonce` is the one the preview's Content-Security-Policy lets scripts run with.
+export const withAuditScript = (html: string, nonce: string) => {
+  const script = auditScript(nonce);
+  const end = html.toLowerCase().lastIndexOf('</body>');
+  return end === -1 ? html + script : html.slice(0, end) + script + html.slice(end);
+};
+
+// Follow-up message asking the chat to fix the reported violations
+export const buildFixPrompt = (violations: AuditViolation[]) =>
+  [
+    'Please fix these accessibility issues found in the preview and show me the updated version:',
+    '',
+    ...violations.map((v) => `- ${AUDIT_RULE_LABELS[v.rule]}: ${v.message} (\`${v.snippet}\`)`),
+  ].join('\n');
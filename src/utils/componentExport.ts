@@ -0,0 +1,594 @@
+import { ZipEntry } from './zip';
+import { readTailwindConfig } from './designTokens';
+
+// Turns a generated single-file Tailwind page into framework components. The
+// conversion is a deterministic walk over the parsed DOM, with no model call:
+//
+// - React: a TSX function component. Attributes are renamed (class ->
+//   className), inline styles become objects, and form defaults become
+//   defaultValue/defaultChecked.
+// - Vue: a single-file component with the markup as its template.
+// - Static: the page with Tailwind compiled out to a stylesheet (the CSS
+//   itself is compiled by the server, see previewRuntime.ts).
+//
+// Runs of 3+ sibling elements with the same structure (feature cards, nav
+// links, pricing rows) become a list prop: the text and src/href/alt values
+// that differ between them are the item fields, and the design's own content
+// is the default. Scripts and inline event handlers are not carried over.
+
+export type ExportFormat = 'react' | 'vue' | 'static';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; description: string }[] = [
+  { id: 'react', label: 'React (TSX)', description: 'Function component with props for repeated content' },
+  { id: 'vue', label: 'Vue SFC', description: 'Single-file component with props for repeated content' },
+  { id: 'static', label: 'HTML + CSS', description: 'Plain page with Tailwind compiled to a stylesheet' },
+];
+
+export interface ExportBundle {
+  zipName: string;
+  files: ZipEntry[];
+}
+
+const MIN_REPEAT = 3;
+const MAX_NAME_LENGTH = 40;
+const INDENT = '  ';
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const SKIPPED_ELEMENTS = new Set(['script', 'noscript', 'style', 'template']);
+const BOOLEAN_ATTRS = new Set([
+  'allowfullscreen', 'async', 'autofocus', 'autoplay', 'checked', 'controls', 'defer', 'disabled', 'hidden', 'inert',
+  'itemscope', 'loop', 'multiple', 'muted', 'novalidate', 'open', 'playsinline', 'readonly', 'required', 'reversed', 'selected',
+]);
+// Attributes whose value commonly differs between repeated items
+const VARYING_ATTRS = ['src', 'href', 'alt', 'title', 'aria-label', 'placeholder'];
+
+// HTML attribute -> React prop, where they differ by more than case
+const JSX_ATTR_NAMES: Record<string, string> = {
+  class: 'className', for: 'htmlFor', tabindex: 'tabIndex', readonly: 'readOnly', maxlength: 'maxLength',
+  minlength: 'minLength', colspan: 'colSpan', rowspan: 'rowSpan', autocomplete: 'autoComplete', autofocus: 'autoFocus',
+  autoplay: 'autoPlay', enctype: 'encType', crossorigin: 'crossOrigin', srcset: 'srcSet', contenteditable: 'contentEditable',
+  novalidate: 'noValidate', frameborder: 'frameBorder', allowfullscreen: 'allowFullScreen', datetime: 'dateTime',
+  inputmode: 'inputMode', spellcheck: 'spellCheck', playsinline: 'playsInline', referrerpolicy: 'referrerPolicy',
+  accesskey: 'accessKey', itemscope: 'itemScope', itemprop: 'itemProp', itemtype: 'itemType', usemap: 'useMap',
+  cellpadding: 'cellPadding', cellspacing: 'cellSpacing', 'accept-charset': 'acceptCharset', 'http-equiv': 'httpEquiv',
+  charset: 'charSet', 'xlink:href': 'xlinkHref', 'xml:space': 'xmlSpace', 'xmlns:xlink': 'xmlnsXlink',
+};
+
+// Item element tag -> [list prop, item variable]
+const LIST_NAMES: Record<string, [string, string]> = {
+  li: ['items', 'item'],
+  a: ['links', 'link'],
+  tr: ['rows', 'row'],
+  article: ['articles', 'article'],
+  blockquote: ['quotes', 'quote'],
+  figure: ['figures', 'figure'],
+  img: ['images', 'image'],
+  section: ['sections', 'section'],
+};
+
+// --- Repeated content ---
+
+interface Slot {
+  field: string;
+  values: string[]; // one per item
+}
+
+interface RepeatGroup {
+  prop: string; // e.g. "cards"
+  variable: string; // e.g. "card"
+  typeName: string; // e.g. "CardItem"
+  items: Element[];
+  // Keyed by the first item's nodes, which are the template for the rest
+  textSlots: Map<Node, Slot>;
+  attrSlots: Map<Element, Map<string, Slot>>;
+}
+
+const isBlank = (node: Node) => node.nodeType === Node.TEXT_NODE && !(node.textContent || '').trim();
+const tagOf = (el: Element) => el.tagName.toLowerCase();
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+// Elements and non-blank text: what a run's items must share
+const significantChildren = (el: Element): Node[] => Array.from(el.childNodes).filter((node) =>
+  (node.nodeType === Node.ELEMENT_NODE && !SKIPPED_ELEMENTS.has(tagOf(node as Element))) ||
+  (node.nodeType === Node.TEXT_NODE && !isBlank(node))
+);
+
+// Text, or a space between elements, makes an element's content inline: it's
+// rendered on one line so JSX and Vue keep the spacing, and never split into a list
+const hasInlineContent = (el: Element) => Array.from(el.childNodes).some((node, i, nodes) =>
+  node.nodeType === Node.TEXT_NODE &&
+  (!isBlank(node) || (!(node.textContent || '').includes('\n') && i > 0 && i < nodes.length - 1))
+);
+
+const shapeOf = (el: Element, cache: Map<Element, string>): string => {
+  const cached = cache.get(el);
+  if (cached !== undefined) return cached;
+  const children = significantChildren(el).map((node) => (node.nodeType === Node.TEXT_NODE ? 't' : shapeOf(node as Element, cache)));
+  const shape = `${tagOf(el)}.${el.getAttribute('class') || ''}(${children.join(',')})`;
+  cache.set(el, shape);
+  return shape;
+};
+
+const fieldForText = (parent: Element) => {
+  const tag = tagOf(parent);
+  if (/^h[1-6]$/.test(tag)) return 'title';
+  if (tag === 'p') return 'description';
+  if (tag === 'a' || tag === 'button') return 'label';
+  if (tag === 'blockquote' || tag === 'q') return 'quote';
+  if (tag === 'cite') return 'author';
+  if (tag === 'td' || tag === 'th') return 'cell';
+  return 'text';
+};
+
+const FIELD_FOR_ATTR: Record<string, string> = {
+  src: 'image', href: 'href', alt: 'imageAlt', title: 'tooltip', 'aria-label': 'ariaLabel', placeholder: 'placeholder',
+};
+
+const uniqueName = (base: string, taken: Set<string>) => {
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base}${n}`;
+  taken.add(name);
+  return name;
+};
+
+const pascalCase = (text: string) => text
+  .replace(/[^a-zA-Z0-9]+/g, ' ')
+  .trim()
+  .split(' ')
+  .filter(Boolean)
+  .map((word) => word[0].toUpperCase() + word.slice(1))
+  .join('');
+
+// Walks the items in parallel and turns whatever differs into fields
+const buildGroup = (items: Element[], takenProps: Set<string>): RepeatGroup | null => {
+  const textSlots = new Map<Node, Slot>();
+  const attrSlots = new Map<Element, Map<string, Slot>>();
+  const fields = new Set<string>();
+
+  const visit = (nodes: Node[]) => {
+    const template = nodes[0];
+    if (template.nodeType === Node.TEXT_NODE) {
+      const values = nodes.map((node) => collapse(node.textContent || '').trim());
+      if (values.some((value) => value !== values[0])) {
+        textSlots.set(template, { field: uniqueName(fieldForText(template.parentElement!), fields), values });
+      }
+      return;
+    }
+    const elements = nodes as Element[];
+    VARYING_ATTRS.forEach((attr) => {
+      const values = elements.map((el) => el.getAttribute(attr) ?? '');
+      if (values.every((value) => value === values[0])) return;
+      const base = attr === 'src' && tagOf(elements[0]) !== 'img' ? 'src' : FIELD_FOR_ATTR[attr];
+      const slots = attrSlots.get(elements[0]) ?? new Map<string, Slot>();
+      slots.set(attr, { field: uniqueName(base, fields), values });
+      attrSlots.set(elements[0], slots);
+    });
+    const children = elements.map(significantChildren);
+    children[0].forEach((_, i) => visit(children.map((list) => list[i])));
+  };
+
+  visit(items);
+  if (fields.size === 0) return null; // identical items (e.g. rating stars) stay as they are
+
+  const [prop, variable] = LIST_NAMES[tagOf(items[0])] ?? ['cards', 'card'];
+  const uniqueProp = uniqueName(prop, takenProps);
+  const suffix = uniqueProp.slice(prop.length);
+  const uniqueVariable = `${variable}${suffix}`;
+  return {
+    prop: uniqueProp,
+    variable: uniqueVariable,
+    typeName: variable === 'item' ? `Item${suffix}` : `${pascalCase(uniqueVariable)}Item`,
+    items,
+    textSlots,
+    attrSlots,
+  };
+};
+
+// Finds runs of same-shaped siblings, outside-in; a run's items aren't searched further
+const findRepeats = (root: Element) => {
+  const cache = new Map<Element, string>();
+  const groups: RepeatGroup[] = [];
+  const takenProps = new Set<string>();
+
+  const visit = (el: Element) => {
+    if (hasInlineContent(el)) {
+      Array.from(el.children).forEach(visit);
+      return;
+    }
+    const children = significantChildren(el);
+    let i = 0;
+    while (i < children.length) {
+      const node = children[i];
+      if (node.nodeType !== Node.ELEMENT_NODE) {
+        i++;
+        continue;
+      }
+      const shape = shapeOf(node as Element, cache);
+      let end = i + 1;
+      while (end < children.length && children[end].nodeType === Node.ELEMENT_NODE && shapeOf(children[end] as Element, cache) === shape) end++;
+      const group = end - i >= MIN_REPEAT ? buildGroup(children.slice(i, end) as Element[], takenProps) : null;
+      if (group) {
+        groups.push(group);
+      } else {
+        children.slice(i, end).forEach((child) => visit(child as Element));
+      }
+      i = end;
+    }
+  };
+
+  visit(root);
+  return groups;
+};
+
+// --- Parsing ---
+
+interface ParsedDesign {
+  name: string; // PascalCase component name
+  root: Element;
+  groups: RepeatGroup[];
+  css: string; // the page's own <style> blocks
+  tailwindTheme: string | null; // the `theme` of the page's tailwind.config, as source
+  stylesheets: string[]; // <link rel="stylesheet"> hrefs, e.g. web fonts
+  droppedScripts: number;
+  droppedHandlers: number;
+}
+
+const isTailwindCdn = (script: Element) => /cdn\.tailwindcss\.com/.test(script.getAttribute('src') || '');
+
+// The last `tailwind.config = {...}` wins, as it does in the browser
+const findTailwindTheme = (doc: Document) => {
+  let config: ReturnType<typeof readTailwindConfig> = null;
+  doc.querySelectorAll('script:not([src])').forEach((script) => {
+    config = readTailwindConfig(script.textContent || '') ?? config;
+  });
+  const theme = config?.['theme'];
+  return typeof theme === 'object' && theme !== null && !Array.isArray(theme) ? JSON.stringify(theme, null, 2) : null;
+};
+
+const parseDesign = (html: string): ParsedDesign => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const body = doc.body;
+  if (!body || significantChildren(body).length === 0) throw new Error('The design has no content to export.');
+  body.normalize();
+
+  const scripts = Array.from(doc.querySelectorAll('script'));
+  const droppedScripts = scripts.filter((script) => !isTailwindCdn(script) && !/tailwind\.config\s*=/.test(script.textContent || '')).length;
+  const droppedHandlers = Array.from(body.querySelectorAll('*'))
+    .reduce((count, el) => count + el.getAttributeNames().filter((attr) => attr.startsWith('on')).length, 0);
+
+  // The body becomes a wrapping div, unless it only holds one element
+  const children = significantChildren(body);
+  let root: Element;
+  if (children.length === 1 && children[0].nodeType === Node.ELEMENT_NODE && body.attributes.length === 0) {
+    root = children[0] as Element;
+  } else {
+    root = doc.createElement('div');
+    ['class', 'style'].forEach((attr) => {
+      const value = body.getAttribute(attr);
+      if (value) root.setAttribute(attr, value);
+    });
+    while (body.firstChild) root.appendChild(body.firstChild);
+  }
+
+  const title = (doc.title || '').trim();
+  const fromTitle = pascalCase(title).slice(0, MAX_NAME_LENGTH);
+  return {
+    name: /^[A-Z]/.test(fromTitle) ? fromTitle : 'GeneratedDesign',
+    root,
+    groups: findRepeats(root),
+    css: Array.from(doc.querySelectorAll('style')).map((style) => (style.textContent || '').trim()).filter(Boolean).join('\n\n'),
+    tailwindTheme: findTailwindTheme(doc),
+    stylesheets: Array.from(doc.querySelectorAll('link[rel~="stylesheet"][href]')).map((link) => link.getAttribute('href')!),
+    droppedScripts,
+    droppedHandlers,
+  };
+};
+
+// --- Markup rendering, shared by JSX and Vue templates ---
+
+interface Dialect {
+  attributes: (el: Element, slots: Map<string, Slot> | undefined, variable: string) => string[];
+  text: (text: string) => string;
+  slotText: (variable: string, field: string) => string;
+  // Adds the loop over the list prop to the first item's open tag
+  loop: (group: RepeatGroup, open: string) => string;
+  listOpen: (group: RepeatGroup) => string | null;
+  listClose: (group: RepeatGroup) => string | null;
+}
+
+const renderNodes = (root: Element, groups: RepeatGroup[], dialect: Dialect, depth: number): string[] => {
+  const groupStarts = new Map(groups.map((group) => [group.items[0] as Node, group]));
+  const inGroup = new Set(groups.flatMap((group) => group.items.slice(1) as Node[]));
+
+  const openTag = (el: Element, active: RepeatGroup | null, isItemRoot: boolean) => {
+    const attrs = dialect.attributes(el, active?.attrSlots.get(el), active?.variable ?? '');
+    const open = `<${el.localName}${attrs.length > 0 ? ` ${attrs.join(' ')}` : ''}`;
+    return isItemRoot && active ? dialect.loop(active, open) : open;
+  };
+
+  // Inline content on one line, with whitespace collapsed as the browser would
+  const renderInline = (el: Element, active: RepeatGroup | null): string => {
+    const nodes = Array.from(el.childNodes);
+    return nodes.map((node, i) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        let text = collapse(node.textContent || '');
+        if (i === 0) text = text.trimStart();
+        if (i === nodes.length - 1) text = text.trimEnd();
+        const slot = active?.textSlots.get(node);
+        if (!slot) return dialect.text(text);
+        return `${text.startsWith(' ') ? ' ' : ''}${dialect.slotText(active!.variable, slot.field)}${text.endsWith(' ') && text.trim() ? ' ' : ''}`;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE || SKIPPED_ELEMENTS.has(tagOf(node as Element))) return '';
+      const child = node as Element;
+      const open = openTag(child, active, false);
+      if (VOID_ELEMENTS.has(tagOf(child)) || child.childNodes.length === 0) return `${open} />`;
+      return `${open}>${renderInline(child, active)}</${child.localName}>`;
+    }).join('');
+  };
+
+  const renderElement = (el: Element, level: number, active: RepeatGroup | null, isItemRoot: boolean): string[] => {
+    const pad = INDENT.repeat(level);
+    const open = openTag(el, active, isItemRoot);
+    if (VOID_ELEMENTS.has(tagOf(el))) return [`${pad}${open} />`];
+    if (hasInlineContent(el)) return [`${pad}${open}>${renderInline(el, active)}</${el.localName}>`];
+
+    const lines: string[] = [];
+    Array.from(el.children).forEach((child) => {
+      if (inGroup.has(child) || SKIPPED_ELEMENTS.has(tagOf(child))) return;
+      const group = groupStarts.get(child);
+      if (!group) {
+        lines.push(...renderElement(child, level + 1, active, false));
+        return;
+      }
+      const listOpen = dialect.listOpen(group);
+      const listClose = dialect.listClose(group);
+      if (listOpen) lines.push(`${INDENT.repeat(level + 1)}${listOpen}`);
+      lines.push(...renderElement(child, level + (listOpen ? 2 : 1), group, true));
+      if (listClose) lines.push(`${INDENT.repeat(level + 1)}${listClose}`);
+    });
+    if (lines.length === 0) return [`${pad}${open} />`];
+    return [`${pad}${open}>`, ...lines, `${pad}</${el.localName}>`];
+  };
+
+  return renderElement(root, depth, null, false);
+};
+
+// --- React ---
+
+const camelCase = (name: string) => name.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+
+const jsxText = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/\{/g, '&#123;')
+  .replace(/\}/g, '&#125;')
+  .replace(/\u00a0/g, '&nbsp;');
+
+const jsxString = (value: string) => (/["&\n\\]/.test(value) ? `{${JSON.stringify(value)}}` : `"${value}"`);
+
+const jsxStyle = (css: string) => {
+  const entries = css.split(';')
+    .map((declaration) => declaration.split(/:(.*)/s).map((part) => part.trim()))
+    .filter(([property, value]) => property && value)
+    .map(([property, value]) => {
+      const key = property.startsWith('--')
+        ? JSON.stringify(property)
+        : camelCase(property.toLowerCase().replace(/^-ms-/, 'ms-').replace(/^-/, '').replace(/^(webkit|moz|o)-/, (prefix) => prefix[0].toUpperCase() + prefix.slice(1)));
+      return `${key}: ${JSON.stringify(value)}`;
+    });
+  return `{{ ${entries.join(', ')} }}`;
+};
+
+const jsxAttributeName = (el: Element, attr: string) => {
+  if (JSX_ATTR_NAMES[attr]) return JSX_ATTR_NAMES[attr];
+  if (attr.startsWith('data-') || attr.startsWith('aria-')) return attr;
+  return el.namespaceURI === SVG_NS ? camelCase(attr) : attr;
+};
+
+const JSX_DIALECT: Dialect = {
+  attributes: (el, slots, variable) => {
+    const tag = tagOf(el);
+    const isFormControl = tag === 'input' || tag === 'textarea' || tag === 'select';
+    const attrs = el.getAttributeNames()
+      .filter((attr) => !attr.startsWith('on') && !(tag === 'option' && attr === 'selected'))
+      .map((attr) => {
+        const value = el.getAttribute(attr) ?? '';
+        let name = jsxAttributeName(el, attr);
+        if (isFormControl && attr === 'value') name = 'defaultValue';
+        if (isFormControl && attr === 'checked') name = 'defaultChecked';
+        const slot = slots?.get(attr);
+        if (slot) return `${name}={${variable}.${slot.field}}`;
+        if (attr === 'style') return `style=${jsxStyle(value)}`;
+        if (BOOLEAN_ATTRS.has(attr) && (value === '' || value === attr)) return name;
+        return `${name}=${jsxString(value)}`;
+      });
+    // React sets a select's value on the select, not the option
+    if (tag === 'select') {
+      const selected = el.querySelector('option[selected]');
+      if (selected) attrs.push(`defaultValue=${jsxString(selected.getAttribute('value') ?? (selected.textContent || '').trim())}`);
+    }
+    return attrs;
+  },
+  text: jsxText,
+  slotText: (variable, field) => `{${variable}.${field}}`,
+  loop: (group, open) => `${open} key={i}`,
+  listOpen: (group) => `{${group.prop}.map((${group.variable}, i) => (`,
+  listClose: () => '))}',
+};
+
+// Textarea content is its default value in React
+const moveTextareaContent = (root: Element) => {
+  root.querySelectorAll('textarea').forEach((textarea) => {
+    if (textarea.textContent) textarea.setAttribute('value', textarea.textContent);
+    textarea.textContent = '';
+  });
+};
+
+const itemTypes = (groups: RepeatGroup[], exported: boolean) => groups.map((group) => [
+  `${exported ? 'export ' : ''}interface ${group.typeName} {`,
+  ...fieldsOf(group).map((slot) => `${INDENT}${slot.field}: string;`),
+  '}',
+].join('\n'));
+
+const fieldsOf = (group: RepeatGroup) => [
+  ...Array.from(group.textSlots.values()),
+  ...Array.from(group.attrSlots.values()).flatMap((slots) => Array.from(slots.values())),
+];
+
+// The design's own content, as the list's default value
+const defaultItems = (group: RepeatGroup, level: number) => {
+  const slots = fieldsOf(group);
+  const pad = INDENT.repeat(level);
+  return group.items.map((_, i) => `${pad}{ ${slots.map((slot) => `${slot.field}: ${JSON.stringify(slot.values[i])}`).join(', ')} },`);
+};
+
+const buildReact = (design: ParsedDesign) => {
+  const { name, groups } = design;
+  moveTextareaContent(design.root);
+  const markup = renderNodes(design.root, groups, JSX_DIALECT, 2);
+  const lines: string[] = [];
+  if (design.css) lines.push(`import './${name}.css';`, '');
+  if (groups.length > 0) {
+    lines.push(...itemTypes(groups, true).flatMap((type) => [type, '']));
+    lines.push(`export interface ${name}Props {`, ...groups.map((group) => `${INDENT}${group.prop}?: ${group.typeName}[];`), '}', '');
+    groups.forEach((group) => {
+      lines.push(`const default${pascalCase(group.prop)}: ${group.typeName}[] = [`, ...defaultItems(group, 1), '];', '');
+    });
+    const params = groups.map((group) => `${group.prop} = default${pascalCase(group.prop)}`).join(', ');
+    lines.push(`export default function ${name}({ ${params} }: ${name}Props) {`);
+  } else {
+    lines.push(`export default function ${name}() {`);
+  }
+  lines.push(`${INDENT}return (`, ...markup, `${INDENT});`, '}', '');
+  return lines.join('\n');
+};
+
+// --- Vue ---
+
+const vueText = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/\u00a0/g, '&nbsp;')
+  .replace(/\{\{/g, "{{ '{{' }}");
+
+const vueAttrValue = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+const VUE_DIALECT: Dialect = {
+  attributes: (el, slots, variable) => el.getAttributeNames()
+    .filter((attr) => !attr.startsWith('on'))
+    .map((attr) => {
+      const value = el.getAttribute(attr) ?? '';
+      const slot = slots?.get(attr);
+      if (slot) return `:${attr}="${variable}.${slot.field}"`;
+      if (BOOLEAN_ATTRS.has(attr) && (value === '' || value === attr)) return attr;
+      return `${attr}="${vueAttrValue(value)}"`;
+    }),
+  text: (text) => vueText(text),
+  slotText: (variable, field) => `{{ ${variable}.${field} }}`,
+  loop: (group, open) => open.replace(/^<([^\s>]+)/, `<$1 v-for="(${group.variable}, i) in ${group.prop}" :key="i"`),
+  listOpen: () => null,
+  listClose: () => null,
+};
+
+const buildVue = (design: ParsedDesign) => {
+  const { groups } = design;
+  const markup = renderNodes(design.root, groups, VUE_DIALECT, 1);
+  const lines: string[] = [];
+  if (groups.length > 0) {
+    lines.push('<script setup lang="ts">');
+    lines.push(...itemTypes(groups, false).flatMap((type) => [type, '']));
+    lines.push(`withDefaults(defineProps<{`, ...groups.map((group) => `${INDENT}${group.prop}?: ${group.typeName}[];`), '}>(), {');
+    groups.forEach((group) => {
+      lines.push(`${INDENT}${group.prop}: () => [`, ...defaultItems(group, 2), `${INDENT}],`);
+    });
+    lines.push('});', '</script>', '');
+  }
+  lines.push('<template>', ...markup, '</template>', '');
+  if (design.css) lines.push('<style>', design.css, '</style>', '');
+  return lines.join('\n');
+};
+
+// --- Static HTML + CSS ---
+
+// The page without the Tailwind CDN, its config or inline styles, linking
+// the compiled stylesheet instead. Other scripts are kept.
+const buildStaticHtml = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script').forEach((script) => {
+    if (isTailwindCdn(script) || /tailwind\.config\s*=/.test(script.textContent || '')) script.remove();
+  });
+  doc.querySelectorAll('style').forEach((style) => style.remove());
+  const link = doc.createElement('link');
+  link.setAttribute('rel', 'stylesheet');
+  link.setAttribute('href', 'styles.css');
+  doc.head.appendChild(link);
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}\n`;
+};
+
+// --- Bundles ---
+
+const kebabCase = (name: string) => name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+
+const plural = (count: number, one: string, many: string) => `${count} ${count === 1 ? one : many}`;
+
+const buildReadme = (design: ParsedDesign, format: ExportFormat, files: string[]) => {
+  const lines = [`# ${design.name}`, '', `Exported from DesignCat on ${new Date().toLocaleDateString()}.`, '', '## Files', ''];
+  files.forEach((file) => lines.push(`- \`${file}\``));
+
+  if (format !== 'static' && design.groups.length > 0) {
+    lines.push('', '## Props', '', 'Repeated content is passed in as lists. Each list defaults to the content of the generated design.', '');
+    design.groups.forEach((group) => {
+      lines.push(`- \`${group.prop}\` (${plural(group.items.length, 'item', 'items')} by default): \`${group.typeName}\` with ${fieldsOf(group).map((slot) => `\`${slot.field}\``).join(', ')}`);
+    });
+  }
+
+  lines.push('', '## Setup', '');
+  if (format === 'static') {
+    lines.push('`styles.css` holds the Tailwind utilities the page uses, compiled from the design, so the page needs no build step or CDN.');
+  } else {
+    lines.push('The markup uses Tailwind CSS classes. Add the component to the `content` globs of your Tailwind config.');
+    if (design.tailwindTheme) lines.push('', 'The design was generated with a custom theme. Merge `tailwind.theme.js` into the `theme` of your Tailwind config.');
+  }
+  if (format !== 'static' && design.stylesheets.length > 0) {
+    lines.push('', "Add these stylesheets (e.g. web fonts) to your app's `<head>`:", '', ...design.stylesheets.map((href) => `- ${href}`));
+  }
+
+  const dropped = [
+    design.droppedScripts > 0 ? `${plural(design.droppedScripts, 'script was', 'scripts were')} removed` : '',
+    design.droppedHandlers > 0 ? `${plural(design.droppedHandlers, 'inline event handler was', 'inline event handlers were')} removed (e.g. \`onclick\`)` : '',
+  ].filter(Boolean);
+  if (format !== 'static' && dropped.length > 0) {
+    lines.push('', '## Not converted', '', ...dropped.map((line) => `- ${line[0].toUpperCase()}${line.slice(1)}. Re-create any behaviour in the component.`));
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+// React or Vue component files, ready to zip
+export const buildComponentExport = (html: string, format: 'react' | 'vue'): ExportBundle => {
+  const design = parseDesign(html);
+  const files: ZipEntry[] = [];
+  if (format === 'react') {
+    files.push({ path: `${design.name}.tsx`, content: buildReact(design) });
+    if (design.css) files.push({ path: `${design.name}.css`, content: `${design.css}\n` });
+  } else {
+    files.push({ path: `${design.name}.vue`, content: buildVue(design) });
+  }
+  if (design.tailwindTheme) {
+    files.push({ path: 'tailwind.theme.js', content: `// Merge into the theme of your tailwind.config.js\nexport default ${design.tailwindTheme};\n` });
+  }
+  files.push({ path: 'README.md', content: buildReadme(design, format, files.map((file) => file.path)) });
+  return { zipName: `${kebabCase(design.name)}-${format}.zip`, files };
+};
+
+// The page and its compiled Tailwind CSS (see previewRuntime.ts), ready to zip
+export const buildStaticExport = (html: string, compiledCss: string): ExportBundle => {
+  const design = parseDesign(html);
+  const files: ZipEntry[] = [
+    { path: 'index.html', content: buildStaticHtml(html) },
+    { path: 'styles.css', content: compiledCss },
+  ];
+  files.push({ path: 'README.md', content: buildReadme(design, 'static', files.map((file) => file.path)) });
+  return { zipName: `${kebabCase(design.name)}-html.zip`, files };
+};
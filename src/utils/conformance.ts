@@ -0,0 +1,64 @@
+import { ColorToken, ContrastReport, DesignSystem, OffPaletteColor } from '../types';
+
+// Which of the measured screenshot colours (see contrast.ts) match no colour
+// in the design system. Screenshots are compressed and anti-aliased, so a
+// colour counts as on-palette when it is perceptually close to a token
+// (CIE76 ΔE in Lab). Spacing and type sizes can't be measured reliably from
+// pixels; those are left to the model.
+
+type Lab = [number, number, number];
+
+const MAX_DELTA_E = 10; // beyond this a colour is visibly different from the token
+const MIN_SHARE = 0.005; // ignore colours covering less than 0.5% of the image
+const MAX_RESULTS = 12;
+
+// Pure white and black are on every palette
+const ALWAYS_ALLOWED: ColorToken[] = [
+  { name: 'white', hex: '#ffffff' },
+  { name: 'black', hex: '#000000' },
+];
+
+const toLab = (hex: string): Lab => {
+  const [r, g, b] = [1, 3, 5].map((i) => {
+    const c = parseInt(hex.slice(i, i + 2), 16) / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  // sRGB -> XYZ (D65), normalised to the white point
+  const xyz = [
+    (0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047,
+    0.2126 * r + 0.7152 * g + 0.0722 * b,
+    (0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883,
+  ].map((v) => (v > 0.008856 ? Math.cbrt(v) : 7.787 * v + 16 / 116));
+  return [116 * xyz[1] - 16, 500 * (xyz[0] - xyz[1]), 200 * (xyz[1] - xyz[2])];
+};
+
+const deltaE = (a: Lab, b: Lab) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+export const findOffPaletteColors = (contrast: ContrastReport, designSystem: DesignSystem): OffPaletteColor[] => {
+  if (designSystem.colors.length === 0) return [];
+  const palette = designSystem.colors.map((token) => ({ token, lab: toLab(token.hex) }));
+  const allowed = [...palette, ...ALWAYS_ALLOWED.map((token) => ({ token, lab: toLab(token.hex) }))];
+  const closest = (lab: Lab, entries: typeof palette) =>
+    entries.reduce((best, entry) => (deltaE(lab, entry.lab) < deltaE(lab, best.lab) ? entry : best));
+
+  // Text colours are weighed by how much of the text uses them, surfaces by area
+  const candidates: Omit<OffPaletteColor, 'nearest'>[] = [
+    ...contrast.pairs.map((pair) => ({ hex: pair.foreground, usage: 'text' as const, share: pair.coverage })),
+    ...contrast.palette.map((color) => ({ hex: color.hex, usage: 'surface' as const, share: color.share })),
+  ];
+
+  const found: (OffPaletteColor & { lab: Lab })[] = [];
+  candidates
+    .filter((candidate) => candidate.share >= MIN_SHARE)
+    .forEach((candidate) => {
+      const lab = toLab(candidate.hex);
+      if (deltaE(lab, closest(lab, allowed).lab) <= MAX_DELTA_E) return;
+      // The same colour can show up as both text and surface; keep the first
+      if (found.some((entry) => deltaE(entry.lab, lab) <= MAX_DELTA_E / 2)) return;
+      found.push({ ...candidate, lab, nearest: closest(lab, palette).token });
+    });
+
+  return found
+    .slice(0, MAX_RESULTS)
+    .map(({ lab, ...color }) => color);
+};
@@ -0,0 +1,210 @@
+import { ContrastPair, ContrastReport, PaletteColor } from '../types';
+import { loadImage } from './image';
+
+// Deterministic colour-contrast analysis of a screenshot, done on a canvas in
+// the browser. The image is cut into small tiles; a tile that is mostly one
+// colour with a thin, busy second colour on top is treated as text, and the
+// two colours are checked against the WCAG 2.x contrast thresholds.
+
+type RGB = [number, number, number];
+
+const MAX_SIDE = 800; // px; larger images are downscaled first
+const TILE = 16; // px
+const PALETTE_SIZE = 8;
+const MAX_PAIRS = 10;
+
+// Tile heuristics
+const MIN_BACKGROUND_SHARE = 0.5; // one colour must dominate the tile
+const MIN_FOREGROUND_SHARE = 0.04; // ...with enough of a second colour
+const MAX_FOREGROUND_SHARE = 0.45; // ...but not so much it is a solid block
+const FOREGROUND_DISTANCE = 48; // RGB distance from the background that counts as "ink"
+const MIN_EDGES_PER_LINE = 1; // glyphs switch between ink and background often, both ways
+const MIN_PAIR_TILES = 2; // ignore pairs seen in a single tile
+
+// --- WCAG 2.x ---
+
+const channelLuminance = (value: number) => {
+  const c = value / 255;
+  return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+export const relativeLuminance = ([r, g, b]: RGB) =>
+  0.2126 * channelLuminance(r) + 0.7152 * channelLuminance(g) + 0.0722 * channelLuminance(b);
+
+export const contrastRatio = (a: RGB, b: RGB) => {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// --- Colour helpers ---
+
+const toHex = ([r, g, b]: RGB) =>
+  `#${[r, g, b].map((v) => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+// 4 bits per channel: close shades share a bucket
+const bucketOf = (r: number, g: number, b: number) => ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+
+const distance = (a: RGB, b: RGB) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+interface ColorSum { count: number; r: number; g: number; b: number }
+
+const addTo = (map: Map<number, ColorSum>, key: number, r: number, g: number, b: number) => {
+  const entry = map.get(key);
+  if (entry) {
+    entry.count++;
+    entry.r += r;
+    entry.g += g;
+    entry.b += b;
+  } else {
+    map.set(key, { count: 1, r, g, b });
+  }
+};
+
+const average = (sum: ColorSum): RGB => [sum.r / sum.count, sum.g / sum.count, sum.b / sum.count];
+
+// --- Analysis ---
+
+const readPixels = async (dataUrl: string) => {
+  const img = await loadImage(dataUrl);
+  const scale = Math.min(1, MAX_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not available in this browser");
+  // Transparent screenshots are judged as if shown on white
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const extractPalette = (data: Uint8ClampedArray): PaletteColor[] => {
+  const buckets = new Map<number, ColorSum>();
+  for (let i = 0; i < data.length; i += 4) {
+    addTo(buckets, bucketOf(data[i], data[i + 1], data[i + 2]), data[i], data[i + 1], data[i + 2]);
+  }
+
+  // Fold neighbouring buckets into the bigger one so a single colour isn't listed twice
+  const merged: { color: RGB; count: number }[] = [];
+  [...buckets.values()]
+    .sort((a, b) => b.count - a.count)
+    .forEach((sum) => {
+      const color = average(sum);
+      const near = merged.find((entry) => distance(entry.color, color) < 24);
+      if (near) near.count += sum.count;
+      else merged.push({ color, count: sum.count });
+    });
+
+  const total = data.length / 4;
+  return merged
+    .slice(0, PALETTE_SIZE)
+    .map(({ color, count }) => ({ hex: toHex(color), share: count / total }));
+};
+
+interface TileText { foreground: RGB; background: RGB }
+
+// Returns the ink and background colours if the tile looks like text
+const readTile = (image: ImageData, left: number, top: number): TileText | null => {
+  const { data, width } = image;
+  const buckets = new Map<number, ColorSum>();
+  for (let y = top; y < top + TILE; y++) {
+    for (let x = left; x < left + TILE; x++) {
+      const i = (y * width + x) * 4;
+      addTo(buckets, bucketOf(data[i], data[i + 1], data[i + 2]), data[i], data[i + 1], data[i + 2]);
+    }
+  }
+
+  const total = TILE * TILE;
+  const dominant = [...buckets.values()].reduce((a, b) => (b.count > a.count ? b : a));
+  if (dominant.count / total < MIN_BACKGROUND_SHARE) return null;
+  const background = average(dominant);
+
+  const ink: { color: RGB; distance: number }[] = [];
+  const mask: boolean[] = [];
+  for (let y = top; y < top + TILE; y++) {
+    for (let x = left; x < left + TILE; x++) {
+      const i = (y * width + x) * 4;
+      const color: RGB = [data[i], data[i + 1], data[i + 2]];
+      const d = distance(color, background);
+      const isInk = d > FOREGROUND_DISTANCE;
+      if (isInk) ink.push({ color, distance: d });
+      mask.push(isInk);
+    }
+  }
+
+  const inkShare = ink.length / total;
+  if (inkShare < MIN_FOREGROUND_SHARE || inkShare > MAX_FOREGROUND_SHARE) return null;
+
+  // Rules and borders only change in one direction; glyphs change in both
+  let horizontalEdges = 0;
+  let verticalEdges = 0;
+  for (let row = 0; row < TILE; row++) {
+    for (let col = 1; col < TILE; col++) {
+      if (mask[row * TILE + col] !== mask[row * TILE + col - 1]) horizontalEdges++;
+      if (mask[col * TILE + row] !== mask[(col - 1) * TILE + row]) verticalEdges++;
+    }
+  }
+  if (Math.min(horizontalEdges, verticalEdges) / TILE < MIN_EDGES_PER_LINE) return null;
+
+  // Glyph edges are anti-aliased towards the background; the true ink colour
+  // is the part that is furthest from it
+  ink.sort((a, b) => b.distance - a.distance);
+  const core = ink.slice(0, Math.max(1, Math.round(ink.length * 0.3)));
+  const foreground = core
+    .reduce<RGB>((sum, { color }) => [sum[0] + color[0], sum[1] + color[1], sum[2] + color[2]], [0, 0, 0])
+    .map((v) => v / core.length) as RGB;
+
+  return { foreground, background };
+};
+
+const findTextPairs = (image: ImageData) => {
+  const pairs = new Map<string, { tiles: number; fg: RGB; bg: RGB }>();
+  let textRegions = 0;
+
+  for (let top = 0; top + TILE <= image.height; top += TILE) {
+    for (let left = 0; left + TILE <= image.width; left += TILE) {
+      const text = readTile(image, left, top);
+      if (!text) continue;
+      textRegions++;
+
+      const key = `${bucketOf(...text.foreground)}/${bucketOf(...text.background)}`;
+      const entry = pairs.get(key);
+      if (entry) {
+        entry.tiles++;
+        entry.fg = entry.fg.map((v, i) => v + text.foreground[i]) as RGB;
+        entry.bg = entry.bg.map((v, i) => v + text.background[i]) as RGB;
+      } else {
+        pairs.set(key, { tiles: 1, fg: [...text.foreground], bg: [...text.background] });
+      }
+    }
+  }
+
+  const result: ContrastPair[] = [...pairs.values()]
+    .filter((entry) => entry.tiles >= MIN_PAIR_TILES)
+    .sort((a, b) => b.tiles - a.tiles)
+    .slice(0, MAX_PAIRS)
+    .map((entry) => {
+      const fg = entry.fg.map((v) => v / entry.tiles) as RGB;
+      const bg = entry.bg.map((v) => v / entry.tiles) as RGB;
+      const ratio = contrastRatio(fg, bg);
+      return {
+        foreground: toHex(fg),
+        background: toHex(bg),
+        ratio: Math.round(ratio * 100) / 100,
+        aa: ratio >= 4.5,
+        aaLarge: ratio >= 3,
+        aaa: ratio >= 7,
+        aaaLarge: ratio >= 4.5,
+        coverage: entry.tiles / textRegions,
+      };
+    });
+
+  return { pairs: result, textRegions };
+};
+
+export const analyzeContrast = async (dataUrl: string): Promise<ContrastReport> => {
+  const image = await readPixels(dataUrl);
+  return { palette: extractPalette(image.data), ...findTextPairs(image) };
+};
@@ -0,0 +1,61 @@
+import { Breakpoint, DesignContext, DesignEvaluation, DesignScore, DesignSystem, Persona, Rubric } from '../types';
+import { analyzeDesign, captureBreakpoints } from '../services/geminiService';
+import { DesignVersion } from './designVersions';
+import { withDesignSystemTheme } from './designTokens';
+import { getOfflinePreview } from './previewRuntime';
+import { MetricAxis, axesOf } from './metrics';
+
+// Scores generated redesigns: a version is rendered headlessly as the preview
+// shows it (self-contained, with the design system's theme), and the screenshot goes
+// through the same critique as an upload, with the same rubric and personas,
+// so its score can stand next to the original's.
+
+// The critique sees the page at desktop width, from the top down
+export const EVALUATION_BREAKPOINT: Breakpoint = { label: 'Desktop', width: 1440, height: 900 };
+
+const MAX_PROMPT_ISSUES = 5;
+
+// What the original was critiqued with
+export interface EvaluationSetup {
+  context: DesignContext;
+  themeMode: 'day' | 'night';
+  rubric?: Rubric;
+  personas?: Persona[];
+  designSystem?: DesignSystem;
+  baseline: DesignScore | null; // the original's score
+}
+
+export const evaluateDesign = async (version: DesignVersion, setup: EvaluationSetup): Promise<DesignEvaluation> => {
+  const { designSystem } = setup;
+  const preview = await getOfflinePreview(designSystem ? withDesignSystemTheme(version.html, designSystem) : version.html);
+  const [shot] = await captureBreakpoints(preview.html, [EVALUATION_BREAKPOINT]);
+  // Figma and live-page facts describe the original, not the redesign
+  const context: DesignContext = { userContext: setup.context.userContext };
+  const { scores, critique } = await analyzeDesign(shot.image, context, setup.themeMode, undefined, {
+    rubric: setup.rubric,
+    personas: setup.personas,
+    designSystem,
+  });
+  if (!scores) throw new Error("The critique didn't return a score.");
+  return { version: version.number, scores, critique, image: shot.image, evaluatedAt: new Date().toISOString() };
+};
+
+// The lowest-scoring dimension; ties go to the rubric's order
+export const weakestDimension = (scores: DesignScore, rubric?: Rubric): MetricAxis & { score: number } => {
+  const scored = axesOf(rubric).map((axis) => ({ ...axis, score: scores.metrics[axis.key] ?? 10 }));
+  return scored.reduce((weakest, axis) => (axis.score < weakest.score ? axis : weakest));
+};
+
+// Follow-up message asking the chat to work on the weakest dimension
+export const buildImprovementPrompt = (evaluation: DesignEvaluation, rubric?: Rubric) => {
+  const weakest = weakestDimension(evaluation.scores, rubric);
+  const issues = (evaluation.critique?.issues ?? [])
+    .filter((issue) => issue.dimension === weakest.key)
+    .slice(0, MAX_PROMPT_ISSUES)
+    .map((issue) => `- ${issue.title}: ${issue.detail}`);
+  return [
+    `Version ${evaluation.version} scored ${evaluation.scores.overallScore}/100 when critiqued. Its weakest dimension is ${weakest.label} at ${weakest.score}/10.`,
+    issues.length > 0 ? `The critique found:\n${issues.join('\n')}` : '',
+    `Please improve ${weakest.label} without making the other dimensions worse, and show me the updated version.`,
+  ].filter(Boolean).join('\n\n');
+};
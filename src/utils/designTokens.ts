@@ -0,0 +1,523 @@
+import { ColorToken, ConformanceKind, DesignSystem, DesignSystemProfile, FontToken, SizeToken } from '../types';
+
+// Imports design tokens into a design system profile, entirely in the browser.
+// Two formats are understood:
+//  - W3C Design Tokens JSON (`$value`/`$type`, groups, `{alias}` references;
+//    Style Dictionary's `value`/`type` also works)
+//  - Tailwind config, as JSON or as the JS/TS file itself. Config files are
+//    never executed: the `theme` object literal is read with a small parser
+//    and anything computed (function calls, spreads, imports) is skipped.
+// Also builds the Tailwind theme that keeps generated HTML on those tokens.
+
+// Limits mirror server/designSystem.js
+const MAX_TOKENS = 300;
+const MAX_NAME_LENGTH = 80;
+const MAX_FAMILY_LENGTH = 200;
+const MAX_SIZE_PX = 1000;
+const MAX_ALIAS_DEPTH = 10;
+const ROOT_FONT_PX = 16; // rem/em are resolved against the browser default
+
+type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
+type JsonObject = { [key: string]: Json };
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export interface ImportedTokens {
+  profile: DesignSystemProfile;
+  skipped: number; // tokens whose value could not be read
+}
+
+// --- Values ---
+
+const NAMED_COLORS: Record<string, string> = { white: '#ffffff', black: '#000000' };
+
+const hslToHex = (h: number, s: number, l: number) => {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return `#${[0, 8, 4].map((n) => Math.round(channel(n) * 255).toString(16).padStart(2, '0')).join('')}`;
+};
+
+// CSS colour -> #rrggbb, or null. Alpha is dropped; `var()` and other
+// runtime-only values can't be resolved.
+export const toHex = (value: unknown): string | null => {
+  if (isObject(value)) {
+    // W3C colour object: { colorSpace, components, hex? }
+    if (typeof value.hex === 'string') return toHex(value.hex);
+    const { colorSpace, components } = value;
+    if (colorSpace === 'srgb' && Array.isArray(components) && components.length >= 3 && components.every((c) => typeof c === 'number')) {
+      return `#${(components as number[]).slice(0, 3).map((c) => Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16).padStart(2, '0')).join('')}`;
+    }
+    return null;
+  }
+  if (typeof value !== 'string') return null;
+  const color = value.trim().toLowerCase();
+  if (NAMED_COLORS[color]) return NAMED_COLORS[color];
+
+  const hex = color.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    const digits = hex[1];
+    if (digits.length === 3 || digits.length === 4) return `#${digits.slice(0, 3).split('').map((d) => d + d).join('')}`;
+    if (digits.length === 6 || digits.length === 8) return `#${digits.slice(0, 6)}`;
+    return null;
+  }
+
+  const fn = color.match(/^(rgba?|hsla?)\(\s*([^)]*)\)$/);
+  if (!fn) return null;
+  const parts = fn[2].split(/[\s,/]+/).filter(Boolean).slice(0, 3);
+  if (parts.length < 3) return null;
+  const numbers = parts.map((part) => parseFloat(part));
+  if (numbers.some((n) => Number.isNaN(n))) return null;
+
+  if (fn[1].startsWith('rgb')) {
+    const channels = parts.map((part, i) => (part.endsWith('%') ? numbers[i] * 2.55 : numbers[i]));
+    return `#${channels.map((c) => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('')}`;
+  }
+  const [h, s, l] = numbers;
+  return hslToHex(((h % 360) + 360) % 360, Math.min(100, s) / 100, Math.min(100, l) / 100);
+};
+
+// CSS length -> px, or null. Bare numbers are taken as px.
+export const toPx = (value: unknown): number | null => {
+  if (isObject(value)) {
+    // W3C dimension object: { value, unit }
+    if (typeof value.value !== 'number') return null;
+    if (value.unit === 'px') return value.value;
+    if (value.unit === 'rem') return value.value * ROOT_FONT_PX;
+    return null;
+  }
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(-?\d*\.?\d+)(px|rem|em)?$/);
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  return match[2] === 'rem' || match[2] === 'em' ? n * ROOT_FONT_PX : n;
+};
+
+const toFamily = (value: unknown): string | null => {
+  const families = Array.isArray(value) ? value.filter((f) => typeof f === 'string') : typeof value === 'string' ? [value] : [];
+  const family = families
+    .map((f) => f.trim())
+    .filter(Boolean)
+    .map((f) => (/\s/.test(f) && !/^["']/.test(f) ? `"${f}"` : f))
+    .join(', ');
+  return family ? family.slice(0, MAX_FAMILY_LENGTH) : null;
+};
+
+// --- Collecting ---
+
+// Accumulates tokens, dropping duplicates and anything out of range
+const createCollector = () => {
+  const groups = {
+    colors: [] as ColorToken[],
+    fontSizes: [] as SizeToken[],
+    spacing: [] as SizeToken[],
+    radii: [] as SizeToken[],
+    fontFamilies: [] as FontToken[],
+  };
+  let skipped = 0;
+
+  const add = <T extends { name: string }>(list: T[], token: T) => {
+    const name = token.name.slice(0, MAX_NAME_LENGTH);
+    if (!name || list.length >= MAX_TOKENS || list.some((existing) => existing.name === name)) return;
+    list.push({ ...token, name });
+  };
+
+  return {
+    color: (name: string, value: unknown) => {
+      const hex = toHex(value);
+      if (hex) add(groups.colors, { name, hex });
+      else skipped++;
+    },
+    size: (group: 'fontSizes' | 'spacing' | 'radii', name: string, value: unknown) => {
+      const px = toPx(value);
+      if (px !== null && px >= 0 && px <= MAX_SIZE_PX) add(groups[group], { name, px: Math.round(px * 100) / 100 });
+      else skipped++;
+    },
+    family: (name: string, value: unknown) => {
+      const family = toFamily(value);
+      if (family) add(groups.fontFamilies, { name, family });
+      else skipped++;
+    },
+    result: () => ({ groups, skipped }),
+  };
+};
+
+const finish = (
+  { groups, skipped }: ReturnType<ReturnType<typeof createCollector>['result']>,
+  name: string,
+  source: DesignSystemProfile['source']
+): ImportedTokens => {
+  const total = Object.values(groups).reduce((sum, list) => sum + list.length, 0);
+  if (total === 0) throw new Error("No colours, type sizes, spacing, radii or font families were found in this file");
+  return {
+    profile: { id: crypto.randomUUID(), name, source, createdAt: new Date().toISOString(), ...groups },
+    skipped,
+  };
+};
+
+// --- W3C Design Tokens ---
+
+const valueKey = (node: JsonObject) => ('$value' in node ? '$value' : 'value' in node ? 'value' : null);
+const typeOf = (node: JsonObject) => (typeof node.$type === 'string' ? node.$type : typeof node.type === 'string' ? node.type : undefined);
+
+// Which group a dimension belongs to, from the words in its path
+const dimensionGroup = (path: string[]): 'fontSizes' | 'spacing' | 'radii' | null => {
+  const words = path.join(' ').toLowerCase();
+  if (/weight|line|letter|leading|tracking|opacity|index|duration|breakpoint|screen|shadow|border-?width/.test(words)) return null;
+  if (/radius|radii|rounded|corner/.test(words)) return 'radii';
+  if (/font|text|type|typography|heading/.test(words)) return 'fontSizes';
+  if (/spac|gap|gutter|inset|margin|padding|size/.test(words)) return 'spacing';
+  return null;
+};
+
+// Untyped tokens are classified by their value
+const inferType = (value: Json) => {
+  if (toHex(value)) return 'color';
+  if (toPx(value) !== null) return 'dimension';
+  if (Array.isArray(value)) return 'fontFamily';
+  return undefined;
+};
+
+// The first path segment is usually the category ("color", "spacing"), so it
+// is dropped from the name unless nothing else is left
+const tokenName = (path: string[]) => (path.length > 1 ? path.slice(1) : path).join('-');
+
+const parseW3cTokens = (root: JsonObject, name: string): ImportedTokens => {
+  const collect = createCollector();
+
+  const lookup = (path: string): JsonObject | null => {
+    let node: Json = root;
+    for (const key of path.split('.')) {
+      if (!isObject(node) || !(key in node)) return null;
+      node = node[key];
+    }
+    return isObject(node) ? node : null;
+  };
+
+  // Follows "{group.token}" references
+  const resolve = (value: Json, depth = 0): Json => {
+    if (typeof value !== 'string') return value;
+    const alias = value.match(/^\{([^}]+)\}$/);
+    if (!alias || depth > MAX_ALIAS_DEPTH) return value;
+    const target = lookup(alias[1]);
+    const key = target && valueKey(target);
+    return target && key ? resolve(target[key], depth + 1) : value;
+  };
+
+  const visit = (node: JsonObject, path: string[], inheritedType?: string) => {
+    const type = typeOf(node) ?? inheritedType;
+    const key = valueKey(node);
+    if (key) {
+      const value = resolve(node[key]);
+      const tokenType = type ?? inferType(value);
+      const label = tokenName(path);
+      if (tokenType === 'color') collect.color(label, value);
+      else if (tokenType === 'fontFamily') collect.family(label, value);
+      else if (tokenType === 'dimension' || tokenType === 'fontSize' || tokenType === 'spacing' || tokenType === 'borderRadius') {
+        const group = tokenType === 'fontSize' ? 'fontSizes' : tokenType === 'borderRadius' ? 'radii' : dimensionGroup(path);
+        if (group) collect.size(group, label, value);
+      } else if (tokenType === 'typography' && isObject(value)) {
+        if (value.fontSize !== undefined) collect.size('fontSizes', label, resolve(value.fontSize));
+        if (value.fontFamily !== undefined) collect.family(label, resolve(value.fontFamily));
+      }
+      return;
+    }
+    Object.entries(node).forEach(([child, value]) => {
+      if (!child.startsWith('$') && isObject(value)) visit(value, [...path, child], type);
+    });
+  };
+
+  visit(root, []);
+  return finish(collect.result(), name, 'w3c');
+};
+
+const hasTokenValues = (node: Json, depth = 0): boolean =>
+  isObject(node) && depth < 20 && ('$value' in node || Object.values(node).some((child) => hasTokenValues(child, depth + 1)));
+
+// --- Tailwind config ---
+
+// Reads a JS object/array literal starting at `start`. Values that aren't
+// literals are returned as undefined and skipped by the caller.
+const parseLiteral = (source: string, start: number): Json | undefined => {
+  let i = start;
+
+  const skipSpace = () => {
+    while (i < source.length) {
+      if (/\s/.test(source[i])) i++;
+      else if (source.startsWith('//', i)) i = source.indexOf('\n', i) === -1 ? source.length : source.indexOf('\n', i);
+      else if (source.startsWith('/*', i)) i = source.indexOf('*/', i) === -1 ? source.length : source.indexOf('*/', i) + 2;
+      else break;
+    }
+  };
+
+  const readString = () => {
+    const quote = source[i++];
+    let out = '';
+    while (i < source.length && source[i] !== quote) {
+      if (source[i] === '\\') i++;
+      out += source[i++];
+    }
+    i++;
+    return out;
+  };
+
+  // Skips an expression we can't read, up to the next `,` or closing bracket
+  const skipExpression = () => {
+    let depth = 0;
+    while (i < source.length) {
+      const c = source[i];
+      if (c === '"' || c === "'" || c === '`') {
+        readString();
+        continue;
+      }
+      if (c === '(' || c === '[' || c === '{') depth++;
+      else if (c === ')' || c === ']' || c === '}') {
+        if (depth === 0) return;
+        depth--;
+      } else if (c === ',' && depth === 0) return;
+      i++;
+    }
+  };
+
+  const readValue = (): Json | undefined => {
+    skipSpace();
+    const c = source[i];
+    if (c === '{') return readObject();
+    if (c === '[') return readArray();
+    if (c === '"' || c === "'" || (c === '`' && !source.slice(i, source.indexOf('`', i + 1)).includes('${'))) {
+      const value = readString();
+      skipSpace();
+      if (/[^,\]})]/.test(source[i] ?? ',')) {
+        skipExpression(); // e.g. string concatenation
+        return undefined;
+      }
+      return value;
+    }
+    const number = source.slice(i).match(/^-?\d*\.?\d+(?=\s*[,\]}])/);
+    if (number) {
+      i += number[0].length;
+      return parseFloat(number[0]);
+    }
+    skipExpression();
+    return undefined;
+  };
+
+  const readObject = (): JsonObject => {
+    const out: JsonObject = {};
+    i++; // {
+    while (i < source.length) {
+      skipSpace();
+      if (source[i] === '}') {
+        i++;
+        return out;
+      }
+      if (source.startsWith('...', i)) {
+        skipExpression();
+      } else {
+        let key: string | null = null;
+        if (source[i] === '"' || source[i] === "'") key = readString();
+        else {
+          const bare = source.slice(i).match(/^[\w$-]+/);
+          if (bare) {
+            key = bare[0];
+            i += bare[0].length;
+          }
+        }
+        skipSpace();
+        if (key !== null && source[i] === ':') {
+          i++;
+          const value = readValue();
+          if (value !== undefined) out[key] = value;
+        } else {
+          skipExpression(); // methods, computed keys
+        }
+      }
+      skipSpace();
+      if (source[i] === ',') i++;
+      else if (source[i] !== '}') return out;
+    }
+    return out;
+  };
+
+  const readArray = (): Json[] => {
+    const out: Json[] = [];
+    i++; // [
+    while (i < source.length) {
+      skipSpace();
+      if (source[i] === ']') {
+        i++;
+        return out;
+      }
+      const value = readValue();
+      if (value !== undefined) out.push(value);
+      skipSpace();
+      if (source[i] === ',') i++;
+      else if (source[i] !== ']') return out;
+    }
+    return out;
+  };
+
+  return readValue();
+};
+
+// `theme` from a config file's source, or null if it has none
+const readTailwindTheme = (source: string): JsonObject | null => {
+  const match = source.match(/\btheme\s*:\s*\{/);
+  if (!match || match.index === undefined) return null;
+  const theme = parseLiteral(source, match.index + match[0].length - 1);
+  return isObject(theme) ? theme : null;
+};
+
+// The object literal assigned in a page's `tailwind.config = {...}` script,
+// read the same way as config files, or null if there isn't one
+export const readTailwindConfig = (source: string): JsonObject | null => {
+  const match = source.match(/tailwind\.config\s*=\s*\{/);
+  if (!match || match.index === undefined) return null;
+  const config = parseLiteral(source, match.index + match[0].length - 1);
+  return isObject(config) ? config : null;
+};
+
+// Nested colour groups flatten to "brand-500"; DEFAULT is the group itself
+const flattenColors = (colors: JsonObject, prefix: string[], add: (name: string, value: Json) => void) => {
+  Object.entries(colors).forEach(([key, value]) => {
+    const path = key === 'DEFAULT' ? prefix : [...prefix, key];
+    if (isObject(value)) flattenColors(value, path, add);
+    else if (path.length > 0) add(path.join('-'), value);
+  });
+};
+
+const parseTailwindTheme = (theme: JsonObject, name: string): ImportedTokens => {
+  const collect = createCollector();
+  const extend = isObject(theme.extend) ? theme.extend : {};
+  // `extend` entries override same-named base entries
+  const section = (key: string): JsonObject => ({
+    ...(isObject(theme[key]) ? theme[key] as JsonObject : {}),
+    ...(isObject(extend[key]) ? extend[key] as JsonObject : {}),
+  });
+
+  flattenColors(section('colors'), [], (token, value) => {
+    if (value !== 'transparent' && value !== 'currentColor' && value !== 'inherit') collect.color(token, value);
+  });
+  // fontSize: '14px' or ['14px', { lineHeight }] or ['14px', '20px']
+  Object.entries(section('fontSize')).forEach(([token, value]) => collect.size('fontSizes', token, Array.isArray(value) ? value[0] : value));
+  Object.entries(section('spacing')).forEach(([token, value]) => collect.size('spacing', token, value));
+  Object.entries(section('borderRadius')).forEach(([token, value]) => {
+    if (token !== 'full') collect.size('radii', token, value);
+  });
+  // fontFamily: ['Inter', 'sans-serif'] or [['Inter', ...], { fontFeatureSettings }]
+  Object.entries(section('fontFamily')).forEach(([token, value]) => {
+    collect.family(token, Array.isArray(value) && Array.isArray(value[0]) ? value[0] : value);
+  });
+
+  return finish(collect.result(), name, 'tailwind');
+};
+
+// --- Entry point ---
+
+const TAILWIND_SECTIONS = ['colors', 'fontSize', 'spacing', 'borderRadius', 'fontFamily', 'extend'];
+
+// File contents -> profile. Throws an Error with a message fit for the UI.
+export const parseDesignTokens = (text: string, fileName: string): ImportedTokens => {
+  const name = (fileName.replace(/\.[^.]+$/, '').replace(/\.config$/, '') || 'Design system').slice(0, MAX_NAME_LENGTH);
+
+  let parsed: Json | undefined;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    parsed = undefined;
+  }
+
+  const json = parsed;
+  if (isObject(json)) {
+    if (hasTokenValues(json)) return parseW3cTokens(json, name);
+    if (isObject(json.theme)) return parseTailwindTheme(json.theme, name);
+    if (TAILWIND_SECTIONS.some((key) => isObject(json[key]))) return parseTailwindTheme(json, name);
+    // Style Dictionary files use `value` without `$`
+    return parseW3cTokens(json, name);
+  }
+
+  const theme = readTailwindTheme(text);
+  if (!theme) throw new Error("This file isn't W3C Design Tokens JSON or a Tailwind config with a `theme`");
+  return parseTailwindTheme(theme, name === 'tailwind' ? 'Tailwind theme' : name);
+};
+
+// --- Generated HTML ---
+
+// The Tailwind theme that only offers the profile's tokens. Groups without
+// tokens keep Tailwind's defaults; white, black and the keyword colours stay
+// available because every design uses them.
+export const tailwindThemeFor = (designSystem: DesignSystem) => {
+  const theme: Record<string, Record<string, string | string[]>> = {};
+  const sizes = (tokens: SizeToken[]) => Object.fromEntries(tokens.map((token) => [token.name, `${token.px}px`]));
+
+  if (designSystem.colors.length > 0) {
+    theme.colors = {
+      transparent: 'transparent',
+      current: 'currentColor',
+      inherit: 'inherit',
+      white: '#ffffff',
+      black: '#000000',
+      ...Object.fromEntries(designSystem.colors.map((token) => [token.name, token.hex])),
+    };
+  }
+  if (designSystem.fontSizes.length > 0) theme.fontSize = sizes(designSystem.fontSizes);
+  if (designSystem.spacing.length > 0) theme.spacing = { 0: '0px', px: '1px', ...sizes(designSystem.spacing) };
+  if (designSystem.radii.length > 0) theme.borderRadius = { none: '0px', full: '9999px', ...sizes(designSystem.radii) };
+  if (designSystem.fontFamilies.length > 0) {
+    theme.fontFamily = Object.fromEntries(designSystem.fontFamilies.map((token) => [token.name, token.family.split(',').map((f) => f.trim())]));
+  }
+  return theme;
+};
+
+// Sets the profile's theme on the page's Tailwind CDN, after any config the
+// page sets itself, so the preview only renders on-system classes
+export const withDesignSystemTheme = (html: string, designSystem: DesignSystem) => {
+  const script = `<script>tailwind.config = { theme: ${JSON.stringify(tailwindThemeFor(designSystem)).replace(/</g, '\\u003c')} };</script>`;
+  const end = html.toLowerCase().lastIndexOf('</head>');
+  return end === -1 ? script + html : html.slice(0, end) + script + html.slice(end);
+};
+
+export interface OffTokenValue {
+  className: string; // e.g. "bg-[#3a7bd5]"
+  kind: ConformanceKind;
+}
+
+const COLOR_UTILITIES = /^(bg|text|border(-[trblxyse])?|ring|ring-offset|outline|divide|fill|stroke|from|via|to|accent|caret|decoration|placeholder|shadow)$/;
+const SPACING_UTILITIES = /^(p[xytrblse]?|m[xytrblse]?|gap(-[xy])?|space-[xy]|scroll-[mp][xytrblse]?)$/;
+const RADIUS_UTILITIES = /^rounded(-(t|r|b|l|tl|tr|br|bl|s|e|ss|se|es|ee))?$/;
+
+// Tailwind arbitrary values (`p-[13px]`, `bg-[#3a7bd5]`) that bypass the
+// theme with a value that isn't one of the profile's tokens
+export const findOffTokenValues = (html: string, designSystem: DesignSystem): OffTokenValue[] => {
+  const colors = new Set(['#ffffff', '#000000', ...designSystem.colors.map((token) => token.hex)]);
+  const onScale = (tokens: SizeToken[], px: number) => px === 0 || tokens.some((token) => Math.abs(token.px - px) < 0.5);
+  const found = new Map<string, OffTokenValue>();
+
+  for (const [, classes] of html.matchAll(/\bclass(?:Name)?\s*=\s*["']([^"']*)["']/g)) {
+    classes.split(/\s+/).forEach((className) => {
+      const match = className.split(':').pop()!.replace(/^[!-]+/, '').match(/^([a-z-]+?)-\[([^\]]+)\]$/);
+      if (!match || found.has(className)) return;
+      const [, utility, raw] = match;
+      const value = raw.replace(/_/g, ' ');
+
+      let kind: ConformanceKind | null = null;
+      const hex = toHex(value);
+      const px = toPx(value);
+      if (COLOR_UTILITIES.test(utility) && hex) {
+        if (designSystem.colors.length > 0 && !colors.has(hex)) kind = 'color';
+      } else if (utility === 'text' && px !== null) {
+        if (designSystem.fontSizes.length > 0 && !onScale(designSystem.fontSizes, px)) kind = 'typography';
+      } else if (SPACING_UTILITIES.test(utility) && px !== null) {
+        if (designSystem.spacing.length > 0 && !onScale(designSystem.spacing, Math.abs(px))) kind = 'spacing';
+      } else if (RADIUS_UTILITIES.test(utility) && px !== null) {
+        if (designSystem.radii.length > 0 && !onScale(designSystem.radii, px)) kind = 'radius';
+      }
+      if (kind) found.set(className, { className, kind });
+    });
+  }
+  return [...found.values()];
+};
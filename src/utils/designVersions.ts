@@ -0,0 +1,108 @@
+import { ChatMessage } from '../types';
+
+// Every HTML design the chat has generated, oldest first, and a line diff
+// between any two of them for the preview's source comparison.
+
+export interface DesignVersion {
+  number: number; // 1-based, in the order the chat produced them
+  html: string;
+  label: string; // the request that produced it
+  createdAt?: string;
+  messageIndex: number; // the chat message it came from
+}
+
+export type DiffLine =
+  | { type: 'same'; text: string; oldLine: number; newLine: number }
+  | { type: 'removed'; text: string; oldLine: number }
+  | { type: 'added'; text: string; newLine: number };
+
+const HTML_BLOCK = /```html\n([\s\S]*?)\n```/;
+const MAX_LABEL_LENGTH = 80;
+// Beyond this many changed lines on both sides the LCS table gets too big;
+// the changed region is shown as removed then added instead
+const MAX_DIFF_CELLS = 4_000_000;
+
+export const extractHtml = (text: string): string | null => {
+  const match = text.match(HTML_BLOCK);
+  return match ? match[1] : null;
+};
+
+export const removeHtml = (text: string): string => text.replace(HTML_BLOCK, '');
+
+const toLabel = (prompt: string | undefined, number: number) => {
+  const text = (prompt ?? '').replace(/\s+/g, ' ').trim();
+  if (!text) return `Version ${number}`;
+  return text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+};
+
+export const collectDesignVersions = (messages: ChatMessage[]): DesignVersion[] => {
+  const versions: DesignVersion[] = [];
+  messages.forEach((message, i) => {
+    const html = message.role === 'model' ? extractHtml(message.text) : null;
+    if (!html) return;
+    const prompt = messages[i - 1]?.role === 'user' ? messages[i - 1].text : undefined;
+    versions.push({
+      number: versions.length + 1,
+      html,
+      label: toLabel(prompt, versions.length + 1),
+      createdAt: message.createdAt,
+      messageIndex: i,
+    });
+  });
+  return versions;
+};
+
+// Line diff via the longest common subsequence of the lines that differ,
+// after the shared start and end are set aside
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const same = (i: number, j: number): DiffLine => ({ type: 'same', text: a[i], oldLine: i + 1, newLine: j + 1 });
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) result.push(same(i, i));
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_DIFF_CELLS) {
+    for (let i = start; i < endA; i++) result.push({ type: 'removed', text: a[i], oldLine: i + 1 });
+    for (let j = start; j < endB; j++) result.push({ type: 'added', text: b[j], newLine: j + 1 });
+  } else {
+    // lengths[i * (m + 1) + j]: LCS length of a[start + i..] and b[start + j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = a[start + i] === b[start + j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        result.push(same(start + i, start + j));
+        i++;
+        j++;
+      } else if (i < n && (j === m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+        result.push({ type: 'removed', text: a[start + i], oldLine: start + i + 1 });
+        i++;
+      } else {
+        result.push({ type: 'added', text: b[start + j], newLine: start + j + 1 });
+        j++;
+      }
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) result.push(same(endA + k, endB + k));
+  return result;
+};
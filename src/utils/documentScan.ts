@@ -0,0 +1,279 @@
+import { loadImage } from './image';
+
+// Straightens camera photos of a screen or printed page: the quadrilateral
+// it sits in is found from the photo's edges, mapped back to a rectangle and
+// its levels stretched, so the critique sees the design rather than the desk,
+// the keystone and the washed-out exposure.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners as fractions (0-1) of the photo size: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// Anything shaped like ImageData
+interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export const FULL_FRAME: Quad = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+const DETECT_SIZE = 360; // longest side the photo is searched at
+const MAX_OUTPUT = 2400; // longest side of the straightened image
+const MIN_AREA = 0.15; // of the photo; anything smaller is probably not the screen or page
+const MIN_PIECE = 0.02; // of the photo; smaller regions are specks, glare or reflections
+
+const luminance = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+// Separable box filter; `pick` averages, or takes the min or max for erosion and dilation
+const filter = (values: Float32Array, width: number, height: number, radius: number, pick: 'mean' | 'min' | 'max') => {
+  const pass = (input: Float32Array, horizontal: boolean) => {
+    const output = new Float32Array(input.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let acc = pick === 'min' ? Infinity : pick === 'max' ? -Infinity : 0;
+        let count = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = horizontal ? x + k : x;
+          const sy = horizontal ? y : y + k;
+          if (sx < 0 || sy < 0 || sx >= width || sy >= height) continue;
+          const value = input[sy * width + sx];
+          if (pick === 'min') acc = Math.min(acc, value);
+          else if (pick === 'max') acc = Math.max(acc, value);
+          else acc += value;
+          count++;
+        }
+        output[y * width + x] = pick === 'mean' ? acc / count : acc;
+      }
+    }
+    return output;
+  };
+  return pass(pass(values, true), false);
+};
+
+// Threshold that best splits the values into a dark and a light group
+const otsuThreshold = (values: Float32Array) => {
+  const histogram = new Array(256).fill(0);
+  values.forEach((value) => histogram[Math.min(255, Math.max(0, Math.round(value)))]++);
+  const total = values.length;
+  const sum = histogram.reduce((acc, count, i) => acc + count * i, 0);
+  let best = 127;
+  let bestVariance = -1;
+  let darkCount = 0;
+  let darkSum = 0;
+  for (let t = 0; t < 256; t++) {
+    darkCount += histogram[t];
+    darkSum += histogram[t] * t;
+    const lightCount = total - darkCount;
+    if (darkCount === 0 || lightCount === 0) continue;
+    const between = darkCount * lightCount * (darkSum / darkCount - (sum - darkSum) / lightCount) ** 2;
+    if (between > bestVariance) {
+      bestVariance = between;
+      best = t;
+    }
+  }
+  return best;
+};
+
+// Twice the signed area, positive when the corners run clockwise on screen
+const signedArea = (quad: Quad) => quad.reduce((acc, p, i) => {
+  const q = quad[(i + 1) % 4];
+  return acc + p.x * q.y - q.x * p.y;
+}, 0);
+
+// Every turn goes the same way, so no corner folds inward
+export const isConvex = (quad: Quad) => quad.every((p, i) => {
+  const q = quad[(i + 1) % 4];
+  const r = quad[(i + 2) % 4];
+  return (q.x - p.x) * (r.y - q.y) - (q.y - p.y) * (r.x - q.x) > 0;
+});
+
+// Corners of one region of the mask: the extremes along both diagonals
+const regionCorners = (points: number[], width: number): Quad => {
+  let tl = points[0], tr = points[0], br = points[0], bl = points[0];
+  const sum = (i: number) => (i % width) + Math.floor(i / width);
+  const diff = (i: number) => (i % width) - Math.floor(i / width);
+  points.forEach((i) => {
+    if (sum(i) < sum(tl)) tl = i;
+    if (sum(i) > sum(br)) br = i;
+    if (diff(i) > diff(tr)) tr = i;
+    if (diff(i) < diff(bl)) bl = i;
+  });
+  return [tl, tr, br, bl].map((i) => ({ x: i % width, y: Math.floor(i / width) })) as Quad;
+};
+
+// Finds the screen or page in a photo, or null when nothing stands out from
+// the background. Both the light and the dark regions are considered, since a
+// dark-mode screen on a light wall is as likely as a white page on a desk.
+export const detectQuad = (pixels: Pixels): Quad | null => {
+  const { width, height, data } = pixels;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) gray[i] = luminance(data, i * 4);
+  const smooth = filter(gray, width, height, 2, 'mean');
+  const threshold = otsuThreshold(smooth);
+  const radius = Math.max(1, Math.round(Math.max(width, height) / 120));
+
+  let best: { quad: Quad; area: number } | null = null;
+  for (const light of [true, false]) {
+    // Closing joins up small gaps in the subject's outline
+    let mask = new Float32Array(smooth.length);
+    smooth.forEach((value, i) => { mask[i] = (value > threshold) === light ? 1 : 0; });
+    mask = filter(filter(mask, width, height, radius, 'max'), width, height, radius, 'min');
+
+    // A screen's own content (a dark header, say) can cut it into pieces, so
+    // every sizeable region that isn't background counts towards the subject
+    const subject: number[] = [];
+    const seen = new Uint8Array(mask.length);
+    for (let start = 0; start < mask.length; start++) {
+      if (!mask[start] || seen[start]) continue;
+      const region: number[] = [];
+      const stack = [start];
+      seen[start] = 1;
+      let borders = 0;
+      while (stack.length > 0) {
+        const i = stack.pop()!;
+        region.push(i);
+        const x = i % width;
+        const y = Math.floor(i / width);
+        if (x === 0) borders |= 1;
+        if (x === width - 1) borders |= 2;
+        if (y === 0) borders |= 4;
+        if (y === height - 1) borders |= 8;
+        [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, y > 0 ? i - width : -1, y < height - 1 ? i + width : -1]
+          .forEach((j) => {
+            if (j >= 0 && mask[j] && !seen[j]) {
+              seen[j] = 1;
+              stack.push(j);
+            }
+          });
+      }
+      // A region reaching three or four edges is the background around the subject
+      const edgeCount = [1, 2, 4, 8].filter((bit) => borders & bit).length;
+      if (edgeCount < 3 && region.length >= MIN_PIECE * mask.length) region.forEach((i) => subject.push(i));
+    }
+    if (subject.length === 0) continue;
+    const quad = regionCorners(subject, width);
+    const area = signedArea(quad) / 2;
+    if (isConvex(quad) && area >= MIN_AREA * width * height && (!best || area > best.area)) best = { quad, area };
+  }
+  if (!best) return null;
+  return best.quad.map((p) => ({ x: p.x / (width - 1), y: p.y / (height - 1) })) as Quad;
+};
+
+// Projective map from the unit square onto a quad (tl, tr, br, bl)
+const squareToQuad = ([p0, p1, p2, p3]: Quad) => {
+  const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y, dy3 = p0.y - p1.y + p2.y - p3.y;
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = det === 0 ? 0 : (dx3 * dy2 - dx2 * dy3) / det;
+  const h = det === 0 ? 0 : (dx1 * dy3 - dx3 * dy1) / det;
+  const a = p1.x - p0.x + g * p1.x, b = p3.x - p0.x + h * p3.x;
+  const d = p1.y - p0.y + g * p1.y, e = p3.y - p0.y + h * p3.y;
+  return (u: number, v: number): Point => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + p0.x) / w, y: (d * u + e * v + p0.y) / w };
+  };
+};
+
+const distance = (p: Point, q: Point) => Math.hypot(p.x - q.x, p.y - q.y);
+
+// Size of the straightened image: the longer of each pair of opposite sides
+export const quadSize = (quad: Quad, width: number, height: number) => {
+  const [tl, tr, br, bl] = quad.map((p) => ({ x: p.x * width, y: p.y * height }));
+  const outWidth = Math.max(distance(tl, tr), distance(bl, br));
+  const outHeight = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, MAX_OUTPUT / Math.max(outWidth, outHeight));
+  return { width: Math.max(1, Math.round(outWidth * scale)), height: Math.max(1, Math.round(outHeight * scale)) };
+};
+
+// Maps the quad onto an upright width × height rectangle, sampling bilinearly
+export const warpQuad = (source: Pixels, quad: Quad, width: number, height: number) => {
+  const map = squareToQuad(quad.map((p) => ({ x: p.x * (source.width - 1), y: p.y * (source.height - 1) })) as Quad);
+  const output = new Uint8ClampedArray(width * height * 4);
+  const { data } = source;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = map((x + 0.5) / width, (y + 0.5) / height);
+      const sx = Math.min(source.width - 1, Math.max(0, p.x));
+      const sy = Math.min(source.height - 1, Math.max(0, p.y));
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      const x1 = Math.min(source.width - 1, x0 + 1), y1 = Math.min(source.height - 1, y0 + 1);
+      const fx = sx - x0, fy = sy - y0;
+      const i00 = (y0 * source.width + x0) * 4, i10 = (y0 * source.width + x1) * 4;
+      const i01 = (y1 * source.width + x0) * 4, i11 = (y1 * source.width + x1) * 4;
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = data[i00 + c] * (1 - fx) + data[i10 + c] * fx;
+        const bottom = data[i01 + c] * (1 - fx) + data[i11 + c] * fx;
+        output[o + c] = top * (1 - fy) + bottom * fy;
+      }
+      output[o + 3] = 255;
+    }
+  }
+  return output;
+};
+
+// Stretches the levels so the darkest 1% becomes black and the lightest 1%
+// white. The same curve is applied to every channel, so hues are kept.
+export const normalizeContrast = (pixels: Pixels) => {
+  const { data } = pixels;
+  const histogram = new Array(256).fill(0);
+  const count = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) histogram[Math.round(luminance(data, i))]++;
+  const percentile = (fraction: number) => {
+    let acc = 0;
+    for (let level = 0; level < 256; level++) {
+      acc += histogram[level];
+      if (acc >= fraction * count) return level;
+    }
+    return 255;
+  };
+  const low = percentile(0.01);
+  const high = percentile(0.99);
+  if (high - low < 16) return; // a flat image has nothing to stretch
+  const scale = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) data[i + c] = (data[i + c] - low) * scale;
+  }
+};
+
+const readPixels = (img: HTMLImageElement, maxSize: number) => {
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas isn't available in this browser");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return { canvas, ctx, pixels: ctx.getImageData(0, 0, canvas.width, canvas.height) };
+};
+
+// The photo's screen or page, searched for on a small copy
+export const detectDocument = async (dataUrl: string): Promise<Quad | null> => {
+  const img = await loadImage(dataUrl);
+  return detectQuad(readPixels(img, DETECT_SIZE).pixels);
+};
+
+export interface ScanOptions {
+  quad: Quad | null; // null keeps the whole photo
+  enhance: boolean;
+}
+
+export const scanDocument = async (dataUrl: string, { quad, enhance }: ScanOptions): Promise<{ image: string; width: number; height: number }> => {
+  const img = await loadImage(dataUrl);
+  const { canvas, ctx, pixels } = readPixels(img, Infinity);
+  let result = pixels;
+  if (quad) {
+    const size = quadSize(quad, pixels.width, pixels.height);
+    result = new ImageData(warpQuad(pixels, quad, size.width, size.height), size.width, size.height);
+    canvas.width = size.width;
+    canvas.height = size.height;
+  }
+  if (enhance) normalizeContrast(result);
+  ctx.putImageData(result, 0, 0);
+  return { image: canvas.toDataURL('image/jpeg', 0.92), width: canvas.width, height: canvas.height };
+};
@@ -0,0 +1,71 @@
+// Canvas helpers for working with the data URLs produced by InputSection/CameraCapture
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = src;
+  });
+
+// Downscales an image so its longest side is at most maxSize, re-encoded as JPEG
+export const createThumbnail = async (dataUrl: string, maxSize = 800, quality = 0.8): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return dataUrl;
+  // JPEG has no alpha, so flatten transparent screenshots onto white
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+// Canvas output keeps JPEGs as JPEG; everything else becomes PNG
+const outputType = (dataUrl: string) => (dataUrl.startsWith('data:image/jpeg') ? 'image/jpeg' : 'image/png');
+
+const getContext = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas isn't available in this browser");
+  return ctx;
+};
+
+// Turns an image clockwise by a number of quarter turns
+export const rotateImage = async (dataUrl: string, quarterTurns: number): Promise<string> => {
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  if (turns === 0) return dataUrl;
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = turns % 2 ? img.naturalHeight : img.naturalWidth;
+  canvas.height = turns % 2 ? img.naturalWidth : img.naturalHeight;
+
+  const ctx = getContext(canvas);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((turns * Math.PI) / 2);
+  ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+  return canvas.toDataURL(outputType(dataUrl), 0.92);
+};
+
+// A region as fractions (0-1) of the image size, like issue bounding boxes
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const cropImage = async (dataUrl: string, rect: CropRect): Promise<{ image: string; width: number; height: number }> => {
+  const img = await loadImage(dataUrl);
+  const left = Math.round(rect.x * img.naturalWidth);
+  const top = Math.round(rect.y * img.naturalHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.min(img.naturalWidth - left, Math.round(rect.width * img.naturalWidth)));
+  canvas.height = Math.max(1, Math.min(img.naturalHeight - top, Math.round(rect.height * img.naturalHeight)));
+
+  getContext(canvas).drawImage(img, left, top, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+  return { image: canvas.toDataURL(outputType(dataUrl), 0.92), width: canvas.width, height: canvas.height };
+};
@@ -0,0 +1,43 @@
+import { DesignCritique, IssueSeverity, PreviousRevision } from '../types';
+
+export const SEVERITY_LABELS: Record<IssueSeverity, string> = {
+  critical: 'Critical',
+  major: 'Major',
+  minor: 'Minor',
+};
+
+// Hotspot marker, region outline and list chip colours per severity
+export const SEVERITY_STYLES: Record<IssueSeverity, { marker: string; region: string; chip: string }> = {
+  critical: {
+    marker: 'bg-rose-600 text-white',
+    region: 'border-rose-500 bg-rose-500/15',
+    chip: 'bg-rose-50 text-rose-700 dark:bg-rose-900/40 dark:text-rose-300',
+  },
+  major: {
+    marker: 'bg-amber-500 text-white',
+    region: 'border-amber-500 bg-amber-500/15',
+    chip: 'bg-amber-50 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  },
+  minor: {
+    marker: 'bg-sky-500 text-white',
+    region: 'border-sky-500 bg-sky-500/15',
+    chip: 'bg-sky-50 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300',
+  },
+};
+
+// Models occasionally overshoot the image edge; keep boxes inside it
+export const clampBox = ({ x, y, width, height }: { x: number; y: number; width: number; height: number }) => {
+  const left = Math.min(Math.max(x, 0), 1);
+  const top = Math.min(Math.max(y, 0), 1);
+  return {
+    left: `${left * 100}%`,
+    top: `${top * 100}%`,
+    width: `${Math.min(width, 1 - left) * 100}%`,
+    height: `${Math.min(height, 1 - top) * 100}%`,
+  };
+};
+
+// What a revision is checked against: the pinned issues, with their severity
+// and location, or the improvement list for critiques saved before those existed
+export const previousIssues = (critique: DesignCritique): PreviousRevision['issues'] =>
+  critique.issues && critique.issues.length > 0 ? critique.issues : critique.improvements;
@@ -0,0 +1,38 @@
+import { MetricKey, Rubric, RubricDimension } from '../types';
+
+// What charts and tables need to know about a score dimension
+export type MetricAxis = Pick<RubricDimension, 'key' | 'label'>;
+
+// The server's default rubric. Analyses saved before rubrics existed were
+// scored on these, so they are used whenever no rubric is known.
+export const DEFAULT_AXES: MetricAxis[] = [
+  { key: 'infoArchitecture', label: 'Information Architecture' },
+  { key: 'visualHierarchy', label: 'Visual Hierarchy' },
+  { key: 'layoutSpacing', label: 'Layout & Spacing' },
+  { key: 'accessibility', label: 'Accessibility' },
+  { key: 'usability', label: 'Usability' },
+];
+
+export const axesOf = (rubric?: Rubric): MetricAxis[] => rubric?.dimensions ?? DEFAULT_AXES;
+
+export const axisLabel = (axes: MetricAxis[], key: MetricKey) =>
+  axes.find((axis) => axis.key === key)?.label ?? key;
+
+// "+1.5", "-2" or "0"
+export const formatDelta = (delta: number) => {
+  const rounded = Math.round(delta * 10) / 10;
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+};
+
+export const deltaClass = (delta: number) => {
+  if (delta > 0) return 'text-emerald-600 dark:text-emerald-400';
+  if (delta < 0) return 'text-rose-600 dark:text-rose-400';
+  return 'text-slate-400';
+};
+
+// Badge colours for a 0-100 overall score
+export const scoreBadgeClass = (score: number) => {
+  if (score >= 75) return 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300';
+  if (score >= 50) return 'bg-amber-50 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300';
+  return 'bg-rose-50 text-rose-600 dark:bg-rose-900/40 dark:text-rose-300';
+};
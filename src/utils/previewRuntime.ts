@@ -0,0 +1,223 @@
+import React from 'react';
+import { fetchPreviewAssets } from '../services/geminiService';
+import { readTailwindConfig } from './designTokens';
+
+// Turns a generated page into one the preview can render without fetching
+// anything. The system prompt has the model load Tailwind, Google Fonts and
+// Lucide from CDNs; here the Tailwind classes are compiled by the server and
+// inlined, Lucide placeholders become inline SVGs, Google Fonts fall back to
+// locally installed fonts and other remote resources are dropped.
+//
+// A Content-Security-Policy stops the page from loading resources, but it
+// can't stop a script from navigating the frame to a URL carrying data out.
+// So the page's own scripts, inline event handlers and `javascript:` URLs are
+// removed, and only scripts the app adds with the preview's nonce (the
+// accessibility audit) run. Interactions the model scripted don't work in the
+// preview; links the user clicks still navigate the frame.
+
+export const previewCsp = (nonce: string) => [
+  "default-src 'none'",
+  `script-src 'nonce-${nonce}'`,
+  "style-src 'unsafe-inline'",
+  'img-src data: blob:',
+  'font-src data:',
+  'media-src data: blob:',
+  "form-action 'none'",
+  "base-uri 'none'",
+].join('; ');
+
+export interface OfflinePreview {
+  html: string; // ready for a sandboxed srcdoc
+  nonce: string; // scripts added to `html` need it to run
+  css: string; // the compiled Tailwind CSS on its own
+  blocked: string[]; // remote URLs the page referenced that the preview leaves out
+  missingIcons: string[]; // Lucide names the bundled icon set doesn't have
+  warnings: string[];
+}
+
+const MAX_CACHED = 20;
+const isRemote = (url: string | null) => !!url && /^(https?:)?\/\//i.test(url.trim());
+
+// Neutral stand-in for remote images, so the layout keeps its shape
+const IMAGE_PLACEHOLDER = `data:image/svg+xml,${encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 48 48" preserveAspectRatio="xMidYMid slice">' +
+  '<rect width="48" height="48" fill="#e2e8f0"/>' +
+  '<path d="M14 32l7-9 5 6 4-4 4 7z" fill="#94a3b8"/><circle cx="30" cy="18" r="3" fill="#94a3b8"/></svg>'
+)}`;
+
+// Attributes a `javascript:` URL runs from when clicked or submitted
+const URL_ATTRIBUTES = ['href', 'xlink:href', 'src', 'action', 'formaction'];
+
+const plural = (count: number, one: string, many: string) => `${count} ${count === 1 ? one : many}`;
+
+// "family=Inter:wght@400;700&family=DM+Sans" -> ["Inter", "DM Sans"]
+const googleFontFamilies = (href: string): string[] => {
+  try {
+    return new URL(href, 'https://fonts.googleapis.com').searchParams.getAll('family')
+      .flatMap((value) => value.split('|'))
+      .map((value) => value.split(':')[0].trim())
+      .filter(Boolean);
+  } catch {
+    return [];
+  }
+};
+
+// Uses the font when it's installed; otherwise the page's font stack moves on
+const localFontFaces = (families: string[]) => families
+  .map((family) => `@font-face { font-family: ${JSON.stringify(family)}; src: local(${JSON.stringify(family)}); font-weight: 100 900; }`)
+  .join('\n');
+
+export const buildOfflinePreview = async (html: string): Promise<OfflinePreview> => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const blocked = new Set<string>();
+  const fontFamilies = new Set<string>();
+
+  // Tailwind: the last `tailwind.config = {...}` wins, as it does in the browser
+  let config: Record<string, unknown> | null = null;
+  doc.querySelectorAll('script:not([src])').forEach((script) => {
+    const source = script.textContent || '';
+    if (!/tailwind\.config\s*=/.test(source)) return;
+    config = readTailwindConfig(source) ?? config;
+    script.remove();
+  });
+  const tailwindCss = Array.from(doc.querySelectorAll('style[type="text/tailwindcss"]'))
+    .map((style) => {
+      style.remove();
+      return style.textContent || '';
+    })
+    .join('\n');
+
+  doc.querySelectorAll('link[href*="fonts.googleapis.com"]').forEach((link) => {
+    googleFontFamilies(link.getAttribute('href')!).forEach((family) => fontFamilies.add(family));
+    link.remove();
+  });
+  doc.querySelectorAll('style').forEach((style) => {
+    style.textContent = (style.textContent || '').replace(/@import\s+(?:url\()?\s*['"]?([^'")\s;]+)['"]?\s*\)?[^;]*;/g, (_, url: string) => {
+      if (/fonts\.googleapis\.com/.test(url)) googleFontFamilies(url).forEach((family) => fontFamilies.add(family));
+      else if (isRemote(url)) blocked.add(url);
+      return '';
+    });
+  });
+
+  // Everything else remote: CDN scripts are expected and go quietly, the rest is reported
+  doc.querySelectorAll('script[src], link[href], base, meta[http-equiv="refresh" i]').forEach((el) => {
+    const url = el.getAttribute('src') ?? el.getAttribute('href');
+    const rel = (el.getAttribute('rel') || '').toLowerCase();
+    if (el.localName === 'link' && !isRemote(url)) return;
+    const expected = /cdn\.tailwindcss\.com|lucide/.test(url || '') || /preconnect|dns-prefetch|prefetch|preload/.test(rel);
+    if (isRemote(url) && !expected) blocked.add(url!);
+    el.remove();
+  });
+  doc.querySelectorAll('img[src], source[src], video[src], audio[src], iframe[src], video[poster]').forEach((el) => {
+    ['src', 'poster'].forEach((attribute) => {
+      const url = el.getAttribute(attribute);
+      if (!isRemote(url)) return;
+      blocked.add(url!);
+      if (el.localName === 'img') el.setAttribute(attribute, IMAGE_PLACEHOLDER);
+      else el.removeAttribute(attribute);
+    });
+  });
+  doc.querySelectorAll('img[srcset], source[srcset]').forEach((el) => el.removeAttribute('srcset'));
+
+  // Scripts could send the page's contents anywhere by navigating, so none of the model's run
+  const scripts = doc.querySelectorAll('script');
+  scripts.forEach((script) => script.remove());
+  let handlers = 0;
+  doc.querySelectorAll('*').forEach((el) => {
+    el.getAttributeNames().forEach((attribute) => {
+      const value = el.getAttribute(attribute) || '';
+      const isScriptUrl = URL_ATTRIBUTES.includes(attribute) && /^\s*javascript:/i.test(value);
+      if (attribute.startsWith('on') || attribute === 'srcdoc' || isScriptUrl) {
+        el.removeAttribute(attribute);
+        handlers++;
+      }
+    });
+  });
+  const removed = [
+    scripts.length > 0 ? plural(scripts.length, 'script', 'scripts') : '',
+    handlers > 0 ? plural(handlers, 'inline event handler', 'inline event handlers') : '',
+  ].filter(Boolean);
+  const scriptWarning = removed.length > 0
+    ? `${removed.join(' and ')} removed from the preview, so scripted interactions won't work. Downloads keep them.`
+    : null;
+
+  const iconElements = Array.from(doc.querySelectorAll('[data-lucide]'));
+  const assets = await fetchPreviewAssets({
+    html: doc.documentElement.outerHTML,
+    config,
+    css: tailwindCss,
+    icons: [...new Set(iconElements.map((el) => el.getAttribute('data-lucide')!.trim().toLowerCase()))]
+      .filter((name) => /^[a-z0-9]+(-[a-z0-9]+)*$/.test(name)),
+  });
+
+  // Same result as Lucide's createIcons(): the placeholder's attributes carry over
+  iconElements.forEach((el) => {
+    const name = el.getAttribute('data-lucide')!.trim().toLowerCase();
+    if (!assets.icons[name]) return;
+    const template = doc.createElement('template');
+    template.innerHTML = assets.icons[name];
+    const svg = template.content.firstElementChild;
+    if (!svg) return;
+    Array.from(el.attributes).forEach((attribute) => {
+      if (attribute.name !== 'class') svg.setAttribute(attribute.name, attribute.value);
+    });
+    svg.setAttribute('class', ['lucide', `lucide-${name}`, el.getAttribute('class') || ''].join(' ').trim());
+    el.replaceWith(svg);
+  });
+
+  const head = doc.head;
+  const nonce = crypto.randomUUID();
+  const csp = doc.createElement('meta');
+  csp.setAttribute('http-equiv', 'Content-Security-Policy');
+  csp.setAttribute('content', previewCsp(nonce));
+  head.prepend(csp);
+  // After the page's own styles, where the Tailwind CDN would have put its sheet
+  const styles = doc.createElement('style');
+  styles.textContent = [localFontFaces([...fontFamilies]), assets.css].filter(Boolean).join('\n');
+  head.append(styles);
+
+  return {
+    html: `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`,
+    nonce,
+    css: assets.css,
+    blocked: [...blocked],
+    missingIcons: assets.missingIcons,
+    warnings: scriptWarning ? [scriptWarning, ...assets.warnings] : assets.warnings,
+  };
+};
+
+// Previews are rebuilt as the user moves between versions; keep recent ones
+const cache = new Map<string, Promise<OfflinePreview>>();
+
+export const getOfflinePreview = (html: string): Promise<OfflinePreview> => {
+  const cached = cache.get(html);
+  if (cached) return cached;
+  const pending = buildOfflinePreview(html);
+  pending.catch(() => cache.delete(html));
+  cache.set(html, pending);
+  if (cache.size > MAX_CACHED) cache.delete(cache.keys().next().value!);
+  return pending;
+};
+
+// The offline preview for `html`, or the error building it failed with;
+// both are null while it's being built
+export const useOfflinePreview = (html: string | undefined) => {
+  const [state, setState] = React.useState<{ html?: string; preview: OfflinePreview | null; error: string | null }>({ preview: null, error: null });
+  const [attempt, setAttempt] = React.useState(0);
+
+  React.useEffect(() => {
+    if (html === undefined) return;
+    let cancelled = false;
+    getOfflinePreview(html).then(
+      (preview) => { if (!cancelled) setState({ html, preview, error: null }); },
+      (error: any) => { if (!cancelled) setState({ html, preview: null, error: error.message || 'The preview could not be built.' }); }
+    );
+    return () => { cancelled = true; };
+  }, [html, attempt]);
+
+  const retry = () => {
+    setState({ preview: null, error: null });
+    setAttempt((n) => n + 1);
+  };
+  return state.html === html ? { preview: state.preview, error: state.error, retry } : { preview: null, error: null, retry };
+};
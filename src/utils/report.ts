@@ -0,0 +1,331 @@
+import { createElement } from 'react';
+import ReactMarkdown from 'react-markdown';
+import RadarChart from '../components/RadarChart';
+import {
+  BreakpointShot,
+  ChatMessage,
+  ContrastReport,
+  DesignComparison,
+  DesignContext,
+  DesignCritique,
+  DesignJourney,
+  DesignScore,
+  DesignSystem,
+  DesignVariant,
+  JourneyScreen,
+  OffPaletteColor,
+  Persona,
+  ReportExport,
+  Rubric,
+} from '../types';
+import { MetricAxis, axesOf, axisLabel } from './metrics';
+import { SEVERITY_LABELS } from './issues';
+
+// Critique exports for design review tickets: a self-contained HTML report
+// (also printed to PDF), the raw markdown, and a JSON document.
+
+export interface ReportInput {
+  context: DesignContext;
+  scores: DesignScore | null;
+  rubric?: Rubric;
+  personas?: Persona[];
+  designSystem?: DesignSystem;
+  offPalette?: OffPaletteColor[]; // measured colours outside designSystem's palette
+  markdown: string; // the critique as shown on the result page
+  image: string | null;
+  critique?: DesignCritique;
+  contrast?: ContrastReport;
+  variants?: DesignVariant[];
+  comparison?: DesignComparison;
+  screens?: JourneyScreen[];
+  journey?: DesignJourney;
+  revision?: number;
+  breakpointShots?: BreakpointShot[]; // generated designs from the preview's device lab; HTML/PDF only
+  transcript: ChatMessage[]; // follow-up chat, without the greeting
+}
+
+export type ReportFormat = 'pdf' | 'html' | 'markdown' | 'json';
+
+const modeOf = (input: ReportInput): ReportExport['mode'] =>
+  input.variants ? 'comparison' : input.screens ? 'journey' : 'critique';
+
+export const reportFileName = (input: ReportInput, extension: string) =>
+  `designcat-${modeOf(input)}-report-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+// --- JSON ---
+
+export const buildReportJson = (input: ReportInput): ReportExport => ({
+  format: 'designcat-report',
+  version: 1,
+  exportedAt: new Date().toISOString(),
+  mode: modeOf(input),
+  context: input.context,
+  scores: input.scores,
+  rubric: input.rubric,
+  personas: input.personas,
+  designSystem: input.designSystem,
+  offPalette: input.designSystem ? input.offPalette : undefined,
+  revision: input.revision,
+  critique: input.critique,
+  issues: input.critique?.issues ?? [],
+  contrast: input.contrast,
+  comparison: input.comparison,
+  journey: input.journey,
+  transcript: input.transcript,
+});
+
+// --- Markdown ---
+
+const PERSPECTIVES_HEADING = '# 360° Perspective Analysis';
+
+// Shown as tabs on the result page, so not part of its markdown. Analyses
+// saved before personas existed already have it.
+const perspectivesMarkdown = (input: ReportInput) => {
+  const perspectives = input.critique?.perspectives ?? {};
+  const ids = Object.keys(perspectives).filter((id) => perspectives[id]);
+  if (ids.length === 0 || input.markdown.includes(PERSPECTIVES_HEADING)) return '';
+  const nameOf = (id: string) => input.personas?.find((persona) => persona.id === id)?.name ?? id;
+  return [PERSPECTIVES_HEADING, ...ids.map((id) => `## ${nameOf(id)}\n\n${perspectives[id].trim()}`)].join('\n\n');
+};
+
+const issuesMarkdown = (input: ReportInput) => {
+  const issues = input.critique?.issues ?? [];
+  if (issues.length === 0) return '';
+  const axes = axesOf(input.rubric);
+  const items = issues.map(
+    (issue, i) => `${i + 1}. **${issue.title}** (${SEVERITY_LABELS[issue.severity]}, ${axisLabel(axes, issue.dimension)}): ${issue.detail}`
+  );
+  return `# Issues Found\n\n${items.join('\n')}`;
+};
+
+const CONFORMANCE_KIND_LABELS = { color: 'Colour', spacing: 'Spacing', typography: 'Type', radius: 'Radius' };
+
+// Also shown in its own panel on the result page
+const conformanceMarkdown = (input: ReportInput) => {
+  const conformance = input.critique?.conformance;
+  if (!input.designSystem || !conformance) return '';
+  const measured = (input.offPalette ?? []).map((color) =>
+    `- \`${color.hex}\` (${color.usage}, ${Math.round(color.share * 100)}%)${color.nearest ? `, nearest token ${color.nearest.name} \`${color.nearest.hex}\`` : ''}`
+  );
+  const findings = conformance.findings.map((finding) =>
+    `- **${CONFORMANCE_KIND_LABELS[finding.kind]}:** ${finding.observed} → ${finding.expected}. ${finding.detail}`
+  );
+  return [
+    `# Design System Conformance\n\nChecked against **${input.designSystem.name}**. ${conformance.summary.trim()}`,
+    measured.length > 0 ? `Measured off-palette colours:\n\n${measured.join('\n')}` : '',
+    findings.join('\n'),
+  ].filter(Boolean).join('\n\n');
+};
+
+export const buildReportMarkdown = (input: ReportInput) => {
+  const blocks = [input.markdown.trim(), perspectivesMarkdown(input), issuesMarkdown(input), conformanceMarkdown(input)];
+  if (input.transcript.length > 0) {
+    const turns = input.transcript.map((turn) => `**${turn.role === 'user' ? 'You' : 'DesignCat'}:** ${turn.text.trim()}`);
+    blocks.push(`# Follow-up Chat\n\n${turns.join('\n\n')}`);
+  }
+  return `${blocks.filter(Boolean).join('\n\n')}\n`;
+};
+
+// --- HTML / PDF ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The report has no Tailwind, so the classes RadarChart uses are restated here
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.6 -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1e293b; background: #fff; }
+  main { max-width: 860px; margin: 0 auto; padding: 40px 32px; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; gap: 24px; border-bottom: 2px solid #e2e8f0; padding-bottom: 16px; margin-bottom: 24px; }
+  header h1 { margin: 0; font-size: 26px; color: #0f172a; }
+  header p { margin: 4px 0 0; color: #64748b; font-size: 12px; }
+  .score { flex-shrink: 0; width: 88px; height: 88px; border-radius: 50%; background: #fff1f2; border: 1px solid #ffe4e6; display: flex; align-items: center; justify-content: center; font-size: 34px; font-weight: 700; color: #e11d48; }
+  .overview { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; align-items: center; margin-bottom: 24px; page-break-inside: avoid; }
+  .shots { display: flex; flex-wrap: wrap; gap: 12px; }
+  figure { margin: 0; }
+  figure img { max-width: 100%; max-height: 360px; border: 1px solid #e2e8f0; border-radius: 8px; display: block; }
+  figcaption { font-size: 12px; color: #64748b; margin-top: 4px; }
+  .shots figure { flex: 1 1 160px; }
+  .shots figure img { max-height: 220px; }
+  .breakpoints { display: flex; gap: 12px; align-items: flex-start; margin-bottom: 16px; }
+  .breakpoints figure { flex-basis: 0; min-width: 0; }
+  .breakpoints figure img { width: 100%; max-height: 420px; object-fit: cover; object-position: top; }
+  section > h2 { font-size: 14px; margin: 16px 0 8px; color: #0f172a; }
+  .radar { max-width: 340px; margin: 0 auto; }
+  dl.metrics { display: grid; grid-template-columns: repeat(auto-fit, minmax(120px, 1fr)); gap: 8px; margin: 0 0 24px; }
+  dl.metrics div { border: 1px solid #e2e8f0; border-radius: 8px; padding: 8px; text-align: center; }
+  dl.metrics dt { font-size: 11px; color: #64748b; }
+  dl.metrics dd { margin: 0; font-size: 18px; font-weight: 700; }
+  .context { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px 16px; margin-bottom: 24px; }
+  .context h2 { margin: 0 0 4px; font-size: 12px; text-transform: uppercase; letter-spacing: .05em; color: #64748b; }
+  article h1 { font-size: 20px; color: #4f46e5; margin: 28px 0 8px; }
+  article h2 { font-size: 16px; border-left: 4px solid #6366f1; padding-left: 10px; margin: 20px 0 8px; }
+  section { page-break-inside: avoid; }
+  section > h1 { font-size: 20px; color: #4f46e5; margin: 28px 0 8px; }
+  .issue { border: 1px solid #e2e8f0; border-radius: 8px; padding: 8px 12px; margin-bottom: 8px; }
+  .issue strong { color: #0f172a; }
+  .tag { display: inline-block; font-size: 11px; font-weight: 700; border-radius: 4px; padding: 0 6px; margin-right: 4px; background: #f1f5f9; color: #475569; }
+  .tag.critical { background: #ffe4e6; color: #be123c; }
+  .tag.major { background: #fef3c7; color: #b45309; }
+  .swatch { display: inline-block; width: 40px; text-align: center; border-radius: 4px; border: 1px solid #e2e8f0; font-weight: 700; margin-right: 8px; }
+  .fail { color: #e11d48; font-weight: 700; }
+  .pass { color: #059669; font-weight: 700; }
+  .turn { margin-bottom: 12px; }
+  .turn b { display: block; font-size: 12px; color: #64748b; }
+  footer { margin-top: 40px; font-size: 11px; color: #94a3b8; text-align: center; }
+  /* RadarChart */
+  .radar .flex { display: flex; } .radar .flex-col { flex-direction: column; } .radar .items-center { align-items: center; }
+  .radar .mt-2 { margin-top: 8px; } .radar .gap-4 { gap: 16px; } .radar .gap-1\\.5 { gap: 6px; }
+  .radar .text-xs { font-size: 12px; } .radar .font-medium { font-weight: 500; } .radar .text-slate-500 { color: #64748b; }
+  .radar .w-3 { width: 12px; } .radar .h-3 { height: 12px; } .radar .rounded-sm { border-radius: 2px; }
+  .radar .border-2 { border: 2px solid; } .radar .border-dashed { border-style: dashed; }
+  .radar .border-slate-400 { border-color: #94a3b8; } .radar .border-indigo-500 { border-color: #6366f1; } .radar .border-amber-500 { border-color: #f59e0b; }
+  .radar .bg-indigo-500\\/30 { background: rgba(99, 102, 241, .3); } .radar .bg-amber-500\\/30 { background: rgba(245, 158, 11, .3); }
+  .radar .stroke-slate-300 { stroke: #cbd5e1; } .radar .stroke-slate-400 { stroke: #94a3b8; }
+  .radar .fill-indigo-500\\/20 { fill: rgba(99, 102, 241, .2); } .radar .stroke-indigo-500 { stroke: #6366f1; }
+  .radar .fill-amber-500\\/20 { fill: rgba(245, 158, 11, .2); } .radar .stroke-amber-500 { stroke: #f59e0b; }
+  .radar .fill-slate-500 { fill: #64748b; }
+  @media print { main { padding: 0; } @page { margin: 16mm; } }
+`;
+
+type RenderToStaticMarkup = typeof import('react-dom/server').renderToStaticMarkup;
+
+const radarHtml = (render: RenderToStaticMarkup, input: ReportInput) => {
+  const axes = axesOf(input.rubric);
+  if (input.comparison) {
+    const [a, b] = input.comparison.variants;
+    return render(
+      createElement(RadarChart, {
+        metrics: a.scores.metrics,
+        axes,
+        label: input.variants?.[0]?.label || 'Variant A',
+        overlay: { metrics: b.scores.metrics, label: input.variants?.[1]?.label || 'Variant B' },
+      })
+    );
+  }
+  return input.scores ? render(createElement(RadarChart, { metrics: input.scores.metrics, axes, label: 'Design' })) : '';
+};
+
+const screenshotsHtml = (input: ReportInput) => {
+  const shots: { image: string; caption: string }[] = input.variants
+    ? input.variants.map((variant, i) => ({ image: variant.image, caption: variant.label || `Variant ${'AB'[i]}` }))
+    : input.screens
+      ? input.screens.map((screen, i) => ({ image: screen.image, caption: screen.label ? `Step ${i + 1}: ${screen.label}` : `Step ${i + 1}` }))
+      : input.image
+        ? [{ image: input.image, caption: '' }]
+        : [];
+  if (shots.length === 0) return '';
+  const figures = shots
+    .map(({ image, caption }) => `<figure><img src="${escapeHtml(image)}" alt="${escapeHtml(caption || 'Analyzed design')}">${caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : ''}</figure>`)
+    .join('');
+  return shots.length > 1 ? `<div class="shots">${figures}</div>` : figures;
+};
+
+const metricsHtml = (scores: DesignScore | null, axes: MetricAxis[]) =>
+  scores
+    ? `<dl class="metrics">${axes.map(({ key, label }) => `<div><dt>${escapeHtml(label)}</dt><dd>${scores.metrics[key] ?? '–'}</dd></div>`).join('')}</dl>`
+    : '';
+
+const issuesHtml = (input: ReportInput) => {
+  const issues = input.critique?.issues ?? [];
+  if (issues.length === 0) return '';
+  const axes = axesOf(input.rubric);
+  const items = issues
+    .map(
+      (issue, i) =>
+        `<div class="issue"><strong>${i + 1}. ${escapeHtml(issue.title)}</strong><br><span class="tag ${issue.severity}">${SEVERITY_LABELS[issue.severity]}</span><span class="tag">${escapeHtml(axisLabel(axes, issue.dimension))}</span> ${escapeHtml(issue.detail)}</div>`
+    )
+    .join('');
+  return `<section><h1>Issues Found</h1>${items}</section>`;
+};
+
+const contrastHtml = (contrast?: ContrastReport) => {
+  if (!contrast || contrast.pairs.length === 0) return '';
+  const rows = contrast.pairs
+    .map(
+      (pair) =>
+        `<div><span class="swatch" style="color:${pair.foreground};background:${pair.background}">Aa</span>${pair.foreground} / ${pair.background} · <strong>${pair.ratio.toFixed(2)}:1</strong> · <span class="${pair.aa ? 'pass' : 'fail'}">AA ${pair.aa ? 'pass' : 'fail'}</span></div>`
+    )
+    .join('');
+  return `<section><h1>Measured Contrast</h1>${rows}</section>`;
+};
+
+// Each version's screenshots side by side, as wide relative to each other as their breakpoints
+const breakpointsHtml = (shots?: BreakpointShot[]) => {
+  if (!shots || shots.length === 0) return '';
+  const versions = [...new Set(shots.map((shot) => shot.version))];
+  const groups = versions.map((version) => {
+    const figures = shots
+      .filter((shot) => shot.version === version)
+      .map((shot) => {
+        const caption = `${shot.label} · ${shot.width}×${shot.height}${shot.truncated ? ' (cut off)' : ''}`;
+        return `<figure style="flex-grow: ${shot.width}"><img src="${escapeHtml(shot.image)}" alt="${escapeHtml(`Version ${version} at ${shot.label}`)}"><figcaption>${escapeHtml(caption)}</figcaption></figure>`;
+      })
+      .join('');
+    return `<h2>Version ${version}</h2><div class="breakpoints">${figures}</div>`;
+  });
+  return `<section><h1>Responsive Breakpoints</h1>${groups.join('')}</section>`;
+};
+
+const transcriptHtml = (render: RenderToStaticMarkup, transcript: ChatMessage[]) => {
+  if (transcript.length === 0) return '';
+  const turns = transcript
+    .map((turn) => `<div class="turn"><b>${turn.role === 'user' ? 'You' : 'DesignCat'}</b>${render(createElement(ReactMarkdown, null, turn.text))}</div>`)
+    .join('');
+  return `<section><h1>Follow-up Chat</h1>${turns}</section>`;
+};
+
+const TITLES: Record<ReportExport['mode'], string> = {
+  critique: 'Design Critique',
+  comparison: 'Design Comparison',
+  journey: 'User Journey Critique',
+};
+
+// `print` opens the browser's print dialog once the report has loaded, to save it as PDF
+export const buildReportHtml = async (input: ReportInput, { print = false } = {}) => {
+  // Only needed for exports, so kept out of the main bundle
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const mode = modeOf(input);
+  const perspectives = perspectivesMarkdown(input);
+  const conformance = conformanceMarkdown(input);
+  const revision = input.revision && input.revision > 1 ? ` · Revision ${input.revision}` : '';
+  const context = input.context.userContext.trim()
+    ? `<div class="context"><h2>Context</h2>${escapeHtml(input.context.userContext.trim())}</div>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${TITLES[mode]} Report</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+  <div>
+    <h1>${TITLES[mode]}</h1>
+    <p>Generated ${escapeHtml(new Date().toLocaleString())}${revision}${input.rubric ? ` · Rubric: ${escapeHtml(input.rubric.name)}` : ''}${input.scores ? ` · Confidence: ${input.scores.confidence}` : ''}</p>
+  </div>
+  ${input.scores ? `<div class="score">${input.scores.overallScore}</div>` : ''}
+</header>
+${context}
+<div class="overview">
+  <div>${screenshotsHtml(input)}</div>
+  <div class="radar">${radarHtml(renderToStaticMarkup, input)}</div>
+</div>
+${mode === 'comparison' ? '' : metricsHtml(input.scores, axesOf(input.rubric))}
+<article>${renderToStaticMarkup(createElement(ReactMarkdown, null, input.markdown))}</article>
+${perspectives ? `<article>${renderToStaticMarkup(createElement(ReactMarkdown, null, perspectives))}</article>` : ''}
+${issuesHtml(input)}
+${conformance ? `<section>${renderToStaticMarkup(createElement(ReactMarkdown, null, conformance))}</section>` : ''}
+${contrastHtml(input.contrast)}
+${breakpointsHtml(input.breakpointShots)}
+${transcriptHtml(renderToStaticMarkup, input.transcript)}
+<footer>DesignCat</footer>
+</main>
+${print ? '<script>window.addEventListener("load", function () { window.print(); });</script>' : ''}
+</body>
+</html>
+`;
+};